@@ -0,0 +1,43 @@
+import { Command, Flags } from '@oclif/core'
+
+import { ResponseCache } from '../../utills/cache.js'
+import { configFlags, loadConfig } from '../../utills/config.js'
+import { setLocale, t } from '../../utills/i18n.js'
+import logger, { errorJson } from '../../utills/loggers.js'
+
+export default class CacheClear extends Command {
+  static description = 'Hapus response AI yang tersimpan di cache.'
+  static enableJsonFlag = true
+  static examples = [
+    '<%= config.bin %> cache clear',
+    '<%= config.bin %> cache clear --expired',
+  ]
+  static flags = {
+    ...configFlags,
+    expired: Flags.boolean({
+      description: 'Hanya hapus entry yang sudah melewati CACHE_TTL_HOURS',
+    }),
+  }
+
+  async run(): Promise<{ removed: number }> {
+    const { flags } = await this.parse(CacheClear)
+    logger.setJsonMode(this.jsonEnabled())
+
+    try {
+      const config = loadConfig({ profile: flags.profile })
+      setLocale(config.language)
+      const cache = new ResponseCache(config)
+      const removed = flags.expired ? cache.prune() : cache.clear()
+
+      logger.success(t('cache.cleared', { count: removed }))
+      return { removed }
+    } catch (error: unknown) {
+      logger.error((error as Error).message)
+      this.exit(1)
+    }
+  }
+
+  protected toErrorJson(error: unknown): unknown {
+    return errorJson(error)
+  }
+}
@@ -0,0 +1,53 @@
+import { Command } from '@oclif/core'
+import chalk from 'chalk'
+
+import { CacheStats, ResponseCache } from '../../utills/cache.js'
+import { configFlags, loadConfig } from '../../utills/config.js'
+import { setLocale, t } from '../../utills/i18n.js'
+import logger, { errorJson } from '../../utills/loggers.js'
+
+export default class CacheStatsCommand extends Command {
+  static description = 'Tampilkan jumlah entry, ukuran, dan hit rate cache response AI.'
+  static enableJsonFlag = true
+  static examples = [
+    '<%= config.bin %> cache stats',
+    '<%= config.bin %> cache stats --json',
+  ]
+  static flags = {
+    ...configFlags,
+  }
+
+  async run(): Promise<CacheStats> {
+    const { flags } = await this.parse(CacheStatsCommand)
+    logger.setJsonMode(this.jsonEnabled())
+
+    let stats: CacheStats
+    try {
+      const config = loadConfig({ profile: flags.profile })
+      setLocale(config.language)
+      stats = new ResponseCache(config).stats()
+    } catch (error: unknown) {
+      logger.error((error as Error).message)
+      this.exit(1)
+    }
+
+    const lookups = stats.hits + stats.misses
+    const hitRate = lookups > 0 ? `${Math.round((stats.hits / lookups) * 100)}%` : '-'
+
+    logger.info(chalk.cyan(t('cache.title')))
+    logger.info(`${chalk.bold(t('cache.location').padEnd(12))} ${stats.dir}`)
+    logger.info(`${chalk.bold(t('cache.entries').padEnd(12))} ${stats.entries}${stats.expired > 0 ? chalk.gray(t('cache.expired', { count: stats.expired })) : ''}`)
+    logger.info(`${chalk.bold(t('cache.size').padEnd(12))} ${(stats.sizeBytes / 1024 / 1024).toFixed(2)} / ${stats.maxSizeMB} MB`)
+    logger.info(`${chalk.bold(t('cache.ttl').padEnd(12))} ${stats.ttlHours > 0 ? t('cache.ttlHours', { hours: stats.ttlHours }) : t('cache.noTtl')}`)
+    logger.info(`${chalk.bold(t('cache.hitRate').padEnd(12))} ${hitRate} ${chalk.gray(t('cache.hitRateDetail', { hits: stats.hits, misses: stats.misses }))}`)
+    if (stats.oldest && stats.newest) {
+      logger.info(`${chalk.bold(t('cache.range').padEnd(12))} ${stats.oldest} → ${stats.newest}`)
+    }
+
+    return stats
+  }
+
+  protected toErrorJson(error: unknown): unknown {
+    return errorJson(error)
+  }
+}
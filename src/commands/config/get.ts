@@ -0,0 +1,55 @@
+import { Args, Command, Flags } from '@oclif/core'
+
+import { CONFIG_KEYS, CONFIG_SCHEMA, configFlags, ConfigKey, maskSecret, resolveConfig } from '../../utills/config.js'
+import { setLocale, t } from '../../utills/i18n.js'
+import logger, { errorJson } from '../../utills/loggers.js'
+
+export default class ConfigGet extends Command {
+  static args = {
+    key: Args.string({ description: 'Key config', options: CONFIG_KEYS, required: true }),
+  }
+  static description = 'Tampilkan nilai config efektif (setelah digabung dari semua layer).'
+  static enableJsonFlag = true
+  static examples = [
+    '<%= config.bin %> config get provider',
+    '<%= config.bin %> config get geminiApiKey --profile work --reveal',
+    '<%= config.bin %> config get model --json',
+  ]
+  static flags = {
+    ...configFlags,
+    reveal: Flags.boolean({
+      description: 'Tampilkan API key tanpa disamarkan',
+    }),
+  }
+
+  async run() {
+    const { args, flags } = await this.parse(ConfigGet)
+    const key = args.key as ConfigKey
+    logger.setJsonMode(this.jsonEnabled())
+
+    let resolved: ReturnType<typeof resolveConfig>
+    try {
+      resolved = resolveConfig({ profile: flags.profile })
+      setLocale(resolved.config.language)
+    } catch (error: unknown) {
+      logger.error((error as Error).message)
+      this.exit(1)
+    }
+
+    const value = resolved.config[key]
+    if (value === undefined) {
+      logger.warn(t('config.notSet', { key }))
+      this.exit(1)
+    }
+
+    // Nilai mentah lewat this.log supaya bisa dipakai di script: $(aiCli config get provider)
+    const display = CONFIG_SCHEMA[key].secret && !flags.reveal ? maskSecret(String(value)) : value
+    this.log(Array.isArray(display) ? JSON.stringify(display) : String(display))
+
+    return { key, source: resolved.sources[key], value: display }
+  }
+
+  protected toErrorJson(error: unknown): unknown {
+    return errorJson(error)
+  }
+}
@@ -0,0 +1,67 @@
+import { Command, Flags } from '@oclif/core'
+import chalk from 'chalk'
+
+import { CONFIG_KEYS, CONFIG_SCHEMA, configFlags, listProfiles, maskSecret, resolveConfig } from '../../utills/config.js'
+import { setLocale, t } from '../../utills/i18n.js'
+import logger, { errorJson } from '../../utills/loggers.js'
+
+export default class ConfigList extends Command {
+  static description = 'Tampilkan semua config efektif beserta sumbernya, atau daftar profile.'
+  static enableJsonFlag = true
+  static examples = [
+    '<%= config.bin %> config list',
+    '<%= config.bin %> config list --profile work',
+    '<%= config.bin %> config list --profiles',
+    '<%= config.bin %> config list --json',
+  ]
+  static flags = {
+    ...configFlags,
+    profiles: Flags.boolean({
+      description: 'Tampilkan daftar profile yang tersimpan',
+    }),
+  }
+
+  async run() {
+    const { flags } = await this.parse(ConfigList)
+    logger.setJsonMode(this.jsonEnabled())
+
+    try {
+      if (flags.profiles) {
+        const profiles = listProfiles()
+        for (const profile of profiles) {
+          this.log(profile)
+        }
+
+        return { profiles }
+      }
+
+      const { config, profile, sources } = resolveConfig({ profile: flags.profile })
+      const values: Record<string, unknown> = {}
+      setLocale(config.language)
+
+      logger.info(chalk.cyan(t('config.listTitle', { profile })))
+
+      for (const key of CONFIG_KEYS) {
+        const value = config[key]
+        values[key] = CONFIG_SCHEMA[key].secret && value !== undefined ? maskSecret(String(value)) : value
+        const display = value === undefined
+          ? chalk.gray(t('config.notSetLabel'))
+          : chalk.white(CONFIG_SCHEMA[key].secret ? maskSecret(String(value)) : Array.isArray(value) ? JSON.stringify(value) : String(value))
+
+        logger.info(`${chalk.bold(key.padEnd(16))} ${display}`)
+        if (sources[key]) {
+          logger.info(chalk.gray(t('config.source', { description: CONFIG_SCHEMA[key].description, source: sources[key] })))
+        }
+      }
+
+      return { config: values, profile, sources }
+    } catch (error: unknown) {
+      logger.error((error as Error).message)
+      this.exit(1)
+    }
+  }
+
+  protected toErrorJson(error: unknown): unknown {
+    return errorJson(error)
+  }
+}
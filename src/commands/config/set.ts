@@ -0,0 +1,62 @@
+import { Args, Command } from '@oclif/core'
+
+import {
+  CONFIG_KEYS,
+  CONFIG_SCHEMA,
+  configFlags,
+  ConfigKey,
+  parseValue,
+  resolveProfileName,
+  setStoredValue,
+} from '../../utills/config.js'
+import { t } from '../../utills/i18n.js'
+import logger, { errorJson } from '../../utills/loggers.js'
+import { createPrompter, promptFlags } from '../../utills/prompter.js'
+
+export default class ConfigSet extends Command {
+  static args = {
+    key: Args.string({ description: 'Key config', options: CONFIG_KEYS, required: true }),
+    value: Args.string({ description: 'Nilai baru (API key akan ditanyakan jika dikosongkan)' }),
+  }
+  static description = 'Simpan nilai config di ~/.gen-cli untuk profile tertentu. API key disimpan di credentials.json (chmod 600).'
+  static enableJsonFlag = true
+  static examples = [
+    '<%= config.bin %> config set provider ollama',
+    '<%= config.bin %> config set maxFileSizeMB 2',
+    '<%= config.bin %> config set geminiApiKey --profile work',
+  ]
+  static flags = {
+    ...configFlags,
+    ...promptFlags,
+  }
+
+  async run() {
+    const { args, flags } = await this.parse(ConfigSet)
+    const key = args.key as ConfigKey
+    const spec = CONFIG_SCHEMA[key]
+    logger.setJsonMode(this.jsonEnabled())
+    const prompter = createPrompter(flags, this.jsonEnabled())
+
+    try {
+      const profile = resolveProfileName(flags.profile)
+
+      // Secret sebaiknya tidak diketik di argv supaya tidak masuk shell history
+      const raw = args.value ?? (spec.secret
+        ? await prompter.password({ message: `${key}:` })
+        : await prompter.input({ message: `${key}:` }))
+
+      const value = parseValue(key, raw, 'config set')
+      const file = setStoredValue(profile, key, value)
+
+      logger.success(t('config.saved', { file, key, profile }))
+      return { file, key, profile }
+    } catch (error: unknown) {
+      logger.error((error as Error).message)
+      this.exit(1)
+    }
+  }
+
+  protected toErrorJson(error: unknown): unknown {
+    return errorJson(error)
+  }
+}
@@ -0,0 +1,46 @@
+import { Args, Command } from '@oclif/core'
+
+import { CONFIG_KEYS, configFlags, ConfigKey, resolveProfileName, unsetStoredValue } from '../../utills/config.js'
+import { t } from '../../utills/i18n.js'
+import logger, { errorJson } from '../../utills/loggers.js'
+
+export default class ConfigUnset extends Command {
+  static args = {
+    key: Args.string({ description: 'Key config', options: CONFIG_KEYS, required: true }),
+  }
+  static description = 'Hapus nilai config dari profile sehingga kembali ke default/env.'
+  static enableJsonFlag = true
+  static examples = [
+    '<%= config.bin %> config unset model',
+    '<%= config.bin %> config unset openaiApiKey --profile personal',
+  ]
+  static flags = {
+    ...configFlags,
+  }
+
+  async run() {
+    const { args, flags } = await this.parse(ConfigUnset)
+    const key = args.key as ConfigKey
+    logger.setJsonMode(this.jsonEnabled())
+
+    try {
+      const profile = resolveProfileName(flags.profile)
+      const removed = unsetStoredValue(profile, key)
+
+      if (removed) {
+        logger.success(t('config.unset', { key, profile }))
+      } else {
+        logger.info(t('config.notSetInProfile', { key, profile }))
+      }
+
+      return { key, profile, removed }
+    } catch (error: unknown) {
+      logger.error((error as Error).message)
+      this.exit(1)
+    }
+  }
+
+  protected toErrorJson(error: unknown): unknown {
+    return errorJson(error)
+  }
+}
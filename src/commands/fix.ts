@@ -1,16 +1,20 @@
-import { GoogleGenerativeAI, HarmBlockThreshold, HarmCategory } from '@google/generative-ai'
-import { confirm } from '@inquirer/prompts'
-import { Command, Flags, ux } from '@oclif/core'
+import { Command, Flags } from '@oclif/core'
 import chalk from 'chalk'
 import dotenv from 'dotenv'
 import { execSync } from 'node:child_process'
 import * as fs from 'node:fs'
-import * as os from 'node:os'
-// eslint-disable-next-line unicorn/import-style
-import * as path from 'node:path'
 import { extname } from 'node:path'
 
-import logger from '../utills/loggers.js'
+import { cacheFlags, withCache } from '../utills/cache.js'
+import { AppConfig, configFlags, loadConfig } from '../utills/config.js'
+import { HistoryEntry, HistoryStatus, HistoryStore, statusIcon } from '../utills/history.js'
+import { formatDate, prompts, setLocale, t } from '../utills/i18n.js'
+import logger, { errorJson } from '../utills/loggers.js'
+import { createPrompter, Prompter, PromptError, promptFlags } from '../utills/prompter.js'
+import { createProvider, GenerateOptions, LLMProvider, providerFlags } from '../utills/providers.js'
+import { redactFlags, withRedaction } from '../utills/redactor.js'
+import { askAI, CancelledError } from '../utills/stream.js'
+import { withUsage } from '../utills/usage.js'
 
 // Load env quietly
 process.env.DOTENV_CONFIG_QUIET = 'true'
@@ -21,129 +25,87 @@ interface FileError {
   line?: number
 }
 
-interface FixHistory {
-  errorMessage: string
-  filePath: string
+/** Hasil fix untuk --json */
+interface FixResult {
+  analysis: null | string
+  applied: boolean
+  error: null | string
+  filePath: null | string
+  fixedCode: null | string
   fixType: 'auto' | 'manual'
-  success: boolean
-  timestamp: string
 }
 
-// ============================================
-// HISTORY MANAGER
-// ============================================
-class HistoryManager {
-  private historyFile: string
-
-  constructor() {
-    const homeDir = os.homedir()
-    const configDir = path.join(homeDir, '.gen-cli')
-    
-    if (!fs.existsSync(configDir)) {
-      fs.mkdirSync(configDir, { recursive: true })
-    }
-
-    this.historyFile = path.join(configDir, 'fix-history.json')
-  }
-
-  getHistory(): FixHistory[] {
-    try {
-      if (fs.existsSync(this.historyFile)) {
-        const data = fs.readFileSync(this.historyFile, 'utf8')
-        return JSON.parse(data) as FixHistory[]
-      }
-    } catch {
-      logger.warn('Gagal membaca history.')
-    }
-
-    return []
-  }
-
-  saveToHistory(filePath: string, errorMessage: string, success: boolean, fixType: 'auto' | 'manual'): void {
-    const history = this.getHistory()
-    history.unshift({
-      errorMessage,
-      filePath,
-      fixType,
-      success,
-      timestamp: new Date().toISOString(),
-    })
-
-    // Simpan maksimal 50 history
-    if (history.length > 50) {
-      history.splice(50)
-    }
-
-    try {
-      fs.writeFileSync(this.historyFile, JSON.stringify(history, null, 2))
-    } catch {
-      logger.warn('Gagal menyimpan history.')
-    }
-  }
-}
-
-// ============================================
-// RETRY HELPER
-// ============================================
-async function retryWithBackoff<T>(
-  fn: () => Promise<T>, 
-  maxRetries = 3,
-  baseDelay = 1000
-): Promise<T> {
-  let lastError: Error | undefined
-  
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      // eslint-disable-next-line no-await-in-loop
-      return await fn()
-    } catch (error) {
-      lastError = error as Error
-      
-      if (attempt < maxRetries - 1) {
-        const delay = baseDelay * (2 ** attempt) // Exponential backoff
-        logger.warn(`⚠️  Attempt ${attempt + 1} failed. Retrying in ${delay}ms...`)
-        // eslint-disable-next-line no-await-in-loop
-        await new Promise<void>(resolve => {
-          setTimeout(() => resolve(), delay)
-        })
-      }
-    }
-  }
-  
-  throw lastError
+/** Target fix yang dicatat ke history */
+interface FixTarget {
+  errorMessage: string
+  filePath: null | string
+  fixType: 'auto' | 'manual'
 }
 
 export default class Fix extends Command {
   static description = 'Menganalisis dan memperbaiki error di file menggunakan AI (Gemini).'
+  static enableJsonFlag = true
   static examples = [
     '<%= config.bin %> fix src/app.ts "TypeError: cannot read property name"',
     '<%= config.bin %> fix index.js:45 "undefined is not a function"',
     '<%= config.bin %> fix "EADDRINUSE: port 3000 already in use"',
     '<%= config.bin %> fix --auto test-error.js',
+    '<%= config.bin %> fix src/app.ts "TypeError: x is undefined" --json',
   ]
   static flags = {
     auto: Flags.boolean({
       char: 'a',
       description: 'Auto-detect errors by running the file',
     }),
+    backup: Flags.boolean({
+      allowNo: true,
+      description: 'Buat file .backup sebelum menimpa file (default: AUTO_BACKUP)',
+    }),
     history: Flags.boolean({
       char: 'h',
       description: 'Show fix history',
     }),
+    ...cacheFlags,
+    ...configFlags,
+    ...promptFlags,
+    ...providerFlags,
+    ...redactFlags,
+    stream: Flags.boolean({
+      allowNo: true,
+      description: 'Tampilkan analisis secara live saat diterima (default: AI_STREAM)',
+    }),
+  }
+  private static generationConfig: GenerateOptions = {
+    maxOutputTokens: 4096,
+    temperature: 0.3,
+    topK: 1,
+    topP: 1,
   }
   static strict = false
-  private historyManager = new HistoryManager()
+  private appConfig!: AppConfig
+  private history!: HistoryStore
+  private prompter!: Prompter
 
-  async run() {
+  async run(): Promise<FixResult | void | { history: HistoryEntry[] }> {
     const { argv, flags } = await this.parse(Fix)
-    
-    // 1️⃣ Ambil API Key & Nama Model dari .env
-    const API_KEY = process.env.GEMINI_API_KEY
-    const MODEL_NAME = process.env.MODEL_NAME || 'gemini-2.0-flash-exp'
+    logger.setJsonMode(this.jsonEnabled())
+    this.prompter = createPrompter(flags, this.jsonEnabled())
 
-    if (!API_KEY) {
-      logger.error('❌ API Key Gemini tidak ditemukan.')
-      logger.warn('Buat file `.env` dan tambahkan variabel GEMINI_API_KEY=<api_key>.')
+    // 1️⃣ Siapkan provider AI (flag --provider/--model atau .env)
+    let provider: LLMProvider
+    try {
+      this.appConfig = loadConfig({
+        flags: { autoBackup: flags.backup, cache: flags.cache, model: flags.model, provider: flags.provider, stream: this.jsonEnabled() ? false : flags.stream },
+        profile: flags.profile,
+      })
+      setLocale(this.appConfig.language)
+      this.history = new HistoryStore(this.appConfig)
+      // Prompt disamarkan dulu, lalu cek cache; hanya request ke model yang dihitung usage-nya
+      const metered = withUsage(createProvider(this.appConfig), this.appConfig, 'fix')
+      provider = withRedaction(withCache(metered, this.appConfig), this.appConfig, flags['show-redactions'])
+    } catch (error: unknown) {
+      logger.error(`❌ ${(error as Error).message}`)
+      logger.warn(t('common.providerSetupHint'))
       this.exit(1)
     }
 
@@ -154,143 +116,39 @@ export default class Fix extends Command {
 
     // 3️⃣ Handle --auto flag
     if (flags.auto) {
-      return this.autoDetectAndFix(argv as string[], API_KEY, MODEL_NAME)
+      return this.autoDetectAndFix(argv as string[], provider)
     }
 
     // 3️⃣ Ambil string error dari argumen CLI
     const errorString = (argv as string[]).join(' ')
     if (!errorString) {
-      logger.error('Anda harus memasukkan pesan error untuk dianalisis.')
-      logger.info('Contoh: aiCli fix src/app.ts "TypeError: cannot read property"')
-      logger.info('Atau gunakan: aiCli fix --auto file.js')
+      logger.error(t('fix.errorRequired'))
+      logger.info(t('fix.example'))
+      logger.info(t('fix.exampleAuto'))
       this.exit(1)
     }
 
-    // 3️⃣ Parse error string untuk mencari file path
-    const fileError = this.parseErrorString(errorString)
-
-    // 4️⃣ Baca file jika ada
-    let fileContent = ''
-    let hasFile = false
-
-    if (fileError.filePath && fs.existsSync(fileError.filePath)) {
-      // Validate file size
-      if (!this.validateFileSize(fileError.filePath)) {
-        this.exit(1)
-      }
-
-      try {
-        fileContent = fs.readFileSync(fileError.filePath, 'utf8')
-        hasFile = true
-        logger.info(chalk.cyan(`📄 File ditemukan: ${fileError.filePath}`))
-        if (fileError.line) {
-          logger.info(chalk.gray(`   Baris: ${fileError.line}`))
-        }
-      } catch {
-        logger.warn(`Gagal membaca file: ${fileError.filePath}`)
-      }
-    }
-
-    // 5️⃣ Jalankan spinner
-    ux.action.start(`🧠 Sedang menganalisis error...`)
-
-    try {
-      // 6️⃣ Inisialisasi model Gemini
-      const genAI = new GoogleGenerativeAI(API_KEY)
-      const model = genAI.getGenerativeModel({ model: MODEL_NAME })
-
-      const generationConfig = {
-        maxOutputTokens: 4096,
-        temperature: 0.3,
-        topK: 1,
-        topP: 1,
-      }
-
-      const safetySettings = [
-        { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-        { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-        { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-        { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-      ]
-
-      // 7️⃣ Prompt AI dengan atau tanpa file
-      const prompt = hasFile 
-        ? this.buildPromptWithFile(errorString, fileContent, fileError)
-        : this.buildPromptWithoutFile(errorString)
-
-      // 8️⃣ Panggil API Gemini dengan retry
-      const result = await retryWithBackoff(() =>
-        model.generateContent({
-          contents: [{ parts: [{ text: prompt }], role: 'user' }],
-          generationConfig,
-          safetySettings,
-        })
-      )
-
-      const aiResponse = result.response.text()
-
-      // 9️⃣ Matikan spinner dan tampilkan hasil
-      ux.action.stop('✅ Analisis selesai!')
-
-      // 🔟 Parse response untuk fix code
-      const fixedCode = this.extractFixedCode(aiResponse)
-
-      if (fixedCode && hasFile) {
-        // Tampilkan analisis
-        logger.info(chalk.cyan('\n📋 Analisis Error:\n'))
-        logger.info(aiResponse.split('```')[0].trim())
-
-        // Tampilkan kode yang diperbaiki
-        logger.info(chalk.cyan('\n✨ Kode yang Diperbaiki:\n'))
-        logger.box(fixedCode)
-
-        // Tanya apakah ingin apply fix
-        const applyFix = await confirm({
-          default: false,
-          message: chalk.yellow('\n💾 Apakah Anda ingin menerapkan perbaikan ini ke file?'),
-        })
+    return this.manualFix(errorString, provider)
+  }
 
-        if (applyFix) {
-          fs.writeFileSync(fileError.filePath, fixedCode, 'utf8')
-          logger.success(`\n✅ File berhasil diperbaiki: ${fileError.filePath}`)
-          this.historyManager.saveToHistory(fileError.filePath, errorString, true, 'manual')
-        } else {
-          logger.warn('\n⚠️  Perbaikan tidak diterapkan.')
-          this.historyManager.saveToHistory(fileError.filePath, errorString, false, 'manual')
-        }
-      } else {
-        // Tampilkan analisis saja
-        logger.info(chalk.cyan('\n📋 Hasil Analisis:\n'))
-        logger.box(aiResponse)
-        this.historyManager.saveToHistory('N/A', errorString, true, 'manual')
-      }
-    } catch (error: unknown) {
-      ux.action.stop('❌ Gagal!')
-      logger.error('Terjadi kesalahan saat menghubungi Google AI.')
-      logger.info((error as Error).message || String(error))
-      
-      if (hasFile) {
-        this.historyManager.saveToHistory(fileError.filePath, errorString, false, 'manual')
-      } else {
-        this.historyManager.saveToHistory('N/A', errorString, false, 'manual')
-      }
-    }
+  protected toErrorJson(error: unknown): unknown {
+    return errorJson(error)
   }
 
   // ============================================
   // AUTO-DETECT AND FIX
   // ============================================
-  private async autoDetectAndFix(argv: string[], apiKey: string, modelName: string): Promise<void> {
+  private async autoDetectAndFix(argv: string[], provider: LLMProvider): Promise<FixResult | undefined> {
     const filePath = argv[0]
     
     if (!filePath) {
-      logger.error('Anda harus memasukkan file path untuk auto-detect.')
-      logger.info('Contoh: aiCli fix --auto test-error.js')
+      logger.error(t('fix.autoFileRequired'))
+      logger.info(t('fix.autoExample'))
       this.exit(1)
     }
 
     if (!fs.existsSync(filePath)) {
-      logger.error(`File tidak ditemukan: ${filePath}`)
+      logger.error(t('common.fileNotFound', { path: filePath }))
       this.exit(1)
     }
 
@@ -299,198 +157,106 @@ export default class Fix extends Command {
       this.exit(1)
     }
 
-    logger.info(chalk.cyan(`🔍 Auto-detecting errors di: ${filePath}`))
+    logger.info(chalk.cyan(t('fix.autoDetecting', { path: filePath })))
 
     // Detect errors by running/checking the file
     const errorInfo = this.detectErrors(filePath)
 
     if (!errorInfo) {
-      logger.success('✅ Tidak ada error yang terdeteksi!')
-      logger.info('File tampaknya sudah berjalan dengan baik.')
-      this.exit(0)
+      logger.success(t('fix.noErrors'))
+      logger.info(t('fix.looksFine'))
+      return { analysis: null, applied: false, error: null, filePath, fixedCode: null, fixType: 'auto' }
     }
 
-    logger.warn(chalk.yellow('\n⚠️  Error terdeteksi:'))
+    logger.warn(chalk.yellow(t('fix.errorDetected')))
     logger.info(errorInfo.message)
 
     // Read file content
     const fileContent = fs.readFileSync(filePath, 'utf8')
 
-    // Start AI analysis
-    ux.action.start('🧠 AI sedang menganalisis dan memperbaiki error...')
-
+    let applied = false
     try {
-      const genAI = new GoogleGenerativeAI(apiKey)
-      const model = genAI.getGenerativeModel({ model: modelName })
-
-      const generationConfig = {
-        maxOutputTokens: 4096,
-        temperature: 0.3,
-        topK: 1,
-        topP: 1,
-      }
-
-      const safetySettings = [
-        { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-        { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-        { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-        { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-      ]
-
-      const prompt = this.buildAutoDetectPrompt(errorInfo.message, fileContent, filePath)
-
-      // Use retry mechanism
-      const result = await retryWithBackoff(() => 
-        model.generateContent({
-          contents: [{ parts: [{ text: prompt }], role: 'user' }],
-          generationConfig,
-          safetySettings,
-        })
-      )
-
-      const aiResponse = result.response.text()
-      ux.action.stop('✅ Selesai!')
+      const prompt = prompts().fixAutoDetect({ errorMessage: errorInfo.message, fileContent, filePath })
+
+      // Start AI analysis (streaming + retry, Ctrl+C membatalkan)
+      const { streamed, text: aiResponse } = await askAI(provider, prompt, {
+        done: t('common.done'),
+        generation: Fix.generationConfig,
+        header: t('fix.analysisHeader'),
+        retry: this.retryOptions(),
+        spinner: t('fix.autoSpinner'),
+        stream: this.appConfig.stream,
+      })
 
       // Extract fixed code
       const fixedCode = this.extractFixedCode(aiResponse)
 
       if (fixedCode) {
-        logger.info(chalk.cyan('\n📋 Analisis Error:\n'))
-        logger.info(aiResponse.split('```')[0].trim())
+        if (!streamed) {
+          logger.info(chalk.cyan(`\n${t('fix.analysisHeader')}\n`))
+          logger.info(aiResponse.split('```')[0].trim())
+        }
 
-        logger.info(chalk.cyan('\n✨ Kode yang Diperbaiki:\n'))
+        logger.info(chalk.cyan(t('fix.fixedCode')))
         logger.box(fixedCode)
 
-        const applyFix = await confirm({
+        applied = await this.prompter.confirm({
           default: true,
-          message: chalk.yellow('\n💾 Apakah Anda ingin menerapkan perbaikan ini?'),
+          message: chalk.yellow(t('fix.confirmAuto')),
         })
 
-        if (applyFix) {
+        if (applied) {
+          this.backupFile(filePath)
           fs.writeFileSync(filePath, fixedCode, 'utf8')
-          logger.success(`\n✅ File berhasil diperbaiki: ${filePath}`)
+          logger.success(t('common.fileFixed', { path: filePath }))
           
           // Re-run untuk verify
-          logger.info(chalk.cyan('\n🔍 Memverifikasi perbaikan...'))
+          logger.info(chalk.cyan(t('fix.verifying')))
           const verifyError = this.detectErrors(filePath)
           
           if (verifyError === null) {
-            logger.success('✅ Verifikasi berhasil! Tidak ada error lagi.')
-            this.historyManager.saveToHistory(filePath, errorInfo.message, true, 'auto')
+            logger.success(t('fix.verified'))
+            this.saveHistory({ errorMessage: errorInfo.message, filePath, fixType: 'auto' }, 'success')
           } else {
-            logger.warn('⚠️  Masih ada error setelah perbaikan:')
+            logger.warn(t('fix.stillFailing'))
             logger.info(verifyError.message)
-            this.historyManager.saveToHistory(filePath, errorInfo.message, false, 'auto')
+            this.saveHistory({ errorMessage: errorInfo.message, filePath, fixType: 'auto' }, 'failed')
           }
         } else {
-          logger.warn('\n⚠️  Perbaikan tidak diterapkan.')
-          this.historyManager.saveToHistory(filePath, errorInfo.message, false, 'auto')
+          logger.warn(t('fix.notApplied'))
+          this.saveHistory({ errorMessage: errorInfo.message, filePath, fixType: 'auto' }, 'failed')
         }
       } else {
-        logger.info(chalk.cyan('\n📋 Hasil Analisis:\n'))
-        logger.box(aiResponse)
-        this.historyManager.saveToHistory(filePath, errorInfo.message, true, 'auto')
+        if (!streamed) {
+          logger.info(chalk.cyan(`\n${t('fix.resultHeader')}\n`))
+          logger.box(aiResponse)
+        }
+
+        this.saveHistory({ errorMessage: errorInfo.message, filePath, fixType: 'auto' }, 'success')
+      }
+
+      return {
+        analysis: fixedCode ? aiResponse.split('```')[0].trim() : aiResponse,
+        applied,
+        error: errorInfo.message,
+        filePath,
+        fixedCode,
+        fixType: 'auto',
       }
     } catch (error: unknown) {
-      ux.action.stop('❌ Gagal!')
-      logger.error('Terjadi kesalahan saat menghubungi Google AI.')
-      logger.info((error as Error).message || String(error))
-      this.historyManager.saveToHistory(filePath, errorInfo.message, false, 'auto')
+      this.handleAIError(error, provider, { errorMessage: errorInfo.message, filePath, fixType: 'auto' })
     }
   }
 
   // ============================================
-  // BUILD AUTO-DETECT PROMPT
+  // BACKUP FILE
   // ============================================
-  private buildAutoDetectPrompt(errorMessage: string, fileContent: string, filePath: string): string {
-    return `Anda adalah "AI Code Fixer" yang ahli dalam debugging dan memperbaiki kode.
-
-**TUGAS ANDA:**
-Perbaiki error yang terdeteksi saat menjalankan file ini.
-
-**FILE:** ${filePath}
-
-**ERROR YANG TERDETEKSI:**
-${errorMessage}
-
-**CURRENT CODE:**
-${fileContent}
-
-**FORMAT JAWABAN:**
-1. Jelaskan apa yang salah (typo, logic error, syntax error, dll)
-2. Sebutkan penyebab spesifik
-3. Berikan FULL FILE CODE yang sudah diperbaiki dalam code block
-
-**PENTING:**
-- Berikan SELURUH isi file yang sudah diperbaiki
-- Perbaiki semua error yang ada (typo, logic error, missing import, dll)
-- Gunakan code block dengan bahasa yang sesuai
-- Pastikan indentasi tetap konsisten
-- JANGAN hanya memberikan snippet, tapi FULL FILE
-- Test logic untuk memastikan benar
-
-Contoh error yang harus diperbaiki:
-- Typo dalam nama variabel/fungsi
-- Logic error (kondisi if salah, loop infinite, dll)
-- Missing import/require
-- Syntax error
-- Type error
-`
-  }
+  private backupFile(filePath: string): void {
+    if (!this.appConfig.autoBackup) return
 
-  // ============================================
-  // BUILD PROMPT WITH FILE
-  // ============================================
-  private buildPromptWithFile(errorString: string, fileContent: string, fileError: FileError): string {
-    return `Anda adalah "AI Code Fixer" yang ahli dalam debugging dan memperbaiki kode.
-
-**TUGAS ANDA:**
-1. Analisis error berikut
-2. Baca kode yang diberikan
-3. Identifikasi masalah
-4. Berikan kode yang sudah diperbaiki (FULL FILE)
-
-**ERROR MESSAGE:**
-${errorString}
-
-**FILE:** ${fileError.filePath}
-${fileError.line ? `**LINE:** ${fileError.line}` : ''}
-
-**CURRENT CODE:**
-${fileContent}
-
-**FORMAT JAWABAN:**
-1. Jelaskan error secara singkat (2-3 baris)
-2. Sebutkan penyebab utama
-3. Berikan FULL FILE CODE yang sudah diperbaiki dalam code block (gunakan triple backtick)
-
-**PENTING:**
-- Berikan SELURUH isi file yang sudah diperbaiki
-- Gunakan code block dengan bahasa yang sesuai
-- Pastikan indentasi tetap konsisten
-- JANGAN hanya memberikan snippet, tapi FULL FILE
-- Pertahankan struktur dan style code yang ada
-
-Contoh format: berikan penjelasan singkat, lalu code block lengkap dengan triple backtick.
-`
-  }
-
-  // ============================================
-  // BUILD PROMPT WITHOUT FILE
-  // ============================================
-  private buildPromptWithoutFile(errorString: string): string {
-    return `
-Anda adalah "AI Debugging Assistant" yang ahli.
-Analisis pesan error berikut dan berikan solusi terbaik.
-
-**Format jawaban:**
-1. **Analisis Error:** (jelaskan arti error ini)
-2. **Kemungkinan Penyebab:** (sebutkan 2–3 penyebab utama)
-3. **Rekomendasi Solusi:** (langkah perbaikan atau contoh kode)
-
-**Pesan Error:**
-"${errorString}"
-`
+    const backupPath = `${filePath}.backup`
+    fs.copyFileSync(filePath, backupPath)
+    logger.info(chalk.gray(t('common.backupCreated', { path: backupPath })))
   }
 
   // ============================================
@@ -525,7 +291,7 @@ Analisis pesan error berikut dan berikan solusi terbaik.
               execSync('ts-node --version', { encoding: 'utf8', stdio: 'pipe' })
               command = `ts-node "${filePath}"`
             } catch {
-              logger.warn('TypeScript atau ts-node tidak ditemukan. Mencoba dengan node...')
+              logger.warn(t('fix.tsMissing'))
               command = `node "${filePath}"`
             }
           }
@@ -534,7 +300,7 @@ Analisis pesan error berikut dan berikan solusi terbaik.
         }
 
         default: {
-          logger.warn(`File extension ${ext} tidak didukung untuk auto-detect.`)
+          logger.warn(t('fix.unsupportedExt', { ext }))
           return null
         }
       }
@@ -570,6 +336,133 @@ Analisis pesan error berikut dan berikan solusi terbaik.
     return null
   }
 
+  // ============================================
+  // HANDLE AI ERROR (Ctrl+C → exit 130, prompt tanpa jawaban → exit 1)
+  // ============================================
+  private handleAIError(
+    error: unknown,
+    provider: LLMProvider,
+    { errorMessage, filePath, fixType }: FixTarget,
+  ): void {
+    if (error instanceof CancelledError) {
+      logger.warn(t('fix.cancelled'))
+      this.saveHistory({ errorMessage, filePath, fixType }, 'cancelled')
+      this.exit(130)
+    }
+
+    if (error instanceof PromptError) {
+      logger.error(error.message)
+      this.saveHistory({ errorMessage, filePath, fixType }, 'failed')
+      this.exit(1)
+    }
+
+    logger.error(t('common.providerError', { provider: provider.name }))
+    logger.info((error as Error).message || String(error))
+    this.saveHistory({ errorMessage, filePath, fixType }, 'failed')
+
+    // Script yang memakai --json perlu exit code non-zero
+    if (this.jsonEnabled()) this.exit(1)
+  }
+
+  // ============================================
+  // MANUAL FIX
+  // ============================================
+  private async manualFix(errorString: string, provider: LLMProvider): Promise<FixResult | undefined> {
+    // Parse error string untuk mencari file path
+    const fileError = this.parseErrorString(errorString)
+
+    // 4️⃣ Baca file jika ada
+    let fileContent = ''
+    let hasFile = false
+
+    if (fileError.filePath && fs.existsSync(fileError.filePath)) {
+      // Validate file size
+      if (!this.validateFileSize(fileError.filePath)) {
+        this.exit(1)
+      }
+
+      try {
+        fileContent = fs.readFileSync(fileError.filePath, 'utf8')
+        hasFile = true
+        logger.info(chalk.cyan(t('fix.fileFound', { path: fileError.filePath })))
+        if (fileError.line) {
+          logger.info(chalk.gray(t('fix.line', { line: fileError.line })))
+        }
+      } catch {
+        logger.warn(t('fix.readFailed', { path: fileError.filePath }))
+      }
+    }
+
+    let applied = false
+    try {
+      // 5️⃣ Prompt AI dengan atau tanpa file
+      const prompt = hasFile 
+        ? prompts().fixWithFile({ errorMessage: errorString, fileContent, filePath: fileError.filePath, line: fileError.line })
+        : prompts().fixWithoutFile(errorString)
+
+      // 6️⃣ Panggil provider AI (streaming + retry, Ctrl+C membatalkan)
+      const { streamed, text: aiResponse } = await askAI(provider, prompt, {
+        done: t('fix.analysisDone'),
+        generation: Fix.generationConfig,
+        header: t(hasFile ? 'fix.analysisHeader' : 'fix.resultHeader'),
+        retry: this.retryOptions(),
+        showCode: !hasFile,
+        spinner: t('fix.spinner'),
+        stream: this.appConfig.stream,
+      })
+
+      // 7️⃣ Parse response untuk fix code
+      const fixedCode = this.extractFixedCode(aiResponse)
+
+      if (fixedCode && hasFile) {
+        // Tampilkan analisis (sudah tampil live jika streaming)
+        if (!streamed) {
+          logger.info(chalk.cyan(`\n${t('fix.analysisHeader')}\n`))
+          logger.info(aiResponse.split('```')[0].trim())
+        }
+
+        // Tampilkan kode yang diperbaiki
+        logger.info(chalk.cyan(t('fix.fixedCode')))
+        logger.box(fixedCode)
+
+        // Tanya apakah ingin apply fix (--yes/--no untuk script; --json tanpa --yes tidak mengubah file)
+        applied = await this.prompter.confirm({
+          default: false,
+          message: chalk.yellow(t('fix.confirm')),
+        })
+
+        if (applied) {
+          this.backupFile(fileError.filePath)
+          fs.writeFileSync(fileError.filePath, fixedCode, 'utf8')
+          logger.success(t('common.fileFixed', { path: fileError.filePath }))
+          this.saveHistory({ errorMessage: errorString, filePath: fileError.filePath, fixType: 'manual' }, 'success')
+        } else {
+          logger.warn(t('fix.notApplied'))
+          this.saveHistory({ errorMessage: errorString, filePath: fileError.filePath, fixType: 'manual' }, 'failed')
+        }
+      } else {
+        // Tampilkan analisis saja
+        if (!streamed) {
+          logger.info(chalk.cyan(`\n${t('fix.resultHeader')}\n`))
+          logger.box(aiResponse)
+        }
+
+        this.saveHistory({ errorMessage: errorString, filePath: null, fixType: 'manual' }, 'success')
+      }
+
+      return {
+        analysis: fixedCode && hasFile ? aiResponse.split('```')[0].trim() : aiResponse,
+        applied,
+        error: errorString,
+        filePath: hasFile ? fileError.filePath : null,
+        fixedCode,
+        fixType: 'manual',
+      }
+    } catch (error: unknown) {
+      this.handleAIError(error, provider, { errorMessage: errorString, filePath: hasFile ? fileError.filePath : null, fixType: 'manual' })
+    }
+  }
+
   // ============================================
   // PARSE ERROR STRING
   // ============================================
@@ -605,48 +498,64 @@ Analisis pesan error berikut dan berikan solusi terbaik.
     return fileError
   }
 
+  // ============================================
+  // RETRY OPTIONS (dari config)
+  // ============================================
+  private retryOptions() {
+    return { attempts: this.appConfig.retryAttempts, baseDelay: this.appConfig.retryBaseDelay }
+  }
+
+  // ============================================
+  // SAVE HISTORY
+  // ============================================
+  private saveHistory({ errorMessage, filePath, fixType }: FixTarget, status: HistoryStatus): void {
+    this.history.append({ command: 'fix', errorMessage, ...(filePath && { filePath }), fixType, status })
+  }
+
   // ============================================
   // SHOW HISTORY
   // ============================================
-  private showHistory(): void {
-    const history = this.historyManager.getHistory()
+  private showHistory(): { history: HistoryEntry[] } {
+    const history = this.history.list({ command: 'fix', limit: 50 })
+
+    if (this.jsonEnabled()) {
+      return { history }
+    }
 
     if (history.length === 0) {
-      logger.info('📜 Tidak ada history fix.')
-      return
+      logger.info(t('fix.historyEmpty'))
+      return { history }
     }
 
-    logger.info(chalk.cyan(`\n📜 History Fix (${history.length} terakhir):\n`))
+    logger.info(chalk.cyan(t('fix.historyTitle', { count: history.length })))
 
     for (const [index, item] of history.entries()) {
-      const icon = item.success ? chalk.green('✓') : chalk.red('✗')
+      const icon = statusIcon(item.status)
       const type = item.fixType === 'auto' ? chalk.blue('[AUTO]') : chalk.gray('[MANUAL]')
-      const date = new Date(item.timestamp).toLocaleString('id-ID', {
-        day: '2-digit',
-        hour: '2-digit',
-        minute: '2-digit',
-        month: 'short',
-        year: 'numeric',
-      })
+      const date = formatDate(item.timestamp)
 
-      logger.info(`${icon} ${type} ${chalk.cyan(item.filePath)}`)
-      logger.info(`   ${chalk.gray(date)} - ${item.errorMessage.slice(0, 80)}${item.errorMessage.length > 80 ? '...' : ''}`)
+      logger.info(`${icon} ${type} ${chalk.cyan(item.filePath ?? 'N/A')}`)
+      const errorMessage = item.errorMessage ?? ''
+      logger.info(`   ${chalk.gray(date)} - ${errorMessage.slice(0, 80)}${errorMessage.length > 80 ? '...' : ''}`)
       
       if (index < history.length - 1) {
         logger.info('')
       }
     }
+
+    return { history }
   }
 
   // ============================================
   // VALIDATE FILE SIZE
   // ============================================
-  private validateFileSize(filePath: string, maxSizeMB = 1): boolean {
+  private validateFileSize(filePath: string): boolean {
+    const maxSizeMB = this.appConfig.maxFileSizeMB
     const stats = fs.statSync(filePath)
     const fileSizeMB = stats.size / (1024 * 1024)
 
     if (fileSizeMB > maxSizeMB) {
-      logger.error(`❌ File terlalu besar: ${fileSizeMB.toFixed(2)} MB (max: ${maxSizeMB} MB)`)
+      logger.error(t('common.fileTooLarge', { max: maxSizeMB, size: fileSizeMB.toFixed(2) }))
       return false
     }
 
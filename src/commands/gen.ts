@@ -1,17 +1,33 @@
 // src/commands/gen.ts
 
-import { GoogleGenerativeAI } from '@google/generative-ai'
-import { confirm, input } from '@inquirer/prompts'
 import { Command, Flags, ux } from '@oclif/core'
 import chalk from 'chalk'
 import * as dotenv from 'dotenv'
 import { spawn } from 'node:child_process'
-import * as fs from 'node:fs'
-import * as os from 'node:os'
 // eslint-disable-next-line unicorn/import-style
 import * as path from 'node:path'
 
-import logger from '../utills/loggers.js'
+import { cacheFlags, withCache } from '../utills/cache.js'
+import { copyToClipboard } from '../utills/clipboard.js'
+import { AppConfig, configFlags, loadConfig } from '../utills/config.js'
+import { ContextDetector, ContextInfo, SHELLS } from '../utills/context.js'
+import { CommandExplanation, EXPLAIN_RESPONSE_SCHEMA, formatExplanation, parseExplanation } from '../utills/explain.js'
+import { formatDuration, HistoryEntry, HistoryStore, statusIcon } from '../utills/history.js'
+import { formatDate, GenTurn, prompts, setLocale, t } from '../utills/i18n.js'
+import logger, { errorJson } from '../utills/loggers.js'
+import { assertMacroName, fillPlaceholders, Macro, MacroError, macroPlaceholders, MacroStore, parseValues, templatize } from '../utills/macros.js'
+import { GEN_RESPONSE_SCHEMA, GenPlan, parsePlan, PlanError, PlanStep, RiskLevel } from '../utills/plan.js'
+import { isFinished, PlanStore, resumeIndex, SavedPlan, stepStatusIcon } from '../utills/plans.js'
+import { createPolicy, formatViolation, PolicyEngine, PolicyVerdict, PolicyViolation } from '../utills/policy.js'
+import { formatPreview, previewBlockers, PreviewError, PreviewResult, runPreview } from '../utills/preview.js'
+import { ChoiceOption, ConfirmOptions, createPrompter, Prompter, PromptError, PromptFlags, promptFlags } from '../utills/prompter.js'
+import { createProvider, LLMProvider, providerFlags } from '../utills/providers.js'
+import { redactFlags, withRedaction } from '../utills/redactor.js'
+import { retryWithBackoff } from '../utills/retry.js'
+import { RunLog } from '../utills/runlog.js'
+import { OutputTail, SessionError, ShellSession } from '../utills/session.js'
+import { bufferText } from '../utills/shellinit.js'
+import { withUsage } from '../utills/usage.js'
 
 // Load env quietly
 process.env.DOTENV_CONFIG_QUIET = 'true'
@@ -20,432 +36,726 @@ dotenv.config({ override: false })
 // ============================================
 // INTERFACES & TYPES
 // ============================================
-interface CommandHistory {
-    command: string
+/** Hasil gen untuk --json (perintah tidak dieksekusi) */
+export interface GenResult {
+    commands: string[]
+    destructive: boolean
+    /** Hanya ada dengan --explain */
+    explanations?: CommandExplanation[]
+    /** Hanya ada dengan --preview */
+    preview?: PreviewResult
     prompt: string
+    steps: PlanStep[]
+    suggestions: string[]
+    /** Rule policy yang kena, untuk semua step */
+    violations: PolicyViolation[]
+}
+
+/** Hasil eksekusi satu step; output berisi bagian akhirnya (output lengkap ada di log run) */
+interface StepOutcome {
+    code: null | number
+    durationMs: number
+    output: string
     success: boolean
-    timestamp: string
 }
 
-interface ContextInfo {
-    hasPackageJson: boolean
-    os: string
-    packageManager: string
-    projectType?: string
-    shell: string
+/** Flag yang dipakai bersama oleh gen dan macro run */
+export type SetupFlags = PromptFlags & {
+    cache?: boolean
+    model?: string
+    placeholder?: string[]
+    preview: boolean
+    print?: boolean
+    profile?: string
+    provider?: string
+    repair: boolean
+    shell?: string
+    summarize?: boolean
+}
+
+/** Opsi macro run: --explain, --print dan nilai --set */
+export interface MacroOptions {
+    explain: boolean
+    print: boolean
+    values: string[]
 }
 
+/** Batas perbaikan oleh AI per plan, supaya step yang terus gagal tidak berputar tanpa akhir */
+const MAX_REPAIRS = 3
+
+/** --summarize hanya untuk output sepanjang ini (baris); output pendek cukup dibaca langsung */
+const SUMMARY_MIN_LINES = 20
+
 // ============================================
-// UTILITY FUNCTIONS
+// MAIN COMMAND
 // ============================================
-class CommandManager {
-    private historyFile: string
+export default class Gen extends Command {
+    static description = 'Menghasilkan dan menjalankan perintah shell menggunakan AI.'
+    static enableJsonFlag = true
+    static examples = [
+        '<%= config.bin %> gen buatkan proyek react baru bernama "my-app"',
+        '<%= config.bin %> gen install nextjs dengan tailwind',
+        '<%= config.bin %> gen --history',
+        '<%= config.bin %> gen --json tampilkan 5 file terbesar',
+        '<%= config.bin %> gen --explain cari file log lebih dari 7 hari lalu hapus',
+        '<%= config.bin %> gen --preview ganti semua var menjadi let di folder src',
+        '<%= config.bin %> gen --resume',
+        '<%= config.bin %> gen --save deploy build lalu deploy ke staging',
+        '<%= config.bin %> gen --save component --placeholder name=Button buat komponen React Button',
+        '<%= config.bin %> gen --print --shell zsh cari file terbesar',
+        '<%= config.bin %> gen --summarize install dependency project',
+    ]
+    static flags = {
+        explain: Flags.boolean({
+            description: 'Jelaskan setiap perintah (program, flag, argumen, redirection, pipe, efek samping) sebelum konfirmasi',
+        }),
+        history: Flags.boolean({ 
+            char: 'h', 
+            description: 'Tampilkan history perintah',
+        }),
+        placeholder: Flags.string({
+            dependsOn: ['save'],
+            description: 'Dengan --save: jadikan nilai di perintah sebagai {{placeholder}} macro, mis. --placeholder name=Button (bisa diulang)',
+            multiple: true,
+            // Satu nilai per flag; sisa argv tetap menjadi prompt
+            multipleNonGreedy: true,
+        }),
+        preview: Flags.boolean({
+            description: 'Jalankan dulu di salinan sementara folder kerja (tanpa jaringan) dan tampilkan file yang berubah sebelum konfirmasi',
+        }),
+        print: Flags.boolean({
+            description: 'Cetak perintah saja (tanpa dekorasi, konfirmasi dan eksekusi) untuk dipakai integrasi shell; lihat shell-init',
+        }),
+        repair: Flags.boolean({
+            allowNo: true,
+            default: true,
+            description: 'Jika step plan gagal, kirim output-nya ke AI untuk mendapatkan perbaikan lalu lanjutkan plan',
+        }),
+        resume: Flags.boolean({
+            description: 'Lanjutkan plan multi-step yang terhenti (ID plan sebagai argumen; tanpa ID: plan terakhir yang belum selesai)',
+        }),
+        save: Flags.string({
+            description: 'Simpan perintah sebagai macro dengan nama ini setelah berhasil dijalankan (lihat macro run)',
+        }),
+        shell: Flags.string({
+            description: 'Shell tujuan perintah (default: terdeteksi dari environment)',
+            options: [...SHELLS],
+        }),
+        summarize: Flags.boolean({
+            description: 'Ringkas output perintah yang panjang (mis. install dengan banyak warning) menjadi beberapa baris dengan AI',
+        }),
+        ...cacheFlags,
+        ...configFlags,
+        ...promptFlags,
+        ...providerFlags,
+        ...redactFlags,
+    }
+    static strict = false
+    private appConfig!: AppConfig
+    private context!: ContextInfo
+    /** Giliran percakapan (permintaan + usulan) untuk "ubah permintaan"; hanya di alur gen biasa */
+    private conversation?: GenTurn[]
+    /** Penjelasan sudah ditampilkan (--explain atau pilihan "jelaskan dulu") */
+    private explained = false
+    private history!: HistoryStore
+    private macros = new MacroStore()
+    /** --placeholder: nilai yang dijadikan {{placeholder}} saat macro disimpan */
+    private placeholders: Record<string, string> = {}
+    private plans = new PlanStore()
+    private policy!: PolicyEngine
+    /** --preview: jalankan di sandbox sebelum konfirmasi */
+    private preview = false
+    private prompter!: Prompter
+    private provider?: LLMProvider
+    /** --repair: minta perbaikan ke AI saat step plan gagal */
+    private repair = true
+    /** Log output semua step yang dijalankan di run ini; dibuat saat step pertama dijalankan */
+    private runLog?: RunLog
+    /** --save: nama macro untuk perintah yang berhasil dijalankan */
+    private saveAs?: string
+    /** --shell: menggantikan shell hasil deteksi */
+    private shell?: string
+    /** --summarize: ringkas output perintah yang panjang dengan AI */
+    private summarize = false
+    /** Folder tempat perintah dijalankan; untuk --resume diambil dari plan yang disimpan */
+    private workDir = process.cwd()
+
+    /** Provider untuk gen: prompt disamarkan dulu, lalu cek cache; hanya request ke model yang dihitung usage-nya */
+    protected connect(showRedactions = false): LLMProvider {
+        const metered = withUsage(createProvider(this.appConfig), this.appConfig, 'gen')
+        return withRedaction(withCache(metered, this.appConfig), this.appConfig, showRedactions)
+    }
 
-    constructor() {
-        const homeDir = os.homedir()
-        const configDir = path.join(homeDir, '.gen-cli')
-        
-        if (!fs.existsSync(configDir)) {
-            fs.mkdirSync(configDir, { recursive: true })
+    /** Tutup log run dan tunjukkan lokasinya, juga saat gen berhenti karena step gagal */
+    async finally(error: Error | undefined): Promise<unknown> {
+        if (this.runLog) {
+            this.runLog.close()
+            if (this.runLog.file) logger.info(chalk.gray(t('gen.logSaved', { file: this.runLog.file })))
         }
 
-        this.historyFile = path.join(configDir, 'history.json')
+        return super.finally(error)
     }
 
-    // ============ HISTORY MANAGEMENT ============
-    getHistory(): CommandHistory[] {
+    async run(): Promise<GenResult | void | { history: HistoryEntry[] } | { plan: SavedPlan }> {
+        const { argv, flags } = await this.parse(Gen)
+        this.setup(flags)
+
+        if (flags.save) this.saveAs = this.macroName(flags.save)
+
+        // ============ HANDLE FLAGS ============
+        if (flags.history) {
+            return this.showHistory()
+        }
+
+        // ============ MAIN FLOW ============
+        let provider: LLMProvider
         try {
-            if (fs.existsSync(this.historyFile)) {
-                const data = fs.readFileSync(this.historyFile, 'utf8')
-                return JSON.parse(data) as CommandHistory[]
-            }
-        } catch {
-            logger.warn('Gagal membaca history.')
+            provider = this.connect(flags['show-redactions'])
+        } catch (error: unknown) {
+            logger.error((error as Error).message)
+            logger.warn(t('gen.providerHint'))
+            this.exit(1)
         }
 
-        return []
-    }
+        if (flags.resume) {
+            return this.resumePlan((argv as string[]).join(' ').trim() || undefined, provider)
+        }
 
-    saveToHistory(command: string, prompt: string, success: boolean): void {
-        const history = this.getHistory()
-        history.unshift({
-            command,
-            prompt,
-            success,
-            timestamp: new Date().toISOString(),
-        })
+        const userPrompt = await this.readPrompt(argv as string[])
 
-        // Simpan maksimal 50 history
-        if (history.length > 50) {
-            history.splice(50)
+        // Deteksi context
+        this.context = this.detectContext()
+        this.provider = provider
+        
+        // Debug info
+        logger.info(chalk.gray(t('gen.contextDetected', { os: this.context.os, packageManager: this.context.packageManager, shell: this.context.shell })))
+        if (this.context.stacks.length > 0) {
+            logger.info(chalk.gray(t('gen.contextStacks', {
+                stacks: this.context.stacks.map(stack => stack.name).join(', '),
+                tools: this.context.availableTools.join(', ') || '-',
+            })))
+        }
+        
+        // Generate command dengan AI
+        const plan = await this.generateCommand(userPrompt, this.context, provider)
+        
+        if (!plan) {
+            this.exit(1)
         }
 
-        try {
-            fs.writeFileSync(this.historyFile, JSON.stringify(history, null, 2))
-        } catch {
-            logger.warn('Gagal menyimpan history.')
+        const { steps } = plan
+        if (flags.print) {
+            // Policy tetap berlaku seperti --json; perintah masuk ke prompt buffer, bukan dieksekusi
+            this.log(bufferText(this.toResult(plan, userPrompt, null, null).steps, this.context.shell))
+            return
+        }
+
+        const explanations = flags.explain ? await this.explainCommands(steps.map(step => step.command)) : null
+
+        if (this.jsonEnabled()) {
+            const preview = this.preview ? await this.previewSteps(steps) : null
+            return this.toResult(plan, userPrompt, explanations, preview)
         }
+
+        if (explanations) this.showExplanations(explanations)
+
+        await this.converse(plan, userPrompt, provider)
     }
-}
 
-// ============================================
-// CONTEXT DETECTION
-// ============================================
-const ContextDetector = {
-    detect(): ContextInfo {
-        const context: ContextInfo = {
-            hasPackageJson: false,
-            os: os.platform(),
-            packageManager: 'npm',
-            shell: this.detectShell()
+    // ============================================
+    // RUN MACRO
+    // ============================================
+    /**
+     * Jalankan macro (macro run): placeholder diisi dari --set atau ditanyakan, lalu step melewati
+     * policy dan konfirmasi yang sama dengan hasil gen. Provider hanya dipakai untuk explain/repair.
+     */
+    protected async runMacro(name: string, { explain, print, values: entries }: MacroOptions, provider?: LLMProvider): Promise<GenResult | void> {
+        let macro: Macro | undefined
+        let values: Record<string, string>
+        try {
+            macro = this.macros.lookup(name)
+            values = parseValues(entries)
+        } catch (error: unknown) {
+            if (!(error instanceof MacroError)) throw error
+            logger.error(error.message)
+            this.exit(1)
         }
 
-        // Deteksi package.json
-        const packageJsonPath = path.join(process.cwd(), 'package.json')
-        if (fs.existsSync(packageJsonPath)) {
-            context.hasPackageJson = true
+        if (!macro) {
+            logger.error(t('macros.notFound', { name }))
+            this.exit(1)
+        }
 
-            try {
-                const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8')) as {
-                    dependencies?: Record<string, string>
-                }
-                
-                // Deteksi project type
-                if (packageJson.dependencies?.next) context.projectType = 'Next.js'
-                else if (packageJson.dependencies?.react) context.projectType = 'React'
-                else if (packageJson.dependencies?.vue) context.projectType = 'Vue'
-                else if (packageJson.dependencies?.express) context.projectType = 'Express'
-            } catch {
-                // Ignore
-            }
+        this.context = this.detectContext()
+        this.provider = provider
+        if (macro.os !== this.context.os || macro.shell !== this.context.shell) {
+            logger.warn(t('gen.macroShell', { os: macro.os, shell: macro.shell }))
+        }
 
-            // Deteksi package manager dari lock files
-            if (fs.existsSync(path.join(process.cwd(), 'pnpm-lock.yaml'))) {
-                context.packageManager = 'pnpm'
-            } else if (fs.existsSync(path.join(process.cwd(), 'yarn.lock'))) {
-                context.packageManager = 'yarn'
-            } else if (fs.existsSync(path.join(process.cwd(), 'bun.lockb'))) {
-                context.packageManager = 'bun'
+        for (const placeholder of macroPlaceholders(macro.steps)) {
+            if (placeholder in values) continue
+            if (!this.prompter.interactive) {
+                logger.error(t('gen.macroMissingValue', { name: placeholder }))
+                this.exit(1)
             }
+
+            // eslint-disable-next-line no-await-in-loop
+            values[placeholder] = await this.prompter.input({ message: t('gen.macroValue', { name: placeholder }) })
         }
 
-        return context
-    },
+        const steps = fillPlaceholders(macro.steps, values, this.context.shell)
+        if (print) {
+            this.log(bufferText(this.toResult({ steps, suggestions: [] }, macro.prompt, null, null).steps, this.context.shell))
+            return
+        }
 
-    detectShell(): string {
-        // Deteksi shell berdasarkan OS dan environment variables
-        const platform = os.platform()
-        
-        if (platform === 'win32') {
-            // Windows: deteksi dari berbagai env vars dan parent process
-            const shellEnv = process.env.SHELL || ''
-            const comspec = process.env.COMSPEC || ''
-            
-            // Cek env vars dulu
-            if (shellEnv.toLowerCase().includes('powershell') || 
-                shellEnv.toLowerCase().includes('pwsh') ||
-                process.env.PSModulePath) {
-                return 'powershell'
-            }
-            
-            if (comspec.toLowerCase().includes('cmd')) {
-                return 'cmd'
-            }
-            
-            // Deteksi dari parent process name jika ada
-            try {
-                const { ppid } = process
-                if (ppid && comspec && comspec.toLowerCase().includes('cmd.exe')) {
-                    // Untuk Windows, kita asumsikan cmd jika COMSPEC menunjuk ke cmd.exe
-                    return 'cmd'
-                }
-            } catch {
-                // Ignore
-            }
-            
-            // Default Windows ke PowerShell (lebih modern dan umum di Windows 10+)
-            return 'powershell'
+        const explanations = explain ? await this.explainCommands(steps.map(step => step.command)) : null
+        if (this.jsonEnabled()) {
+            const preview = this.preview ? await this.previewSteps(steps) : null
+            return this.toResult({ steps, suggestions: [] }, macro.prompt, explanations, preview)
         }
-        
-        // Unix-like systems
-        const shell = process.env.SHELL || '/bin/bash'
-        
-        if (shell.includes('bash')) return 'bash'
-        if (shell.includes('zsh')) return 'zsh'
-        if (shell.includes('fish')) return 'fish'
-        
-        return 'bash' // default
-    },
-}
 
-// ============================================
-// SAFETY CHECKER
-// ============================================
-class SafetyChecker {
-    private static dangerousCommands = [
-        ':(){:|:&};:',  // fork bomb
-        '> /dev/sda',
-        'chmod -R 777 /',
-        'chown -R',
-        'dd if=',
-        'format',
-        'mkfs',
-        'rm -rf /',
-        'rm -rf *',
-    ]
-    private static destructiveKeywords = [
-        '> /dev/',
-        'dd',
-        'del /f /s /q',
-        'fdisk',
-        'format',
-        'mkfs',
-        'rm -rf',
-    ]
+        if (explanations) this.showExplanations(explanations)
 
-    static isBlacklisted(command: string): boolean {
-        return this.dangerousCommands.some(dangerous => 
-            command.toLowerCase().includes(dangerous.toLowerCase()),
-        )
+        logger.info(chalk.cyan(t('gen.macroRunning', { name: macro.name, prompt: macro.prompt })))
+        await (steps.length === 1
+            ? this.executeSingleCommand(steps[0], macro.prompt)
+            : this.executeMultipleCommands(steps, macro.prompt))
     }
 
-    static isDestructive(command: string): boolean {
-        return this.destructiveKeywords.some(keyword => 
-            command.toLowerCase().includes(keyword.toLowerCase()),
-        )
+    // ============================================
+    // SETUP
+    // ============================================
+    /** Config, history, policy dan prompter; dipakai juga oleh macro run */
+    protected setup(flags: SetupFlags): void {
+        // --print: stdout hanya berisi perintah, sama seperti --json hanya berisi satu objek
+        const quiet = this.jsonEnabled() || Boolean(flags.print)
+        logger.setJsonMode(quiet)
+        this.preview = flags.preview
+        this.repair = flags.repair
+        this.shell = flags.shell
+        this.summarize = Boolean(flags.summarize)
+        this.prompter = createPrompter(flags, quiet)
+
+        try {
+            this.appConfig = loadConfig({
+              flags: { cache: flags.cache, model: flags.model, provider: flags.provider },
+              profile: flags.profile,
+            })
+            setLocale(this.appConfig.language)
+            this.placeholders = parseValues(flags.placeholder ?? [])
+            this.history = new HistoryStore(this.appConfig)
+            this.policy = createPolicy(this.appConfig, this.shell ?? ContextDetector.detectShell())
+        } catch (error: unknown) {
+            logger.error((error as Error).message)
+            this.exit(1)
+        }
     }
-}
 
-// ============================================
-// MAIN COMMAND
-// ============================================
-export default class Gen extends Command {
-    static description = 'Menghasilkan dan menjalankan perintah shell menggunakan AI.'
-    static examples = [
-        '<%= config.bin %> gen buatkan proyek react baru bernama "my-app"',
-        '<%= config.bin %> gen install nextjs dengan tailwind',
-        '<%= config.bin %> gen --history',
-    ]
-    static flags = {
-        history: Flags.boolean({ 
-            char: 'h', 
-            description: 'Tampilkan history perintah',
-        }),
+    protected toErrorJson(error: unknown): unknown {
+        return errorJson(error)
     }
-    static strict = false
-    private manager = new CommandManager()
 
-    async run(): Promise<void> {
-        const { argv, flags } = await this.parse(Gen)
+    // ============================================
+    // ASK FOLLOW-UP
+    // ============================================
+    /** Alternatif dari model bisa dipilih langsung; sisanya permintaan lanjutan yang diketik user */
+    private async askFollowUp(suggestions: string[]): Promise<string> {
+        try {
+            const picked = suggestions.length > 0 ? await this.prompter.select({
+                choices: [
+                    ...suggestions.map(suggestion => ({ name: suggestion, value: suggestion })),
+                    { name: t('gen.refineOwn'), value: '' },
+                ],
+                message: t('gen.refineWhich'),
+            }) : ''
+
+            return picked || (await this.prompter.input({ message: t('gen.refinePrompt') })).trim()
+        } catch (error: unknown) {
+            if (!(error instanceof PromptError)) throw error
+            logger.error(error.message)
+            this.exit(1)
+        }
+    }
 
-        // ============ HANDLE FLAGS ============
-        if (flags.history) {
-            return this.showHistory()
+    // ============================================
+    // CONFIRM (--yes / --no / --no-input)
+    // ============================================
+    private async choose<T extends string>(options: ConfirmOptions, choices: ChoiceOption<T>[]): Promise<'no' | 'yes' | T> {
+        try {
+            return await this.prompter.choose(options, choices)
+        } catch (error: unknown) {
+            if (!(error instanceof PromptError)) throw error
+            logger.error(error.message)
+            this.exit(1)
         }
+    }
 
-        // ============ MAIN FLOW ============
-        const API_KEY = process.env.GEMINI_API_KEY
-        const MODEL_NAME = process.env.MODEL_NAME || 'gemini-2.0-flash-exp'
+    private async confirm(options: ConfirmOptions): Promise<boolean> {
+        try {
+            return await this.prompter.confirm(options)
+        } catch (error: unknown) {
+            if (!(error instanceof PromptError)) throw error
+            logger.error(error.message)
+            this.exit(1)
+        }
+    }
+
+    private confirmMessage(count: number, destructive: boolean, previewed: boolean): string {
+        if (count > 1) return t(previewed ? 'gen.confirmReal' : 'gen.confirmSteps')
+        if (destructive) return t('gen.confirmDestructive')
+        return t(previewed ? 'gen.confirmReal' : 'gen.confirm')
+    }
 
-        if (!API_KEY) {
-            logger.error('API Key Gemini tidak ditemukan.')
-            logger.warn('Pastikan Anda membuat file .env dan menambahkan GEMINI_API_KEY.')
+    // ============================================
+    // CONFIRM STEPS
+    // ============================================
+    /**
+     * Policy, preview dan menu konfirmasi (jalankan/edit/salin/batal) untuk step plan yang akan
+     * dijalankan. Return step yang disetujui, termasuk hasil edit user; exit jika ditolak.
+     * Return 'refine' jika user ingin mengubah permintaan (hanya ditawarkan dalam percakapan).
+     */
+    private async confirmSteps<T extends PlanStep>(initial: T[]): Promise<'refine' | T[]> {
+        let steps = initial
+        let verdicts = steps.map(step => this.policy.evaluate(step.command))
+        if (verdicts.some(verdict => verdict.blocked)) {
+            logger.error(t('gen.stepsBlacklisted'))
+            this.showViolations(verdicts.flatMap(verdict => verdict.violations))
             this.exit(1)
         }
 
-        // Ambil prompt dari user (HANYA dari argv, tanpa flags)
-        let userPrompt = (argv as string[]).join(' ')
+        let previewed = await this.showRisks(steps, verdicts)
 
-        if (userPrompt.length === 0) {
-            logger.warn('Prompt AI tidak diberikan.')
-            userPrompt = await input({
-                message: 'Apa yang ingin Anda lakukan?',
-            })
-            if (!userPrompt) {
-                logger.error('Prompt tidak boleh kosong.')
-                this.exit(1)
+        for (;;) {
+            const destructive = steps.some((step, i) => this.isDestructive(step, verdicts[i]))
+            // eslint-disable-next-line no-await-in-loop
+            const action = await this.choose({
+                default: !destructive,
+                destructive,
+                explain: this.explainOption(steps.map(step => step.command)),
+                message: chalk.yellow(this.confirmMessage(steps.length, destructive, previewed)),
+            }, [
+                { name: t('gen.actionEdit'), value: 'edit' },
+                { name: t('gen.actionCopy'), value: 'copy' },
+                ...(this.conversation ? [{ name: t('gen.actionRefine'), value: 'refine' as const }] : []),
+            ])
+
+            if (action === 'yes' || action === 'refine') return action === 'yes' ? steps : action
+
+            if (action === 'no') {
+                logger.warn(t('gen.cancelled'))
+                this.exit(0)
             }
-        }
 
-        // Deteksi context
-        const context = ContextDetector.detect()
-        
-        // Debug info
-        logger.info(chalk.gray(`Terdeteksi: OS=${context.os}, Shell=${context.shell}, PM=${context.packageManager}`))
-        
-        // Generate command dengan AI
-        const result = await this.generateCommand(userPrompt, context, API_KEY, MODEL_NAME)
-        
-        if (!result) {
-            this.exit(1)
+            if (action === 'copy') {
+                this.copyCommands(steps)
+                continue
+            }
+
+            // eslint-disable-next-line no-await-in-loop
+            const edited = await this.editSteps(steps)
+            if (!edited) continue
+
+            // Hasil edit melewati policy yang sama; edit yang diblokir dibuang
+            const editedVerdicts = edited.map(step => this.policy.evaluate(step.command))
+            if (editedVerdicts.some(verdict => verdict.blocked)) {
+                logger.error(t('gen.editBlocked'))
+                this.showViolations(editedVerdicts.flatMap(verdict => verdict.violations))
+                continue
+            }
+
+            steps = edited
+            verdicts = editedVerdicts
+            // eslint-disable-next-line no-await-in-loop
+            previewed = await this.showRisks(steps, verdicts)
         }
+    }
 
-        const { commands, suggestions } = result
+    // ============================================
+    // CONVERSATION
+    // ============================================
+    /**
+     * Tampilkan usulan lalu jalankan setelah dikonfirmasi. Jika usulannya hampir benar, user bisa
+     * menulis permintaan lanjutan ("pakai yarn saja") atau memilih salah satu alternatif; plan
+     * baru dibuat dari permintaan, context dan usulan sebelumnya tanpa mengetik ulang prompt.
+     */
+    private async converse(first: GenPlan, userPrompt: string, provider: LLMProvider): Promise<void> {
+        let plan = first
+        const requests = [userPrompt]
+        this.conversation = [{ commands: plan.steps.map(step => step.command), request: userPrompt }]
+
+        for (;;) {
+            this.showSuggestions(plan.suggestions)
+
+            // History dan macro mencatat seluruh rangkaian permintaan
+            const prompt = requests.join(' → ')
+            // eslint-disable-next-line no-await-in-loop
+            const result = await (plan.steps.length === 1
+                ? this.executeSingleCommand(plan.steps[0], prompt)
+                : this.executeMultipleCommands(plan.steps, prompt))
+            if (result !== 'refine') return
 
-        // Jika ada suggestions, tampilkan
-        if (suggestions && suggestions.length > 0) {
-            logger.info(chalk.cyan('\n💡 Alternatif Lain:'))
-            for (const [i, s] of suggestions.entries()) {
-                logger.info(chalk.gray(`   ${i + 1}. ${s}`))
+            // eslint-disable-next-line no-await-in-loop
+            const followUp = await this.askFollowUp(plan.suggestions)
+            // eslint-disable-next-line no-await-in-loop
+            const refined = followUp ? await this.generateCommand(followUp, this.context, provider, this.conversation) : null
+            if (!refined) {
+                logger.info(chalk.gray(t('gen.refineKept')))
+                continue
             }
+
+            this.conversation.push({ commands: refined.steps.map(step => step.command), request: followUp })
+            requests.push(followUp)
+            plan = refined
+            // Penjelasan sebelumnya untuk perintah lama; pilihan "jelaskan dulu" ditawarkan lagi
+            this.explained = false
+        }
+    }
+
+    // ============================================
+    // COPY COMMANDS
+    // ============================================
+    private copyCommands(steps: PlanStep[]): void {
+        const text = steps.map(step => step.command).join('\n')
+        if (copyToClipboard(text)) {
+            logger.success(t('gen.copied'))
+            return
         }
 
-        // Tampilkan command(s)
-        await (commands.length === 1 
-            ? this.executeSingleCommand(commands[0], userPrompt) 
-            : this.executeMultipleCommands(commands, userPrompt))
+        // Tanpa clipboard: cetak polos supaya mudah diseleksi dari terminal
+        logger.warn(t('gen.copyFailed'))
+        logger.info(text)
+    }
+
+    // ============================================
+    // DISPLAY STEP
+    // ============================================
+    private describeStep(step: PlanStep, indent: string): void {
+        if (step.description) logger.info(chalk.gray(`${indent}${step.description}`))
+        if (step.cwd) logger.info(chalk.gray(`${indent}${t('gen.cwd', { cwd: step.cwd }).trim()}`))
+    }
+
+    // ============================================
+    // DETECT CONTEXT
+    // ============================================
+    private detectContext(): ContextInfo {
+        const context = ContextDetector.detect()
+        return this.shell ? { ...context, shell: this.shell } : context
+    }
+
+    // ============================================
+    // EDIT STEP
+    // ============================================
+    /**
+     * Edit satu step (multi-step: pilih dulu step-nya). Perintah asli dari AI disimpan di
+     * aiCommand untuk history. Return null jika tidak ada yang berubah.
+     */
+    private async editSteps<T extends PlanStep>(steps: T[]): Promise<null | T[]> {
+        const index = steps.length === 1 ? 0 : Number(await this.prompter.select({
+            choices: steps.map((step, i) => ({ name: `${i + 1}. ${step.command}`, value: String(i) })),
+            message: t('gen.editWhich'),
+        }))
+
+        const step = steps[index]
+        const command = await this.prompter.edit({ default: step.command, message: t('gen.editPrompt') })
+        if (!command || command === step.command) return null
+
+        const aiCommand = step.aiCommand ?? step.command
+        const edited = [...steps]
+        edited[index] = { ...step, aiCommand: aiCommand === command ? undefined : aiCommand, command }
+
+        logger.info(chalk.cyan(t('gen.edited', { step: index + 1 })))
+        logger.box(command)
+        return edited
     }
 
     // ============================================
     // EXECUTE COMMAND (CORE)
     // ============================================
     private async executeCommand(
-        command: string, 
+        step: PlanStep, 
         userPrompt: string,
-        isMultiStep = false,
-    ): Promise<boolean> {
+        planId?: string,
+    ): Promise<StepOutcome> {
+        const { command } = step
+        const isMultiStep = planId !== undefined
         
         if (!isMultiStep) {
-            logger.info(`🚀 Mengeksekusi: ${command}`)
+            logger.info(t('gen.executing', { command }))
         }
 
-        // Deteksi shell untuk menentukan executable yang tepat
-        const context = ContextDetector.detect()
+        // Shell yang terdeteksi menentukan executable yang tepat
         let shellExecutable: boolean | string = true
         
-        if (context.shell === 'powershell' && context.os === 'win32') {
+        if (this.context.shell === 'powershell' && this.context.os === 'win32') {
             // Gunakan PowerShell eksplisit di Windows
             shellExecutable = 'powershell.exe'
         }
 
-        return new Promise((resolve) => {
+        // Output diteruskan ke terminal sekaligus ke log run; bagian akhirnya untuk perbaikan oleh AI
+        const runLog = this.openRunLog()
+        runLog.begin(step)
+        const output = new OutputTail(undefined, runLog)
+        const started = Date.now()
+
+        const outcome = await new Promise<StepOutcome>((resolve) => {
             const child = spawn(command, [], {
+                // cwd dari model relatif terhadap folder tempat gen dijalankan
+                cwd: path.resolve(this.workDir, step.cwd ?? '.'),
                 shell: shellExecutable,
-                stdio: 'inherit',
+                stdio: ['inherit', 'pipe', 'pipe'],
             })
+            output.tee(child.stdout, process.stdout)
+            output.tee(child.stderr, process.stderr)
 
             child.on('error', (error) => {
-                logger.error(`Gagal memulai perintah: ${error.message}`)
-                this.manager.saveToHistory(command, userPrompt, false)
-                resolve(false)
+                logger.error(t('gen.spawnFailed', { message: error.message }))
+                resolve({ code: null, durationMs: Date.now() - started, output: error.message, success: false })
             })
 
             child.on('close', (code) => {
-                const success = code === 0 || code === null
-                
-                if (!success && !isMultiStep) {
-                    logger.error(`Perintah selesai dengan kode error: ${code}`)
-                } else if (success && !isMultiStep) {
-                    logger.success('Perintah berhasil diselesaikan.')
-                }
-
-                this.manager.saveToHistory(command, userPrompt, success)
-                resolve(success)
+                resolve({ code, durationMs: Date.now() - started, output: output.text(), success: code === 0 || code === null })
             })
         })
+
+        if (!isMultiStep) {
+            if (outcome.success) logger.success(t('gen.done'))
+            else if (outcome.code !== null) logger.error(t('gen.exitCode', { code: String(outcome.code) }))
+        }
+
+        return this.finishStep(step, userPrompt, outcome, planId)
+    }
+
+    // ============================================
+    // EXECUTE IN SESSION
+    // ============================================
+    private async executeInSession(session: ShellSession, step: PlanStep, userPrompt: string, planId: string): Promise<StepOutcome> {
+        // Output session sudah diteruskan ke log run (sink saat session dimulai)
+        this.openRunLog().begin(step)
+        const started = Date.now()
+
+        let outcome: StepOutcome = { code: null, durationMs: 0, output: '', success: false }
+        try {
+            const { code, output } = await session.run({
+                command: step.command,
+                cwd: step.cwd ? path.resolve(this.workDir, step.cwd) : undefined,
+            })
+            outcome = { code, durationMs: Date.now() - started, output, success: code === 0 }
+            if (!outcome.success) logger.error(t('gen.exitCode', { code: String(code) }))
+        } catch (error: unknown) {
+            if (!(error instanceof SessionError)) throw error
+            logger.error(error.message)
+            outcome.durationMs = Date.now() - started
+        }
+
+        return this.finishStep(step, userPrompt, outcome, planId)
     }
 
     // ============================================
     // EXECUTE MULTIPLE COMMANDS
     // ============================================
     private async executeMultipleCommands(
-        commands: string[], 
+        steps: PlanStep[], 
         userPrompt: string,
-    ): Promise<void> {
+    ): Promise<'refine' | void> {
         
-        logger.info(chalk.cyan(`\n📋 AI menyarankan ${commands.length} langkah:`))
-        for (const [i, cmd] of commands.entries()) {
-            logger.info(chalk.gray(`   ${i + 1}. ${cmd}`))
+        logger.info(chalk.cyan(t('gen.steps', { count: steps.length })))
+        for (const [i, step] of steps.entries()) {
+            logger.info(chalk.gray(`   ${i + 1}. ${step.command}`) + ` ${this.riskLabel(step.risk)}`)
+            this.describeStep(step, '      ')
         }
 
-        // Safety check for all commands
-        const hasDangerous = commands.some(cmd => SafetyChecker.isBlacklisted(cmd))
-        if (hasDangerous) {
-            logger.error('🛡️  Salah satu perintah termasuk dalam blacklist!')
-            this.exit(1)
-        }
+        const confirmed = await this.confirmSteps(steps)
+        if (confirmed === 'refine') return confirmed
 
-        const hasDestructive = commands.some(cmd => SafetyChecker.isDestructive(cmd))
-        if (hasDestructive) {
-            logger.warn(chalk.red('\n⚠️  PERINGATAN: Ada command yang berpotensi merusak!'))
-        }
-
-        // Konfirmasi
-        const confirmResult = await confirm({
-            default: !hasDestructive,
-            message: chalk.yellow('Jalankan semua perintah secara berurutan?'),
-        })
+        // Plan disimpan dengan status per step supaya bisa dilanjutkan dengan --resume
+        const saved = this.plans.create({ cwd: this.workDir, prompt: userPrompt, shell: this.context.shell, steps: confirmed })
+        logger.info(chalk.gray(t('gen.planSaved', { id: saved.id })))
 
-        if (!confirmResult) {
-            logger.warn('Eksekusi dibatalkan oleh pengguna.')
-            this.exit(0)
-        }
-
-        // Execute sequentially
-        for (const [i, cmd] of commands.entries()) {
-            logger.info(chalk.cyan(`\n▶️  Step ${i + 1}/${commands.length}: ${cmd}`))
-            
-            // eslint-disable-next-line no-await-in-loop
-            const success = await this.executeCommand(cmd, userPrompt, true)
-            
-            if (!success) {
-                logger.error(`Step ${i + 1} gagal. Menghentikan eksekusi.`)
-                
-                // Smart suggestion untuk error
-                logger.info(chalk.cyan('\n💡 Saran:'))
-                logger.info('   - Periksa apakah dependencies sudah terinstall')
-                logger.info('   - Coba jalankan ulang command yang gagal')
-                logger.info('   - Gunakan --history untuk melihat command sebelumnya')
-                
-                this.exit(1)
-            }
-        }
-
-        logger.success('\n✅ Semua langkah berhasil diselesaikan!')
+        await this.runPlan(saved, 0)
     }
 
     // ============================================
     // EXECUTE SINGLE COMMAND
     // ============================================
     private async executeSingleCommand(
-        command: string, 
+        step: PlanStep, 
         userPrompt: string,
-    ): Promise<void> {
+    ): Promise<'refine' | void> {
+        const { command } = step
         
         // Safety check
-        if (SafetyChecker.isBlacklisted(command)) {
-            logger.error('🛡️  PERINTAH BERBAHAYA TERDETEKSI!')
-            logger.error(`Command "${command}" termasuk dalam blacklist dan tidak akan dieksekusi.`)
+        const verdict = this.policy.evaluate(command)
+        if (verdict.blocked) {
+            logger.error(t('gen.dangerous'))
+            logger.error(t('gen.blacklisted', { command }))
+            this.showViolations(verdict.violations)
             this.exit(1)
         }
 
-        const isDestructive = SafetyChecker.isDestructive(command)
-
         // Tampilkan command
-        logger.info('AI menyarankan untuk menjalankan perintah berikut:')
+        logger.info(`${t('gen.suggests')} ${this.riskLabel(step.risk)}`)
         logger.box(command)
+        this.describeStep(step, '   ')
+
+        // Konfirmasi, lalu execute (mungkin versi yang sudah diedit user)
+        const confirmed = await this.confirmSteps([step])
+        if (confirmed === 'refine') return confirmed
 
-        if (isDestructive) {
-            logger.warn(chalk.red('⚠️  PERINGATAN: Command ini berpotensi merusak/menghapus data!'))
+        const outcome = await this.executeCommand(confirmed[0], userPrompt)
+        if (outcome.success) this.saveMacro(confirmed, userPrompt)
+    }
+
+    // ============================================
+    // EXPLAIN COMMANDS
+    // ============================================
+    /**
+     * Minta model memecah perintah menjadi potongan + efek samping. Gagal menjelaskan
+     * tidak membatalkan gen: user tetap bisa memutuskan dari perintahnya saja.
+     */
+    private async explainCommands(commands: string[]): Promise<CommandExplanation[] | null> {
+        const { provider } = this
+        if (!provider) return null
+
+        ux.action.start(t('gen.explaining'))
+
+        try {
+            const prompt = prompts().explain(this.context, commands)
+            const result = await retryWithBackoff(() => provider.generate(prompt, { responseSchema: EXPLAIN_RESPONSE_SCHEMA }), {
+                attempts: this.appConfig.retryAttempts,
+                baseDelay: this.appConfig.retryBaseDelay,
+            })
+            const explanations = parseExplanation(result.text, commands)
+            ux.action.stop(t('common.done'))
+            this.explained = true
+
+            return explanations
+        } catch (error: unknown) {
+            ux.action.stop(t('common.failed'))
+            logger.warn(t('gen.explainFailed', { message: (error as Error).message }))
+            return null
         }
+    }
 
-        // Konfirmasi
-        const confirmResult = await confirm({
-            default: !isDestructive, // false jika destructive
-            message: chalk.yellow(
-                isDestructive 
-                    ? '⚠️  Apakah Anda BENAR-BENAR yakin ingin mengeksekusi perintah ini?' 
-                    : 'Apakah Anda yakin ingin mengeksekusi perintah ini?',
-            ),
-        })
+    /** Pilihan "jelaskan dulu" di konfirmasi, selama belum dijelaskan */
+    private explainOption(commands: string[]): (() => Promise<void>) | undefined {
+        if (this.explained || !this.provider) return undefined
 
-        if (!confirmResult) {
-            logger.warn('Eksekusi dibatalkan oleh pengguna.')
-            this.exit(0)
+        return async () => {
+            const explanations = await this.explainCommands(commands)
+            if (explanations) this.showExplanations(explanations)
         }
+    }
 
-        // Execute
-        await this.executeCommand(command, userPrompt)
+    // ============================================
+    // FINISH STEP
+    // ============================================
+    /** Exit code dan durasi dicatat di log run dan history, lalu output diringkas jika --summarize */
+    private async finishStep(step: PlanStep, userPrompt: string, outcome: StepOutcome, planId?: string): Promise<StepOutcome> {
+        this.runLog?.end(outcome.code, outcome.durationMs)
+        this.saveHistory(step, userPrompt, outcome, planId)
+        if (this.summarize) await this.summarizeOutput(step, outcome)
+        return outcome
     }
 
     // ============================================
@@ -454,236 +764,597 @@ export default class Gen extends Command {
     private async generateCommand(
         userPrompt: string, 
         context: ContextInfo,
-        apiKey: string,
-        modelName: string,
-    ): Promise<null | { commands: string[]; suggestions?: string[] }> {
+        provider: LLMProvider,
+        turns: GenTurn[] = [],
+    ): Promise<GenPlan | null> {
         
-        ux.action.start(`🧠 AI sedang memikirkan perintah untuk: "${userPrompt}"`)
+        ux.action.start(t('gen.thinking', { prompt: userPrompt }))
+
+        // Dalam percakapan, permintaan lanjutan dikirim bersama permintaan dan usulan sebelumnya
+        const prompt = turns.length > 0 ? prompts().genRefine(context, turns, userPrompt) : prompts().gen(context, userPrompt)
+        const request = (text: string) => retryWithBackoff(() => provider.generate(text, { responseSchema: GEN_RESPONSE_SCHEMA }), {
+            attempts: this.appConfig.retryAttempts,
+            baseDelay: this.appConfig.retryBaseDelay,
+        })
 
         try {
-            const genAI = new GoogleGenerativeAI(apiKey)
-            const model = genAI.getGenerativeModel({ model: modelName })
-
-            const systemPrompt = `
-Anda adalah asisten CLI yang ahli dan context-aware.
-
-INFORMASI KONTEKS:
-- OS: ${context.os}
-- Shell: ${context.shell}
-- Package Manager: ${context.packageManager}
-- Ada package.json: ${context.hasPackageJson}
-${context.projectType ? `- Project Type: ${context.projectType}` : ''}
-
-TUGAS ANDA:
-1. Ubah permintaan manusia menjadi perintah shell yang dapat dieksekusi
-2. Gunakan package manager yang terdeteksi (${context.packageManager})
-3. Sesuaikan command dengan OS (${context.os}) dan shell (${context.shell})
-4. Jika task kompleks, pecah menjadi beberapa step
-
-${context.shell === 'powershell' ? `
-PENTING - SINTAKS POWERSHELL:
-- Gunakan New-Item untuk membuat file/folder: New-Item -ItemType Directory -Force -Path "src/components"
-- Untuk menulis file dengan konten multi-line, gunakan ARRAY dengan -join untuk proper line breaks:
-  
-  CONTOH BENAR (HTML file): 
-  @('<!DOCTYPE html>', '<html lang="en">', '<head>', '  <meta charset="UTF-8">', '  <title>My Page</title>', '</head>', '<body>', '  <h1>Hello</h1>', '</body>', '</html>') -join "\`r\`n" | Out-File -FilePath "index.html" -Encoding utf8
-  
-  CONTOH BENAR (JS file):
-  @('const message = "Hello";', 'console.log(message);') -join "\`r\`n" | Out-File -FilePath "app.js" -Encoding utf8
-
-- PENTING: Gunakan array syntax @('line1', 'line2', 'line3') dengan -join "\`r\`n"
-- Setiap line adalah string terpisah dalam array
-- Indentasi menggunakan spasi dalam string: '  <meta>' untuk 2 spaces indent
-- WAJIB gunakan double quotes untuk string yang berisi single quotes
-- Gunakan single quotes untuk string yang berisi double quotes
-- JANGAN gunakan mkdir -p (Unix), gunakan New-Item -ItemType Directory -Force
-- JANGAN gunakan touch (Unix), gunakan New-Item -ItemType File  
-- Gunakan semicolon (;) untuk menggabungkan perintah, bukan &&
-` : context.shell === 'cmd' ? `
-PENTING - SINTAKS CMD:
-- Gunakan mkdir untuk folder (otomatis rekursif di Windows)
-- Gunakan echo untuk menulis: echo content > file.txt
-- Gunakan & atau && untuk chain commands
-- JANGAN gunakan Unix commands seperti touch, rm -rf
-` : `
-PENTING - SINTAKS UNIX/BASH:
-- Gunakan mkdir -p untuk folder rekursif
-- Gunakan echo > untuk redirect output
-- Gunakan && untuk chain commands
-- Gunakan touch untuk membuat file kosong
-`}
-
-FORMAT OUTPUT (PENTING!):
-Untuk SINGLE command:
-COMMAND: <perintah>
-SUGGESTIONS: <alternatif1> | <alternatif2> | <alternatif3>
-
-Untuk MULTI-STEP commands:
-MULTI_STEP
-STEP1: <perintah1>
-STEP2: <perintah2>
-STEP3: <perintah3>
-SUGGESTIONS: <alternatif1> | <alternatif2>
-
-ATURAN:
-1. JANGAN berikan penjelasan tambahan
-2. JANGAN gunakan markdown
-3. Gunakan ${context.packageManager} untuk install packages (npm, yarn, pnpm)
-4. SELALU convert natural language ke shell command (install, create, setup, dll adalah valid)
-5. Framework installation (React, Next.js, Vue, dll) HARUS generate command
-6. Hanya return "ERROR: Bukan perintah shell" jika benar-benar bukan aksi (misal: "apa itu NextJS?", "jelaskan React")
-7. SELALU berikan 2-3 suggestions (alternatif command)
-8. PASTIKAN command sesuai dengan shell ${context.shell}
-
-CONTOH ${context.shell === 'powershell' ? 'POWERSHELL' : 'BASH'}:
-${context.shell === 'powershell' ? `
-User: buat file Button di src/components
-Output:
-COMMAND: @('export default function Button() {', '  return <button>Click me</button>', '}') -join "\`r\`n" | Out-File -FilePath "src/components/Button.jsx" -Encoding utf8
-SUGGESTIONS: buat dengan TypeScript | tambahkan props | buat di folder lain
-
-User: install NextJS
-Output:
-COMMAND: npx create-next-app@latest my-next-app
-SUGGESTIONS: install dengan TypeScript | install dengan App Router | install dengan tailwind
-
-User: install react dan axios
-Output:
-COMMAND: ${context.packageManager} install react react-dom axios
-SUGGESTIONS: install dengan TypeScript | tambah react-query | gunakan fetch
-
-User: setup project next.js dengan tailwind
-Output:
-MULTI_STEP
-STEP1: npx create-next-app@latest my-app --tailwind
-STEP2: cd my-app
-STEP3: ${context.packageManager} install
-SUGGESTIONS: menggunakan create-next-app template | manual setup tailwind | tambahkan shadcn
-` : `
-User: install react dan axios
-Output:
-COMMAND: ${context.packageManager} install react axios react-dom
-SUGGESTIONS: npm install react axios | yarn add react axios | pnpm add react axios
-
-User: install NextJS
-Output:
-COMMAND: npx create-next-app@latest my-next-app
-SUGGESTIONS: with TypeScript | with App Router | with Tailwind
-
-User: setup project next.js dengan tailwind
-Output:
-MULTI_STEP
-STEP1: npx create-next-app@latest my-app
-STEP2: cd my-app
-STEP3: ${context.packageManager} install -D tailwindcss postcss autoprefixer
-STEP4: npx tailwindcss init -p
-SUGGESTIONS: menggunakan template next.js tailwind | manual setup tailwind
-`}
-            `
-
-            const result = await model.generateContent([
-                systemPrompt,
-                `User: ${userPrompt}`,
-                'Anda:',
-            ])
+            let result = await request(prompt)
+            let plan: GenPlan
 
-            const responseText = result.response.text().trim()
+            try {
+                plan = parsePlan(result.text)
+            } catch (error: unknown) {
+                if (!(error instanceof PlanError)) throw error
+
+                // Satu kali minta ulang, dengan daftar masalahnya supaya model bisa memperbaiki
+                ux.action.status = t('gen.reprompting')
+                result = await request(prompt + prompts().genRepair(error.message))
+                plan = parsePlan(result.text)
+            }
 
-            if (responseText.startsWith('ERROR:')) {
-                ux.action.stop('❌ Gagal')
-                logger.error(`AI tidak bisa mengubah prompt itu: ${responseText}`)
+            if (plan.refusal) {
+                ux.action.stop(t('common.failed'))
+                logger.error(t('gen.refused', { response: plan.refusal }))
                 return null
             }
 
-            // Parse response
-            const parsed = this.parseAIResponse(responseText)
-            ux.action.stop('✅ Perintah dibuat!')
+            ux.action.stop(t(result.cached ? 'gen.generatedCached' : 'gen.generated'))
             
-            return parsed
+            return plan
         } catch (error: unknown) {
-            ux.action.stop('❌ Gagal')
-            logger.error('Gagal menghubungi API Gemini.')
+            ux.action.stop(t('common.failed'))
+
+            if (error instanceof PlanError) {
+                logger.error(t('gen.invalidResponse', { problem: error.message }))
+                return null
+            }
+
+            logger.error(t('gen.providerFailed', { provider: provider.name }))
             logger.info((error as Error).message)
             return null
         }
     }
 
     // ============================================
-    // PARSE AI RESPONSE
+    // POLICY
     // ============================================
-    private parseAIResponse(response: string): { commands: string[]; suggestions?: string[] } {
-        const lines = response.split('\n').map(l => l.trim()).filter(Boolean)
-        
-        const commands: string[] = []
-        let suggestions: string[] = []
-
-        if (response.includes('MULTI_STEP')) {
-            // Multi-step commands
-            for (const line of lines) {
-                if (line.startsWith('STEP')) {
-                    const cmd = line.split(':').slice(1).join(':').trim()
-                    commands.push(cmd)
-                } else if (line.startsWith('SUGGESTIONS:')) {
-                    const sugg = line.split(':')[1].trim()
-                    suggestions = sugg.split('|').map(s => s.trim())
+    /** Destructive menurut policy lokal ATAU menurut penilaian risiko dari model */
+    private isDestructive(step: PlanStep, verdict: PolicyVerdict): boolean {
+        return step.risk === 'high' || verdict.destructive
+    }
+
+    // ============================================
+    // MACRO NAME
+    // ============================================
+    /** Nama --save dicek sebelum ke AI, supaya tidak baru gagal setelah perintah dijalankan */
+    private macroName(name: string): string {
+        try {
+            assertMacroName(name)
+            return name
+        } catch (error: unknown) {
+            if (!(error instanceof MacroError)) throw error
+            logger.error(error.message)
+            this.exit(1)
+        }
+    }
+
+    // ============================================
+    // RUN LOG
+    // ============================================
+    private openRunLog(): RunLog {
+        this.runLog ??= RunLog.open()
+        return this.runLog
+    }
+
+    // ============================================
+    // PREVIEW
+    // ============================================
+    /**
+     * Jalankan step di sandbox (--preview). Step yang menyentuh sesuatu di luar folder kerja
+     * tidak di-preview, dan preview yang gagal tidak membatalkan gen.
+     */
+    private async previewSteps(steps: PlanStep[]): Promise<null | PreviewResult> {
+        const verdicts = steps.map(step => this.policy.evaluate(step.command))
+        if (verdicts.some(verdict => verdict.blocked)) return null
+
+        for (const [i, step] of steps.entries()) {
+            const blockers = previewBlockers(step, verdicts[i])
+            if (blockers.length > 0) {
+                logger.warn(t('gen.previewBlocked', { rules: blockers.join(', '), step: i + 1 }))
+                return null
+            }
+        }
+
+        ux.action.start(t('gen.previewing'))
+
+        try {
+            const preview = await runPreview(steps, { shell: this.context.shell, timeout: this.appConfig.previewTimeout })
+            ux.action.stop(t('common.done'))
+            return preview
+        } catch (error: unknown) {
+            ux.action.stop(t('common.failed'))
+            const message = error instanceof PreviewError ? error.message : (error as NodeJS.ErrnoException).code ?? (error as Error).message
+            logger.warn(t('gen.previewFailed', { message }))
+            return null
+        }
+    }
+
+    // ============================================
+    // READ PROMPT
+    // ============================================
+    /** Prompt diambil HANYA dari argv (tanpa flags); kosong → ditanyakan jika bisa */
+    private async readPrompt(argv: string[]): Promise<string> {
+        const userPrompt = argv.join(' ')
+        if (userPrompt.length > 0) return userPrompt
+
+        if (!this.prompter.interactive) {
+            logger.error(t('gen.promptMissing'))
+            this.exit(1)
+        }
+
+        logger.warn(t('gen.promptMissing'))
+        const answer = await this.prompter.input({
+            message: t('gen.askPrompt'),
+        })
+        if (!answer) {
+            logger.error(t('gen.promptEmpty'))
+            this.exit(1)
+        }
+
+        return answer
+    }
+
+    // ============================================
+    // REPAIR FAILED STEP
+    // ============================================
+    /**
+     * Kirim step yang gagal beserta output-nya ke model dan minta step pengganti. Return null
+     * jika tidak ada perbaikan yang bisa (atau boleh) dijalankan.
+     */
+    private async repairStep(plan: PlanStep[], index: number, outcome: StepOutcome, userPrompt: string): Promise<null | PlanStep[]> {
+        const { provider } = this
+        if (!this.repair || !provider || !this.prompter.canConfirm) return null
+
+        ux.action.start(t('gen.repairing', { step: index + 1 }))
+
+        let steps: PlanStep[]
+        try {
+            const prompt = prompts().genFix(this.context, {
+                code: outcome.code,
+                commands: plan.map(step => step.command),
+                index,
+                output: outcome.output,
+                userPrompt,
+            })
+            const result = await retryWithBackoff(() => provider.generate(prompt, { responseSchema: GEN_RESPONSE_SCHEMA }), {
+                attempts: this.appConfig.retryAttempts,
+                baseDelay: this.appConfig.retryBaseDelay,
+            })
+            const repaired = parsePlan(result.text)
+            ux.action.stop(t('common.done'))
+
+            if (repaired.refusal) {
+                logger.warn(t('gen.repairRefused', { reason: repaired.refusal }))
+                return null
+            }
+
+            steps = repaired.steps
+        } catch (error: unknown) {
+            ux.action.stop(t('common.failed'))
+            logger.warn(t('gen.repairFailed', { message: (error as Error).message }))
+            return null
+        }
+
+        logger.info(chalk.cyan(t('gen.repairSteps', { step: index + 1 })))
+        for (const [i, step] of steps.entries()) {
+            logger.info(chalk.gray(`   ${i + 1}. ${step.command}`) + ` ${this.riskLabel(step.risk)}`)
+            this.describeStep(step, '      ')
+        }
+
+        // Perbaikan melewati policy yang sama dengan plan asli
+        const verdicts = steps.map(step => this.policy.evaluate(step.command))
+        const violations = verdicts.flatMap(verdict => verdict.violations)
+        if (verdicts.some(verdict => verdict.blocked)) {
+            logger.error(t('gen.stepsBlacklisted'))
+            this.showViolations(violations)
+            return null
+        }
+
+        const destructive = steps.some((step, i) => this.isDestructive(step, verdicts[i]))
+        if (destructive) logger.warn(chalk.red(t('gen.stepsDestructive')))
+        this.showViolations(violations)
+
+        const confirmed = await this.confirm({
+            default: !destructive,
+            destructive,
+            message: chalk.yellow(t('gen.confirmRepair')),
+        })
+
+        return confirmed ? steps : null
+    }
+
+    // ============================================
+    // RESUME PLAN
+    // ============================================
+    /** Pilihan untuk step yang gagal; tanpa terminal interaktif step dijalankan ulang apa adanya */
+    private async resumeAction(index: number): Promise<'cancel' | 'edit' | 'retry' | 'skip'> {
+        if (!this.prompter.interactive) return 'retry'
+
+        try {
+            return await this.prompter.select({
+                choices: [
+                    { name: t('gen.resumeRetry'), value: 'retry' },
+                    { name: t('gen.resumeEdit'), value: 'edit' },
+                    { name: t('gen.resumeSkip'), value: 'skip' },
+                    { name: t('gen.resumeCancel'), value: 'cancel' },
+                ],
+                default: 'retry',
+                message: t('gen.resumeAction', { step: index + 1 }),
+            })
+        } catch (error: unknown) {
+            if (!(error instanceof PromptError)) throw error
+            logger.error(error.message)
+            this.exit(1)
+        }
+    }
+
+    /**
+     * Lanjutkan plan yang tersimpan dari step pertama yang belum berhasil. Step yang gagal
+     * bisa dijalankan ulang, diedit atau dilewati.
+     */
+    private async resumePlan(id: string | undefined, provider: LLMProvider): Promise<void | { plan: SavedPlan }> {
+        const saved = this.plans.lookup(id)
+        if (!saved) {
+            logger.error(id ? t('gen.resumeNotFound', { id }) : t('gen.resumeNone'))
+            this.exit(1)
+        }
+
+        if (this.jsonEnabled()) {
+            return { plan: saved }
+        }
+
+        this.showPlan(saved)
+        if (isFinished(saved)) {
+            logger.info(t('gen.resumeFinished'))
+            return
+        }
+
+        if (saved.cwd !== process.cwd()) logger.warn(t('gen.resumeCwd', { cwd: saved.cwd }))
+        this.workDir = saved.cwd
+        this.context = { ...ContextDetector.detect(saved.cwd), shell: saved.shell }
+        this.provider = provider
+
+        let start = resumeIndex(saved)
+        const current = saved.steps[start]
+        if (current.status === 'failed') {
+            const action = await this.resumeAction(start)
+
+            if (action === 'cancel') {
+                logger.warn(t('gen.cancelled'))
+                this.exit(0)
+            }
+
+            if (action === 'edit') {
+                const command = await this.prompter.edit({ default: current.command, message: t('gen.resumeEditPrompt') })
+                if (command && command !== current.command) {
+                    current.aiCommand ??= current.command
+                    current.command = command
                 }
             }
-        } else {
-            // Single command
-            for (const line of lines) {
-                if (line.startsWith('COMMAND:')) {
-                    commands.push(line.split(':').slice(1).join(':').trim())
-                } else if (line.startsWith('SUGGESTIONS:')) {
-                    const sugg = line.split(':')[1].trim()
-                    suggestions = sugg.split('|').map(s => s.trim())
+
+            if (action === 'skip') {
+                current.status = 'skipped'
+                start = resumeIndex(saved)
+            }
+
+            this.plans.save(saved)
+            if (start === -1) {
+                logger.success(t('gen.allDone'))
+                return
+            }
+        }
+
+        // Session baru: cd/export dari step yang sudah selesai tidak ikut dipulihkan
+        if (start > 0) logger.info(chalk.gray(t('gen.resumeSession')))
+
+        const confirmed = await this.confirmSteps(saved.steps.slice(start))
+        if (confirmed === 'refine') return
+
+        saved.steps.splice(start, confirmed.length, ...confirmed)
+        this.plans.save(saved)
+        await this.runPlan(saved, start)
+    }
+
+    // ============================================
+    // RISK LABEL
+    // ============================================
+    private riskLabel(risk: RiskLevel): string {
+        if (risk === 'high') return chalk.red(`[${t('gen.riskHigh')}]`)
+        if (risk === 'medium') return chalk.yellow(`[${t('gen.riskMedium')}]`)
+        return chalk.green(`[${t('gen.riskLow')}]`)
+    }
+
+    // ============================================
+    // RUN PLAN
+    // ============================================
+    /**
+     * Jalankan step plan mulai dari index start, berurutan dalam satu session shell (cmd: satu
+     * proses per step). Status setiap step langsung disimpan ke PlanStore.
+     */
+    private async runPlan(saved: SavedPlan, start: number): Promise<void> {
+        const { id, prompt: userPrompt, steps: plan } = saved
+        const session = ShellSession.start(this.context.shell, this.workDir, { sink: this.openRunLog() })
+        let repairs = 0
+        try {
+            let i = start
+            while (i < plan.length) {
+                const step = plan[i]
+                logger.info(chalk.cyan(t('gen.step', { command: step.command, current: i + 1, total: plan.length })))
+                
+                // eslint-disable-next-line no-await-in-loop
+                const outcome = await (session
+                    ? this.executeInSession(session, step, userPrompt, id)
+                    : this.executeCommand(step, userPrompt, id))
+
+                step.status = outcome.success ? 'success' : 'failed'
+                this.plans.save(saved)
+                
+                if (outcome.success) {
+                    i++
+                    continue
+                }
+
+                logger.error(t('gen.stepFailed', { step: i + 1 }))
+
+                // Step gagal diganti dengan perbaikan dari AI, lalu plan dilanjutkan dari step itu.
+                // Session yang sudah berhenti tidak bisa melanjutkan plan, jadi tidak perlu diperbaiki.
+                const repairable = repairs < MAX_REPAIRS && (!session || session.alive)
+                // eslint-disable-next-line no-await-in-loop
+                const replacement = repairable ? await this.repairStep(plan, i, outcome, userPrompt) : null
+                if (replacement) {
+                    plan.splice(i, 1, ...replacement.map(fix => ({ ...fix, status: 'pending' as const })))
+                    this.plans.save(saved)
+                    repairs++
+                    continue
                 }
+                    
+                // Smart suggestion untuk error
+                logger.info(chalk.cyan(t('gen.tips')))
+                logger.info(t('gen.tipDependencies'))
+                logger.info(t('gen.tipRerun'))
+                logger.info(t('gen.tipHistory'))
+                logger.info(t('gen.tipResume', { id }))
+                
+                this.exit(1)
             }
+        } finally {
+            await session?.close()
+        }
+
+        logger.success(t('gen.allDone'))
+        this.saveMacro(plan.filter(step => step.status === 'success'), userPrompt)
+    }
+
+    // ============================================
+    // SAVE HISTORY
+    // ============================================
+    private saveHistory(step: PlanStep, prompt: string, { code, durationMs, success }: StepOutcome, planId?: string): void {
+        this.history.append({
+            aiCommand: step.aiCommand,
+            command: 'gen',
+            durationMs,
+            exitCode: code ?? undefined,
+            logFile: this.runLog?.file,
+            planId,
+            prompt,
+            shellCommand: step.command,
+            status: success ? 'success' : 'failed',
+        })
+    }
+
+    // ============================================
+    // SAVE MACRO
+    // ============================================
+    /** gen --save: simpan step yang berhasil dijalankan (versi yang diedit user, tanpa status) */
+    private saveMacro(steps: PlanStep[], prompt: string): void {
+        if (!this.saveAs) return
+
+        const templated = templatize(steps.map(({ command, cwd, description, risk }) => ({ command, cwd, description, risk })), this.placeholders)
+        for (const name of templated.missing) logger.warn(t('gen.placeholderUnused', { name }))
+
+        try {
+            this.macros.save({
+                name: this.saveAs,
+                os: this.context.os,
+                prompt,
+                shell: this.context.shell,
+                steps: templated.steps,
+            })
+            logger.success(t('gen.macroSaved', { name: this.saveAs }))
+        } catch (error: unknown) {
+            if (!(error instanceof MacroError)) throw error
+            logger.warn(error.message)
         }
+    }
 
-        return { commands, suggestions }
+    // ============================================
+    // SHOW EXPLANATIONS
+    // ============================================
+    private showExplanations(explanations: CommandExplanation[]): void {
+        for (const explanation of explanations) {
+            for (const line of formatExplanation(explanation)) logger.info(line)
+        }
     }
 
     // ============================================
     // SHOW HISTORY
     // ============================================
-    private async showHistory(): Promise<void> {
-        const history = this.manager.getHistory()
+    private async showHistory(): Promise<{ history: HistoryEntry[] }> {
+        const history = this.history.list({ command: 'gen', limit: 10 })
+
+        if (this.jsonEnabled()) {
+            return { history }
+        }
 
         if (history.length === 0) {
-            logger.info('Belum ada history.')
-            return
+            logger.info(t('gen.historyEmpty'))
+            return { history }
         }
 
-        logger.info(chalk.cyan('\n📜 History Perintah (10 terakhir):\n'))
+        logger.info(chalk.cyan(t('gen.historyTitle')))
 
-        const recent = history.slice(0, 10)
-        
-        for (const [index, item] of recent.entries()) {
-            const status = item.success ? chalk.green('✓') : chalk.red('✗')
-            const time = new Date(item.timestamp).toLocaleString('id-ID')
+        for (const [index, item] of history.entries()) {
+            const status = statusIcon(item.status)
+            const time = formatDate(item.timestamp)
             
-            logger.info(`${status} ${chalk.gray(`[${index + 1}]`)} ${chalk.white(item.command)}`)
-            logger.info(chalk.gray(`   Prompt: ${item.prompt}`))
-            logger.info(chalk.gray(`   Waktu: ${time}\n`))
+            logger.info(`${status} ${chalk.gray(`[${index + 1}]`)} ${chalk.white(item.shellCommand ?? '')}`)
+            if (item.aiCommand) logger.info(chalk.gray(t('gen.historyEdited', { command: item.aiCommand })))
+            logger.info(chalk.gray(t('gen.historyPrompt', { prompt: item.prompt ?? '' })))
+            if (item.durationMs !== undefined) {
+                logger.info(chalk.gray(t('gen.historyRun', { code: String(item.exitCode ?? '-'), duration: formatDuration(item.durationMs) })))
+            }
+
+            if (item.logFile) logger.info(chalk.gray(t('gen.historyLog', { file: item.logFile })))
+            logger.info(chalk.gray(t('gen.historyTime', { time })))
         }
 
-        // Opsi: Jalankan ulang dari history?
-        const runAgain = await confirm({
+        // Opsi: Jalankan ulang dari history? (hanya jika bisa bertanya)
+        if (!this.prompter.interactive) {
+            return { history }
+        }
+
+        const runAgain = await this.prompter.confirm({
             default: false,
-            message: 'Ingin menjalankan ulang salah satu command?',
+            message: t('gen.rerun'),
         })
 
         if (runAgain) {
-            const choice = await input({
-                message: 'Pilih nomor (1-10):',
+            const choice = await this.prompter.input({
+                message: t('gen.pickNumber'),
                 validate(value) {
                     const num = Number.parseInt(value, 10)
-                    return num >= 1 && num <= recent.length ? true : 'Nomor tidak valid'
+                    return num >= 1 && num <= history.length ? true : t('gen.invalidNumber')
                 },
             })
 
-            const selected = recent[Number.parseInt(choice, 10) - 1]
-            await this.executeSingleCommand(selected.command, selected.prompt)
+            const selected = history[Number.parseInt(choice, 10) - 1]
+            this.context = this.detectContext()
+            // Risiko dinilai ulang oleh policy; penilaian model tidak disimpan di history
+            await this.executeSingleCommand({ command: selected.shellCommand ?? '', description: '', risk: 'low' }, selected.prompt ?? '')
+        }
+
+        return { history }
+    }
+
+    // ============================================
+    // SHOW PLAN
+    // ============================================
+    private showPlan({ createdAt, id, prompt, steps }: SavedPlan): void {
+        logger.info(chalk.cyan(t('gen.planTitle', { date: formatDate(createdAt), id, prompt })))
+        for (const [i, step] of steps.entries()) {
+            logger.info(`   ${stepStatusIcon(step.status)} ${i + 1}. ${step.command}`)
+            if (step.cwd) logger.info(chalk.gray(`      ${t('gen.cwd', { cwd: step.cwd }).trim()}`))
+        }
+    }
+
+    /** Tampilkan preview sebelum konfirmasi; true jika preview berhasil dijalankan */
+    private async showPreview(steps: PlanStep[]): Promise<boolean> {
+        if (!this.preview) return false
+
+        const preview = await this.previewSteps(steps)
+        if (!preview) return false
+
+        for (const line of formatPreview(preview)) logger.info(line)
+        return true
+    }
+
+    // ============================================
+    // SHOW RISKS
+    // ============================================
+    /** Peringatan destructive, pelanggaran policy dan preview (jika --preview); return true jika di-preview */
+    private async showRisks(steps: PlanStep[], verdicts: PolicyVerdict[]): Promise<boolean> {
+        if (steps.some((step, i) => this.isDestructive(step, verdicts[i]))) {
+            logger.warn(chalk.red(t(steps.length === 1 ? 'gen.destructiveWarning' : 'gen.stepsDestructive')))
+        }
+
+        this.showViolations(verdicts.flatMap(verdict => verdict.violations))
+        return this.showPreview(steps)
+    }
+
+    private showSuggestions(suggestions: string[]): void {
+        if (suggestions.length === 0) return
+
+        logger.info(chalk.cyan(t('gen.alternatives')))
+        for (const [i, suggestion] of suggestions.entries()) {
+            logger.info(chalk.gray(`   ${i + 1}. ${suggestion}`))
+        }
+    }
+
+    private showViolations(violations: PolicyViolation[]): void {
+        for (const violation of violations) {
+            if (violation.severity === 'critical') logger.error(formatViolation(violation))
+            else logger.warn(formatViolation(violation))
+        }
+    }
+
+    // ============================================
+    // SUMMARIZE OUTPUT
+    // ============================================
+    /**
+     * --summarize: output yang panjang diringkas model menjadi beberapa baris. Output pendek
+     * sudah cukup dibaca langsung; gagal meringkas tidak mengubah hasil perintah.
+     */
+    private async summarizeOutput(step: PlanStep, outcome: StepOutcome): Promise<void> {
+        const { provider } = this
+        const output = this.runLog?.stepOutput() || outcome.output
+        if (!provider || output.split('\n').length < SUMMARY_MIN_LINES) return
+
+        ux.action.start(t('gen.summarizing'))
+
+        try {
+            const prompt = prompts().summarize(this.context, { code: outcome.code, command: step.command, output })
+            const result = await retryWithBackoff(() => provider.generate(prompt), {
+                attempts: this.appConfig.retryAttempts,
+                baseDelay: this.appConfig.retryBaseDelay,
+            })
+            ux.action.stop(t('common.done'))
+
+            logger.info(chalk.cyan(t('gen.summary')))
+            logger.info(result.text.trim())
+        } catch (error: unknown) {
+            ux.action.stop(t('common.failed'))
+            logger.warn(t('gen.summarizeFailed', { message: (error as Error).message }))
+        }
+    }
+
+    // ============================================
+    // JSON RESULT
+    // ============================================
+    private toResult(
+        { steps, suggestions }: GenPlan,
+        prompt: string,
+        explanations: CommandExplanation[] | null,
+        preview: null | PreviewResult,
+    ): GenResult {
+        const verdicts = steps.map(step => this.policy.evaluate(step.command))
+        const violations = verdicts.flatMap(verdict => verdict.violations)
+
+        // Policy tetap berlaku: perintah yang diblokir tidak dikembalikan ke script
+        if (verdicts.some(verdict => verdict.blocked)) {
+            const blocked = violations.filter(violation => violation.severity === 'critical')
+            logger.error(t('gen.jsonBlacklisted', { violations: blocked.map(violation => `${violation.rule} (${violation.command})`).join(', ') }))
+            this.exit(1)
+        }
+
+        return {
+            commands: steps.map(step => step.command),
+            destructive: steps.some((step, i) => this.isDestructive(step, verdicts[i])),
+            ...(explanations && { explanations }),
+            ...(preview && { preview }),
+            prompt,
+            steps,
+            suggestions,
+            violations,
         }
     }
-}
\ No newline at end of file
+}
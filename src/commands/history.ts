@@ -0,0 +1,133 @@
+import { Command, Flags } from '@oclif/core'
+import chalk from 'chalk'
+import * as fs from 'node:fs'
+
+import { configFlags, loadConfig } from '../utills/config.js'
+import { dateFlag, formatDuration, HISTORY_COMMANDS, HISTORY_STATUSES, HistoryEntry, HistoryStore, statusIcon, toCsv, untilFlag } from '../utills/history.js'
+import { formatDate, setLocale, t } from '../utills/i18n.js'
+import logger, { errorJson } from '../utills/loggers.js'
+
+export default class History extends Command {
+  static description = 'Tampilkan, cari, dan export history gen/fix/review.'
+  static enableJsonFlag = true
+  static examples = [
+    '<%= config.bin %> history',
+    '<%= config.bin %> history --command fix --status failed --since 7d',
+    '<%= config.bin %> history --search "EADDRINUSE"',
+    '<%= config.bin %> history --path src/components --export csv --output review.csv',
+    '<%= config.bin %> history --prune',
+  ]
+  static flags = {
+    command: Flags.string({
+      char: 'c',
+      description: 'Filter berdasarkan command',
+      options: [...HISTORY_COMMANDS],
+    }),
+    export: Flags.string({
+      description: 'Export hasil filter (tanpa batas --limit kecuali diset)',
+      options: ['json', 'csv'],
+    }),
+    limit: Flags.integer({
+      char: 'n',
+      description: 'Jumlah entry maksimum yang ditampilkan (default: 20)',
+      min: 1,
+    }),
+    output: Flags.string({
+      char: 'o',
+      dependsOn: ['export'],
+      description: 'Tulis hasil export ke file, bukan stdout',
+    }),
+    path: Flags.string({
+      description: 'Filter entry yang file path-nya mengandung teks ini',
+    }),
+    ...configFlags,
+    prune: Flags.boolean({
+      description: 'Terapkan retention sekarang (HISTORY_MAX_ENTRIES / HISTORY_RETENTION_DAYS)',
+    }),
+    search: Flags.string({
+      char: 's',
+      description: 'Cari di prompt, pesan error, perintah shell, dan path',
+    }),
+    since: dateFlag({
+      description: 'Hanya entry sejak tanggal ini (mis. 2025-01-31 atau 7d)',
+    }),
+    status: Flags.string({
+      description: 'Filter berdasarkan status',
+      options: [...HISTORY_STATUSES],
+    }),
+    until: untilFlag({
+      description: 'Hanya entry sampai tanggal ini (tanggal tanpa jam mencakup seluruh hari itu)',
+    }),
+  }
+
+  async run(): Promise<{ history: HistoryEntry[] } | { pruned: number }> {
+    const { flags } = await this.parse(History)
+    logger.setJsonMode(this.jsonEnabled())
+
+    let store: HistoryStore
+    try {
+      const config = loadConfig({ profile: flags.profile })
+      setLocale(config.language)
+      store = new HistoryStore(config)
+    } catch (error: unknown) {
+      logger.error((error as Error).message)
+      this.exit(1)
+    }
+
+    if (flags.prune) {
+      const pruned = store.prune()
+      logger.success(t('history.pruned', { count: pruned }))
+      return { pruned }
+    }
+
+    const history = store.list({
+      command: flags.command as HistoryEntry['command'] | undefined,
+      limit: flags.limit ?? (flags.export ? undefined : 20),
+      path: flags.path,
+      search: flags.search,
+      since: flags.since,
+      status: flags.status as HistoryEntry['status'] | undefined,
+      until: flags.until,
+    })
+
+    if (flags.export) {
+      const content = flags.export === 'csv' ? toCsv(history) : JSON.stringify(history, null, 2) + '\n'
+
+      if (flags.output) {
+        fs.writeFileSync(flags.output, content)
+        logger.success(t('history.exported', { count: history.length, file: flags.output }))
+      } else {
+        process.stdout.write(content)
+      }
+
+      return { history }
+    }
+
+    this.showEntries(history)
+    return { history }
+  }
+
+  protected toErrorJson(error: unknown): unknown {
+    return errorJson(error)
+  }
+
+  private showEntries(history: HistoryEntry[]): void {
+    if (history.length === 0) {
+      logger.info(t('history.empty'))
+      return
+    }
+
+    logger.info(chalk.cyan(t('history.title', { count: history.length })))
+
+    for (const item of history) {
+      const date = formatDate(item.timestamp)
+      const summary = item.shellCommand ?? item.errorMessage ?? item.filePath ?? ''
+      const run = item.durationMs === undefined ? '' : ` · exit ${item.exitCode ?? '-'} · ${formatDuration(item.durationMs)}`
+
+      logger.info(`${statusIcon(item.status)} ${chalk.blue(`[${item.command.toUpperCase()}]`)} ${chalk.white(summary.slice(0, 80))}`)
+      logger.info(chalk.gray(`   ${date} · ${item.id}${item.filePath ? ` · ${item.filePath}` : ''}${item.prompt ? ` · ${item.prompt}` : ''}${run}`))
+      if (item.aiCommand) logger.info(chalk.gray(t('history.edited', { command: item.aiCommand.slice(0, 80) })))
+      if (item.logFile) logger.info(chalk.gray(t('history.log', { file: item.logFile })))
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { Command } from '@oclif/core'
+import chalk from 'chalk'
+
+import { configFlags, loadConfig } from '../../utills/config.js'
+import { formatDate, setLocale, t } from '../../utills/i18n.js'
+import logger, { errorJson } from '../../utills/loggers.js'
+import { Macro, macroPlaceholders, MacroStore } from '../../utills/macros.js'
+
+export default class MacroList extends Command {
+  static description = 'Tampilkan macro yang disimpan dengan gen --save.'
+  static enableJsonFlag = true
+  static examples = [
+    '<%= config.bin %> macro list',
+    '<%= config.bin %> macro list --json',
+  ]
+  static flags = {
+    ...configFlags,
+  }
+
+  async run(): Promise<{ macros: Macro[] }> {
+    const { flags } = await this.parse(MacroList)
+    logger.setJsonMode(this.jsonEnabled())
+
+    try {
+      setLocale(loadConfig({ profile: flags.profile }).language)
+    } catch (error: unknown) {
+      logger.error((error as Error).message)
+      this.exit(1)
+    }
+
+    const macros = new MacroStore().list()
+    if (macros.length === 0) {
+      logger.info(t('macros.empty'))
+      return { macros }
+    }
+
+    logger.info(chalk.cyan(t('macros.title', { count: macros.length })))
+    for (const macro of macros) {
+      const placeholders = macroPlaceholders(macro.steps)
+
+      logger.info(`${chalk.white(macro.name)} ${chalk.gray(t('macros.stepCount', { count: macro.steps.length }))}`)
+      logger.info(chalk.gray(t('macros.prompt', { prompt: macro.prompt })))
+      for (const step of macro.steps) logger.info(chalk.gray(`     $ ${step.command}`))
+      if (placeholders.length > 0) logger.info(chalk.gray(t('macros.placeholders', { names: placeholders.join(', ') })))
+      logger.info(chalk.gray(t('macros.origin', { date: formatDate(macro.createdAt), os: macro.os, shell: macro.shell })))
+    }
+
+    return { macros }
+  }
+
+  protected toErrorJson(error: unknown): unknown {
+    return errorJson(error)
+  }
+}
@@ -0,0 +1,46 @@
+import { Args, Command } from '@oclif/core'
+
+import { configFlags, loadConfig } from '../../utills/config.js'
+import { setLocale, t } from '../../utills/i18n.js'
+import logger, { errorJson } from '../../utills/loggers.js'
+import { MacroStore } from '../../utills/macros.js'
+
+export default class MacroRm extends Command {
+  static args = {
+    name: Args.string({ description: 'Nama macro yang dihapus', required: true }),
+  }
+  static description = 'Hapus macro yang disimpan dengan gen --save.'
+  static enableJsonFlag = true
+  static examples = [
+    '<%= config.bin %> macro rm deploy',
+  ]
+  static flags = {
+    ...configFlags,
+  }
+
+  async run(): Promise<{ removed: string }> {
+    const { args, flags } = await this.parse(MacroRm)
+    logger.setJsonMode(this.jsonEnabled())
+
+    let removed: boolean
+    try {
+      setLocale(loadConfig({ profile: flags.profile }).language)
+      removed = new MacroStore().remove(args.name)
+    } catch (error: unknown) {
+      logger.error((error as Error).message)
+      this.exit(1)
+    }
+
+    if (!removed) {
+      logger.error(t('macros.notFound', { name: args.name }))
+      this.exit(1)
+    }
+
+    logger.success(t('macros.removed', { name: args.name }))
+    return { removed: args.name }
+  }
+
+  protected toErrorJson(error: unknown): unknown {
+    return errorJson(error)
+  }
+}
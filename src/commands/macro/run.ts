@@ -0,0 +1,56 @@
+import { Args, Flags } from '@oclif/core'
+
+import { t } from '../../utills/i18n.js'
+import logger from '../../utills/loggers.js'
+import { LLMProvider } from '../../utills/providers.js'
+import Gen, { GenResult } from '../gen.js'
+
+const UNSUPPORTED_FLAGS = ['history', 'placeholder', 'resume', 'save'] as const
+
+export default class MacroRun extends Gen {
+  static args = {
+    name: Args.string({ description: 'Nama macro (lihat macro list)', required: true }),
+  }
+  static description = 'Jalankan macro yang disimpan dengan gen --save; {{placeholder}} diisi dari --set atau ditanyakan.'
+  static examples = [
+    '<%= config.bin %> macro run deploy',
+    '<%= config.bin %> macro run component --set name=Button',
+    '<%= config.bin %> macro run component --set name=Button --yes',
+    '<%= config.bin %> macro run cleanup --explain --preview',
+  ]
+  static flags = {
+    ...Gen.flags,
+    // Flag khusus gen tidak berlaku untuk macro; tetap dideklarasikan karena flags subclass harus
+    // kompatibel dengan Gen, tapi ditolak di run()
+    history: Flags.boolean({ hidden: true }),
+    placeholder: Flags.string({ hidden: true, multiple: true, multipleNonGreedy: true }),
+    resume: Flags.boolean({ hidden: true }),
+    save: Flags.string({ hidden: true }),
+    set: Flags.string({
+      description: 'Nilai placeholder, mis. --set name=Button (bisa diulang)',
+      multiple: true,
+    }),
+  }
+  static strict = true
+
+  async run(): Promise<GenResult | void> {
+    const { args, flags } = await this.parse(MacroRun)
+    const unsupported = UNSUPPORTED_FLAGS.filter(flag => flags[flag] !== undefined && flags[flag] !== false)
+    this.setup({ ...flags, placeholder: undefined })
+
+    if (unsupported.length > 0) {
+      logger.error(t('macros.unsupportedFlags', { flags: unsupported.map(flag => `--${flag}`).join(', ') }))
+      this.exit(2)
+    }
+
+    // Macro tidak butuh AI; provider hanya untuk "jelaskan dulu", perbaikan step yang gagal dan --summarize
+    let provider: LLMProvider | undefined
+    try {
+      provider = this.connect(flags['show-redactions'])
+    } catch {
+      provider = undefined
+    }
+
+    return this.runMacro(args.name, { explain: flags.explain, print: flags.print, values: flags.set ?? [] }, provider)
+  }
+}
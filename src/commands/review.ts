@@ -1,119 +1,47 @@
-import { GoogleGenerativeAI, HarmBlockThreshold, HarmCategory } from '@google/generative-ai'
-import { confirm } from '@inquirer/prompts'
-import { Command, Flags, ux } from '@oclif/core'
+import { Command, Flags } from '@oclif/core'
 import chalk from 'chalk'
 import dotenv from 'dotenv'
 import * as fs from 'node:fs'
-import * as os from 'node:os'
-// eslint-disable-next-line unicorn/import-style
-import * as path from 'node:path'
 
-import logger from '../utills/loggers.js'
+import { cacheFlags, withCache } from '../utills/cache.js'
+import { AppConfig, configFlags, loadConfig } from '../utills/config.js'
+import { HistoryEntry, HistoryStatus, HistoryStore, statusIcon } from '../utills/history.js'
+import { formatDate, prompts, setLocale, t } from '../utills/i18n.js'
+import logger, { errorJson } from '../utills/loggers.js'
+import { createPrompter, Prompter, PromptError, promptFlags } from '../utills/prompter.js'
+import { createProvider, LLMProvider, providerFlags } from '../utills/providers.js'
+import { redactFlags, withRedaction } from '../utills/redactor.js'
+import { askAI, CancelledError } from '../utills/stream.js'
+import { withUsage } from '../utills/usage.js'
 
 // Load env quietly
 process.env.DOTENV_CONFIG_QUIET = 'true'
 dotenv.config({ override: false })
 
-interface ReviewHistory {
+/** Hasil review untuk --json */
+interface ReviewResult {
+  analysis: string
+  applied: boolean
   filePath: string
   fileType: string
-  issuesFound: number
-  success: boolean
-  timestamp: string
-}
-
-// ============================================
-// HISTORY MANAGER
-// ============================================
-class ReviewHistoryManager {
-  private historyFile: string
-
-  constructor() {
-    const homeDir = os.homedir()
-    const configDir = path.join(homeDir, '.gen-cli')
-    
-    if (!fs.existsSync(configDir)) {
-      fs.mkdirSync(configDir, { recursive: true })
-    }
-
-    this.historyFile = path.join(configDir, 'review-history.json')
-  }
-
-  getHistory(): ReviewHistory[] {
-    try {
-      if (fs.existsSync(this.historyFile)) {
-        const data = fs.readFileSync(this.historyFile, 'utf8')
-        return JSON.parse(data) as ReviewHistory[]
-      }
-    } catch {
-      logger.warn('Gagal membaca history.')
-    }
-
-    return []
-  }
-
-  saveToHistory(filePath: string, fileType: string, issuesFound: number, success: boolean): void {
-    const history = this.getHistory()
-    history.unshift({
-      filePath,
-      fileType,
-      issuesFound,
-      success,
-      timestamp: new Date().toISOString(),
-    })
-
-    // Simpan maksimal 50 history
-    if (history.length > 50) {
-      history.splice(50)
-    }
-
-    try {
-      fs.writeFileSync(this.historyFile, JSON.stringify(history, null, 2))
-    } catch {
-      logger.warn('Gagal menyimpan history.')
-    }
-  }
-}
-
-// ============================================
-// RETRY HELPER
-// ============================================
-async function retryWithBackoff<T>(
-  fn: () => Promise<T>, 
-  maxRetries = 3,
-  baseDelay = 1000
-): Promise<T> {
-  let lastError: Error | undefined
-  
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      // eslint-disable-next-line no-await-in-loop
-      return await fn()
-    } catch (error) {
-      lastError = error as Error
-      
-      if (attempt < maxRetries - 1) {
-        const delay = baseDelay * (2 ** attempt) // Exponential backoff
-        logger.warn(`⚠️  Attempt ${attempt + 1} failed. Retrying in ${delay}ms...`)
-        // eslint-disable-next-line no-await-in-loop
-        await new Promise<void>(resolve => {
-          setTimeout(() => resolve(), delay)
-        })
-      }
-    }
-  }
-  
-  throw lastError
+  improvedCode: null | string
+  issues: string[]
 }
 
 export default class Review extends Command {
   static description = 'Review web component/page untuk menemukan masalah UI, UX, logic, dan performance menggunakan AI.'
+  static enableJsonFlag = true
   static examples = [
     '<%= config.bin %> review src/components/Navbar.jsx',
     '<%= config.bin %> review index.html --full',
     '<%= config.bin %> review styles.css',
+    '<%= config.bin %> review src/components/Navbar.jsx --json',
   ]
   static flags = {
+    backup: Flags.boolean({
+      allowNo: true,
+      description: 'Buat file .backup sebelum menimpa file (default: AUTO_BACKUP)',
+    }),
     full: Flags.boolean({
       char: 'f',
       description: 'Full analysis dengan screenshot analisis (jika supported)',
@@ -122,20 +50,41 @@ export default class Review extends Command {
       char: 'h',
       description: 'Show review history',
     }),
+    ...cacheFlags,
+    ...configFlags,
+    ...promptFlags,
+    ...providerFlags,
+    ...redactFlags,
+    stream: Flags.boolean({
+      allowNo: true,
+      description: 'Tampilkan review secara live saat diterima (default: AI_STREAM)',
+    }),
   }
   static strict = false
-  private historyManager = new ReviewHistoryManager()
+  private appConfig!: AppConfig
+  private history!: HistoryStore
+  private prompter!: Prompter
 
-  async run() {
+  async run(): Promise<ReviewResult | void | { history: HistoryEntry[] }> {
     const { argv, flags } = await this.parse(Review)
-    
-    // 1️⃣ Ambil API Key & Model
-    const API_KEY = process.env.GEMINI_API_KEY
-    const MODEL_NAME = process.env.MODEL_NAME || 'gemini-2.0-flash-exp'
+    logger.setJsonMode(this.jsonEnabled())
+    this.prompter = createPrompter(flags, this.jsonEnabled())
 
-    if (!API_KEY) {
-      logger.error('❌ API Key Gemini tidak ditemukan.')
-      logger.warn('Buat file `.env` dan tambahkan variabel GEMINI_API_KEY=<api_key>.')
+    // 1️⃣ Siapkan provider AI
+    let provider: LLMProvider
+    try {
+      this.appConfig = loadConfig({
+        flags: { autoBackup: flags.backup, cache: flags.cache, model: flags.model, provider: flags.provider, stream: this.jsonEnabled() ? false : flags.stream },
+        profile: flags.profile,
+      })
+      setLocale(this.appConfig.language)
+      this.history = new HistoryStore(this.appConfig)
+      // Prompt disamarkan dulu, lalu cek cache; hanya request ke model yang dihitung usage-nya
+      const metered = withUsage(createProvider(this.appConfig), this.appConfig, 'review')
+      provider = withRedaction(withCache(metered, this.appConfig), this.appConfig, flags['show-redactions'])
+    } catch (error: unknown) {
+      logger.error(`❌ ${(error as Error).message}`)
+      logger.warn(t('common.providerSetupHint'))
       this.exit(1)
     }
 
@@ -147,13 +96,13 @@ export default class Review extends Command {
     // 3️⃣ Ambil file path
     const filePath = (argv as string[])[0]
     if (!filePath) {
-      logger.error('Anda harus memasukkan file path untuk direview.')
-      logger.info('Contoh: aiCli review src/components/Button.jsx')
+      logger.error(t('review.fileRequired'))
+      logger.info(t('review.example'))
       this.exit(1)
     }
 
     if (!fs.existsSync(filePath)) {
-      logger.error(`File tidak ditemukan: ${filePath}`)
+      logger.error(t('common.fileNotFound', { path: filePath }))
       this.exit(1)
     }
 
@@ -164,18 +113,12 @@ export default class Review extends Command {
 
     // 3️⃣ Deteksi tipe file
     const fileType = this.detectFileType(filePath)
-    logger.info(chalk.cyan(`🔍 Reviewing ${fileType} file: ${filePath}`))
+    logger.info(chalk.cyan(t('review.reviewing', { path: filePath, type: fileType })))
 
     // 4️⃣ Baca konten
     const fileContent = fs.readFileSync(filePath, 'utf8')
 
-    // 5️⃣ Start AI review
-    ux.action.start('🧠 AI sedang menganalisis component/page...')
-
     try {
-      const genAI = new GoogleGenerativeAI(API_KEY)
-      const model = genAI.getGenerativeModel({ model: MODEL_NAME })
-
       const generationConfig = {
         maxOutputTokens: 4096,
         temperature: 0.4,
@@ -183,108 +126,57 @@ export default class Review extends Command {
         topP: 1,
       }
 
-      const safetySettings = [
-        { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-        { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-        { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-        { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-      ]
-
-      const prompt = this.buildReviewPrompt(fileContent, filePath, fileType, flags.full)
-
-      // Use retry mechanism
-      const result = await retryWithBackoff(() =>
-        model.generateContent({
-          contents: [{ parts: [{ text: prompt }], role: 'user' }],
-          generationConfig,
-          safetySettings,
-        })
-      )
+      const prompt = prompts().review({
+        codeLanguage: fileType === 'React' ? 'jsx' : fileType.toLowerCase(),
+        fileContent,
+        filePath,
+        fileType,
+        full: flags.full,
+      })
 
-      const aiResponse = result.response.text()
-      ux.action.stop('✅ Review selesai!')
+      // 5️⃣ Start AI review (streaming + retry, Ctrl+C membatalkan)
+      const { streamed, text: aiResponse } = await askAI(provider, prompt, {
+        done: t('review.done'),
+        generation: generationConfig,
+        header: t('review.header'),
+        retry: this.retryOptions(),
+        spinner: t('review.spinner'),
+        stream: this.appConfig.stream,
+      })
 
       // 6️⃣ Parse dan tampilkan hasil
-      await this.displayReviewResults(aiResponse, filePath, fileContent, fileType)
+      return await this.displayReviewResults(aiResponse, filePath, fileType, streamed)
     } catch (error: unknown) {
-      ux.action.stop('❌ Gagal!')
-      logger.error('Terjadi kesalahan saat menghubungi Google AI.')
+      if (error instanceof CancelledError) {
+        logger.warn(t('review.cancelled'))
+        this.saveHistory(filePath, fileType, 0, 'cancelled')
+        this.exit(130)
+      }
+
+      if (error instanceof PromptError) {
+        logger.error(error.message)
+        this.saveHistory(filePath, fileType, 0, 'failed')
+        this.exit(1)
+      }
+
+      logger.error(t('common.providerError', { provider: provider.name }))
       logger.info((error as Error).message || String(error))
-      this.historyManager.saveToHistory(filePath, fileType, 0, false)
+      this.saveHistory(filePath, fileType, 0, 'failed')
+      this.exit(1)
     }
   }
 
+  protected toErrorJson(error: unknown): unknown {
+    return errorJson(error)
+  }
+
   // ============================================
-  // BUILD REVIEW PROMPT
+  // COUNT ISSUES (angka dari header "TOP N CRITICAL ISSUES")
   // ============================================
-  private buildReviewPrompt(fileContent: string, filePath: string, fileType: string, fullAnalysis: boolean): string {
-    const basePrompt = `Anda adalah "Senior UI/UX & Frontend Expert" yang ahli dalam design, accessibility, dan best practices.
-
-**TUGAS ANDA:**
-Review file berikut dan berikan analisis mendalam tentang masalah UI, UX, logic, dan performance.
-
-**FILE:** ${filePath}
-**TYPE:** ${fileType}
-
-**CODE:**
-${fileContent}
-
-**FOKUS REVIEW:**
-1. **UI/Visual Issues:**
-   - Layout buruk (flexbox/grid issues)
-   - Typography problems
-   - Color contrast (accessibility)
-   - Spacing/padding issues
-   - Responsive design problems
-
-2. **UX Issues:**
-   - User flow yang membingungkan
-   - Missing feedback (loading, error states)
-   - Accessibility (ARIA, keyboard navigation)
-   - Mobile experience
-   - Click/touch target size
-
-3. **Logic Errors:**
-   - State management issues
-   - Event handler bugs
-   - Conditional rendering problems
-   - Props validation
-
-4. **Performance:**
-   - Re-render issues
-   - Missing memoization
-   - Heavy computations
-   - Large bundle size
-
-5. **Best Practices:**
-   - Semantic HTML
-   - Component structure
-   - Code organization
-   - Security (XSS, etc)
-
-**FORMAT OUTPUT (PENTING - IKUTI PERSIS):**
-
-## 🔴 TOP 3 CRITICAL ISSUES (SINGKAT):
-1. [Issue 1] - 1 baris penjelasan
-2. [Issue 2] - 1 baris penjelasan  
-3. [Issue 3] - 1 baris penjelasan
-
-## 💡 IMPROVEMENTS APPLIED:
-- [List 3-5 perbaikan utama dalam 1 baris per item]
-
-\`\`\`${fileType === 'React' ? 'jsx' : fileType.toLowerCase()}
-[FULL IMPROVED CODE - Tulis seluruh file yang sudah diperbaiki]
-\`\`\`
-
-**ATURAN KETAT:**
-- Analisis MAKSIMAL 10 baris total
-- FOKUS pada code improvements
-- Code block HARUS dimulai dengan triple backtick dan bahasa
-- WAJIB berikan FULL FILE (bukan snippet)
-- Tambahkan komentar singkat di code untuk highlight perubahan
-${fullAnalysis ? '- Berikan detail tambahan jika diminta' : ''}`
-
-    return basePrompt
+  private countIssues(analysis: string): number {
+    const issuesMatch = analysis.match(/## 🔴 TOP \d+ CRITICAL ISSUES/)?.[0] || ''
+    const count = issuesMatch.match(/\d+/)?.[0]
+    return count ? Number.parseInt(count, 10) : 0
   }
 
   // ============================================
@@ -304,113 +196,163 @@ ${fullAnalysis ? '- Berikan detail tambahan jika diminta' : ''}`
   // ============================================
   // DISPLAY RESULTS
   // ============================================
-  private async displayReviewResults(aiResponse: string, filePath: string, originalContent: string, fileType: string): Promise<void> {
-    // Tampilkan hasil review
-    logger.info(chalk.cyan('\n📋 Review Results:\n'))
+  private async displayReviewResults(
+    aiResponse: string,
+    filePath: string,
+    fileType: string,
+    streamed: boolean,
+  ): Promise<ReviewResult> {
+    // Tampilkan hasil review (analisis sudah tampil live jika streaming)
+    if (!streamed) {
+      logger.info(chalk.cyan(`\n${t('review.header')}\n`))
+    }
     
     // Split response untuk memisahkan analisis dan code
     const parts = aiResponse.split('```')
-    
-    if (parts.length >= 3) {
+    const hasCode = parts.length >= 3
+    const result: ReviewResult = {
+      analysis: (hasCode ? parts[0] : aiResponse).trim(),
+      applied: false,
+      filePath,
+      fileType,
+      improvedCode: hasCode ? parts[1].replace(/^[a-z]+\n/i, '').trim() : null,
+      issues: this.parseIssues(parts[0]),
+    }
+
+    if (hasCode) {
       // Ada suggested code
       const analysis = parts[0]
-      const improvedCode = parts[1].replace(/^[a-z]+\n/i, '').trim()
+      const improvedCode = result.improvedCode!
       
       // Tampilkan analisis
-      logger.box(analysis.trim())
+      if (!streamed) {
+        logger.box(analysis.trim())
+      }
       
       // Tampilkan preview improved code (first 15 lines)
       const codeLines = improvedCode.split('\n')
       const preview = codeLines.slice(0, 15).join('\n')
       const hasMore = codeLines.length > 15
       
-      logger.info(chalk.cyan('\n✨ Preview Improved Code (first 15 lines):\n'))
-      logger.box(preview + (hasMore ? chalk.gray('\n... (dan ' + (codeLines.length - 15) + ' baris lagi)') : ''))
-      
-      // Backup original SEBELUM konfirmasi
-      const backupPath = `${filePath}.backup`
-      fs.writeFileSync(backupPath, originalContent, 'utf8')
-      logger.info(chalk.gray(`\n📦 Auto-backup created: ${backupPath}`))
+      logger.info(chalk.cyan(t('review.preview')))
+      logger.box(preview + (hasMore ? chalk.gray(t('review.moreLines', { count: codeLines.length - 15 })) : ''))
       
-      // Tanya apakah mau apply (default TRUE = langsung apply)
-      const apply = await confirm({
+      // Tanya apakah mau apply (default TRUE = langsung apply; --yes/--no untuk script)
+      const apply = await this.prompter.confirm({
         default: true,
-        message: chalk.yellow('💾 Apply improvements ke file sekarang?'),
+        message: chalk.yellow(t('review.confirm')),
       })
       
       if (apply) {
+        // Backup original sebelum ditimpa (bisa dimatikan via AUTO_BACKUP=false / --no-backup)
+        const backupPath = this.appConfig.autoBackup ? `${filePath}.backup` : null
+        if (backupPath) {
+          fs.copyFileSync(filePath, backupPath)
+          logger.info(chalk.gray(`\n${t('common.backupCreated', { path: backupPath })}`))
+        }
+
         // Apply improvements
         fs.writeFileSync(filePath, improvedCode, 'utf8')
-        logger.success(`\n✅ File berhasil diperbaiki: ${filePath}`)
-        logger.info(chalk.cyan('💡 Tips:'))
-        logger.info(chalk.gray(`   - Review perubahan dengan: git diff ${filePath}`))
-        logger.info(chalk.gray(`   - Restore jika perlu: mv ${backupPath} ${filePath}`))
-        logger.info(chalk.gray(`   - Hapus backup jika OK: rm ${backupPath}`))
+        logger.success(t('common.fileFixed', { path: filePath }))
+        logger.info(chalk.cyan(t('review.tips')))
+        logger.info(chalk.gray(t('review.tipDiff', { path: filePath })))
+        if (backupPath) {
+          logger.info(chalk.gray(t('review.tipRestore', { backup: backupPath, path: filePath })))
+          logger.info(chalk.gray(t('review.tipRemoveBackup', { backup: backupPath })))
+        }
         
         // Count issues from analysis
-        const issuesMatch = analysis.match(/## 🔴 TOP \d+ CRITICAL ISSUES/)?.[0] || ''
-        const issueCount = issuesMatch.match(/\d+/)?.[0] ? Number.parseInt(issuesMatch.match(/\d+/)![0], 10) : 0
+        const issueCount = this.countIssues(analysis)
         
-        this.historyManager.saveToHistory(filePath, fileType, issueCount, true)
+        this.saveHistory(filePath, fileType, issueCount, 'success')
+        result.applied = true
       } else {
-        logger.warn('\n⚠️  Improvements tidak diterapkan.')
-        logger.info(chalk.gray(`💡 Backup tetap disimpan di: ${backupPath}`))
+        logger.warn(t('review.notApplied'))
         
-        const issuesMatch = analysis.match(/## 🔴 TOP \d+ CRITICAL ISSUES/)?.[0] || ''
-        const issueCount = issuesMatch.match(/\d+/)?.[0] ? Number.parseInt(issuesMatch.match(/\d+/)![0], 10) : 0
+        const issueCount = this.countIssues(analysis)
         
-        this.historyManager.saveToHistory(filePath, fileType, issueCount, false)
+        this.saveHistory(filePath, fileType, issueCount, 'failed')
       }
     } else {
       // Hanya analisis tanpa suggested code
-      logger.box(aiResponse.trim())
-      this.historyManager.saveToHistory(filePath, fileType, 0, true)
+      if (!streamed) {
+        logger.box(aiResponse.trim())
+      }
+
+      this.saveHistory(filePath, fileType, 0, 'success')
     }
+
+    return result
+  }
+
+  // ============================================
+  // PARSE ISSUES (daftar bernomor di bawah "CRITICAL ISSUES")
+  // ============================================
+  private parseIssues(analysis: string): string[] {
+    const section = analysis.split(/^##.*CRITICAL ISSUES.*$/m)[1]?.split(/^##/m)[0] ?? ''
+    return section
+      .split('\n')
+      .flatMap(line => line.trim().match(/^\d+\.\s+(.+)/)?.[1] ?? [])
+  }
+
+  // ============================================
+  // RETRY OPTIONS (dari config)
+  // ============================================
+  private retryOptions() {
+    return { attempts: this.appConfig.retryAttempts, baseDelay: this.appConfig.retryBaseDelay }
+  }
+
+  // ============================================
+  // SAVE HISTORY
+  // ============================================
+  private saveHistory(filePath: string, fileType: string, issuesFound: number, status: HistoryStatus): void {
+    this.history.append({ command: 'review', filePath, fileType, issuesFound, status })
   }
 
   // ============================================
   // SHOW HISTORY
   // ============================================
-  private showHistory(): void {
-    const history = this.historyManager.getHistory()
+  private showHistory(): { history: HistoryEntry[] } {
+    const history = this.history.list({ command: 'review', limit: 50 })
+
+    if (this.jsonEnabled()) {
+      return { history }
+    }
 
     if (history.length === 0) {
-      logger.info('📜 Tidak ada history review.')
-      return
+      logger.info(t('review.historyEmpty'))
+      return { history }
     }
 
-    logger.info(chalk.cyan(`\n📜 History Review (${history.length} terakhir):\n`))
+    logger.info(chalk.cyan(t('review.historyTitle', { count: history.length })))
 
     for (const [index, item] of history.entries()) {
-      const icon = item.success ? chalk.green('✓') : chalk.red('✗')
+      const icon = statusIcon(item.status)
       const type = chalk.blue(`[${item.fileType}]`)
-      const issues = item.issuesFound > 0 ? chalk.yellow(`${item.issuesFound} issues`) : chalk.gray('no issues')
-      const date = new Date(item.timestamp).toLocaleString('id-ID', {
-        day: '2-digit',
-        hour: '2-digit',
-        minute: '2-digit',
-        month: 'short',
-        year: 'numeric',
-      })
+      const issues = item.issuesFound ? chalk.yellow(t('review.issues', { count: item.issuesFound })) : chalk.gray(t('review.noIssues'))
+      const date = formatDate(item.timestamp)
 
-      logger.info(`${icon} ${type} ${chalk.cyan(item.filePath)} - ${issues}`)
+      logger.info(`${icon} ${type} ${chalk.cyan(item.filePath ?? '')} - ${issues}`)
       logger.info(`   ${chalk.gray(date)}`)
       
       if (index < history.length - 1) {
         logger.info('')
       }
     }
+
+    return { history }
   }
 
   // ============================================
   // VALIDATE FILE SIZE
   // ============================================
-  private validateFileSize(filePath: string, maxSizeMB = 1): boolean {
+  private validateFileSize(filePath: string): boolean {
+    const maxSizeMB = this.appConfig.maxFileSizeMB
     const stats = fs.statSync(filePath)
     const fileSizeMB = stats.size / (1024 * 1024)
 
     if (fileSizeMB > maxSizeMB) {
-      logger.error(`❌ File terlalu besar: ${fileSizeMB.toFixed(2)} MB (max: ${maxSizeMB} MB)`)
+      logger.error(t('common.fileTooLarge', { max: maxSizeMB, size: fileSizeMB.toFixed(2) }))
       return false
     }
 
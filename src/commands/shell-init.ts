@@ -0,0 +1,43 @@
+import { Args, Command } from '@oclif/core'
+
+import { loadConfig } from '../utills/config.js'
+import { ContextDetector } from '../utills/context.js'
+import { setLocale, t } from '../utills/i18n.js'
+import logger from '../utills/loggers.js'
+import { INIT_SHELLS, InitShell, shellInitScript } from '../utills/shellinit.js'
+
+export default class ShellInit extends Command {
+  static args = {
+    shell: Args.string({
+      description: 'Shell tujuan (default: shell yang terdeteksi)',
+      options: [...INIT_SHELLS],
+    }),
+  }
+  static description = 'Cetak fungsi shell + keybinding Ctrl+G yang mengganti baris yang sedang diketik dengan perintah hasil gen.'
+  static examples = [
+    '<%= config.bin %> shell-init bash >> ~/.bashrc',
+    'eval "$(<%= config.bin %> shell-init zsh)"',
+    '<%= config.bin %> shell-init fish | source',
+    '<%= config.bin %> shell-init powershell | Out-String | Invoke-Expression',
+  ]
+
+  async run(): Promise<void> {
+    const { args } = await this.parse(ShellInit)
+
+    try {
+      setLocale(loadConfig().language)
+    } catch (error: unknown) {
+      logger.error((error as Error).message)
+      this.exit(1)
+    }
+
+    const shell = args.shell ?? ContextDetector.detectShell()
+    if (!INIT_SHELLS.includes(shell as InitShell)) {
+      logger.error(t('shellInit.unsupported', { shell, shells: INIT_SHELLS.join(', ') }))
+      this.exit(1)
+    }
+
+    // Script mentah lewat this.log supaya bisa langsung di-eval/source
+    this.log(shellInitScript(shell as InitShell, this.config.bin))
+  }
+}
@@ -0,0 +1,152 @@
+import { Command, Flags } from '@oclif/core'
+import chalk from 'chalk'
+
+import { AppConfig, configFlags, loadConfig } from '../utills/config.js'
+import { dateFlag, HISTORY_COMMANDS, HistoryCommand, untilFlag } from '../utills/history.js'
+import { setLocale, t } from '../utills/i18n.js'
+import logger, { errorJson } from '../utills/loggers.js'
+import { monthStart, summarize, totalCost, UsageRecord, UsageStore, UsageSummary } from '../utills/usage.js'
+
+/** Ringkasan untuk --json */
+interface UsageReport {
+  budget: { action: string; limit: number; spent: number }
+  byCommand: UsageSummary[]
+  byDay: UsageSummary[]
+  byModel: UsageSummary[]
+  byProject: UsageSummary[]
+  since: string
+  total: Omit<UsageSummary, 'key'>
+  until: null | string
+}
+
+export default class Usage extends Command {
+  static description = 'Ringkasan pemakaian token dan biaya AI per hari, command, project, dan model.'
+  static enableJsonFlag = true
+  static examples = [
+    '<%= config.bin %> usage',
+    '<%= config.bin %> usage --since 7d --command review',
+    '<%= config.bin %> usage --project my-app --json',
+  ]
+  static flags = {
+    command: Flags.string({
+      char: 'c',
+      description: 'Hanya pemakaian dari command ini',
+      options: [...HISTORY_COMMANDS],
+    }),
+    ...configFlags,
+    project: Flags.string({
+      description: 'Hanya pemakaian dari project ini (nama folder root git/package.json)',
+    }),
+    since: dateFlag({
+      description: 'Mulai tanggal (default: awal bulan ini), mis. 2025-01-01 atau 7d',
+    }),
+    until: untilFlag({
+      description: 'Sampai tanggal ini (tanggal tanpa jam mencakup seluruh hari itu)',
+    }),
+  }
+
+  async run(): Promise<UsageReport> {
+    const { flags } = await this.parse(Usage)
+    logger.setJsonMode(this.jsonEnabled())
+
+    let config: AppConfig
+    try {
+      config = loadConfig({ profile: flags.profile })
+      setLocale(config.language)
+    } catch (error: unknown) {
+      logger.error((error as Error).message)
+      this.exit(1)
+    }
+
+    const store = new UsageStore()
+    const since = flags.since ?? monthStart()
+    const records = store.list({
+      command: flags.command as HistoryCommand | undefined,
+      project: flags.project,
+      since,
+      until: flags.until,
+    })
+
+    const [total] = summarize(records, () => 'total')
+    const report: UsageReport = {
+      budget: { action: config.budgetAction, limit: config.monthlyBudget, spent: totalCost(store.list({ since: monthStart() })) },
+      byCommand: summarize(records, record => record.command),
+      byDay: summarize(records, record => localDay(record)),
+      byModel: summarize(records, record => `${record.provider}/${record.model}`),
+      byProject: summarize(records, record => record.project),
+      since: since.toISOString(),
+      total: {
+        cost: total?.cost ?? 0,
+        inputTokens: total?.inputTokens ?? 0,
+        outputTokens: total?.outputTokens ?? 0,
+        requests: total?.requests ?? 0,
+        unpriced: total?.unpriced ?? 0,
+      },
+      until: flags.until?.toISOString() ?? null,
+    }
+
+    this.showReport(report, records)
+    return report
+  }
+
+  protected toErrorJson(error: unknown): unknown {
+    return errorJson(error)
+  }
+
+  private showReport(report: UsageReport, records: UsageRecord[]): void {
+    logger.info(chalk.cyan(t('usage.title', { since: report.since.slice(0, 10) })))
+
+    if (report.total.requests === 0) {
+      logger.info(t('usage.empty'))
+    } else {
+      const sections: Array<[string, UsageSummary[]]> = [
+        [t('usage.byDay'), report.byDay],
+        [t('usage.byCommand'), report.byCommand],
+        [t('usage.byProject'), report.byProject],
+        [t('usage.byModel'), report.byModel],
+      ]
+
+      for (const [title, rows] of sections) {
+        logger.info(chalk.bold(title))
+        for (const row of rows) logger.info(`   ${formatRow(row)}`)
+        logger.info('')
+      }
+
+      logger.info(chalk.bold(formatRow({ ...report.total, key: t('usage.total') })))
+      if (records.some(record => record.estimated)) {
+        logger.info(chalk.gray(t('usage.estimated')))
+      }
+
+      const unpriced = [...new Set(records.filter(record => record.unpriced).map(record => record.model))]
+      if (unpriced.length > 0) {
+        logger.info(chalk.gray(t('usage.unpriced', { models: unpriced.join(', ') })))
+      }
+    }
+
+    const { action, limit, spent } = report.budget
+    if (limit > 0) {
+      const color = spent >= limit ? chalk.red : spent >= limit * 0.8 ? chalk.yellow : chalk.green
+      logger.info(color(t('usage.budget', { action, limit: `$${limit.toFixed(2)}`, spent: `$${spent.toFixed(4)}` })))
+    }
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+function formatRow(row: UsageSummary): string {
+  const tokens = `${row.inputTokens.toLocaleString('en-US')} in / ${row.outputTokens.toLocaleString('en-US')} out`
+  return `${row.key.padEnd(28)} ${String(row.requests).padStart(5)} req  ${tokens.padEnd(28)} ${formatCost(row)}`
+}
+
+/** n/a jika tidak ada harga sama sekali; "+ n/a" jika sebagian request tidak punya harga */
+function formatCost({ cost, requests, unpriced }: UsageSummary): string {
+  if (unpriced === requests) return 'n/a'
+  return unpriced > 0 ? `$${cost.toFixed(4)} + n/a` : `$${cost.toFixed(4)}`
+}
+
+/** Tanggal lokal YYYY-MM-DD */
+function localDay(record: UsageRecord): string {
+  const date = new Date(record.timestamp)
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
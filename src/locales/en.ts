@@ -0,0 +1,715 @@
+// src/locales/en.ts — English
+
+import type { GenPromptContext, GenTurn, Messages, PromptTemplates } from '../utills/i18n.js'
+
+export const dateLocale = 'en-US'
+
+export const messages: Messages = {
+  // ============ CACHE ============
+  'cache.cleared': '{count} cache entries removed.',
+  'cache.entries': 'Entries',
+  'cache.expired': ' ({count} expired)',
+  'cache.hit': '⚡ Response from cache (--no-cache for a fresh request)',
+  'cache.hitRate': 'Hit rate',
+  'cache.hitRateDetail': '({hits} hits, {misses} misses)',
+  'cache.location': 'Location',
+  'cache.noTtl': 'no limit',
+  'cache.range': 'Range',
+  'cache.size': 'Size',
+  'cache.title': '\n⚡ AI response cache:\n',
+  'cache.ttl': 'TTL',
+  'cache.ttlHours': '{hours} hours',
+
+  // ============ COMMON ============
+  'common.backupCreated': '📦 Auto-backup created: {path}',
+  'common.cancelledSpinner': '⊘ Cancelled',
+  'common.done': '✅ Done!',
+  'common.failed': '❌ Failed',
+  'common.failedSpinner': '❌ Failed!',
+  'common.fileFixed': '\n✅ File fixed: {path}',
+  'common.fileNotFound': 'File not found: {path}',
+  'common.fileTooLarge': '❌ File too large: {size} MB (max: {max} MB)',
+  'common.providerError': 'Something went wrong while contacting the AI provider ({provider}).',
+  'common.providerSetupHint': 'Create a `.env` file and add the API key for the selected provider (e.g. GEMINI_API_KEY=<api_key>).',
+
+  // ============ CONFIG ============
+  'config.expectBoolean': 'true or false',
+  'config.expectInteger': 'an integer',
+  'config.expectJsonArray': 'a valid JSON array',
+  'config.expectNumber': 'a number',
+  'config.expectOneOf': 'one of: {options}',
+  'config.expectString': 'a string',
+  'config.expectStringArray': 'an array of strings',
+  'config.invalidJson': 'Config {file} must be a JSON object.',
+  'config.invalidProfile': 'Invalid profile name: "{name}" (use letters, digits, - or _)',
+  'config.invalidValue': 'Invalid config value for {key} ({source}): {raw} — must be {expected}',
+  'config.listTitle': '\n⚙️  Config profile "{profile}":\n',
+  'config.notSet': '{key} is not set.',
+  'config.notSetInProfile': '{key} is not set in profile "{profile}".',
+  'config.notSetLabel': '(not set)',
+  'config.profileNotFound': 'Profile "{profile}" not found. Create it with: aiCli config set <key> <value> --profile {profile}',
+  'config.readFailed': 'Failed to read config {file}: {message}',
+  'config.saved': '{key} saved for profile "{profile}" ({file})',
+  'config.secretInProject': '{file} must not contain "{key}". Store API keys with: aiCli config set {key} <value>',
+  'config.source': '   {description} — from {source}',
+  'config.unknownKey': 'Unknown config key "{key}" in {source}. Valid keys: {keys}',
+  'config.unset': '{key} removed from profile "{profile}".',
+
+  // ============ EXPLAIN ============
+  'explain.effectFiles': '📁 Files:',
+  'explain.effectNetwork': '🌐 Network:',
+  'explain.effectPrivilege': '🔑 Privileges:',
+  'explain.effectProcess': '⚙️  Processes:',
+  'explain.effectSystem': '🖥️  System:',
+  'explain.noSideEffects': '   Side effects: none (read-only)',
+  'explain.partArgument': 'argument',
+  'explain.partFlag': 'flag',
+  'explain.partOperator': 'operator',
+  'explain.partPipe': 'pipe',
+  'explain.partProgram': 'program',
+  'explain.partRedirection': 'redirection',
+  'explain.sideEffects': '   Side effects:',
+  'explain.title': '\n📖 {command}',
+
+  // ============ FIX ============
+  'fix.analysisDone': '✅ Analysis complete!',
+  'fix.analysisHeader': '📋 Error Analysis:',
+  'fix.autoDetecting': '🔍 Auto-detecting errors in: {path}',
+  'fix.autoExample': 'Example: aiCli fix --auto test-error.js',
+  'fix.autoFileRequired': 'You must pass a file path to auto-detect.',
+  'fix.autoSpinner': '🧠 The AI is analysing and fixing the error...',
+  'fix.cancelled': '\n⊘ Request cancelled (Ctrl+C).',
+  'fix.confirm': '\n💾 Apply this fix to the file?',
+  'fix.confirmAuto': '\n💾 Apply this fix?',
+  'fix.errorDetected': '\n⚠️  Error detected:',
+  'fix.errorRequired': 'You must pass an error message to analyse.',
+  'fix.example': 'Example: aiCli fix src/app.ts "TypeError: cannot read property"',
+  'fix.exampleAuto': 'Or use: aiCli fix --auto file.js',
+  'fix.fileFound': '📄 File found: {path}',
+  'fix.fixedCode': '\n✨ Fixed Code:\n',
+  'fix.historyEmpty': '📜 No fix history.',
+  'fix.historyTitle': '\n📜 Fix History (last {count}):\n',
+  'fix.line': '   Line: {line}',
+  'fix.looksFine': 'The file seems to run fine.',
+  'fix.noErrors': '✅ No errors detected!',
+  'fix.notApplied': '\n⚠️  Fix not applied.',
+  'fix.readFailed': 'Failed to read file: {path}',
+  'fix.resultHeader': '📋 Analysis Result:',
+  'fix.spinner': '🧠 Analysing the error...',
+  'fix.stillFailing': '⚠️  Errors remain after the fix:',
+  'fix.tsMissing': 'TypeScript or ts-node not found. Trying node...',
+  'fix.unsupportedExt': 'File extension {ext} is not supported for auto-detect.',
+  'fix.verified': '✅ Verified! No more errors.',
+  'fix.verifying': '\n🔍 Verifying the fix...',
+
+  // ============ GEN ============
+  'gen.actionCopy': 'Copy to clipboard',
+  'gen.actionEdit': 'Edit first',
+  'gen.actionRefine': 'Refine request / pick an alternative',
+  'gen.allDone': '\n✅ All steps completed successfully!',
+  'gen.alternatives': '\n💡 Alternatives:',
+  'gen.askPrompt': 'What would you like to do?',
+  'gen.blacklisted': 'Command "{command}" is blocked by the policy and will not be executed:',
+  'gen.cancelled': 'Execution cancelled by the user.',
+  'gen.confirm': 'Are you sure you want to run this command?',
+  'gen.confirmDestructive': '⚠️  Are you REALLY sure you want to run this command?',
+  'gen.confirmReal': 'Run it for real in the working folder?',
+  'gen.confirmRepair': 'Run the fix and continue the plan?',
+  'gen.confirmSteps': 'Run all commands in order?',
+  'gen.contextDetected': 'Detected: OS={os}, Shell={shell}, PM={packageManager}',
+  'gen.contextStacks': 'Stacks: {stacks} · Tools on PATH: {tools}',
+  'gen.copied': 'Command copied to clipboard.',
+  'gen.copyFailed': 'Clipboard not available, copy the command below manually:',
+  'gen.cwd': '   Folder: {cwd}',
+  'gen.dangerous': '🛡️  DANGEROUS COMMAND DETECTED!',
+  'gen.destructiveWarning': '⚠️  WARNING: This command may damage or delete data!',
+  'gen.done': 'Command completed successfully.',
+  'gen.editBlocked': 'The edited command is blocked by the policy and was discarded:',
+  'gen.edited': '\n✏️  Step {step} edited:',
+  'gen.editPrompt': 'Edit command:',
+  'gen.editWhich': 'Which step do you want to edit?',
+  'gen.executing': '🚀 Running: {command}',
+  'gen.exitCode': 'Command exited with error code: {code}',
+  'gen.explainFailed': 'Explanation unavailable: {message}',
+  'gen.explaining': 'Explaining the commands',
+  'gen.generated': '✅ Command generated!',
+  'gen.generatedCached': '✅ Command generated! (from cache)',
+  'gen.historyEdited': '   Edited from: {command}',
+  'gen.historyEmpty': 'No history yet.',
+  'gen.historyLog': '   Log: {file}',
+  'gen.historyPrompt': '   Prompt: {prompt}',
+  'gen.historyRun': '   Exit code: {code} · Duration: {duration}',
+  'gen.historyTime': '   Time: {time}\n',
+  'gen.historyTitle': '\n📜 Command History (last 10):\n',
+  'gen.invalidNumber': 'Invalid number',
+  'gen.invalidResponse': 'The AI answer does not match the requested format: {problem}',
+  'gen.jsonBlacklisted': 'DANGEROUS COMMAND DETECTED! Blocked by the policy: {violations}',
+  'gen.logSaved': '📄 Full output saved to {file}',
+  'gen.macroMissingValue': 'No value for placeholder {{{name}}}. Use --set {name}=... when running without an interactive terminal.',
+  'gen.macroRunning': '\n📦 Macro "{name}" ({prompt})',
+  'gen.macroSaved': 'Saved as macro "{name}". Run it again with: aiCli macro run {name}',
+  'gen.macroShell': '⚠️  This macro was made for {shell} on {os}; its syntax may not work in this shell.',
+  'gen.macroValue': 'Value for {{{name}}}:',
+  'gen.pickNumber': 'Pick a number (1-10):',
+  'gen.placeholderUnused': 'The value of placeholder {name} does not appear in the commands; it was not created.',
+  'gen.planSaved': 'Plan saved with ID {id}',
+  'gen.planTitle': '\n📋 Plan {id} ({date}): {prompt}',
+  'gen.previewBlocked': 'Preview skipped: step {step} touches something outside the working folder ({rules}).',
+  'gen.previewFailed': 'Preview failed: {message}',
+  'gen.previewing': 'Running the preview in a sandbox',
+  'gen.promptEmpty': 'The prompt cannot be empty.',
+  'gen.promptMissing': 'No AI prompt given.',
+  'gen.providerFailed': 'Failed to contact the AI provider ({provider}).',
+  'gen.providerHint': 'Make sure you created a .env file and added the API key for the selected provider.',
+  'gen.refineKept': 'Keeping the previous proposal.',
+  'gen.refineOwn': 'Type my own follow-up',
+  'gen.refinePrompt': 'What should change? (e.g. "use yarn instead")',
+  'gen.refineWhich': 'Refine from which alternative?',
+  'gen.refused': 'The AI could not turn that prompt into a command: {response}',
+  'gen.repairFailed': 'The AI could not suggest a fix: {message}',
+  'gen.repairing': 'Asking the AI to fix step {step}',
+  'gen.repairRefused': 'The AI found no fix: {reason}',
+  'gen.repairSteps': '\n🔧 Fix for step {step}:',
+  'gen.reprompting': 'Invalid AI answer, asking again',
+  'gen.rerun': 'Run one of these commands again?',
+  'gen.resumeAction': 'Step {step} failed last time. What do you want to do?',
+  'gen.resumeCancel': 'Cancel',
+  'gen.resumeCwd': 'This plan ran in {cwd}; commands continue in that folder.',
+  'gen.resumeEdit': 'Edit the command first',
+  'gen.resumeEditPrompt': 'Command:',
+  'gen.resumeFinished': 'All steps of this plan are already done.',
+  'gen.resumeNone': 'There is no unfinished plan.',
+  'gen.resumeNotFound': 'Plan "{id}" not found.',
+  'gen.resumeRetry': 'Run it again',
+  'gen.resumeSession': 'The plan continues in a new shell session: cd and environment variables from earlier steps are not restored.',
+  'gen.resumeSkip': 'Skip this step',
+  'gen.riskHigh': 'high risk',
+  'gen.riskLow': 'low risk',
+  'gen.riskMedium': 'medium risk',
+  'gen.spawnFailed': 'Failed to start the command: {message}',
+  'gen.step': '\n▶️  Step {current}/{total}: {command}',
+  'gen.stepFailed': 'Step {step} failed. Stopping.',
+  'gen.steps': '\n📋 The AI suggests {count} steps:',
+  'gen.stepsBlacklisted': '🛡️  One of the commands is blocked by the policy:',
+  'gen.stepsDestructive': '\n⚠️  WARNING: Some commands may be destructive!',
+  'gen.suggests': 'The AI suggests running the following command:',
+  'gen.summarizeFailed': 'Summary unavailable: {message}',
+  'gen.summarizing': 'Summarising output',
+  'gen.summary': '\n📝 Output summary:',
+  'gen.thinking': '🧠 The AI is working out a command for: "{prompt}"',
+  'gen.tipDependencies': '   - Check that the dependencies are installed',
+  'gen.tipHistory': '   - Use --history to see previous commands',
+  'gen.tipRerun': '   - Try running the failed command again',
+  'gen.tipResume': '   - Continue this plan later with: aiCli gen --resume {id}',
+  'gen.tips': '\n💡 Suggestions:',
+
+  // ============ HISTORY ============
+  'history.edited': '   edited from: {command}',
+  'history.empty': '📜 No matching history.',
+  'history.exported': '{count} entries exported to {file}',
+  'history.invalidDate': 'Invalid date: "{input}" (use e.g. 2025-01-31 or 7d)',
+  'history.log': '   log: {file}',
+  'history.migrateFailed': 'Failed to migrate old history: {file}',
+  'history.pruned': '{count} history entries removed by retention.',
+  'history.saveFailed': 'Failed to save history.',
+  'history.title': '\n📜 History ({count} entries):\n',
+
+  // ============ MACROS ============
+  'macros.empty': 'No macros yet. Save a command with: aiCli gen --save <name> "<prompt>"',
+  'macros.invalidName': 'Invalid macro name: "{name}" (use letters, digits, -, _ or .)',
+  'macros.invalidValue': 'Invalid format: "{entry}" (use name=value)',
+  'macros.notFound': 'Macro "{name}" not found. List macros with: aiCli macro list',
+  'macros.origin': '   Created {date} for {shell} ({os})\n',
+  'macros.placeholders': '   Placeholders: {names}',
+  'macros.prompt': '   Prompt: {prompt}',
+  'macros.removed': 'Macro "{name}" removed.',
+  'macros.saveFailed': 'Failed to save macro "{name}".',
+  'macros.stepCount': '({count} steps)',
+  'macros.title': '\n📦 Macros ({count}):\n',
+  'macros.unsupportedFlags': 'Flag {flags} cannot be used with macro run.',
+
+  // ============ PLAN ============
+  'plan.fieldArray': '{field} must be an array',
+  'plan.fieldString': '{field} must be a string',
+  'plan.invalidRisk': '{field} must be one of: {options}',
+  'plan.noSteps': 'steps is empty (no commands)',
+  'plan.notJson': 'not valid JSON ({message})',
+  'plan.notObject': 'the JSON must be an object',
+  'plan.stepNotObject': '{at} must be an object',
+
+  // ============ PLANS ============
+  'plans.saveFailed': 'Failed to save the plan.',
+
+  // ============ POLICY ============
+  'policy.deleteCwd': 'Deletes the whole working directory ({target})',
+  'policy.deleteFiles': 'Deletes files: {targets}',
+  'policy.deleteOutsideCwd': 'Deletes outside the working directory: {target}',
+  'policy.deleteSystemPath': 'Deletes the root, home or a system directory: {target}',
+  'policy.deleteUnknownPath': 'Deletes a path from a variable that cannot be checked: {target}',
+  'policy.denyRule': 'Matches policyDeny "{pattern}"',
+  'policy.diskWrite': 'dd writes raw data to a file or disk',
+  'policy.findDelete': 'find -delete recursively deletes every matching file',
+  'policy.forkBomb': 'Fork bomb: spawns processes endlessly until the system hangs',
+  'policy.formatDisk': '{program} formats or partitions a disk',
+  'policy.gitDiscard': '{command} throws away uncommitted changes',
+  'policy.gitForcePush': 'Force push overwrites history on the remote',
+  'policy.invalidRule': 'Invalid policyDeny rule: "{entry}" — use "severity:pattern", e.g. "high:terraform destroy*" (severity: {severities})',
+  'policy.permissionsSystemPath': '{program} recursively changes permissions of the root, home or a system directory: {target}',
+  'policy.pipeToShell': '{source} output is run by {shell} without being inspected',
+  'policy.powerState': '{program} shuts down or restarts the machine',
+  'policy.privilege': 'Runs with admin privileges via {program}',
+  'policy.recursiveDelete': 'Deletes recursively: {targets}',
+  'policy.recursivePermissions': '{program} changes permissions recursively',
+  'policy.severityCritical': 'critical',
+  'policy.severityHigh': 'high',
+  'policy.severityLow': 'low',
+  'policy.severityMedium': 'medium',
+  'policy.violation': '   [{severity}] {rule}: {message} — {command}',
+  'policy.worldWritable': 'chmod makes files writable by every user',
+  'policy.writeDevice': 'Writes directly to the device {target}',
+  'policy.writeOutsideCwd': 'Writes a file outside the working directory: {target}',
+  'policy.writeSystemPath': 'Writes to a system file: {target}',
+
+  // ============ PREVIEW ============
+  'preview.binary': '(binary or too large, diff not shown)',
+  'preview.changes': '📄 File changes ({count}):',
+  'preview.created': 'created',
+  'preview.deleted': 'deleted',
+  'preview.excluded': '   Not copied to the sandbox: {dirs} (commands that depend on them may behave differently)',
+  'preview.exitFailed': 'failed (exit {code})',
+  'preview.exitOk': 'succeeded',
+  'preview.linkOutside': 'symlink {link} points outside the working folder ({target}), so steps could change the real files',
+  'preview.modified': 'modified',
+  'preview.moreLines': '... {count} more lines',
+  'preview.noChanges': '   No files changed.',
+  'preview.notRun': 'not run',
+  'preview.step': '   Step {current}/{total}: {command}',
+  'preview.timedOut': 'stopped (time limit exceeded)',
+  'preview.titleIsolated': '\n🔍 Sandbox preview (network disabled):',
+  'preview.titleProxy': '\n🔍 Sandbox preview (network only restricted through a proxy):',
+  'preview.tooLarge': 'the working folder is larger than {limit} MB to copy into a sandbox',
+
+  // ============ PROMPTER ============
+  'prompter.choiceExplain': 'Explain first',
+  'prompter.choiceNo': 'No',
+  'prompter.choiceYes': 'Yes, run it',
+  'prompter.destructive': 'This action may be destructive and is not run automatically. Add --allow-destructive together with --yes to allow it.',
+  'prompter.editHint': '(Tab fills in the current text)',
+  'prompter.needsConfirm': 'Confirmation needed: "{message}". Use --yes or --no when running without a TTY / with --no-input.',
+  'prompter.needsInput': 'Input needed: "{message}", but interactive prompts are not available.',
+
+  // ============ PROVIDER ============
+  'provider.fixtureResponse': 'field "response" must be a string',
+  'provider.invalidFixture': 'Invalid fixture: {file} ({message})',
+  'provider.invalidModels': 'Invalid models entry: "{entry}" (format: "provider=model", e.g. "ollama=llama3.2")',
+  'provider.missingGeminiKey': 'Gemini API key not found (GEMINI_API_KEY or `aiCli config set geminiApiKey`).',
+  'provider.missingOpenaiKey': 'OpenAI API key not found (OPENAI_API_KEY or `aiCli config set openaiApiKey`).',
+  'provider.noRecording': 'No recording for prompt {key} in {dir}',
+  'provider.recordNeedsLive': 'AI_RECORD_PROVIDER must be a live provider (gemini, openai, ollama, llamacpp).',
+  'provider.unknown': 'Unknown provider: "{name}". Choices: {options}',
+
+  // ============ REDACT ============
+  'redact.disabled': 'Redaction is off (AI_REDACT=false); the prompt is sent as is.',
+  'redact.invalidPattern': 'Invalid redactPatterns regex: {pattern} ({message})',
+  'redact.none': '🔒 No secrets detected in the prompt.',
+  'redact.summary': '🔒 {count} values masked before sending to the AI:',
+
+  // ============ RETRY ============
+  'retry.attemptFailed': '⚠️  Attempt {attempt} failed. Retrying in {delay}ms...',
+
+  // ============ REVIEW ============
+  'review.cancelled': '\n⊘ Review cancelled (Ctrl+C).',
+  'review.confirm': '💾 Apply improvements to the file now?',
+  'review.done': '✅ Review complete!',
+  'review.example': 'Example: aiCli review src/components/Button.jsx',
+  'review.fileRequired': 'You must pass a file path to review.',
+  'review.header': '📋 Review Results:',
+  'review.historyEmpty': '📜 No review history.',
+  'review.historyTitle': '\n📜 Review History (last {count}):\n',
+  'review.issues': '{count} issues',
+  'review.moreLines': '\n... ({count} more lines)',
+  'review.noIssues': 'no issues',
+  'review.notApplied': '\n⚠️  Improvements not applied.',
+  'review.preview': '\n✨ Preview Improved Code (first 15 lines):\n',
+  'review.reviewing': '🔍 Reviewing {type} file: {path}',
+  'review.spinner': '🧠 The AI is analysing the component/page...',
+  'review.tipDiff': '   - Review the changes with: git diff {path}',
+  'review.tipRemoveBackup': '   - Remove the backup if everything is OK: rm {backup}',
+  'review.tipRestore': '   - Restore if needed: mv {backup} {path}',
+  'review.tips': '💡 Tips:',
+
+  // ============ SESSION ============
+  'session.ended': 'The shell session stopped ({reason}); the remaining steps were not run.',
+  'session.startFailed': 'Failed to start the shell session: {message}',
+
+  // ============ SHELL INIT ============
+  'shellInit.header': 'aiCli integration: Ctrl+G replaces the line being typed with the command from gen. Add to {rc}: {command}',
+  'shellInit.unsupported': 'Shell "{shell}" is not supported by shell-init (choices: {shells}).',
+
+  // ============ STREAM ============
+  'stream.cancelled': 'Request cancelled by the user.',
+  'stream.receivingCode': 'Receiving code',
+  'stream.restarted': 'The response was cut off; the analysis below starts over.',
+
+  // ============ USAGE ============
+  'usage.budget': '\nBudget this month: {spent} / {limit} ({action})',
+  'usage.budgetBlocked': '{message} Raise AI_MONTHLY_BUDGET or set AI_BUDGET_ACTION=warn to continue.',
+  'usage.budgetExceeded': 'Monthly budget of {budget} is used up ({spent}).',
+  'usage.byCommand': 'By command',
+  'usage.byDay': 'By day',
+  'usage.byModel': 'By model',
+  'usage.byProject': 'By project',
+  'usage.empty': 'No requests recorded in this range.',
+  'usage.estimated': '   Some token counts are estimated (the provider did not report tokens).',
+  'usage.invalidPricing': 'Invalid pricing format: "{entry}" — use "model=input/output", e.g. "gpt-4o=2.5/10"',
+  'usage.saveFailed': 'Failed to save token usage.',
+  'usage.title': '\n💰 AI usage since {since}:\n',
+  'usage.total': 'Total',
+  'usage.unknownPrice': 'The price of model {model} is unknown, so its cost is not counted (n/a). Add it with `aiCli config set pricing \'["{model}=input/output"]\'`.',
+  'usage.unpriced': '   n/a: the price of model {models} is unknown; its cost is not included in totals or the budget.',
+}
+
+export const prompts: PromptTemplates = {
+  explain: ({ os, shell }, commands) => `You are a ${shell} expert on ${os} explaining shell commands to a developer BEFORE they are run.
+
+Explain every command below in plain English:
+1. summary: one sentence about what the command does.
+2. parts: split the command into ordered pieces the way the shell reads it. kind:
+   - program: the program/cmdlet being run (including sudo, xargs, etc.)
+   - flag: options such as -la, --force, -Recurse (with their value if attached)
+   - argument: plain arguments (paths, patterns, values, expressions)
+   - redirection: >, >>, 2>&1, <, heredocs and their targets
+   - pipe: | passing output to the next command
+   - operator: &&, ||, ;, subshells, the -exec terminator
+   Give every piece a short description.
+3. sideEffects: effects beyond printing output. kind:
+   - files: files/folders created, overwritten or deleted (name the paths)
+   - network: network access (downloads, uploads, API requests, git push)
+   - privilege: privilege escalation (sudo, runas, chmod/chown, setuid)
+   - process: starting or stopping processes/services
+   - system: system configuration, global packages, environment changes
+   Leave sideEffects empty when the command only reads.
+
+Reply with ONLY a JSON object, one entry per command in the same order:
+{"commands": [{"command": "...", "summary": "...", "parts": [{"text": "...", "kind": "program", "description": "..."}], "sideEffects": [{"kind": "files", "description": "..."}]}]}
+
+COMMANDS:
+${commands.map((command, index) => `${index + 1}. ${command}`).join('\n')}
+`,
+
+  fixAutoDetect: ({ errorMessage, fileContent, filePath }) => `You are an "AI Code Fixer", an expert at debugging and fixing code.
+
+**YOUR TASK:**
+Fix the error detected while running this file.
+
+**FILE:** ${filePath}
+
+**DETECTED ERROR:**
+${errorMessage}
+
+**CURRENT CODE:**
+${fileContent}
+
+**ANSWER FORMAT:**
+1. Explain what is wrong (typo, logic error, syntax error, etc.)
+2. State the specific cause
+3. Give the FULL FILE CODE with the fix in a code block
+
+**IMPORTANT:**
+- Give the ENTIRE fixed file
+- Fix every error (typos, logic errors, missing imports, etc.)
+- Use a code block with the right language
+- Keep the indentation consistent
+- Do NOT give only a snippet, give the FULL FILE
+- Check the logic to make sure it is correct
+- Answer in English
+
+Examples of errors to fix:
+- Typos in variable/function names
+- Logic errors (wrong if condition, infinite loop, etc.)
+- Missing import/require
+- Syntax errors
+- Type errors
+`,
+
+  fixWithFile: ({ errorMessage, fileContent, filePath, line }) => `You are an "AI Code Fixer", an expert at debugging and fixing code.
+
+**YOUR TASK:**
+1. Analyse the following error
+2. Read the given code
+3. Identify the problem
+4. Give the fixed code (FULL FILE)
+
+**ERROR MESSAGE:**
+${errorMessage}
+
+**FILE:** ${filePath}
+${line ? `**LINE:** ${line}` : ''}
+
+**CURRENT CODE:**
+${fileContent}
+
+**ANSWER FORMAT:**
+1. Explain the error briefly (2-3 lines)
+2. State the main cause
+3. Give the FULL FILE CODE with the fix in a code block (use triple backticks)
+
+**IMPORTANT:**
+- Give the ENTIRE fixed file
+- Use a code block with the right language
+- Keep the indentation consistent
+- Do NOT give only a snippet, give the FULL FILE
+- Keep the existing structure and code style
+- Answer in English
+
+Example format: a short explanation, then the complete code block in triple backticks.
+`,
+
+  fixWithoutFile: errorMessage => `
+You are an expert "AI Debugging Assistant".
+Analyse the following error message and give the best solution. Answer in English.
+
+**Answer format:**
+1. **Error Analysis:** (explain what this error means)
+2. **Possible Causes:** (list the 2–3 main causes)
+3. **Recommended Solution:** (steps to fix it or example code)
+
+**Error Message:**
+"${errorMessage}"
+`,
+
+  gen: (context, userPrompt) => [genSystemPrompt(context), `User: ${userPrompt}`, 'You:'].join('\n'),
+
+  genFix: (context, { code, commands, index, output, userPrompt }) => `${genSystemPrompt(context)}
+User: ${userPrompt}
+
+The plan for the request above runs in order inside ONE shell session, but step ${index + 1} failed${code === null ? '' : ` (exit code ${code})`}.
+
+PLAN:
+${commands.map((command, i) => `${i + 1}. ${command} ${i < index ? '(done)' : i === index ? '(FAILED)' : '(not run yet)'}`).join('\n')}
+
+OUTPUT OF STEP ${index + 1} (tail):
+${output.trim() || '(no output)'}
+
+Give replacement steps for step ${index + 1} only: the corrected command, or preparation steps (e.g. install a dependency, create a folder) followed by the corrected command.
+- Steps that are already done must NOT be repeated; the steps after it resume automatically.
+- The shell session is the same: the working folder and environment variables from earlier steps still apply.
+- If the failure cannot be fixed with a shell command (e.g. it needs a decision from the user), put the explanation in "error".
+You:`,
+
+  genRefine: (context, turns, followUp) => [
+    genSystemPrompt(context),
+    ...turns.flatMap(turn => [`User: ${turn.request}`, `You (proposal):\n${proposal(turn)}`]),
+    `User: ${followUp}`,
+    'Adjust the latest proposal to the latest user request; keep anything it does not mention.',
+    'You:',
+  ].join('\n'),
+
+  genRepair: problem => `\n\nYour previous answer was invalid: ${problem}\nReply again with ONLY the JSON object described in OUTPUT FORMAT above.\nYou:`,
+
+  redactionNotice:
+    '\n\nNOTE: secret values above were replaced with __REDACTED_n__ placeholders. Write the placeholders back exactly as they are; do not replace them.',
+
+  review: ({ codeLanguage, fileContent, filePath, fileType, full }) => `You are a "Senior UI/UX & Frontend Expert" skilled in design, accessibility, and best practices.
+
+**YOUR TASK:**
+Review the following file and give an in-depth analysis of UI, UX, logic, and performance problems.
+
+**FILE:** ${filePath}
+**TYPE:** ${fileType}
+
+**CODE:**
+${fileContent}
+
+**REVIEW FOCUS:**
+1. **UI/Visual Issues:**
+   - Poor layout (flexbox/grid issues)
+   - Typography problems
+   - Color contrast (accessibility)
+   - Spacing/padding issues
+   - Responsive design problems
+
+2. **UX Issues:**
+   - Confusing user flow
+   - Missing feedback (loading, error states)
+   - Accessibility (ARIA, keyboard navigation)
+   - Mobile experience
+   - Click/touch target size
+
+3. **Logic Errors:**
+   - State management issues
+   - Event handler bugs
+   - Conditional rendering problems
+   - Props validation
+
+4. **Performance:**
+   - Re-render issues
+   - Missing memoization
+   - Heavy computations
+   - Large bundle size
+
+5. **Best Practices:**
+   - Semantic HTML
+   - Component structure
+   - Code organization
+   - Security (XSS, etc)
+
+**OUTPUT FORMAT (IMPORTANT - FOLLOW EXACTLY):**
+
+## 🔴 TOP 3 CRITICAL ISSUES (SHORT):
+1. [Issue 1] - 1 line of explanation
+2. [Issue 2] - 1 line of explanation
+3. [Issue 3] - 1 line of explanation
+
+## 💡 IMPROVEMENTS APPLIED:
+- [List 3-5 main improvements, 1 line per item]
+
+\`\`\`${codeLanguage}
+[FULL IMPROVED CODE - Write the entire improved file]
+\`\`\`
+
+**STRICT RULES:**
+- Analysis of AT MOST 10 lines in total
+- FOCUS on code improvements
+- The code block MUST start with triple backticks and the language
+- ALWAYS give the FULL FILE (not a snippet)
+- Add short comments in the code to highlight changes
+- Answer in English
+${full ? '- Give extra detail when asked' : ''}`,
+
+  summarize: ({ os, shell }, { code, command, output }) => `You help a developer read the output of a ${shell} command on ${os} that has just run.
+
+COMMAND: ${command}
+EXIT CODE: ${code ?? '(terminated)'}
+
+OUTPUT:
+${output.trim() || '(no output)'}
+
+Summarise the output above in English in at most 5 lines starting with "- ":
+- whether it succeeded, and what it produced or changed
+- important warnings and errors (deprecations, vulnerabilities, peer dependencies, etc.) with the suggested follow-up
+Ignore progress bars and repeated lines. Answer in plain text, without headings or code blocks.
+`,
+}
+
+function genSystemPrompt(context: GenPromptContext): string {
+  return `
+You are an expert, context-aware CLI assistant.
+
+CONTEXT:
+${contextLines(context)}
+
+YOUR TASK:
+1. Turn the human request into an executable shell command
+2. Use the tools of the detected project stacks that are on PATH (JavaScript packages: ${context.packageManager})
+3. Match the command to the OS (${context.os}) and shell (${context.shell})
+4. Split complex tasks into several steps
+
+${context.shell === 'powershell' ? `
+IMPORTANT - POWERSHELL SYNTAX:
+- Use New-Item to create files/folders: New-Item -ItemType Directory -Force -Path "src/components"
+- To write multi-line file content, use an ARRAY with -join for proper line breaks:
+
+  CORRECT EXAMPLE (HTML file):
+  @('<!DOCTYPE html>', '<html lang="en">', '<head>', '  <meta charset="UTF-8">', '  <title>My Page</title>', '</head>', '<body>', '  <h1>Hello</h1>', '</body>', '</html>') -join "\`r\`n" | Out-File -FilePath "index.html" -Encoding utf8
+
+  CORRECT EXAMPLE (JS file):
+  @('const message = "Hello";', 'console.log(message);') -join "\`r\`n" | Out-File -FilePath "app.js" -Encoding utf8
+
+- IMPORTANT: Use the array syntax @('line1', 'line2', 'line3') with -join "\`r\`n"
+- Every line is a separate string in the array
+- Indent with spaces inside the string: '  <meta>' for a 2-space indent
+- ALWAYS use double quotes for strings that contain single quotes
+- Use single quotes for strings that contain double quotes
+- Do NOT use mkdir -p (Unix), use New-Item -ItemType Directory -Force
+- Do NOT use touch (Unix), use New-Item -ItemType File
+- Use a semicolon (;) to chain commands, not &&
+` : context.shell === 'cmd' ? `
+IMPORTANT - CMD SYNTAX:
+- Use mkdir for folders (recursive by default on Windows)
+- Use echo to write: echo content > file.txt
+- Use & or && to chain commands
+- Do NOT use Unix commands such as touch, rm -rf
+` : `
+IMPORTANT - UNIX/BASH SYNTAX:
+- Use mkdir -p for nested folders
+- Use echo > to redirect output
+- Use && to chain commands
+- Use touch to create empty files
+`}
+
+OUTPUT FORMAT (IMPORTANT!):
+Reply with ONLY one JSON object, no markdown and no other text:
+{
+  "steps": [
+    { "command": "<command>", "description": "<what it does>", "risk": "low | medium | high", "cwd": "<relative folder, optional>" }
+  ],
+  "suggestions": ["<alternative1>", "<alternative2>", "<alternative3>"]
+}
+
+RULES:
+1. One command = one step; split complex tasks into several steps in order
+2. "command" may span multiple lines (heredoc, PowerShell array) inside one JSON string
+3. Use "cwd" to run a step in another folder (e.g. a project that was just created); prefer it over a separate "cd" step (steps do run in one shell session, so cd and environment variables carry over to later steps)
+4. "risk": "high" when it deletes/overwrites data or needs admin rights, "medium" when it changes files or installs packages, "low" when it only reads
+5. Use ${context.packageManager} to install JavaScript packages; for other stacks use their tool (e.g. poetry/uv/pip, go, cargo). Tools NOT on PATH may only be used after a step that installs them
+6. ALWAYS convert natural language into a shell command (install, create, setup, etc. are valid)
+7. Framework installation (React, Next.js, Vue, etc.) MUST generate a command
+8. Only when it really is not an action (e.g. "what is NextJS?", "explain React") reply {"error": "Not a shell command", "steps": [], "suggestions": []}
+9. ALWAYS give 2-3 suggestions (alternative requests), written in English
+10. MAKE SURE the command fits the ${context.shell} shell
+11. If a package.json script or Makefile target matches the request, run it (e.g. ${context.packageManager} run test, make build) instead of spelling out its commands
+
+${context.shell === 'powershell' ? 'POWERSHELL' : 'BASH'} EXAMPLES:
+${context.shell === 'powershell' ? `
+User: create a Button file in src/components
+Output:
+{"steps": [{"command": "@('export default function Button() {', '  return <button>Click me</button>', '}') -join \\"\`r\`n\\" | Out-File -FilePath \\"src/components/Button.jsx\\" -Encoding utf8", "description": "Write the Button component", "risk": "medium"}], "suggestions": ["create it with TypeScript", "add props", "create it in another folder"]}
+
+User: set up a next.js project with tailwind
+Output:
+{"steps": [{"command": "npx create-next-app@latest my-app --tailwind", "description": "Create a Next.js project with Tailwind", "risk": "medium"}, {"command": "${context.packageManager} install", "cwd": "my-app", "description": "Install the project dependencies", "risk": "medium"}], "suggestions": ["use a create-next-app template", "set up tailwind manually", "add shadcn"]}
+` : `
+User: install react and axios
+Output:
+{"steps": [{"command": "${context.packageManager} install react react-dom axios", "description": "Install React and axios", "risk": "medium"}], "suggestions": ["install with TypeScript", "add react-query", "use fetch"]}
+
+User: create a .env file with PORT 3000
+Output:
+{"steps": [{"command": "cat > .env <<'EOF'\\nPORT=3000\\nEOF", "description": "Write the .env file", "risk": "medium"}], "suggestions": ["add NODE_ENV", "also create .env.example"]}
+
+User: set up a next.js project with tailwind
+Output:
+{"steps": [{"command": "npx create-next-app@latest my-app --tailwind", "description": "Create a Next.js project with Tailwind", "risk": "medium"}, {"command": "${context.packageManager} install", "cwd": "my-app", "description": "Install the project dependencies", "risk": "medium"}], "suggestions": ["use the next.js tailwind template", "set up tailwind manually"]}
+`}
+            `
+}
+
+/** Usulan giliran sebelumnya, bernomor seperti saat ditampilkan ke user */
+function proposal({ commands }: GenTurn): string {
+  return commands.map((command, i) => `${i + 1}. ${command}`).join('\n')
+}
+
+/** Baris CONTEXT; bagian yang tidak terdeteksi tidak ditulis */
+function contextLines(context: GenPromptContext): string {
+  const lines = [
+    `- OS: ${context.os}`,
+    `- Shell: ${context.shell}`,
+    `- Package Manager: ${context.packageManager}`,
+    `- Has package.json: ${context.hasPackageJson}`,
+  ]
+
+  if (context.projectType) lines.push(`- Project Type: ${context.projectType}`)
+  if (context.stacks.length > 0) {
+    const stacks = context.stacks.map(({ files, name, tool }) => `${name} (${[...files, ...(tool ? [`tool: ${tool}`] : [])].join(', ')})`)
+    lines.push(`- Project stacks: ${stacks.join('; ')}`)
+  }
+
+  if (context.scripts.length > 0) lines.push(`- package.json scripts: ${context.scripts.join(', ')}`)
+  if (context.makeTargets.length > 0) lines.push(`- Makefile targets: ${context.makeTargets.join(', ')}`)
+  if (context.git) lines.push(`- Git: branch ${context.git.branch}, ${context.git.changes} changed files`)
+  if (context.availableTools.length > 0) lines.push(`- Tools on PATH: ${context.availableTools.join(', ')}`)
+  if (context.missingTools.length > 0) lines.push(`- Tools NOT on PATH: ${context.missingTools.join(', ')}`)
+
+  return lines.join('\n')
+}
@@ -0,0 +1,712 @@
+// src/locales/id.ts — Bahasa Indonesia (locale default & sumber key)
+
+import type { GenPromptContext, GenTurn, PromptTemplates } from '../utills/i18n.js'
+
+export const dateLocale = 'id-ID'
+
+export const messages = {
+  // ============ CACHE ============
+  'cache.cleared': '{count} entry cache dihapus.',
+  'cache.entries': 'Entry',
+  'cache.expired': ' ({count} kedaluwarsa)',
+  'cache.hit': '⚡ Response dari cache (--no-cache untuk request baru)',
+  'cache.hitRate': 'Hit rate',
+  'cache.hitRateDetail': '({hits} hit, {misses} miss)',
+  'cache.location': 'Lokasi',
+  'cache.noTtl': 'tanpa batas',
+  'cache.range': 'Rentang',
+  'cache.size': 'Ukuran',
+  'cache.title': '\n⚡ Cache response AI:\n',
+  'cache.ttl': 'TTL',
+  'cache.ttlHours': '{hours} jam',
+
+  // ============ COMMON ============
+  'common.backupCreated': '📦 Auto-backup created: {path}',
+  'common.cancelledSpinner': '⊘ Dibatalkan',
+  'common.done': '✅ Selesai!',
+  'common.failed': '❌ Gagal',
+  'common.failedSpinner': '❌ Gagal!',
+  'common.fileFixed': '\n✅ File berhasil diperbaiki: {path}',
+  'common.fileNotFound': 'File tidak ditemukan: {path}',
+  'common.fileTooLarge': '❌ File terlalu besar: {size} MB (max: {max} MB)',
+  'common.providerError': 'Terjadi kesalahan saat menghubungi provider AI ({provider}).',
+  'common.providerSetupHint': 'Buat file `.env` dan tambahkan API key untuk provider yang dipilih (mis. GEMINI_API_KEY=<api_key>).',
+
+  // ============ CONFIG ============
+  'config.expectBoolean': 'true atau false',
+  'config.expectInteger': 'bilangan bulat',
+  'config.expectJsonArray': 'array JSON yang valid',
+  'config.expectNumber': 'angka',
+  'config.expectOneOf': 'salah satu dari: {options}',
+  'config.expectString': 'string',
+  'config.expectStringArray': 'array string',
+  'config.invalidJson': 'Config {file} harus berupa object JSON.',
+  'config.invalidProfile': 'Nama profile tidak valid: "{name}" (gunakan huruf, angka, - atau _)',
+  'config.invalidValue': 'Nilai config tidak valid untuk {key} ({source}): {raw} — harus {expected}',
+  'config.listTitle': '\n⚙️  Config profile "{profile}":\n',
+  'config.notSet': '{key} belum diset.',
+  'config.notSetInProfile': '{key} memang belum diset di profile "{profile}".',
+  'config.notSetLabel': '(tidak diset)',
+  'config.profileNotFound': 'Profile "{profile}" tidak ditemukan. Buat dengan: aiCli config set <key> <value> --profile {profile}',
+  'config.readFailed': 'Gagal membaca config {file}: {message}',
+  'config.saved': '{key} disimpan untuk profile "{profile}" ({file})',
+  'config.secretInProject': '{file} tidak boleh berisi "{key}". Simpan API key dengan: aiCli config set {key} <value>',
+  'config.source': '   {description} — dari {source}',
+  'config.unknownKey': 'Key config tidak dikenal "{key}" di {source}. Key yang valid: {keys}',
+  'config.unset': '{key} dihapus dari profile "{profile}".',
+
+  // ============ EXPLAIN ============
+  'explain.effectFiles': '📁 File:',
+  'explain.effectNetwork': '🌐 Jaringan:',
+  'explain.effectPrivilege': '🔑 Hak akses:',
+  'explain.effectProcess': '⚙️  Proses:',
+  'explain.effectSystem': '🖥️  Sistem:',
+  'explain.noSideEffects': '   Efek samping: tidak ada (hanya membaca)',
+  'explain.partArgument': 'argumen',
+  'explain.partFlag': 'flag',
+  'explain.partOperator': 'operator',
+  'explain.partPipe': 'pipe',
+  'explain.partProgram': 'program',
+  'explain.partRedirection': 'redirection',
+  'explain.sideEffects': '   Efek samping:',
+  'explain.title': '\n📖 {command}',
+
+  // ============ FIX ============
+  'fix.analysisDone': '✅ Analisis selesai!',
+  'fix.analysisHeader': '📋 Analisis Error:',
+  'fix.autoDetecting': '🔍 Auto-detecting errors di: {path}',
+  'fix.autoExample': 'Contoh: aiCli fix --auto test-error.js',
+  'fix.autoFileRequired': 'Anda harus memasukkan file path untuk auto-detect.',
+  'fix.autoSpinner': '🧠 AI sedang menganalisis dan memperbaiki error...',
+  'fix.cancelled': '\n⊘ Request dibatalkan (Ctrl+C).',
+  'fix.confirm': '\n💾 Apakah Anda ingin menerapkan perbaikan ini ke file?',
+  'fix.confirmAuto': '\n💾 Apakah Anda ingin menerapkan perbaikan ini?',
+  'fix.errorDetected': '\n⚠️  Error terdeteksi:',
+  'fix.errorRequired': 'Anda harus memasukkan pesan error untuk dianalisis.',
+  'fix.example': 'Contoh: aiCli fix src/app.ts "TypeError: cannot read property"',
+  'fix.exampleAuto': 'Atau gunakan: aiCli fix --auto file.js',
+  'fix.fileFound': '📄 File ditemukan: {path}',
+  'fix.fixedCode': '\n✨ Kode yang Diperbaiki:\n',
+  'fix.historyEmpty': '📜 Tidak ada history fix.',
+  'fix.historyTitle': '\n📜 History Fix ({count} terakhir):\n',
+  'fix.line': '   Baris: {line}',
+  'fix.looksFine': 'File tampaknya sudah berjalan dengan baik.',
+  'fix.noErrors': '✅ Tidak ada error yang terdeteksi!',
+  'fix.notApplied': '\n⚠️  Perbaikan tidak diterapkan.',
+  'fix.readFailed': 'Gagal membaca file: {path}',
+  'fix.resultHeader': '📋 Hasil Analisis:',
+  'fix.spinner': '🧠 Sedang menganalisis error...',
+  'fix.stillFailing': '⚠️  Masih ada error setelah perbaikan:',
+  'fix.tsMissing': 'TypeScript atau ts-node tidak ditemukan. Mencoba dengan node...',
+  'fix.unsupportedExt': 'File extension {ext} tidak didukung untuk auto-detect.',
+  'fix.verified': '✅ Verifikasi berhasil! Tidak ada error lagi.',
+  'fix.verifying': '\n🔍 Memverifikasi perbaikan...',
+
+  // ============ GEN ============
+  'gen.actionCopy': 'Salin ke clipboard',
+  'gen.actionEdit': 'Edit dulu',
+  'gen.actionRefine': 'Ubah permintaan / pilih alternatif',
+  'gen.allDone': '\n✅ Semua langkah berhasil diselesaikan!',
+  'gen.alternatives': '\n💡 Alternatif Lain:',
+  'gen.askPrompt': 'Apa yang ingin Anda lakukan?',
+  'gen.blacklisted': 'Command "{command}" diblokir oleh policy dan tidak akan dieksekusi:',
+  'gen.cancelled': 'Eksekusi dibatalkan oleh pengguna.',
+  'gen.confirm': 'Apakah Anda yakin ingin mengeksekusi perintah ini?',
+  'gen.confirmDestructive': '⚠️  Apakah Anda BENAR-BENAR yakin ingin mengeksekusi perintah ini?',
+  'gen.confirmReal': 'Jalankan perintah ini di folder kerja yang sebenarnya?',
+  'gen.confirmRepair': 'Jalankan perbaikan lalu lanjutkan plan?',
+  'gen.confirmSteps': 'Jalankan semua perintah secara berurutan?',
+  'gen.contextDetected': 'Terdeteksi: OS={os}, Shell={shell}, PM={packageManager}',
+  'gen.contextStacks': 'Stack: {stacks} · Tool di PATH: {tools}',
+  'gen.copied': 'Perintah disalin ke clipboard.',
+  'gen.copyFailed': 'Clipboard tidak tersedia, salin perintah berikut secara manual:',
+  'gen.cwd': '   Folder: {cwd}',
+  'gen.dangerous': '🛡️  PERINTAH BERBAHAYA TERDETEKSI!',
+  'gen.destructiveWarning': '⚠️  PERINGATAN: Command ini berpotensi merusak/menghapus data!',
+  'gen.done': 'Perintah berhasil diselesaikan.',
+  'gen.editBlocked': 'Hasil edit diblokir oleh policy dan tidak dipakai:',
+  'gen.edited': '\n✏️  Step {step} diedit:',
+  'gen.editPrompt': 'Edit perintah:',
+  'gen.editWhich': 'Step mana yang ingin diedit?',
+  'gen.executing': '🚀 Mengeksekusi: {command}',
+  'gen.exitCode': 'Perintah selesai dengan kode error: {code}',
+  'gen.explainFailed': 'Penjelasan tidak tersedia: {message}',
+  'gen.explaining': 'Menjelaskan perintah',
+  'gen.generated': '✅ Perintah dibuat!',
+  'gen.generatedCached': '✅ Perintah dibuat! (dari cache)',
+  'gen.historyEdited': '   Diedit dari: {command}',
+  'gen.historyEmpty': 'Belum ada history.',
+  'gen.historyLog': '   Log: {file}',
+  'gen.historyPrompt': '   Prompt: {prompt}',
+  'gen.historyRun': '   Exit code: {code} · Durasi: {duration}',
+  'gen.historyTime': '   Waktu: {time}\n',
+  'gen.historyTitle': '\n📜 History Perintah (10 terakhir):\n',
+  'gen.invalidNumber': 'Nomor tidak valid',
+  'gen.invalidResponse': 'Jawaban AI tidak sesuai format yang diminta: {problem}',
+  'gen.jsonBlacklisted': 'PERINTAH BERBAHAYA TERDETEKSI! Diblokir oleh policy: {violations}',
+  'gen.logSaved': '📄 Output lengkap tersimpan di {file}',
+  'gen.macroMissingValue': 'Nilai untuk placeholder {{{name}}} belum diisi. Gunakan --set {name}=... saat berjalan tanpa terminal interaktif.',
+  'gen.macroRunning': '\n📦 Macro "{name}" ({prompt})',
+  'gen.macroSaved': 'Disimpan sebagai macro "{name}". Jalankan lagi dengan: aiCli macro run {name}',
+  'gen.macroShell': '⚠️  Macro ini dibuat untuk {shell} di {os}; sintaksnya mungkin tidak jalan di shell ini.',
+  'gen.macroValue': 'Nilai untuk {{{name}}}:',
+  'gen.pickNumber': 'Pilih nomor (1-10):',
+  'gen.placeholderUnused': 'Nilai placeholder {name} tidak ditemukan di perintah; placeholder ini tidak dibuat.',
+  'gen.planSaved': 'Plan disimpan dengan ID {id}',
+  'gen.planTitle': '\n📋 Plan {id} ({date}): {prompt}',
+  'gen.previewBlocked': 'Preview dilewati: step {step} menyentuh sesuatu di luar folder kerja ({rules}).',
+  'gen.previewFailed': 'Preview gagal: {message}',
+  'gen.previewing': 'Menjalankan preview di sandbox',
+  'gen.promptEmpty': 'Prompt tidak boleh kosong.',
+  'gen.promptMissing': 'Prompt AI tidak diberikan.',
+  'gen.providerFailed': 'Gagal menghubungi provider AI ({provider}).',
+  'gen.providerHint': 'Pastikan Anda membuat file .env dan menambahkan API key untuk provider yang dipilih.',
+  'gen.refineKept': 'Usulan sebelumnya tetap dipakai.',
+  'gen.refineOwn': 'Tulis permintaan lanjutan sendiri',
+  'gen.refinePrompt': 'Apa yang perlu diubah? (mis. "pakai yarn saja")',
+  'gen.refineWhich': 'Lanjutkan dari alternatif mana?',
+  'gen.refused': 'AI tidak bisa mengubah prompt itu: {response}',
+  'gen.repairFailed': 'AI tidak bisa memberi perbaikan: {message}',
+  'gen.repairing': 'Meminta AI memperbaiki step {step}',
+  'gen.repairRefused': 'AI tidak menemukan perbaikan: {reason}',
+  'gen.repairSteps': '\n🔧 Perbaikan untuk step {step}:',
+  'gen.reprompting': 'Jawaban AI tidak valid, meminta ulang',
+  'gen.rerun': 'Ingin menjalankan ulang salah satu command?',
+  'gen.resumeAction': 'Step {step} gagal sebelumnya. Apa yang ingin dilakukan?',
+  'gen.resumeCancel': 'Batal',
+  'gen.resumeCwd': 'Plan ini dijalankan di {cwd}; perintah dilanjutkan di folder tersebut.',
+  'gen.resumeEdit': 'Edit perintahnya dulu',
+  'gen.resumeEditPrompt': 'Perintah:',
+  'gen.resumeFinished': 'Semua step plan ini sudah selesai.',
+  'gen.resumeNone': 'Tidak ada plan yang belum selesai.',
+  'gen.resumeNotFound': 'Plan "{id}" tidak ditemukan.',
+  'gen.resumeRetry': 'Jalankan ulang',
+  'gen.resumeSession': 'Plan dilanjutkan di session shell baru: cd dan variabel environment dari step sebelumnya tidak dipulihkan.',
+  'gen.resumeSkip': 'Lewati step ini',
+  'gen.riskHigh': 'risiko tinggi',
+  'gen.riskLow': 'risiko rendah',
+  'gen.riskMedium': 'risiko sedang',
+  'gen.spawnFailed': 'Gagal memulai perintah: {message}',
+  'gen.step': '\n▶️  Step {current}/{total}: {command}',
+  'gen.stepFailed': 'Step {step} gagal. Menghentikan eksekusi.',
+  'gen.steps': '\n📋 AI menyarankan {count} langkah:',
+  'gen.stepsBlacklisted': '🛡️  Salah satu perintah diblokir oleh policy:',
+  'gen.stepsDestructive': '\n⚠️  PERINGATAN: Ada command yang berpotensi merusak!',
+  'gen.suggests': 'AI menyarankan untuk menjalankan perintah berikut:',
+  'gen.summarizeFailed': 'Ringkasan tidak tersedia: {message}',
+  'gen.summarizing': 'Meringkas output',
+  'gen.summary': '\n📝 Ringkasan output:',
+  'gen.thinking': '🧠 AI sedang memikirkan perintah untuk: "{prompt}"',
+  'gen.tipDependencies': '   - Periksa apakah dependencies sudah terinstall',
+  'gen.tipHistory': '   - Gunakan --history untuk melihat command sebelumnya',
+  'gen.tipRerun': '   - Coba jalankan ulang command yang gagal',
+  'gen.tipResume': '   - Lanjutkan plan ini nanti dengan: aiCli gen --resume {id}',
+  'gen.tips': '\n💡 Saran:',
+
+  // ============ HISTORY ============
+  'history.edited': '   diedit dari: {command}',
+  'history.empty': '📜 Tidak ada history yang cocok.',
+  'history.exported': '{count} entry diexport ke {file}',
+  'history.invalidDate': 'Tanggal tidak valid: "{input}" (gunakan mis. 2025-01-31 atau 7d)',
+  'history.log': '   log: {file}',
+  'history.migrateFailed': 'Gagal memigrasikan history lama: {file}',
+  'history.pruned': '{count} entry history dihapus sesuai retention.',
+  'history.saveFailed': 'Gagal menyimpan history.',
+  'history.title': '\n📜 History ({count} entry):\n',
+
+  // ============ MACROS ============
+  'macros.empty': 'Belum ada macro. Simpan perintah dengan: aiCli gen --save <nama> "<prompt>"',
+  'macros.invalidName': 'Nama macro tidak valid: "{name}" (gunakan huruf, angka, -, _ atau .)',
+  'macros.invalidValue': 'Format tidak valid: "{entry}" (gunakan nama=nilai)',
+  'macros.notFound': 'Macro "{name}" tidak ditemukan. Lihat daftarnya dengan: aiCli macro list',
+  'macros.origin': '   Dibuat {date} untuk {shell} ({os})\n',
+  'macros.placeholders': '   Placeholder: {names}',
+  'macros.prompt': '   Prompt: {prompt}',
+  'macros.removed': 'Macro "{name}" dihapus.',
+  'macros.saveFailed': 'Gagal menyimpan macro "{name}".',
+  'macros.stepCount': '({count} langkah)',
+  'macros.title': '\n📦 Macro ({count}):\n',
+  'macros.unsupportedFlags': 'Flag {flags} tidak berlaku untuk macro run.',
+
+  // ============ PLAN ============
+  'plan.fieldArray': '{field} harus berupa array',
+  'plan.fieldString': '{field} harus berupa string',
+  'plan.invalidRisk': '{field} harus salah satu dari: {options}',
+  'plan.noSteps': 'steps kosong (tidak ada perintah)',
+  'plan.notJson': 'bukan JSON yang valid ({message})',
+  'plan.notObject': 'JSON harus berupa object',
+  'plan.stepNotObject': '{at} harus berupa object',
+
+  // ============ PLANS ============
+  'plans.saveFailed': 'Gagal menyimpan plan.',
+
+  // ============ POLICY ============
+  'policy.deleteCwd': 'Menghapus seluruh isi folder kerja ({target})',
+  'policy.deleteFiles': 'Menghapus file: {targets}',
+  'policy.deleteOutsideCwd': 'Menghapus di luar folder kerja: {target}',
+  'policy.deleteSystemPath': 'Menghapus root, home, atau folder sistem: {target}',
+  'policy.deleteUnknownPath': 'Menghapus path dari variabel yang tidak bisa diperiksa: {target}',
+  'policy.denyRule': 'Cocok dengan policyDeny "{pattern}"',
+  'policy.diskWrite': 'dd menulis data mentah ke file atau disk',
+  'policy.findDelete': 'find -delete menghapus semua file yang cocok secara rekursif',
+  'policy.forkBomb': 'Fork bomb: membuat proses tanpa henti sampai sistem hang',
+  'policy.formatDisk': '{program} memformat atau mempartisi disk',
+  'policy.gitDiscard': '{command} membuang perubahan yang belum di-commit',
+  'policy.gitForcePush': 'Force push menimpa history di remote',
+  'policy.invalidRule': 'Rule policyDeny tidak valid: "{entry}" — gunakan "severity:pola", mis. "high:terraform destroy*" (severity: {severities})',
+  'policy.permissionsSystemPath': '{program} rekursif mengubah hak akses root, home, atau folder sistem: {target}',
+  'policy.pipeToShell': 'Output {source} langsung dijalankan oleh {shell} tanpa diperiksa',
+  'policy.powerState': '{program} mematikan atau me-restart mesin',
+  'policy.privilege': 'Berjalan dengan hak akses admin lewat {program}',
+  'policy.recursiveDelete': 'Menghapus secara rekursif: {targets}',
+  'policy.recursivePermissions': '{program} mengubah hak akses secara rekursif',
+  'policy.severityCritical': 'kritis',
+  'policy.severityHigh': 'tinggi',
+  'policy.severityLow': 'rendah',
+  'policy.severityMedium': 'sedang',
+  'policy.violation': '   [{severity}] {rule}: {message} — {command}',
+  'policy.worldWritable': 'chmod membuat file bisa ditulis semua user',
+  'policy.writeDevice': 'Menulis langsung ke device {target}',
+  'policy.writeOutsideCwd': 'Menulis file di luar folder kerja: {target}',
+  'policy.writeSystemPath': 'Menulis ke file sistem: {target}',
+
+  // ============ PREVIEW ============
+  'preview.binary': '(file biner atau terlalu besar, diff tidak ditampilkan)',
+  'preview.changes': '📄 Perubahan file ({count}):',
+  'preview.created': 'dibuat',
+  'preview.deleted': 'dihapus',
+  'preview.excluded': '   Tidak disalin ke sandbox: {dirs} (perintah yang bergantung padanya bisa berbeda hasilnya)',
+  'preview.exitFailed': 'gagal (exit {code})',
+  'preview.exitOk': 'berhasil',
+  'preview.linkOutside': 'symlink {link} menunjuk ke luar folder kerja ({target}), sehingga step bisa mengubah file asli',
+  'preview.modified': 'diubah',
+  'preview.moreLines': '... {count} baris lagi',
+  'preview.noChanges': '   Tidak ada file yang berubah.',
+  'preview.notRun': 'tidak dijalankan',
+  'preview.step': '   Step {current}/{total}: {command}',
+  'preview.timedOut': 'dihentikan (melewati batas waktu)',
+  'preview.titleIsolated': '\n🔍 Preview di sandbox (jaringan dimatikan):',
+  'preview.titleProxy': '\n🔍 Preview di sandbox (jaringan hanya dibatasi lewat proxy):',
+  'preview.tooLarge': 'folder kerja lebih dari {limit} MB untuk disalin ke sandbox',
+
+  // ============ PROMPTER ============
+  'prompter.choiceExplain': 'Jelaskan dulu',
+  'prompter.choiceNo': 'Tidak',
+  'prompter.choiceYes': 'Ya, jalankan',
+  'prompter.destructive': 'Aksi ini berpotensi merusak dan tidak dijalankan otomatis. Tambahkan --allow-destructive bersama --yes untuk mengizinkannya.',
+  'prompter.editHint': '(Tab untuk mengisi teks saat ini)',
+  'prompter.needsConfirm': 'Butuh konfirmasi: "{message}". Gunakan --yes atau --no saat berjalan tanpa TTY / dengan --no-input.',
+  'prompter.needsInput': 'Butuh input: "{message}", tetapi prompt interaktif tidak tersedia.',
+
+  // ============ PROVIDER ============
+  'provider.fixtureResponse': 'field "response" wajib berupa string',
+  'provider.invalidFixture': 'Fixture tidak valid: {file} ({message})',
+  'provider.invalidModels': 'Entry models tidak valid: "{entry}" (format: "provider=model", mis. "ollama=llama3.2")',
+  'provider.missingGeminiKey': 'API Key Gemini tidak ditemukan (GEMINI_API_KEY atau `aiCli config set geminiApiKey`).',
+  'provider.missingOpenaiKey': 'API Key OpenAI tidak ditemukan (OPENAI_API_KEY atau `aiCli config set openaiApiKey`).',
+  'provider.noRecording': 'Tidak ada rekaman untuk prompt {key} di {dir}',
+  'provider.recordNeedsLive': 'AI_RECORD_PROVIDER harus berupa provider live (gemini, openai, ollama, llamacpp).',
+  'provider.unknown': 'Provider tidak dikenal: "{name}". Pilihan: {options}',
+
+  // ============ REDACT ============
+  'redact.disabled': 'Redaction dimatikan (AI_REDACT=false); prompt dikirim apa adanya.',
+  'redact.invalidPattern': 'Regex redactPatterns tidak valid: {pattern} ({message})',
+  'redact.none': '🔒 Tidak ada secret yang terdeteksi di prompt.',
+  'redact.summary': '🔒 {count} nilai disamarkan sebelum dikirim ke AI:',
+
+  // ============ RETRY ============
+  'retry.attemptFailed': '⚠️  Attempt {attempt} failed. Retrying in {delay}ms...',
+
+  // ============ REVIEW ============
+  'review.cancelled': '\n⊘ Review dibatalkan (Ctrl+C).',
+  'review.confirm': '💾 Apply improvements ke file sekarang?',
+  'review.done': '✅ Review selesai!',
+  'review.example': 'Contoh: aiCli review src/components/Button.jsx',
+  'review.fileRequired': 'Anda harus memasukkan file path untuk direview.',
+  'review.header': '📋 Review Results:',
+  'review.historyEmpty': '📜 Tidak ada history review.',
+  'review.historyTitle': '\n📜 History Review ({count} terakhir):\n',
+  'review.issues': '{count} issues',
+  'review.moreLines': '\n... (dan {count} baris lagi)',
+  'review.noIssues': 'no issues',
+  'review.notApplied': '\n⚠️  Improvements tidak diterapkan.',
+  'review.preview': '\n✨ Preview Improved Code (first 15 lines):\n',
+  'review.reviewing': '🔍 Reviewing {type} file: {path}',
+  'review.spinner': '🧠 AI sedang menganalisis component/page...',
+  'review.tipDiff': '   - Review perubahan dengan: git diff {path}',
+  'review.tipRemoveBackup': '   - Hapus backup jika OK: rm {backup}',
+  'review.tipRestore': '   - Restore jika perlu: mv {backup} {path}',
+  'review.tips': '💡 Tips:',
+
+  // ============ SESSION ============
+  'session.ended': 'Session shell berhenti ({reason}); step berikutnya tidak dijalankan.',
+  'session.startFailed': 'Gagal memulai session shell: {message}',
+
+  // ============ SHELL INIT ============
+  'shellInit.header': 'Integrasi aiCli: Ctrl+G mengganti baris yang sedang diketik dengan perintah hasil gen. Tambahkan ke {rc}: {command}',
+  'shellInit.unsupported': 'Shell "{shell}" belum didukung shell-init (pilihan: {shells}).',
+
+  // ============ STREAM ============
+  'stream.cancelled': 'Request dibatalkan oleh pengguna.',
+  'stream.receivingCode': 'Menerima kode',
+  'stream.restarted': 'Respons terputus; analisis di bawah diulang dari awal.',
+
+  // ============ USAGE ============
+  'usage.budget': '\nBudget bulan ini: {spent} / {limit} ({action})',
+  'usage.budgetBlocked': '{message} Naikkan AI_MONTHLY_BUDGET atau set AI_BUDGET_ACTION=warn untuk melanjutkan.',
+  'usage.budgetExceeded': 'Budget bulanan {budget} sudah terpakai ({spent}).',
+  'usage.byCommand': 'Per command',
+  'usage.byDay': 'Per hari',
+  'usage.byModel': 'Per model',
+  'usage.byProject': 'Per project',
+  'usage.empty': 'Belum ada request yang tercatat pada rentang ini.',
+  'usage.estimated': '   Sebagian jumlah token diperkirakan (provider tidak melaporkan token).',
+  'usage.invalidPricing': 'Format pricing tidak valid: "{entry}" — gunakan "model=input/output", mis. "gpt-4o=2.5/10"',
+  'usage.saveFailed': 'Gagal menyimpan data pemakaian token.',
+  'usage.title': '\n💰 Pemakaian AI sejak {since}:\n',
+  'usage.total': 'Total',
+  'usage.unknownPrice': 'Harga model {model} belum diketahui, biayanya tidak dihitung (n/a). Tambahkan lewat `aiCli config set pricing \'["{model}=input/output"]\'`.',
+  'usage.unpriced': '   n/a: harga model {models} belum diketahui, biayanya tidak ikut dijumlahkan atau dihitung ke budget.',
+}
+
+export const prompts: PromptTemplates = {
+  explain: ({ os, shell }, commands) => `Anda adalah ahli ${shell} di ${os} yang menjelaskan perintah shell kepada developer SEBELUM perintah dijalankan.
+
+Jelaskan setiap perintah di bawah ini dalam Bahasa Indonesia yang sederhana:
+1. summary: satu kalimat tentang apa yang dilakukan perintah.
+2. parts: pecah perintah menjadi potongan berurutan sesuai cara shell membacanya. kind:
+   - program: program/cmdlet yang dijalankan (termasuk sudo, xargs, dll)
+   - flag: opsi seperti -la, --force, -Recurse (beserta nilainya jika menempel)
+   - argument: argumen biasa (path, pola, nilai, ekspresi)
+   - redirection: >, >>, 2>&1, <, heredoc beserta targetnya
+   - pipe: | yang meneruskan output ke perintah berikutnya
+   - operator: &&, ||, ;, subshell, penanda akhir -exec
+   Setiap potongan diberi description singkat.
+3. sideEffects: efek di luar menampilkan output. kind:
+   - files: file/folder yang dibuat, ditimpa, atau dihapus (sebutkan path-nya)
+   - network: akses jaringan (download, upload, request API, git push)
+   - privilege: eskalasi hak akses (sudo, runas, chmod/chown, setuid)
+   - process: menjalankan atau menghentikan proses/service
+   - system: perubahan konfigurasi sistem, paket global, environment
+   Kosongkan sideEffects jika perintah hanya membaca.
+
+Jawab HANYA dengan object JSON, satu entry per perintah dengan urutan yang sama:
+{"commands": [{"command": "...", "summary": "...", "parts": [{"text": "...", "kind": "program", "description": "..."}], "sideEffects": [{"kind": "files", "description": "..."}]}]}
+
+PERINTAH:
+${commands.map((command, index) => `${index + 1}. ${command}`).join('\n')}
+`,
+
+  fixAutoDetect: ({ errorMessage, fileContent, filePath }) => `Anda adalah "AI Code Fixer" yang ahli dalam debugging dan memperbaiki kode.
+
+**TUGAS ANDA:**
+Perbaiki error yang terdeteksi saat menjalankan file ini.
+
+**FILE:** ${filePath}
+
+**ERROR YANG TERDETEKSI:**
+${errorMessage}
+
+**CURRENT CODE:**
+${fileContent}
+
+**FORMAT JAWABAN:**
+1. Jelaskan apa yang salah (typo, logic error, syntax error, dll)
+2. Sebutkan penyebab spesifik
+3. Berikan FULL FILE CODE yang sudah diperbaiki dalam code block
+
+**PENTING:**
+- Berikan SELURUH isi file yang sudah diperbaiki
+- Perbaiki semua error yang ada (typo, logic error, missing import, dll)
+- Gunakan code block dengan bahasa yang sesuai
+- Pastikan indentasi tetap konsisten
+- JANGAN hanya memberikan snippet, tapi FULL FILE
+- Test logic untuk memastikan benar
+
+Contoh error yang harus diperbaiki:
+- Typo dalam nama variabel/fungsi
+- Logic error (kondisi if salah, loop infinite, dll)
+- Missing import/require
+- Syntax error
+- Type error
+`,
+
+  fixWithFile: ({ errorMessage, fileContent, filePath, line }) => `Anda adalah "AI Code Fixer" yang ahli dalam debugging dan memperbaiki kode.
+
+**TUGAS ANDA:**
+1. Analisis error berikut
+2. Baca kode yang diberikan
+3. Identifikasi masalah
+4. Berikan kode yang sudah diperbaiki (FULL FILE)
+
+**ERROR MESSAGE:**
+${errorMessage}
+
+**FILE:** ${filePath}
+${line ? `**LINE:** ${line}` : ''}
+
+**CURRENT CODE:**
+${fileContent}
+
+**FORMAT JAWABAN:**
+1. Jelaskan error secara singkat (2-3 baris)
+2. Sebutkan penyebab utama
+3. Berikan FULL FILE CODE yang sudah diperbaiki dalam code block (gunakan triple backtick)
+
+**PENTING:**
+- Berikan SELURUH isi file yang sudah diperbaiki
+- Gunakan code block dengan bahasa yang sesuai
+- Pastikan indentasi tetap konsisten
+- JANGAN hanya memberikan snippet, tapi FULL FILE
+- Pertahankan struktur dan style code yang ada
+
+Contoh format: berikan penjelasan singkat, lalu code block lengkap dengan triple backtick.
+`,
+
+  fixWithoutFile: errorMessage => `
+Anda adalah "AI Debugging Assistant" yang ahli.
+Analisis pesan error berikut dan berikan solusi terbaik.
+
+**Format jawaban:**
+1. **Analisis Error:** (jelaskan arti error ini)
+2. **Kemungkinan Penyebab:** (sebutkan 2–3 penyebab utama)
+3. **Rekomendasi Solusi:** (langkah perbaikan atau contoh kode)
+
+**Pesan Error:**
+"${errorMessage}"
+`,
+
+  gen: (context, userPrompt) => [genSystemPrompt(context), `User: ${userPrompt}`, 'Anda:'].join('\n'),
+
+  genFix: (context, { code, commands, index, output, userPrompt }) => `${genSystemPrompt(context)}
+User: ${userPrompt}
+
+Plan untuk permintaan di atas dijalankan berurutan dalam SATU session shell, tapi step ${index + 1} gagal${code === null ? '' : ` (exit code ${code})`}.
+
+PLAN:
+${commands.map((command, i) => `${i + 1}. ${command} ${i < index ? '(selesai)' : i === index ? '(GAGAL)' : '(belum dijalankan)'}`).join('\n')}
+
+OUTPUT STEP ${index + 1} (bagian akhir):
+${output.trim() || '(tidak ada output)'}
+
+Berikan step pengganti untuk step ${index + 1} saja: perintah yang sudah diperbaiki, atau step persiapan (mis. install dependency, buat folder) diikuti perintah yang diperbaiki.
+- Step yang sudah selesai TIDAK perlu diulang; step setelahnya akan dilanjutkan otomatis.
+- Session shell tetap sama: folder kerja dan variabel environment dari step sebelumnya masih berlaku.
+- Jika kegagalan tidak bisa diperbaiki dengan perintah shell (mis. butuh keputusan user), isi "error" dengan penjelasannya.
+Anda:`,
+
+  genRefine: (context, turns, followUp) => [
+    genSystemPrompt(context),
+    ...turns.flatMap(turn => [`User: ${turn.request}`, `Anda (usulan):\n${proposal(turn)}`]),
+    `User: ${followUp}`,
+    'Sesuaikan usulan terakhir dengan permintaan terakhir user; bagian yang tidak disinggung tetap dipertahankan.',
+    'Anda:',
+  ].join('\n'),
+
+  genRepair: problem => `\n\nJawaban Anda sebelumnya tidak valid: ${problem}\nBalas ulang HANYA dengan object JSON sesuai FORMAT OUTPUT di atas.\nAnda:`,
+
+  redactionNotice:
+    '\n\nCATATAN: nilai rahasia di atas diganti placeholder __REDACTED_n__. Tulis ulang placeholder tersebut apa adanya, jangan diganti.',
+
+  review: ({ codeLanguage, fileContent, filePath, fileType, full }) => `Anda adalah "Senior UI/UX & Frontend Expert" yang ahli dalam design, accessibility, dan best practices.
+
+**TUGAS ANDA:**
+Review file berikut dan berikan analisis mendalam tentang masalah UI, UX, logic, dan performance.
+
+**FILE:** ${filePath}
+**TYPE:** ${fileType}
+
+**CODE:**
+${fileContent}
+
+**FOKUS REVIEW:**
+1. **UI/Visual Issues:**
+   - Layout buruk (flexbox/grid issues)
+   - Typography problems
+   - Color contrast (accessibility)
+   - Spacing/padding issues
+   - Responsive design problems
+
+2. **UX Issues:**
+   - User flow yang membingungkan
+   - Missing feedback (loading, error states)
+   - Accessibility (ARIA, keyboard navigation)
+   - Mobile experience
+   - Click/touch target size
+
+3. **Logic Errors:**
+   - State management issues
+   - Event handler bugs
+   - Conditional rendering problems
+   - Props validation
+
+4. **Performance:**
+   - Re-render issues
+   - Missing memoization
+   - Heavy computations
+   - Large bundle size
+
+5. **Best Practices:**
+   - Semantic HTML
+   - Component structure
+   - Code organization
+   - Security (XSS, etc)
+
+**FORMAT OUTPUT (PENTING - IKUTI PERSIS):**
+
+## 🔴 TOP 3 CRITICAL ISSUES (SINGKAT):
+1. [Issue 1] - 1 baris penjelasan
+2. [Issue 2] - 1 baris penjelasan
+3. [Issue 3] - 1 baris penjelasan
+
+## 💡 IMPROVEMENTS APPLIED:
+- [List 3-5 perbaikan utama dalam 1 baris per item]
+
+\`\`\`${codeLanguage}
+[FULL IMPROVED CODE - Tulis seluruh file yang sudah diperbaiki]
+\`\`\`
+
+**ATURAN KETAT:**
+- Analisis MAKSIMAL 10 baris total
+- FOKUS pada code improvements
+- Code block HARUS dimulai dengan triple backtick dan bahasa
+- WAJIB berikan FULL FILE (bukan snippet)
+- Tambahkan komentar singkat di code untuk highlight perubahan
+${full ? '- Berikan detail tambahan jika diminta' : ''}`,
+
+  summarize: ({ os, shell }, { code, command, output }) => `Anda membantu developer membaca output perintah ${shell} di ${os} yang baru saja dijalankan.
+
+PERINTAH: ${command}
+EXIT CODE: ${code ?? '(dihentikan)'}
+
+OUTPUT:
+${output.trim() || '(tidak ada output)'}
+
+Ringkas output di atas dalam Bahasa Indonesia, maksimal 5 baris berawalan "- ":
+- berhasil atau tidak, dan apa yang dihasilkan atau diubah
+- warning dan error penting (deprecated, vulnerability, peer dependency, dll) beserta tindak lanjut yang disarankan
+Abaikan progress bar dan baris yang berulang. Jawab dengan teks biasa, tanpa heading atau code block.
+`,
+}
+
+function genSystemPrompt(context: GenPromptContext): string {
+  return `
+Anda adalah asisten CLI yang ahli dan context-aware.
+
+INFORMASI KONTEKS:
+${contextLines(context)}
+
+TUGAS ANDA:
+1. Ubah permintaan manusia menjadi perintah shell yang dapat dieksekusi
+2. Gunakan tool dari stack project yang terdeteksi dan yang ada di PATH (package JavaScript: ${context.packageManager})
+3. Sesuaikan command dengan OS (${context.os}) dan shell (${context.shell})
+4. Jika task kompleks, pecah menjadi beberapa step
+
+${context.shell === 'powershell' ? `
+PENTING - SINTAKS POWERSHELL:
+- Gunakan New-Item untuk membuat file/folder: New-Item -ItemType Directory -Force -Path "src/components"
+- Untuk menulis file dengan konten multi-line, gunakan ARRAY dengan -join untuk proper line breaks:
+
+  CONTOH BENAR (HTML file):
+  @('<!DOCTYPE html>', '<html lang="en">', '<head>', '  <meta charset="UTF-8">', '  <title>My Page</title>', '</head>', '<body>', '  <h1>Hello</h1>', '</body>', '</html>') -join "\`r\`n" | Out-File -FilePath "index.html" -Encoding utf8
+
+  CONTOH BENAR (JS file):
+  @('const message = "Hello";', 'console.log(message);') -join "\`r\`n" | Out-File -FilePath "app.js" -Encoding utf8
+
+- PENTING: Gunakan array syntax @('line1', 'line2', 'line3') dengan -join "\`r\`n"
+- Setiap line adalah string terpisah dalam array
+- Indentasi menggunakan spasi dalam string: '  <meta>' untuk 2 spaces indent
+- WAJIB gunakan double quotes untuk string yang berisi single quotes
+- Gunakan single quotes untuk string yang berisi double quotes
+- JANGAN gunakan mkdir -p (Unix), gunakan New-Item -ItemType Directory -Force
+- JANGAN gunakan touch (Unix), gunakan New-Item -ItemType File
+- Gunakan semicolon (;) untuk menggabungkan perintah, bukan &&
+` : context.shell === 'cmd' ? `
+PENTING - SINTAKS CMD:
+- Gunakan mkdir untuk folder (otomatis rekursif di Windows)
+- Gunakan echo untuk menulis: echo content > file.txt
+- Gunakan & atau && untuk chain commands
+- JANGAN gunakan Unix commands seperti touch, rm -rf
+` : `
+PENTING - SINTAKS UNIX/BASH:
+- Gunakan mkdir -p untuk folder rekursif
+- Gunakan echo > untuk redirect output
+- Gunakan && untuk chain commands
+- Gunakan touch untuk membuat file kosong
+`}
+
+FORMAT OUTPUT (PENTING!):
+Balas HANYA dengan satu object JSON, tanpa markdown dan tanpa teks lain:
+{
+  "steps": [
+    { "command": "<perintah>", "description": "<apa yang dilakukan>", "risk": "low | medium | high", "cwd": "<folder relatif, opsional>" }
+  ],
+  "suggestions": ["<alternatif1>", "<alternatif2>", "<alternatif3>"]
+}
+
+ATURAN:
+1. Satu perintah = satu step; task kompleks dipecah menjadi beberapa step berurutan
+2. "command" boleh multi-baris (heredoc, array PowerShell) dalam satu string JSON
+3. Gunakan "cwd" untuk menjalankan step di folder lain (mis. project yang baru dibuat), sebaiknya tidak dengan step "cd" terpisah (step tetap berjalan dalam satu session shell, jadi cd dan variabel environment terbawa ke step berikutnya)
+4. "risk": "high" jika menghapus/menimpa data atau butuh hak admin, "medium" jika mengubah file atau install package, "low" jika hanya membaca
+5. Gunakan ${context.packageManager} untuk install package JavaScript; untuk stack lain gunakan tool-nya (mis. poetry/uv/pip, go, cargo). Tool yang TIDAK ada di PATH hanya boleh dipakai setelah step yang menginstalnya
+6. SELALU convert natural language ke shell command (install, create, setup, dll adalah valid)
+7. Framework installation (React, Next.js, Vue, dll) HARUS generate command
+8. Hanya jika benar-benar bukan aksi (misal: "apa itu NextJS?", "jelaskan React") balas {"error": "Bukan perintah shell", "steps": [], "suggestions": []}
+9. SELALU berikan 2-3 suggestions (alternatif permintaan)
+10. PASTIKAN command sesuai dengan shell ${context.shell}
+11. Jika ada script package.json atau target Makefile yang sesuai permintaan, jalankan itu (mis. ${context.packageManager} run test, make build) daripada menulis ulang perintahnya
+
+CONTOH ${context.shell === 'powershell' ? 'POWERSHELL' : 'BASH'}:
+${context.shell === 'powershell' ? `
+User: buat file Button di src/components
+Output:
+{"steps": [{"command": "@('export default function Button() {', '  return <button>Click me</button>', '}') -join \\"\`r\`n\\" | Out-File -FilePath \\"src/components/Button.jsx\\" -Encoding utf8", "description": "Tulis komponen Button", "risk": "medium"}], "suggestions": ["buat dengan TypeScript", "tambahkan props", "buat di folder lain"]}
+
+User: setup project next.js dengan tailwind
+Output:
+{"steps": [{"command": "npx create-next-app@latest my-app --tailwind", "description": "Buat project Next.js dengan Tailwind", "risk": "medium"}, {"command": "${context.packageManager} install", "cwd": "my-app", "description": "Install dependencies project", "risk": "medium"}], "suggestions": ["menggunakan create-next-app template", "manual setup tailwind", "tambahkan shadcn"]}
+` : `
+User: install react dan axios
+Output:
+{"steps": [{"command": "${context.packageManager} install react react-dom axios", "description": "Install React dan axios", "risk": "medium"}], "suggestions": ["install dengan TypeScript", "tambah react-query", "gunakan fetch"]}
+
+User: buat file .env dengan PORT 3000
+Output:
+{"steps": [{"command": "cat > .env <<'EOF'\\nPORT=3000\\nEOF", "description": "Tulis file .env", "risk": "medium"}], "suggestions": ["tambahkan NODE_ENV", "buat .env.example juga"]}
+
+User: setup project next.js dengan tailwind
+Output:
+{"steps": [{"command": "npx create-next-app@latest my-app --tailwind", "description": "Buat project Next.js dengan Tailwind", "risk": "medium"}, {"command": "${context.packageManager} install", "cwd": "my-app", "description": "Install dependencies project", "risk": "medium"}], "suggestions": ["menggunakan template next.js tailwind", "manual setup tailwind"]}
+`}
+            `
+}
+
+/** Usulan giliran sebelumnya, bernomor seperti saat ditampilkan ke user */
+function proposal({ commands }: GenTurn): string {
+  return commands.map((command, i) => `${i + 1}. ${command}`).join('\n')
+}
+
+/** Baris INFORMASI KONTEKS; bagian yang tidak terdeteksi tidak ditulis */
+function contextLines(context: GenPromptContext): string {
+  const lines = [
+    `- OS: ${context.os}`,
+    `- Shell: ${context.shell}`,
+    `- Package Manager: ${context.packageManager}`,
+    `- Ada package.json: ${context.hasPackageJson}`,
+  ]
+
+  if (context.projectType) lines.push(`- Project Type: ${context.projectType}`)
+  if (context.stacks.length > 0) {
+    const stacks = context.stacks.map(({ files, name, tool }) => `${name} (${[...files, ...(tool ? [`tool: ${tool}`] : [])].join(', ')})`)
+    lines.push(`- Stack project: ${stacks.join('; ')}`)
+  }
+
+  if (context.scripts.length > 0) lines.push(`- Script package.json: ${context.scripts.join(', ')}`)
+  if (context.makeTargets.length > 0) lines.push(`- Target Makefile: ${context.makeTargets.join(', ')}`)
+  if (context.git) lines.push(`- Git: branch ${context.git.branch}, ${context.git.changes} file berubah`)
+  if (context.availableTools.length > 0) lines.push(`- Tool di PATH: ${context.availableTools.join(', ')}`)
+  if (context.missingTools.length > 0) lines.push(`- Tool TIDAK ada di PATH: ${context.missingTools.join(', ')}`)
+
+  return lines.join('\n')
+}
@@ -0,0 +1,260 @@
+// src/utills/cache.ts
+
+import { Flags } from '@oclif/core'
+import { createHash } from 'node:crypto'
+import * as fs from 'node:fs'
+// eslint-disable-next-line unicorn/import-style
+import * as path from 'node:path'
+
+import { AppConfig, getConfigDir } from './config.js'
+import { GenerateOptions, GenerateResult, LLMProvider } from './providers.js'
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+interface CacheEntry {
+  createdAt: string
+  key: string
+  model: string
+  provider: string
+  text: string
+}
+
+interface CacheCounters {
+  hits: number
+  misses: number
+}
+
+export interface CacheStats extends CacheCounters {
+  dir: string
+  entries: number
+  expired: number
+  maxSizeMB: number
+  newest: null | string
+  oldest: null | string
+  sizeBytes: number
+  ttlHours: number
+}
+
+type CacheLimits = Pick<AppConfig, 'cacheMaxSizeMB' | 'cacheTtlHours'>
+
+export const cacheFlags = {
+  cache: Flags.boolean({
+    allowNo: true,
+    description: 'Pakai response AI yang tersimpan di cache (default: AI_CACHE); --no-cache memaksa request baru',
+  }),
+}
+
+// Nama file entry: <sha256>.json — file lain di folder cache (mis. stats.json) bukan entry
+const ENTRY_FILE = /^[\da-f]{64}\.json$/
+
+export function getCacheDir(): string {
+  return path.join(getConfigDir(), 'cache')
+}
+
+/**
+ * Key cache: provider, model, opsi generation dan prompt (yang sudah berisi isi file & error)
+ */
+export function cacheKey(provider: Pick<LLMProvider, 'model' | 'name'>, prompt: string, options: GenerateOptions = {}): string {
+  const { maxOutputTokens, responseSchema, temperature, topK, topP } = options
+  return createHash('sha256')
+    .update(JSON.stringify({ maxOutputTokens, model: provider.model, prompt, provider: provider.name, responseSchema, temperature, topK, topP }))
+    .digest('hex')
+}
+
+// ============================================
+// RESPONSE CACHE
+// ============================================
+/**
+ * Cache response di ~/.gen-cli/cache, satu file per key. Entry kedaluwarsa setelah
+ * CACHE_TTL_HOURS; jika total ukuran melebihi CACHE_MAX_SIZE_MB, entry yang paling
+ * lama tidak dipakai dibuang lebih dulu.
+ */
+export class ResponseCache {
+  private dir = getCacheDir()
+
+  constructor(private limits: CacheLimits) {}
+
+  clear(): number {
+    const files = this.entryFiles()
+    for (const file of files) fs.rmSync(file, { force: true })
+    fs.rmSync(this.statsFile(), { force: true })
+    return files.length
+  }
+
+  get(key: string): null | string {
+    const file = this.entryFile(key)
+    const entry = fs.existsSync(file) ? readEntry(file) : null
+
+    if (!entry || this.isExpired(entry)) {
+      if (entry) fs.rmSync(file, { force: true })
+      this.count('misses')
+      return null
+    }
+
+    // mtime = waktu terakhir dipakai, untuk eviction LRU
+    const now = new Date()
+    fs.utimesSync(file, now, now)
+    this.count('hits')
+    return entry.text
+  }
+
+  /**
+   * Buang entry kedaluwarsa; return jumlah entry yang dihapus
+   */
+  prune(): number {
+    let removed = 0
+    for (const file of this.entryFiles()) {
+      const entry = readEntry(file)
+      if (!entry || this.isExpired(entry)) {
+        fs.rmSync(file, { force: true })
+        removed++
+      }
+    }
+
+    return removed
+  }
+
+  set(key: string, entry: Omit<CacheEntry, 'createdAt' | 'key'>): void {
+    fs.mkdirSync(this.dir, { mode: 0o700, recursive: true })
+    fs.writeFileSync(this.entryFile(key), JSON.stringify({ createdAt: new Date().toISOString(), key, ...entry }), { mode: 0o600 })
+    this.evict()
+  }
+
+  stats(): CacheStats {
+    const entries = this.entryFiles().map(file => ({ entry: readEntry(file), size: fs.statSync(file).size }))
+    const created = entries.flatMap(({ entry }) => (entry ? [entry.createdAt] : [])).sort()
+
+    return {
+      ...this.readCounters(),
+      dir: this.dir,
+      entries: entries.length,
+      expired: entries.filter(({ entry }) => !entry || this.isExpired(entry)).length,
+      maxSizeMB: this.limits.cacheMaxSizeMB,
+      newest: created.at(-1) ?? null,
+      oldest: created[0] ?? null,
+      sizeBytes: entries.reduce((total, { size }) => total + size, 0),
+      ttlHours: this.limits.cacheTtlHours,
+    }
+  }
+
+  private count(counter: keyof CacheCounters): void {
+    const counters = this.readCounters()
+    counters[counter]++
+
+    try {
+      fs.mkdirSync(this.dir, { mode: 0o700, recursive: true })
+      fs.writeFileSync(this.statsFile(), JSON.stringify(counters))
+    } catch {
+      // Statistik hanya informasi, jangan menggagalkan request
+    }
+  }
+
+  private entryFile(key: string): string {
+    return path.join(this.dir, `${key}.json`)
+  }
+
+  private entryFiles(): string[] {
+    if (!fs.existsSync(this.dir)) return []
+    return fs
+      .readdirSync(this.dir)
+      .filter(file => ENTRY_FILE.test(file))
+      .map(file => path.join(this.dir, file))
+  }
+
+  private evict(): void {
+    const maxBytes = this.limits.cacheMaxSizeMB * 1024 * 1024
+    const files = this.entryFiles()
+      .map(file => ({ file, stat: fs.statSync(file) }))
+      .sort((a, b) => a.stat.mtimeMs - b.stat.mtimeMs)
+
+    let total = files.reduce((sum, { stat }) => sum + stat.size, 0)
+    for (const { file, stat } of files) {
+      if (total <= maxBytes) break
+      fs.rmSync(file, { force: true })
+      total -= stat.size
+    }
+  }
+
+  private isExpired(entry: CacheEntry): boolean {
+    const { cacheTtlHours } = this.limits
+    return cacheTtlHours > 0 && Date.now() - Date.parse(entry.createdAt) > cacheTtlHours * 60 * 60 * 1000
+  }
+
+  private readCounters(): CacheCounters {
+    try {
+      return { hits: 0, misses: 0, ...(JSON.parse(fs.readFileSync(this.statsFile(), 'utf8')) as Partial<CacheCounters>) }
+    } catch {
+      return { hits: 0, misses: 0 }
+    }
+  }
+
+  private statsFile(): string {
+    return path.join(this.dir, 'stats.json')
+  }
+}
+
+// ============================================
+// PROVIDER DECORATOR
+// ============================================
+/**
+ * Menyajikan response dari cache jika prompt yang sama persis pernah dikirim ke provider/model yang sama
+ */
+export class CachedProvider implements LLMProvider {
+  constructor(
+    private inner: LLMProvider,
+    private cache: ResponseCache,
+  ) {}
+
+  get model(): string {
+    return this.inner.model
+  }
+
+  get name(): string {
+    return this.inner.name
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<GenerateResult> {
+    const key = cacheKey(this.inner, prompt, options)
+    const cached = this.cache.get(key)
+
+    if (cached !== null) {
+      // Tetap lewat onText supaya tampilan streaming sama dengan request live
+      if (options.onText) {
+        for (const line of cached.split(/(?<=\n)/)) options.onText(line)
+      }
+
+      return { cached: true, text: cached }
+    }
+
+    const result = await this.inner.generate(prompt, options)
+    try {
+      this.cache.set(key, { model: this.inner.model, provider: this.inner.name, text: result.text })
+    } catch {
+      // Gagal menulis cache tidak boleh membuang response yang sudah diterima
+    }
+
+    return result
+  }
+}
+
+/**
+ * Pasang cache pada provider sesuai config (AI_CACHE=false atau --no-cache mematikannya).
+ * Provider `record` tidak di-cache karena harus selalu memanggil provider live.
+ */
+export function withCache(provider: LLMProvider, config: Pick<AppConfig, 'cache' | 'cacheMaxSizeMB' | 'cacheTtlHours'>): LLMProvider {
+  if (!config.cache || provider.name === 'record') return provider
+  return new CachedProvider(provider, new ResponseCache(config))
+}
+
+// ============================================
+// HELPERS
+// ============================================
+function readEntry(file: string): CacheEntry | null {
+  try {
+    const entry = JSON.parse(fs.readFileSync(file, 'utf8')) as CacheEntry
+    return typeof entry.text === 'string' ? entry : null
+  } catch {
+    return null
+  }
+}
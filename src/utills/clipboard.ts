@@ -0,0 +1,44 @@
+// src/utills/clipboard.ts
+
+import { spawnSync } from 'node:child_process'
+import * as os from 'node:os'
+
+// ============================================
+// CLIPBOARD
+// ============================================
+/** Program clipboard per platform, dicoba berurutan sampai ada yang berhasil */
+function clipboardCommands(): Array<[string, string[]]> {
+  switch (os.platform()) {
+    case 'darwin': {
+      return [['pbcopy', []]]
+    }
+
+    case 'win32': {
+      return [['clip', []]]
+    }
+
+    default: {
+      return [
+        ...(process.env.WAYLAND_DISPLAY ? [['wl-copy', []] as [string, string[]]] : []),
+        ['xclip', ['-selection', 'clipboard']],
+        ['xsel', ['--clipboard', '--input']],
+      ]
+    }
+  }
+}
+
+/**
+ * Salin teks ke clipboard sistem. Tanpa program clipboard (mis. lewat SSH), teks dikirim
+ * sebagai escape OSC 52 yang didukung banyak terminal. Return false jika keduanya tidak bisa.
+ */
+export function copyToClipboard(text: string): boolean {
+  for (const [command, args] of clipboardCommands()) {
+    const result = spawnSync(command, args, { input: text, stdio: ['pipe', 'ignore', 'ignore'], timeout: 5000 })
+    if (result.status === 0) return true
+  }
+
+  if (!process.stdout.isTTY) return false
+
+  process.stdout.write(`\u001B]52;c;${Buffer.from(text, 'utf8').toString('base64')}\u0007`)
+  return true
+}
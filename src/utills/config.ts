@@ -0,0 +1,572 @@
+// src/utills/config.ts
+
+import { Flags } from '@oclif/core'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+// eslint-disable-next-line unicorn/import-style
+import * as path from 'node:path'
+
+import { LOCALES, t } from './i18n.js'
+import { PROVIDER_NAMES } from './providers.js'
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+export interface AppConfig {
+  autoBackup: boolean
+  budgetAction: string
+  cache: boolean
+  cacheMaxSizeMB: number
+  cacheTtlHours: number
+  geminiApiKey?: string
+  historyMaxEntries: number
+  historyRetentionDays: number
+  language?: string
+  llamacppHost?: string
+  maxFileSizeMB: number
+  model?: string
+  models?: string[]
+  monthlyBudget: number
+  ollamaHost?: string
+  openaiApiKey?: string
+  openaiBaseUrl?: string
+  policyAllow?: string[]
+  policyDeny?: string[]
+  previewTimeout: number
+  pricing?: string[]
+  provider: string
+  redact: boolean
+  redactPatterns?: string[]
+  retryAttempts: number
+  retryBaseDelay: number
+  stream: boolean
+}
+
+export type ConfigKey = keyof AppConfig
+export type ConfigValue = boolean | number | string | string[]
+
+interface FieldSpec {
+  default?: ConfigValue
+  description: string
+  env: string
+  max?: number
+  min?: number
+  options?: readonly string[]
+  /** Disimpan di credentials.json (chmod 600), bukan di config.json */
+  secret?: boolean
+  type: 'boolean' | 'integer' | 'list' | 'number' | 'string'
+}
+
+export interface LoadOptions {
+  flags?: Partial<AppConfig>
+  profile?: string
+}
+
+export interface ResolvedConfig {
+  config: AppConfig
+  profile: string
+  sources: Partial<Record<ConfigKey, string>>
+}
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ConfigError'
+  }
+}
+
+export const DEFAULT_PROFILE = 'default'
+
+/**
+ * Flag bersama untuk memilih profile config (mis. work vs personal)
+ */
+export const configFlags = {
+  profile: Flags.string({
+    description: 'Profile config yang digunakan (default: AICLI_PROFILE atau "default")',
+  }),
+}
+
+// ============================================
+// SCHEMA
+// ============================================
+export const CONFIG_SCHEMA: Record<ConfigKey, FieldSpec> = {
+  autoBackup: {
+    default: true,
+    description: 'Buat file .backup sebelum menimpa file',
+    env: 'AUTO_BACKUP',
+    type: 'boolean',
+  },
+  budgetAction: {
+    default: 'warn',
+    description: 'Aksi saat budget bulanan terlampaui: warn atau block',
+    env: 'AI_BUDGET_ACTION',
+    options: ['warn', 'block'],
+    type: 'string',
+  },
+  cache: {
+    default: true,
+    description: 'Simpan response AI di cache supaya request yang sama tidak dikirim ulang',
+    env: 'AI_CACHE',
+    type: 'boolean',
+  },
+  cacheMaxSizeMB: {
+    default: 50,
+    description: 'Ukuran cache maksimum (MB); entry lama dibuang jika terlampaui',
+    env: 'CACHE_MAX_SIZE_MB',
+    min: 0.001,
+    type: 'number',
+  },
+  cacheTtlHours: {
+    default: 168,
+    description: 'Umur maksimum entry cache dalam jam (0 = tanpa batas)',
+    env: 'CACHE_TTL_HOURS',
+    min: 0,
+    type: 'number',
+  },
+  geminiApiKey: {
+    description: 'API key Google Gemini',
+    env: 'GEMINI_API_KEY',
+    secret: true,
+    type: 'string',
+  },
+  historyMaxEntries: {
+    default: 1000,
+    description: 'Jumlah entry history maksimum yang disimpan',
+    env: 'HISTORY_MAX_ENTRIES',
+    min: 1,
+    type: 'integer',
+  },
+  historyRetentionDays: {
+    default: 0,
+    description: 'Umur maksimum entry history dalam hari (0 = tanpa batas)',
+    env: 'HISTORY_RETENTION_DAYS',
+    min: 0,
+    type: 'integer',
+  },
+  language: {
+    description: 'Bahasa pesan CLI dan jawaban AI (default: dari LANG, selain Indonesia memakai English)',
+    env: 'AI_LANGUAGE',
+    options: LOCALES,
+    type: 'string',
+  },
+  llamacppHost: {
+    description: 'URL server llama.cpp',
+    env: 'LLAMACPP_HOST',
+    type: 'string',
+  },
+  maxFileSizeMB: {
+    default: 1,
+    description: 'Ukuran file maksimum (MB) yang dikirim ke AI',
+    env: 'MAX_FILE_SIZE_MB',
+    min: 0.001,
+    type: 'number',
+  },
+  model: {
+    description: 'Nama model (default mengikuti provider)',
+    env: 'MODEL_NAME',
+    type: 'string',
+  },
+  models: {
+    description: 'Model per provider jika model tidak diset: "provider=model" (array JSON atau satu per baris)',
+    env: 'AI_MODELS',
+    type: 'list',
+  },
+  monthlyBudget: {
+    default: 0,
+    description: 'Budget pemakaian AI per bulan dalam USD (0 = tanpa batas)',
+    env: 'AI_MONTHLY_BUDGET',
+    min: 0,
+    type: 'number',
+  },
+  ollamaHost: {
+    description: 'URL server Ollama',
+    env: 'OLLAMA_HOST',
+    type: 'string',
+  },
+  openaiApiKey: {
+    description: 'API key endpoint OpenAI-compatible',
+    env: 'OPENAI_API_KEY',
+    secret: true,
+    type: 'string',
+  },
+  openaiBaseUrl: {
+    description: 'Base URL endpoint OpenAI-compatible',
+    env: 'OPENAI_BASE_URL',
+    type: 'string',
+  },
+  policyAllow: {
+    description: 'Pola perintah yang dikecualikan dari rule policy non-critical, mis. "rm -rf node_modules" (array JSON atau satu per baris)',
+    env: 'AI_POLICY_ALLOW',
+    type: 'list',
+  },
+  policyDeny: {
+    description: 'Rule policy tambahan "severity:pola", mis. "high:terraform destroy*" (array JSON atau satu per baris)',
+    env: 'AI_POLICY_DENY',
+    type: 'list',
+  },
+  previewTimeout: {
+    default: 60,
+    description: 'Batas waktu (detik) per step saat gen --preview',
+    env: 'AI_PREVIEW_TIMEOUT',
+    min: 1,
+    type: 'integer',
+  },
+  pricing: {
+    description: 'Harga per model, USD per 1 juta token: "model=input/output" (array JSON atau satu per baris)',
+    env: 'AI_PRICING',
+    type: 'list',
+  },
+  provider: {
+    default: 'gemini',
+    description: 'Backend LLM',
+    env: 'AI_PROVIDER',
+    options: PROVIDER_NAMES,
+    type: 'string',
+  },
+  redact: {
+    default: true,
+    description: 'Samarkan API key, token, dan secret sebelum dikirim ke AI',
+    env: 'AI_REDACT',
+    type: 'boolean',
+  },
+  redactPatterns: {
+    description: 'Regex tambahan untuk disamarkan (array JSON atau satu regex per baris)',
+    env: 'AI_REDACT_PATTERNS',
+    type: 'list',
+  },
+  retryAttempts: {
+    default: 3,
+    description: 'Jumlah percobaan request ke AI',
+    env: 'RETRY_ATTEMPTS',
+    max: 10,
+    min: 1,
+    type: 'integer',
+  },
+  retryBaseDelay: {
+    default: 1000,
+    description: 'Delay awal (ms) untuk exponential backoff',
+    env: 'RETRY_BASE_DELAY',
+    min: 0,
+    type: 'integer',
+  },
+  stream: {
+    default: true,
+    description: 'Tampilkan response AI secara live (streaming)',
+    env: 'AI_STREAM',
+    type: 'boolean',
+  },
+}
+
+export const CONFIG_KEYS = Object.keys(CONFIG_SCHEMA) as ConfigKey[]
+
+// ============================================
+// PATHS
+// ============================================
+export function getConfigDir(): string {
+  return path.join(os.homedir(), '.gen-cli')
+}
+
+/**
+ * File config milik profile: `config.json` untuk default, `profiles/<nama>.json` untuk lainnya
+ */
+export function getProfileFile(profile: string): string {
+  return profile === DEFAULT_PROFILE
+    ? path.join(getConfigDir(), 'config.json')
+    : path.join(getConfigDir(), 'profiles', `${profile}.json`)
+}
+
+export function getCredentialsFile(): string {
+  return path.join(getConfigDir(), 'credentials.json')
+}
+
+/**
+ * Cari `.aiclirc` dari cwd naik sampai root
+ */
+export function findProjectConfig(startDir = process.cwd()): null | string {
+  let dir = path.resolve(startDir)
+
+  for (;;) {
+    const candidate = path.join(dir, '.aiclirc')
+    if (fs.existsSync(candidate)) return candidate
+
+    const parent = path.dirname(dir)
+    if (parent === dir) return null
+    dir = parent
+  }
+}
+
+// ============================================
+// LOADER
+// ============================================
+/**
+ * Gabungkan config berlapis:
+ * defaults → ~/.gen-cli/config.json → credentials → .aiclirc → env → profile bernama → flags
+ */
+export function loadConfig(options: LoadOptions = {}): AppConfig {
+  return resolveConfig(options).config
+}
+
+/**
+ * Sama seperti loadConfig, tapi juga mencatat sumber setiap nilai (untuk `config list`)
+ */
+export function resolveConfig({ flags = {}, profile }: LoadOptions = {}): ResolvedConfig {
+  const activeProfile = resolveProfileName(profile)
+  const config = {} as Record<ConfigKey, unknown>
+  const sources: Partial<Record<ConfigKey, string>> = {}
+
+  for (const key of CONFIG_KEYS) {
+    if (CONFIG_SCHEMA[key].default !== undefined) {
+      config[key] = CONFIG_SCHEMA[key].default
+      sources[key] = 'default'
+    }
+  }
+
+  const layers: Array<{ source: string; values: Record<string, unknown> }> = []
+
+  const userFile = getProfileFile(DEFAULT_PROFILE)
+  if (fs.existsSync(userFile)) {
+    layers.push({ source: userFile, values: readJsonObject(userFile) })
+  }
+
+  const credentials = readCredentials()
+  layers.push({ source: `${getCredentialsFile()} [${DEFAULT_PROFILE}]`, values: credentials[DEFAULT_PROFILE] ?? {} })
+
+  // Profile bernama dipilih secara eksplisit, jadi menimpa env dan .aiclirc; hanya flags di atasnya
+  const profileLayers: typeof layers = []
+  if (activeProfile !== DEFAULT_PROFILE) {
+    const profileFile = getProfileFile(activeProfile)
+    if (!fs.existsSync(profileFile) && !credentials[activeProfile]) {
+      throw new ConfigError(t('config.profileNotFound', { profile: activeProfile }))
+    }
+
+    if (fs.existsSync(profileFile)) {
+      profileLayers.push({ source: profileFile, values: readJsonObject(profileFile) })
+    }
+
+    profileLayers.push({ source: `${getCredentialsFile()} [${activeProfile}]`, values: credentials[activeProfile] ?? {} })
+  }
+
+  const projectFile = findProjectConfig()
+  if (projectFile) {
+    const values = readJsonObject(projectFile)
+    const secret = Object.keys(values).find(key => isConfigKey(key) && CONFIG_SCHEMA[key].secret)
+    if (secret) {
+      throw new ConfigError(t('config.secretInProject', { file: projectFile, key: secret }))
+    }
+
+    layers.push({ source: projectFile, values })
+  }
+
+  layers.push({ source: 'env', values: readEnv() }, ...profileLayers, { source: 'flags', values: flags })
+
+  for (const layer of layers) {
+    dropStaleModel(layer.values, config, sources)
+
+    for (const [key, raw] of Object.entries(layer.values)) {
+      if (!isSet(raw)) continue
+
+      if (!isConfigKey(key)) {
+        throw new ConfigError(t('config.unknownKey', { key, keys: CONFIG_KEYS.join(', '), source: layer.source }))
+      }
+
+      config[key] = parseValue(key, raw, layer.source)
+      sources[key] = layer.source
+    }
+  }
+
+  return { config: config as unknown as AppConfig, profile: activeProfile, sources }
+}
+
+/**
+ * Validasi & konversi satu nilai sesuai schema (string dari env juga diterima)
+ */
+export function parseValue(key: ConfigKey, raw: unknown, source: string): ConfigValue {
+  const spec = CONFIG_SCHEMA[key]
+  const fail = (expected: string): never => {
+    throw new ConfigError(t('config.invalidValue', { expected, key, raw: JSON.stringify(raw), source }))
+  }
+
+  switch (spec.type) {
+    case 'boolean': {
+      if (typeof raw === 'boolean') return raw
+      const normalized = String(raw).trim().toLowerCase()
+      if (['1', 'true', 'yes'].includes(normalized)) return true
+      if (['0', 'false', 'no'].includes(normalized)) return false
+      return fail(t('config.expectBoolean'))
+    }
+
+    case 'integer':
+    case 'number': {
+      return parseNumber(spec, raw, fail)
+    }
+
+    case 'list': {
+      return parseList(raw, fail)
+    }
+
+    case 'string': {
+      if (typeof raw !== 'string') return fail(t('config.expectString'))
+      if (spec.options && !spec.options.includes(raw.toLowerCase())) return fail(t('config.expectOneOf', { options: spec.options.join(', ') }))
+      return spec.options ? raw.toLowerCase() : raw
+    }
+  }
+}
+
+// ============================================
+// STORE (dipakai oleh `aiCli config`)
+// ============================================
+export function listProfiles(): string[] {
+  const profiles = new Set<string>([DEFAULT_PROFILE, ...Object.keys(readCredentials())])
+  const profilesDir = path.join(getConfigDir(), 'profiles')
+
+  if (fs.existsSync(profilesDir)) {
+    for (const file of fs.readdirSync(profilesDir)) {
+      if (file.endsWith('.json')) profiles.add(file.slice(0, -'.json'.length))
+    }
+  }
+
+  return [...profiles].sort()
+}
+
+/**
+ * Simpan satu key ke profile; key secret masuk ke credentials.json
+ */
+export function setStoredValue(profile: string, key: ConfigKey, value: ConfigValue): string {
+  return updateStore(profile, key, values => {
+    values[key] = value
+  })
+}
+
+/**
+ * Hapus satu key dari profile; return false jika key memang belum diset
+ */
+export function unsetStoredValue(profile: string, key: ConfigKey): boolean {
+  let existed = false
+  updateStore(profile, key, values => {
+    existed = Object.hasOwn(values, key)
+    delete values[key]
+  })
+
+  return existed
+}
+
+export function isConfigKey(key: string): key is ConfigKey {
+  return Object.hasOwn(CONFIG_SCHEMA, key)
+}
+
+/**
+ * Tampilkan nilai secret tanpa membocorkannya, mis. ****a1b2
+ */
+export function maskSecret(value: string): string {
+  return value.length <= 4 ? '****' : `****${value.slice(-4)}`
+}
+
+/**
+ * Nama profile aktif: flag --profile → AICLI_PROFILE → "default"
+ */
+export function resolveProfileName(profile?: string): string {
+  const name = profile || process.env.AICLI_PROFILE || DEFAULT_PROFILE
+  if (!/^[\w-]+$/.test(name)) {
+    throw new ConfigError(t('config.invalidProfile', { name }))
+  }
+
+  return name
+}
+
+// ============================================
+// HELPERS
+// ============================================
+function parseNumber(spec: FieldSpec, raw: unknown, fail: (expected: string) => never): number {
+  const value = typeof raw === 'number' ? raw : Number(String(raw).trim())
+  const label = t(spec.type === 'integer' ? 'config.expectInteger' : 'config.expectNumber')
+
+  if (typeof raw === 'boolean' || !Number.isFinite(value)) return fail(label)
+  if (spec.type === 'integer' && !Number.isInteger(value)) return fail(label)
+  if (spec.min !== undefined && value < spec.min) return fail(`${label} >= ${spec.min}`)
+  if (spec.max !== undefined && value > spec.max) return fail(`${label} <= ${spec.max}`)
+
+  return value
+}
+
+function parseList(raw: unknown, fail: (expected: string) => never): string[] {
+  let value = raw
+  // Dari env/CLI: array JSON atau satu item per baris
+  if (typeof value === 'string') {
+    try {
+      value = value.trim().startsWith('[') ? JSON.parse(value) : value.split('\n')
+    } catch {
+      return fail(t('config.expectJsonArray'))
+    }
+  }
+
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) return fail(t('config.expectStringArray'))
+  return (value as string[]).map(item => item.trim()).filter(Boolean)
+}
+
+function readJsonObject(file: string): Record<string, unknown> {
+  let data: unknown
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf8'))
+  } catch (error: unknown) {
+    throw new ConfigError(t('config.readFailed', { file, message: (error as Error).message }))
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new ConfigError(t('config.invalidJson', { file }))
+  }
+
+  return data as Record<string, unknown>
+}
+
+function readCredentials(): Record<string, Record<string, unknown>> {
+  const file = getCredentialsFile()
+  return fs.existsSync(file) ? (readJsonObject(file) as Record<string, Record<string, unknown>>) : {}
+}
+
+/** Model dari layer sebelumnya dipilih untuk provider lain: pakai model default provider baru */
+function dropStaleModel(values: Record<string, unknown>, config: Record<ConfigKey, unknown>, sources: Partial<Record<ConfigKey, string>>): void {
+  const { model, provider } = values
+  if (isSet(provider) && !isSet(model) && String(provider).toLowerCase() !== config.provider) {
+    delete config.model
+    delete sources.model
+  }
+}
+
+function isSet(raw: unknown): boolean {
+  return raw !== undefined && raw !== ''
+}
+
+function readEnv(): Record<string, unknown> {
+  const values: Record<string, unknown> = {}
+  for (const key of CONFIG_KEYS) {
+    values[key] = process.env[CONFIG_SCHEMA[key].env]
+  }
+
+  return values
+}
+
+function updateStore(profile: string, key: ConfigKey, mutate: (values: Record<string, unknown>) => void): string {
+  const name = resolveProfileName(profile)
+  fs.mkdirSync(getConfigDir(), { mode: 0o700, recursive: true })
+
+  if (CONFIG_SCHEMA[key].secret) {
+    const file = getCredentialsFile()
+    const credentials = readCredentials()
+    credentials[name] = credentials[name] ?? {}
+    mutate(credentials[name])
+    if (Object.keys(credentials[name]).length === 0) delete credentials[name]
+
+    // Hanya pemilik yang boleh membaca API key
+    fs.writeFileSync(file, JSON.stringify(credentials, null, 2), { mode: 0o600 })
+    fs.chmodSync(file, 0o600)
+    return file
+  }
+
+  const file = getProfileFile(name)
+  const values = fs.existsSync(file) ? readJsonObject(file) : {}
+  mutate(values)
+
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  fs.writeFileSync(file, JSON.stringify(values, null, 2))
+  return file
+}
@@ -0,0 +1,260 @@
+// src/utills/context.ts
+
+import { spawnSync } from 'node:child_process'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+// eslint-disable-next-line unicorn/import-style
+import * as path from 'node:path'
+
+import { GenPromptContext, GitState, ProjectStack } from './i18n.js'
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+export type ContextInfo = GenPromptContext
+
+/** Shell yang dikenali detectShell (dan yang bisa dipilih dengan gen --shell) */
+export const SHELLS = ['bash', 'zsh', 'fish', 'powershell', 'cmd'] as const
+
+/** Script/target yang dimasukkan ke prompt dibatasi supaya prompt tidak membengkak */
+const MAX_LISTED = 20
+
+/** Lock file Python → tool yang dipakai project; urutan = prioritas */
+const PYTHON_TOOLS: Array<[string, string]> = [
+  ['uv.lock', 'uv'],
+  ['poetry.lock', 'poetry'],
+  ['pdm.lock', 'pdm'],
+  ['Pipfile', 'pipenv'],
+  ['requirements.txt', 'pip'],
+]
+
+const COMPOSE_FILES = ['compose.yaml', 'compose.yml', 'docker-compose.yml', 'docker-compose.yaml']
+
+// ============================================
+// CONTEXT DETECTION
+// ============================================
+export const ContextDetector = {
+  detect(cwd: string = process.cwd()): ContextInfo {
+    const context: ContextInfo = {
+      availableTools: [],
+      hasPackageJson: false,
+      makeTargets: [],
+      missingTools: [],
+      os: os.platform(),
+      packageManager: 'npm',
+      scripts: [],
+      shell: this.detectShell(),
+      stacks: [],
+    }
+
+    this.detectNode(cwd, context)
+    context.stacks.push(...this.detectStacks(cwd))
+    context.makeTargets = this.detectMakeTargets(cwd)
+
+    // Hanya binary yang relevan dengan stack project yang dicek, ditambah git
+    const tools = [...new Set(['git', ...context.stacks.flatMap(stack => relevantTools(stack))])]
+    for (const tool of tools) {
+      if (findOnPath(tool)) context.availableTools.push(tool)
+      else context.missingTools.push(tool)
+    }
+
+    if (context.availableTools.includes('git')) context.git = this.detectGit(cwd)
+
+    return context
+  },
+
+  /** Branch dan jumlah perubahan; undefined jika bukan git repo (atau git terlalu lama) */
+  detectGit(cwd: string): GitState | undefined {
+    const result = spawnSync('git', ['status', '--porcelain', '--branch'], { cwd, encoding: 'utf8', timeout: 2000 })
+    if (result.status !== 0 || !result.stdout) return undefined
+
+    const [header, ...changes] = result.stdout.split('\n').filter(Boolean)
+    // "## main...origin/main [ahead 1]", "## No commits yet on main", "## HEAD (no branch)"
+    const branch = header.replace(/^## (No commits yet on )?/, '').split(/\.{3}| /)[0]
+
+    return { branch, changes: changes.length }
+  },
+
+  /** Target Makefile (tanpa target khusus seperti .PHONY dan target pola %) */
+  detectMakeTargets(cwd: string): string[] {
+    const makefile = ['Makefile', 'makefile', 'GNUmakefile'].map(name => path.join(cwd, name)).find(file => fs.existsSync(file))
+    if (!makefile) return []
+
+    try {
+      const targets = fs.readFileSync(makefile, 'utf8')
+        .split('\n')
+        .map(line => /^([\w./-]+)\s*:(?!=)/.exec(line)?.[1])
+        .filter((target): target is string => Boolean(target) && !target!.startsWith('.'))
+
+      return [...new Set(targets)].slice(0, MAX_LISTED)
+    } catch {
+      return []
+    }
+  },
+
+  detectNode(cwd: string, context: ContextInfo): void {
+    // Deteksi package.json
+    const packageJsonPath = path.join(cwd, 'package.json')
+    if (!fs.existsSync(packageJsonPath)) return
+
+    context.hasPackageJson = true
+
+    try {
+      const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8')) as {
+        dependencies?: Record<string, string>
+        scripts?: Record<string, string>
+      }
+
+      // Deteksi project type
+      if (packageJson.dependencies?.next) context.projectType = 'Next.js'
+      else if (packageJson.dependencies?.react) context.projectType = 'React'
+      else if (packageJson.dependencies?.vue) context.projectType = 'Vue'
+      else if (packageJson.dependencies?.express) context.projectType = 'Express'
+
+      context.scripts = Object.keys(packageJson.scripts ?? {}).slice(0, MAX_LISTED)
+    } catch {
+      // Ignore
+    }
+
+    // Deteksi package manager dari lock files
+    const lockFiles: Array<[string, string]> = [['pnpm-lock.yaml', 'pnpm'], ['yarn.lock', 'yarn'], ['bun.lockb', 'bun'], ['package-lock.json', 'npm']]
+    const lock = lockFiles.find(([file]) => fs.existsSync(path.join(cwd, file)))
+    if (lock) context.packageManager = lock[1]
+
+    context.stacks.push({ files: lock ? ['package.json', lock[0]] : ['package.json'], name: 'Node.js', tool: context.packageManager })
+  },
+
+  detectShell(): string {
+    // Deteksi shell berdasarkan OS dan environment variables
+    const platform = os.platform()
+
+    if (platform === 'win32') {
+      // Windows: deteksi dari berbagai env vars dan parent process
+      const shellEnv = process.env.SHELL || ''
+      const comspec = process.env.COMSPEC || ''
+
+      // Cek env vars dulu
+      if (shellEnv.toLowerCase().includes('powershell') ||
+        shellEnv.toLowerCase().includes('pwsh') ||
+        process.env.PSModulePath) {
+        return 'powershell'
+      }
+
+      if (comspec.toLowerCase().includes('cmd')) {
+        return 'cmd'
+      }
+
+      // Deteksi dari parent process name jika ada
+      try {
+        const { ppid } = process
+        if (ppid && comspec && comspec.toLowerCase().includes('cmd.exe')) {
+          // Untuk Windows, kita asumsikan cmd jika COMSPEC menunjuk ke cmd.exe
+          return 'cmd'
+        }
+      } catch {
+        // Ignore
+      }
+
+      // Default Windows ke PowerShell (lebih modern dan umum di Windows 10+)
+      return 'powershell'
+    }
+
+    // Unix-like systems
+    const shell = process.env.SHELL || '/bin/bash'
+
+    if (shell.includes('bash')) return 'bash'
+    if (shell.includes('zsh')) return 'zsh'
+    if (shell.includes('fish')) return 'fish'
+
+    return 'bash' // default
+  },
+
+  /** Stack non-Node dari file penanda di folder kerja */
+  detectStacks(cwd: string): ProjectStack[] {
+    const has = (file: string) => fs.existsSync(path.join(cwd, file))
+    const stacks: ProjectStack[] = []
+
+    const pythonFiles = ['pyproject.toml', 'setup.py', ...PYTHON_TOOLS.map(([file]) => file)].filter(file => has(file))
+    if (pythonFiles.length > 0) {
+      stacks.push({ files: pythonFiles, name: 'Python', tool: this.pythonTool(cwd, pythonFiles) })
+    }
+
+    if (has('go.mod')) stacks.push({ files: ['go.mod'], name: 'Go', tool: 'go' })
+    if (has('Cargo.toml')) stacks.push({ files: ['Cargo.toml'], name: 'Rust', tool: 'cargo' })
+    if (has('Dockerfile')) stacks.push({ files: ['Dockerfile'], name: 'Docker', tool: 'docker' })
+
+    const composeFile = COMPOSE_FILES.find(file => has(file))
+    if (composeFile) stacks.push({ files: [composeFile], name: 'Docker Compose', tool: 'docker compose' })
+
+    if (['Makefile', 'makefile', 'GNUmakefile'].some(file => has(file))) stacks.push({ files: ['Makefile'], name: 'Make', tool: 'make' })
+
+    return stacks
+  },
+
+  /** Tool Python dari lock file; pyproject tanpa lock file dicek isinya ([tool.poetry] dll) */
+  pythonTool(cwd: string, files: string[]): string {
+    const locked = PYTHON_TOOLS.find(([file]) => files.includes(file))
+    if (locked) return locked[1]
+
+    if (files.includes('pyproject.toml')) {
+      try {
+        const pyproject = fs.readFileSync(path.join(cwd, 'pyproject.toml'), 'utf8')
+        if (pyproject.includes('[tool.poetry]')) return 'poetry'
+        if (pyproject.includes('[tool.pdm]')) return 'pdm'
+        if (pyproject.includes('[tool.uv]')) return 'uv'
+      } catch {
+        // Ignore
+      }
+    }
+
+    return 'pip'
+  },
+}
+
+// ============================================
+// TOOLCHAIN
+// ============================================
+/** Binary yang mungkin dipakai model untuk stack ini */
+function relevantTools({ name, tool }: ProjectStack): string[] {
+  switch (name) {
+    case 'Docker': {
+      return ['docker', 'podman']
+    }
+
+    case 'Docker Compose': {
+      return ['docker', 'docker-compose', 'podman']
+    }
+
+    case 'Node.js': {
+      return ['node', tool ?? 'npm', 'npx']
+    }
+
+    case 'Python': {
+      return ['python3', 'python', tool === 'pip' ? 'pip3' : tool ?? 'pip']
+    }
+
+    case 'Rust': {
+      return ['cargo', 'rustc']
+    }
+
+    default: {
+      return tool ? [tool] : []
+    }
+  }
+}
+
+/** Cari executable di PATH tanpa menjalankan apa pun (Windows: lewat PATHEXT) */
+function findOnPath(name: string, env: NodeJS.ProcessEnv = process.env): boolean {
+  const dirs = (env.PATH ?? env.Path ?? '').split(path.delimiter).filter(Boolean)
+  const extensions = os.platform() === 'win32' ? ['', ...(env.PATHEXT ?? '.EXE;.CMD;.BAT').split(';')] : ['']
+
+  return dirs.some(dir => extensions.some(extension => {
+    try {
+      const stat = fs.statSync(path.join(dir, name + extension))
+      // eslint-disable-next-line no-bitwise
+      return stat.isFile() && (os.platform() === 'win32' || (stat.mode & 0o111) !== 0)
+    } catch {
+      return false
+    }
+  }))
+}
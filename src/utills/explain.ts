@@ -0,0 +1,175 @@
+// src/utills/explain.ts
+
+import chalk from 'chalk'
+
+import { MessageKey, t } from './i18n.js'
+import { extractJson, isRecord, PlanError } from './plan.js'
+import { JsonSchema } from './providers.js'
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+export const PART_KINDS = ['program', 'flag', 'argument', 'redirection', 'pipe', 'operator'] as const
+export type PartKind = (typeof PART_KINDS)[number]
+
+export const EFFECT_KINDS = ['files', 'network', 'privilege', 'process', 'system'] as const
+export type EffectKind = (typeof EFFECT_KINDS)[number]
+
+/** Satu potongan perintah (program, flag, argumen, redirection, pipe) */
+export interface CommandPart {
+  description: string
+  kind: PartKind
+  text: string
+}
+
+export interface SideEffect {
+  description: string
+  kind: EffectKind
+}
+
+/** Penjelasan satu perintah dari jawaban model */
+export interface CommandExplanation {
+  command: string
+  parts: CommandPart[]
+  sideEffects: SideEffect[]
+  summary: string
+}
+
+export const EXPLAIN_RESPONSE_SCHEMA: JsonSchema = {
+  properties: {
+    commands: {
+      items: {
+        properties: {
+          command: { description: 'Perintah yang dijelaskan, persis seperti diberikan', type: 'string' },
+          parts: {
+            items: {
+              properties: {
+                description: { type: 'string' },
+                kind: { enum: [...PART_KINDS], type: 'string' },
+                text: { description: 'Potongan perintah apa adanya', type: 'string' },
+              },
+              required: ['text', 'kind', 'description'],
+              type: 'object',
+            },
+            type: 'array',
+          },
+          sideEffects: {
+            description: 'Kosong jika perintah hanya membaca',
+            items: {
+              properties: {
+                description: { type: 'string' },
+                kind: { enum: [...EFFECT_KINDS], type: 'string' },
+              },
+              required: ['kind', 'description'],
+              type: 'object',
+            },
+            type: 'array',
+          },
+          summary: { description: 'Satu kalimat tentang apa yang dilakukan perintah', type: 'string' },
+        },
+        required: ['command', 'summary', 'parts', 'sideEffects'],
+        type: 'object',
+      },
+      type: 'array',
+    },
+  },
+  required: ['commands'],
+  type: 'object',
+}
+
+// ============================================
+// PARSE & VALIDATE
+// ============================================
+/**
+ * Parse jawaban explain. Potongan dengan kind tidak dikenal tetap ditampilkan sebagai
+ * argument; yang ditolak hanya struktur yang tidak bisa dibaca sama sekali.
+ */
+export function parseExplanation(response: string, commands: string[]): CommandExplanation[] {
+  let data: unknown
+  try {
+    data = JSON.parse(extractJson(response))
+  } catch (error: unknown) {
+    throw new PlanError(t('plan.notJson', { message: (error as Error).message }))
+  }
+
+  if (!isRecord(data)) throw new PlanError(t('plan.notObject'))
+  if (!Array.isArray(data.commands)) throw new PlanError(t('plan.fieldArray', { field: 'commands' }))
+
+  const explained = data.commands.filter(item => isRecord(item))
+
+  // Urutan mengikuti perintah asli; jawaban model dicocokkan per index
+  return commands.map((command, index) => {
+    const item = explained[index] ?? {}
+
+    return {
+      command,
+      parts: records(item.parts).map(part => ({
+        description: str(part.description),
+        kind: PART_KINDS.includes(part.kind as PartKind) ? (part.kind as PartKind) : 'argument',
+        text: str(part.text),
+      })).filter(part => part.text),
+      sideEffects: records(item.sideEffects).map(effect => ({
+        description: str(effect.description),
+        kind: EFFECT_KINDS.includes(effect.kind as EffectKind) ? (effect.kind as EffectKind) : 'system',
+      })).filter(effect => effect.description),
+      summary: str(item.summary),
+    }
+  })
+}
+
+// ============================================
+// DISPLAY
+// ============================================
+const PART_LABELS: Record<PartKind, MessageKey> = {
+  argument: 'explain.partArgument',
+  flag: 'explain.partFlag',
+  operator: 'explain.partOperator',
+  pipe: 'explain.partPipe',
+  program: 'explain.partProgram',
+  redirection: 'explain.partRedirection',
+}
+
+const EFFECT_LABELS: Record<EffectKind, MessageKey> = {
+  files: 'explain.effectFiles',
+  network: 'explain.effectNetwork',
+  privilege: 'explain.effectPrivilege',
+  process: 'explain.effectProcess',
+  system: 'explain.effectSystem',
+}
+
+/** Render penjelasan sebagai baris-baris teks untuk terminal */
+export function formatExplanation({ command, parts, sideEffects, summary }: CommandExplanation): string[] {
+  const lines = [chalk.cyan(t('explain.title', { command }))]
+  if (summary) lines.push(`   ${summary}`)
+
+  // Kolom potongan dibatasi supaya path panjang tidak mendorong deskripsi terlalu jauh
+  const width = Math.min(Math.max(0, ...parts.map(part => part.text.length)), 24)
+  const labelWidth = Math.max(...PART_KINDS.map(kind => t(PART_LABELS[kind]).length))
+  for (const part of parts) {
+    const label = chalk.gray(t(PART_LABELS[part.kind]).padEnd(labelWidth))
+    lines.push(`   ${chalk.white(part.text.padEnd(width))}  ${label}  ${part.description}`)
+  }
+
+  if (sideEffects.length === 0) {
+    lines.push(chalk.green(t('explain.noSideEffects')))
+  } else {
+    lines.push(chalk.yellow(t('explain.sideEffects')))
+    for (const effect of sideEffects) {
+      const color = effect.kind === 'privilege' || effect.kind === 'system' ? chalk.red : chalk.yellow
+      lines.push(`     ${color(t(EFFECT_LABELS[effect.kind]))} ${effect.description}`)
+    }
+  }
+
+  return lines
+}
+
+// ============================================
+// HELPERS
+// ============================================
+function records(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter(item => isRecord(item)) : []
+}
+
+function str(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : ''
+}
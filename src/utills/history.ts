@@ -0,0 +1,349 @@
+// src/utills/history.ts
+
+import { Flags } from '@oclif/core'
+import chalk from 'chalk'
+import { randomUUID } from 'node:crypto'
+import * as fs from 'node:fs'
+// eslint-disable-next-line unicorn/import-style
+import * as path from 'node:path'
+
+import { AppConfig, getConfigDir } from './config.js'
+import { t } from './i18n.js'
+import logger from './loggers.js'
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+export const HISTORY_COMMANDS = ['gen', 'fix', 'review'] as const
+export const HISTORY_STATUSES = ['success', 'failed', 'cancelled'] as const
+
+export type HistoryCommand = (typeof HISTORY_COMMANDS)[number]
+export type HistoryStatus = (typeof HISTORY_STATUSES)[number]
+
+export interface HistoryEntry {
+  /** Versi asli dari AI jika user mengedit perintahnya sebelum dijalankan (gen) */
+  aiCommand?: string
+  command: HistoryCommand
+  /** Lama perintah berjalan (gen) */
+  durationMs?: number
+  /** Pesan error yang dianalisis (fix) */
+  errorMessage?: string
+  /** Exit code perintah; tidak ada jika gagal dijalankan atau dihentikan sinyal (gen) */
+  exitCode?: number
+  filePath?: string
+  fileType?: string
+  fixType?: 'auto' | 'manual'
+  id: string
+  issuesFound?: number
+  /** File log run berisi output lengkap perintah (gen) */
+  logFile?: string
+  /** Plan multi-step tempat perintah ini dijalankan (gen --resume) */
+  planId?: string
+  /** Permintaan natural language (gen) */
+  prompt?: string
+  /** Perintah shell yang dihasilkan AI (gen) */
+  shellCommand?: string
+  status: HistoryStatus
+  timestamp: string
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'timestamp'>
+
+export interface HistoryFilter {
+  command?: HistoryCommand
+  limit?: number
+  path?: string
+  /** Full-text (case-insensitive) atas prompt, error, perintah shell dan path */
+  search?: string
+  since?: Date
+  status?: HistoryStatus
+  until?: Date
+}
+
+type RetentionOptions = Pick<AppConfig, 'historyMaxEntries' | 'historyRetentionDays'>
+
+// File lama (sebelum history.jsonl) — dimigrasikan sekali lalu di-rename ke *.migrated
+const LEGACY_FILES: Record<HistoryCommand, string> = {
+  fix: 'fix-history.json',
+  gen: 'history.json',
+  review: 'review-history.json',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Tanggal tanpa jam; new Date() membacanya sebagai tengah malam UTC
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+
+const CSV_COLUMNS = [
+  'id',
+  'timestamp',
+  'command',
+  'status',
+  'filePath',
+  'prompt',
+  'shellCommand',
+  'errorMessage',
+  'fixType',
+  'fileType',
+  'issuesFound',
+  'planId',
+  'aiCommand',
+  'exitCode',
+  'durationMs',
+  'logFile',
+] as const
+
+/**
+ * Flag tanggal untuk --since (history, usage): ISO (2025-01-31) atau relatif (30m, 12h, 7d)
+ */
+export const dateFlag = Flags.custom<Date>({
+  async parse(input) {
+    return parseDate(input)
+  },
+})
+
+/**
+ * Flag tanggal untuk --until: sama seperti dateFlag, tetapi tanggal tanpa jam (2025-01-31)
+ * berarti akhir hari itu, sehingga entry pada tanggal tersebut ikut tercakup
+ */
+export const untilFlag = Flags.custom<Date>({
+  async parse(input) {
+    const date = parseDate(input)
+    return DATE_ONLY.test(input) ? new Date(date.getTime() + DAY_MS - 1) : date
+  },
+})
+
+export function getHistoryFile(): string {
+  return path.join(getConfigDir(), 'history.jsonl')
+}
+
+// ============================================
+// HISTORY STORE
+// ============================================
+/**
+ * History bersama untuk gen/fix/review dalam satu file JSON Lines.
+ * Save hanya menambah satu baris; file ditulis ulang saat compaction/prune.
+ */
+export class HistoryStore {
+  private file = getHistoryFile()
+  /** Jumlah baris file, dihitung sekali lalu diikuti setiap append/write */
+  private lineCount: number | undefined
+  private migrated = false
+
+  constructor(private retention: RetentionOptions) {}
+
+  append(entry: NewHistoryEntry): HistoryEntry {
+    const saved: HistoryEntry = { ...entry, id: randomUUID().slice(0, 8), timestamp: new Date().toISOString() }
+
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true })
+      this.migrateLegacy()
+      fs.appendFileSync(this.file, JSON.stringify(saved) + '\n')
+      this.lineCount = this.lineCount === undefined ? this.countLines() : this.lineCount + 1
+      this.compactIfNeeded()
+    } catch {
+      logger.warn(t('history.saveFailed'))
+    }
+
+    return saved
+  }
+
+  /**
+   * Entry terbaru lebih dulu, setelah retention dan filter diterapkan
+   */
+  list(filter: HistoryFilter = {}): HistoryEntry[] {
+    const entries = this.applyRetention(this.readAll())
+      .reverse()
+      .filter(entry => matchesFilter(entry, filter))
+
+    return filter.limit ? entries.slice(0, filter.limit) : entries
+  }
+
+  /**
+   * Tulis ulang file hanya dengan entry yang lolos retention. Mengembalikan jumlah entry yang dibuang.
+   */
+  prune(): number {
+    const entries = this.readAll()
+    const kept = this.applyRetention(entries)
+    this.write(kept)
+    return entries.length - kept.length
+  }
+
+  private applyRetention(entries: HistoryEntry[]): HistoryEntry[] {
+    const { historyMaxEntries, historyRetentionDays } = this.retention
+    const cutoff = historyRetentionDays > 0 ? Date.now() - historyRetentionDays * DAY_MS : 0
+
+    return entries.filter(entry => Date.parse(entry.timestamp) >= cutoff).slice(-historyMaxEntries)
+  }
+
+  private compactIfNeeded(): void {
+    // Beri ruang 50% di atas batas supaya compaction tidak terjadi di setiap save
+    if (this.lineCount! > this.retention.historyMaxEntries * 1.5) {
+      this.prune()
+    }
+  }
+
+  /** Hitung baris tanpa parse JSON; baris rusak ikut terhitung dan dibuang saat compaction */
+  private countLines(): number {
+    let count = 0
+    for (const byte of fs.readFileSync(this.file)) {
+      if (byte === 0x0A) count++
+    }
+
+    return count
+  }
+
+  private migrateLegacy(): void {
+    if (this.migrated) return
+    this.migrated = true
+
+    const legacy: HistoryEntry[] = []
+    for (const command of HISTORY_COMMANDS) {
+      const file = path.join(getConfigDir(), LEGACY_FILES[command])
+      if (!fs.existsSync(file)) continue
+
+      try {
+        const items = JSON.parse(fs.readFileSync(file, 'utf8')) as Record<string, unknown>[]
+        legacy.push(...items.map(item => fromLegacy(command, item)))
+        fs.renameSync(file, `${file}.migrated`)
+      } catch {
+        logger.warn(t('history.migrateFailed', { file }))
+      }
+    }
+
+    if (legacy.length === 0) return
+
+    legacy.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp))
+    const existing = fs.existsSync(this.file) ? fs.readFileSync(this.file, 'utf8') : ''
+    fs.writeFileSync(this.file, legacy.map(entry => JSON.stringify(entry) + '\n').join('') + existing)
+  }
+
+  private readAll(): HistoryEntry[] {
+    this.migrateLegacy()
+    if (!fs.existsSync(this.file)) return []
+
+    const entries: HistoryEntry[] = []
+    for (const line of fs.readFileSync(this.file, 'utf8').split('\n')) {
+      if (!line.trim()) continue
+
+      // Baris rusak (mis. proses terhenti saat menulis) dilewati, bukan menggagalkan semua history
+      try {
+        entries.push(JSON.parse(line) as HistoryEntry)
+      } catch {
+        continue
+      }
+    }
+
+    return entries
+  }
+
+  private write(entries: HistoryEntry[]): void {
+    fs.writeFileSync(this.file, entries.map(entry => JSON.stringify(entry) + '\n').join(''))
+    this.lineCount = entries.length
+  }
+}
+
+// ============================================
+// EXPORT
+// ============================================
+export function toCsv(entries: HistoryEntry[]): string {
+  const rows = entries.map(entry => CSV_COLUMNS.map(column => csvField(entry[column])).join(','))
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n'
+}
+
+// ============================================
+// DISPLAY
+// ============================================
+export function statusIcon(status: HistoryStatus): string {
+  switch (status) {
+    case 'cancelled': {
+      return chalk.yellow('⊘')
+    }
+
+    case 'failed': {
+      return chalk.red('✗')
+    }
+
+    case 'success': {
+      return chalk.green('✓')
+    }
+  }
+}
+
+/** 850ms, 12.3s, 2m 05s */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`
+
+  const seconds = Math.round(ms / 1000)
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`
+}
+
+// ============================================
+// HELPERS
+// ============================================
+function csvField(value: unknown): string {
+  const text = value === undefined ? '' : String(value)
+  return /[\n\r",]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text
+}
+
+function parseDate(input: string): Date {
+  const relative = input.match(/^(\d+)([dhm])$/)
+  if (relative) {
+    const unitMs = { d: DAY_MS, h: 60 * 60 * 1000, m: 60 * 1000 }[relative[2] as 'd' | 'h' | 'm']
+    return new Date(Date.now() - Number(relative[1]) * unitMs)
+  }
+
+  const date = new Date(input)
+  if (Number.isNaN(date.getTime())) {
+    throw new TypeError(t('history.invalidDate', { input }))
+  }
+
+  return date
+}
+
+function matchesFilter(entry: HistoryEntry, filter: HistoryFilter): boolean {
+  const time = Date.parse(entry.timestamp)
+
+  if (filter.command && entry.command !== filter.command) return false
+  if (filter.status && entry.status !== filter.status) return false
+  if (filter.since && time < filter.since.getTime()) return false
+  if (filter.until && time > filter.until.getTime()) return false
+  if (filter.path && !entry.filePath?.includes(filter.path)) return false
+
+  if (filter.search) {
+    const haystack = [entry.prompt, entry.errorMessage, entry.shellCommand, entry.aiCommand, entry.filePath].join('\n').toLowerCase()
+    if (!haystack.includes(filter.search.toLowerCase())) return false
+  }
+
+  return true
+}
+
+function fromLegacy(command: HistoryCommand, item: Record<string, unknown>): HistoryEntry {
+  const status: HistoryStatus = item.cancelled ? 'cancelled' : item.success ? 'success' : 'failed'
+  const base = { command, id: randomUUID().slice(0, 8), status, timestamp: String(item.timestamp) }
+
+  switch (command) {
+    case 'fix': {
+      return {
+        ...base,
+        errorMessage: item.errorMessage as string,
+        filePath: item.filePath as string,
+        fixType: item.fixType as 'auto' | 'manual',
+      }
+    }
+
+    case 'gen': {
+      return { ...base, prompt: item.prompt as string, shellCommand: item.command as string }
+    }
+
+    case 'review': {
+      return {
+        ...base,
+        filePath: item.filePath as string,
+        fileType: item.fileType as string,
+        issuesFound: item.issuesFound as number,
+      }
+    }
+  }
+}
@@ -0,0 +1,170 @@
+// src/utills/i18n.ts
+
+import * as en from '../locales/en.js'
+import * as id from '../locales/id.js'
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+export const LOCALES = ['en', 'id'] as const
+export type Locale = (typeof LOCALES)[number]
+
+/** Katalog Bahasa Indonesia adalah sumber key; locale lain wajib punya key yang sama */
+export type MessageKey = keyof typeof id.messages
+export type Messages = Record<MessageKey, string>
+export type MessageParams = Record<string, number | string>
+
+/** Status git di folder kerja */
+export interface GitState {
+  branch: string
+  /** Jumlah file yang berubah/belum di-track */
+  changes: number
+}
+
+/** Ekosistem project yang dikenali dari file di folder kerja (Python, Go, Docker, ...) */
+export interface ProjectStack {
+  /** File penanda yang ditemukan, mis. pyproject.toml, poetry.lock */
+  files: string[]
+  name: string
+  /** Tool utama stack ini, mis. poetry, uv, pnpm */
+  tool?: string
+}
+
+/** Konteks shell yang dimasukkan ke prompt gen */
+export interface GenPromptContext {
+  /** Binary relevan yang ada di PATH */
+  availableTools: string[]
+  git?: GitState
+  hasPackageJson: boolean
+  makeTargets: string[]
+  /** Binary relevan yang TIDAK ada di PATH, supaya model tidak memakainya */
+  missingTools: string[]
+  os: string
+  packageManager: string
+  projectType?: string
+  /** Nama script di package.json */
+  scripts: string[]
+  shell: string
+  stacks: ProjectStack[]
+}
+
+/** Step plan multi-step yang gagal, untuk prompt perbaikan */
+export interface GenFailure {
+  code: null | number
+  commands: string[]
+  /** Index step yang gagal di commands */
+  index: number
+  /** Bagian akhir stdout + stderr step yang gagal */
+  output: string
+  userPrompt: string
+}
+
+/** Perintah yang sudah dijalankan beserta output-nya, untuk gen --summarize */
+export interface CommandOutput {
+  code: null | number
+  command: string
+  /** Output step; output panjang sudah dipotong di tengah */
+  output: string
+}
+
+/** Satu giliran percakapan gen: permintaan user dan perintah yang diusulkan model */
+export interface GenTurn {
+  commands: string[]
+  request: string
+}
+
+/**
+ * Prompt ke model per locale. Penanda yang di-parse CLI (COMMAND:, STEP1:, ```
+ * "## 🔴 TOP 3 CRITICAL ISSUES", dll) harus sama di semua locale.
+ */
+export interface PromptTemplates {
+  /** Minta penjelasan per potongan perintah (gen --explain) */
+  explain(context: GenPromptContext, commands: string[]): string
+  fixAutoDetect(input: { errorMessage: string; fileContent: string; filePath: string }): string
+  fixWithFile(input: { errorMessage: string; fileContent: string; filePath: string; line?: number }): string
+  fixWithoutFile(errorMessage: string): string
+  gen(context: GenPromptContext, userPrompt: string): string
+  /** Minta step pengganti untuk step plan yang gagal, berdasarkan output-nya */
+  genFix(context: GenPromptContext, failure: GenFailure): string
+  /** Permintaan lanjutan ("pakai yarn saja") atas usulan sebelumnya dalam percakapan */
+  genRefine(context: GenPromptContext, turns: GenTurn[], followUp: string): string
+  /** Ditambahkan ke prompt gen saat re-prompt karena jawaban sebelumnya tidak valid */
+  genRepair(problem: string): string
+  redactionNotice: string
+  review(input: { codeLanguage: string; fileContent: string; filePath: string; fileType: string; full: boolean }): string
+  /** Ringkasan singkat output perintah yang panjang (gen --summarize) */
+  summarize(context: GenPromptContext, run: CommandOutput): string
+}
+
+interface Catalog {
+  dateLocale: string
+  messages: Messages
+  prompts: PromptTemplates
+}
+
+const CATALOGS: Record<Locale, Catalog> = { en, id }
+
+// Diset command dari config `language` setelah config dimuat; sebelum itu dideteksi dari environment
+let current: Locale | undefined
+
+// ============================================
+// LOCALE
+// ============================================
+/**
+ * AI_LANGUAGE → LC_ALL/LC_MESSAGES/LANG → "id". Locale sistem selain Indonesia memakai English.
+ */
+export function detectLocale(env: NodeJS.ProcessEnv = process.env): Locale {
+  const explicit = env.AI_LANGUAGE?.trim().toLowerCase()
+  if (isLocale(explicit)) return explicit
+
+  const system = (env.LC_ALL || env.LC_MESSAGES || env.LANG || '').toLowerCase()
+  // C/POSIX tidak menyebut bahasa apa pun
+  if (!system || system === 'posix' || system === 'c' || system.startsWith('c.')) return 'id'
+
+  return system.startsWith('id') || system.startsWith('in_') ? 'id' : 'en'
+}
+
+/**
+ * Pakai locale dari config `language`; tanpa nilai kembali ke deteksi environment
+ */
+export function setLocale(locale?: string): void {
+  current = isLocale(locale) ? locale : undefined
+}
+
+export function getLocale(): Locale {
+  return current ?? detectLocale()
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return (LOCALES as readonly unknown[]).includes(value)
+}
+
+// ============================================
+// TRANSLATE
+// ============================================
+/**
+ * Pesan untuk locale aktif; `{nama}` diganti dengan params.nama
+ */
+export function t(key: MessageKey, params?: MessageParams): string {
+  const template = CATALOGS[getLocale()].messages[key] ?? id.messages[key]
+  if (!params) return template
+
+  return template.replaceAll(/{(\w+)}/g, (match, name: string) => (name in params ? String(params[name]) : match))
+}
+
+export function prompts(): PromptTemplates {
+  return CATALOGS[getLocale()].prompts
+}
+
+/**
+ * Tanggal + jam sesuai locale aktif, mis. "31 Jan 2025 14.05" / "Jan 31, 2025, 02:05 PM"
+ */
+export function formatDate(timestamp: string): string {
+  return new Date(timestamp).toLocaleString(CATALOGS[getLocale()].dateLocale, {
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    month: 'short',
+    year: 'numeric',
+  })
+}
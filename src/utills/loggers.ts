@@ -21,6 +21,15 @@ const boxenOptions: BoxenOptions = {
   },
 }
 
+// Mode JSON (--json): stdout hanya boleh berisi satu objek JSON dari oclif,
+// jadi semua output dekoratif dimatikan dan error dialihkan ke stderr.
+let jsonMode = false
+let lastError: string | undefined
+
+function print(message = ''): void {
+  if (!jsonMode) console.log(message)
+}
+
 /**
  * Logger utility dengan styling yang cantik
  */
@@ -29,25 +38,31 @@ const logger = {
    * Menampilkan pesan di dalam kotak dengan border
    */
   box(message: string, options?: Partial<BoxenOptions>): void {
-    console.log(boxen(chalk.white(message), { ...boxenOptions, ...options }))
+    print(boxen(chalk.white(message), { ...boxenOptions, ...options }))
   },
   /**
    * Pesan debug (abu-abu)
    */
   debug(message: string): void {
-    console.log(chalk.gray(`🔍 [DEBUG] ${message}`))
+    print(chalk.gray(`🔍 [DEBUG] ${message}`))
   },
     /**
      * Pesan error (merah terang)
      */
   error(message: string): void {
+    if (jsonMode) {
+      lastError = message
+      console.error(message)
+      return
+    }
+
     console.log(chalk.red.bold(`❌ ${message}`))
   },
   /**
    * Kotak error (merah)
    */
   errorBox(message: string): void {
-    console.log(
+    print(
       boxen(chalk.red(message), {
         ...boxenOptions,
         borderColor: 'red',
@@ -60,13 +75,13 @@ const logger = {
    * Pesan info standar (biru muda)
    */
   info(message: string): void {
-    console.log(chalk.cyan(`ℹ️  ${message}`))
+    print(chalk.cyan(`ℹ️  ${message}`))
   },
   /**
    * Kotak info (biru)
    */
   infoBox(message: string): void {
-    console.log(
+    print(
       boxen(chalk.cyan(message), {
         ...boxenOptions,
         borderColor: 'cyan',
@@ -75,35 +90,54 @@ const logger = {
       })
     )
   },
+  /**
+   * Apakah output sedang dalam mode JSON
+   */
+  isJsonMode(): boolean {
+    return jsonMode
+  },
   /**
    * Loading spinner message
    */
   loading(message: string): void {
-    console.log(chalk.blue(`⏳ ${message}...`))
+    print(chalk.blue(`⏳ ${message}...`))
   },
   /**
    * Blank line
    */
   newLine(): void {
-    console.log()
+    print()
   },
   /**
    * Line separator
    */
   separator(): void {
-    console.log(chalk.gray('─'.repeat(50)))
+    print(chalk.gray('─'.repeat(50)))
+  },
+  /**
+   * Aktifkan/matikan mode JSON (dipanggil di awal setiap command)
+   */
+  setJsonMode(enabled: boolean): void {
+    jsonMode = enabled
+    lastError = undefined
+  },
+  /**
+   * Potongan teks mentah tanpa newline (untuk output streaming)
+   */
+  stream(chunk: string): void {
+    if (!jsonMode) process.stdout.write(chalk.white(chunk))
   },
   /**
    * Pesan sukses (hijau dengan icon)
    */
   success(message: string): void {
-    console.log(chalk.green.bold(`✅ ${message}`))
+    print(chalk.green.bold(`✅ ${message}`))
   },
   /**
    * Kotak sukses (hijau)
    */
   successBox(message: string): void {
-    console.log(
+    print(
       boxen(chalk.green.bold(message), {
         ...boxenOptions,
         borderColor: 'green',
@@ -116,16 +150,24 @@ const logger = {
    * Judul section (bold dan underline)
    */
   title(message: string): void {
-    console.log(chalk.bold.magenta(`\n${message}`))
-    console.log(chalk.magenta('─'.repeat(message.length)))
+    print(chalk.bold.magenta(`\n${message}`))
+    print(chalk.magenta('─'.repeat(message.length)))
   },
   /**
    * Pesan peringatan (kuning)
    */
   warn(message: string): void {
-    console.log(chalk.yellow.bold(`⚠️  ${message}`))
+    print(chalk.yellow.bold(`⚠️  ${message}`))
   },
 }
 
 export default logger
 
+/**
+ * Bentuk error untuk --json: pesan dari logger.error terakhir (lebih jelas daripada "EEXIT: 1")
+ */
+export function errorJson(error: unknown): { error: { exitCode: number; message: string } } {
+  const exitCode = (error as { oclif?: { exit?: number } }).oclif?.exit ?? 1
+  return { error: { exitCode, message: lastError ?? (error as Error).message ?? String(error) } }
+}
+
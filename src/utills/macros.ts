@@ -0,0 +1,168 @@
+// src/utills/macros.ts
+
+import * as fs from 'node:fs'
+// eslint-disable-next-line unicorn/import-style
+import * as path from 'node:path'
+
+import { getConfigDir } from './config.js'
+import { t } from './i18n.js'
+import { PlanStep } from './plan.js'
+import { shellQuote } from './shellinit.js'
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+/** Perintah gen yang disimpan dengan nama (gen --save), dijalankan ulang dengan macro run */
+export interface Macro {
+  createdAt: string
+  name: string
+  /** OS dan shell tempat perintah dibuat; sintaksnya belum tentu jalan di shell lain */
+  os: string
+  prompt: string
+  shell: string
+  steps: PlanStep[]
+}
+
+export type NewMacro = Omit<Macro, 'createdAt'>
+
+export class MacroError extends Error {}
+
+// Nama dipakai sebagai nama file, jadi tanpa / dan spasi
+const NAME_PATTERN = /^[\w.-]+$/
+const PLACEHOLDER_PATTERN = /{{\s*([\w-]+)\s*}}/g
+
+export function getMacrosDir(): string {
+  return path.join(getConfigDir(), 'macros')
+}
+
+export function assertMacroName(name: string): void {
+  if (!NAME_PATTERN.test(name) || name.startsWith('.')) {
+    throw new MacroError(t('macros.invalidName', { name }))
+  }
+}
+
+// ============================================
+// MACRO STORE
+// ============================================
+/**
+ * Satu file JSON per macro di ~/.gen-cli/macros. Berbeda dengan history, macro tidak pernah
+ * dibuang otomatis.
+ */
+export class MacroStore {
+  private dir = getMacrosDir()
+
+  /** Urut nama */
+  list(): Macro[] {
+    if (!fs.existsSync(this.dir)) return []
+
+    const macros: Macro[] = []
+    for (const file of fs.readdirSync(this.dir)) {
+      if (!file.endsWith('.json')) continue
+
+      // File rusak dilewati, bukan menggagalkan semua macro
+      try {
+        macros.push(JSON.parse(fs.readFileSync(path.join(this.dir, file), 'utf8')) as Macro)
+      } catch {
+        continue
+      }
+    }
+
+    return macros.sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  lookup(name: string): Macro | undefined {
+    assertMacroName(name)
+
+    try {
+      return JSON.parse(fs.readFileSync(this.file(name), 'utf8')) as Macro
+    } catch {
+      return undefined
+    }
+  }
+
+  /** Return false jika macro tidak ada */
+  remove(name: string): boolean {
+    assertMacroName(name)
+    if (!fs.existsSync(this.file(name))) return false
+
+    fs.rmSync(this.file(name))
+    return true
+  }
+
+  /** Macro dengan nama yang sama ditimpa */
+  save(macro: NewMacro): Macro {
+    assertMacroName(macro.name)
+
+    const saved: Macro = { ...macro, createdAt: new Date().toISOString() }
+    try {
+      fs.mkdirSync(this.dir, { recursive: true })
+      fs.writeFileSync(this.file(macro.name), JSON.stringify(saved, null, 2))
+    } catch {
+      throw new MacroError(t('macros.saveFailed', { name: macro.name }))
+    }
+
+    return saved
+  }
+
+  private file(name: string): string {
+    return path.join(this.dir, `${name}.json`)
+  }
+}
+
+// ============================================
+// PLACEHOLDERS
+// ============================================
+/** Nama {{placeholder}} di perintah dan cwd step, urut kemunculan pertama */
+export function macroPlaceholders(steps: PlanStep[]): string[] {
+  const names = steps.flatMap(step => [step.command, step.cwd ?? ''])
+    .flatMap(text => [...text.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]))
+
+  return [...new Set(names)]
+}
+
+/**
+ * Ganti {{placeholder}} dengan nilainya. Di perintah nilai di-quote untuk shell tujuan supaya
+ * spasi dan karakter khusus tetap satu argumen; cwd bukan teks shell sehingga diisi apa adanya.
+ */
+export function fillPlaceholders(steps: PlanStep[], values: Record<string, string>, shell: string): PlanStep[] {
+  const fill = (text: string, quote: boolean) => text.replaceAll(PLACEHOLDER_PATTERN, (match, name: string) => {
+    if (!(name in values)) return match
+    return quote ? shellQuote(values[name], shell) : values[name]
+  })
+
+  return steps.map(step => ({ ...step, command: fill(step.command, true), ...(step.cwd ? { cwd: fill(step.cwd, false) } : {}) }))
+}
+
+/**
+ * Kebalikan fillPlaceholders saat gen --save --placeholder nama=nilai: nilai di perintah (juga
+ * versi ber-quote-nya) dan cwd diganti {{nama}}. Return nama yang nilainya tidak ditemukan.
+ */
+export function templatize(steps: PlanStep[], values: Record<string, string>): { missing: string[]; steps: PlanStep[] } {
+  let templated = steps
+  const missing: string[] = []
+
+  for (const [name, value] of Object.entries(values)) {
+    const escaped = value.replaceAll(/[$()*+.?[\\\]^{|}]/g, String.raw`\$&`)
+    // Hanya kata utuh: nilai "main" tidak mengubah "maintenance"
+    const pattern = new RegExp(`"${escaped}"|'${escaped}'|(?<!\\w)${escaped}(?!\\w)`, 'g')
+    const replace = (text: string) => text.replaceAll(pattern, `{{${name}}}`)
+
+    const next = templated.map(step => ({ ...step, command: replace(step.command), ...(step.cwd ? { cwd: replace(step.cwd) } : {}) }))
+    if (next.every((step, i) => step.command === templated[i].command && step.cwd === templated[i].cwd)) missing.push(name)
+    templated = next
+  }
+
+  return { missing, steps: templated }
+}
+
+/** --set/--placeholder name=value → { name: value } */
+export function parseValues(entries: string[]): Record<string, string> {
+  const values: Record<string, string> = {}
+  for (const entry of entries) {
+    const separator = entry.indexOf('=')
+    if (separator <= 0) throw new MacroError(t('macros.invalidValue', { entry }))
+    values[entry.slice(0, separator).trim()] = entry.slice(separator + 1)
+  }
+
+  return values
+}
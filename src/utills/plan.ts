@@ -0,0 +1,154 @@
+// src/utills/plan.ts
+
+import { t } from './i18n.js'
+import { JsonSchema } from './providers.js'
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+export const RISK_LEVELS = ['low', 'medium', 'high'] as const
+export type RiskLevel = (typeof RISK_LEVELS)[number]
+
+/** Satu perintah shell dari jawaban gen */
+export interface PlanStep {
+  /** Perintah asli dari AI, diisi jika user mengeditnya sebelum dijalankan */
+  aiCommand?: string
+  command: string
+  /** Folder kerja relatif terhadap cwd saat gen dijalankan (kosong = cwd) */
+  cwd?: string
+  description: string
+  risk: RiskLevel
+}
+
+/** Jawaban gen yang sudah divalidasi */
+export interface GenPlan {
+  /** Alasan model menolak prompt (bukan aksi shell); steps kosong jika diisi */
+  refusal?: string
+  steps: PlanStep[]
+  suggestions: string[]
+}
+
+export class PlanError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PlanError'
+  }
+}
+
+/**
+ * Schema structured output yang diminta dari provider. Penanda yang di-parse ada di sini,
+ * bukan di baris teks, jadi perintah multi-baris dan titik dua aman.
+ */
+export const GEN_RESPONSE_SCHEMA: JsonSchema = {
+  properties: {
+    error: {
+      description: 'Diisi hanya jika permintaan bukan aksi shell; steps dikosongkan',
+      type: 'string',
+    },
+    steps: {
+      items: {
+        properties: {
+          command: { description: 'Perintah shell lengkap, boleh multi-baris', type: 'string' },
+          cwd: { description: 'Folder kerja relatif, kosong untuk folder saat ini', type: 'string' },
+          description: { description: 'Penjelasan singkat apa yang dilakukan perintah', type: 'string' },
+          risk: { enum: [...RISK_LEVELS], type: 'string' },
+        },
+        required: ['command', 'description', 'risk'],
+        type: 'object',
+      },
+      type: 'array',
+    },
+    suggestions: {
+      description: '2-3 alternatif permintaan',
+      items: { type: 'string' },
+      type: 'array',
+    },
+  },
+  required: ['steps', 'suggestions'],
+  type: 'object',
+}
+
+// ============================================
+// PARSE & VALIDATE
+// ============================================
+/**
+ * Parse jawaban model menjadi GenPlan. Melempar PlanError berisi semua masalah yang
+ * ditemukan supaya bisa dikirim balik ke model saat re-prompt.
+ */
+export function parsePlan(text: string): GenPlan {
+  let data: unknown
+  try {
+    data = JSON.parse(extractJson(text))
+  } catch (error: unknown) {
+    throw new PlanError(t('plan.notJson', { message: (error as Error).message }))
+  }
+
+  if (!isRecord(data)) throw new PlanError(t('plan.notObject'))
+
+  if (typeof data.error === 'string' && data.error.trim()) {
+    return { refusal: data.error.trim(), steps: [], suggestions: stringList(data.suggestions) }
+  }
+
+  const problems: string[] = []
+  if (!Array.isArray(data.steps)) {
+    problems.push(t('plan.fieldArray', { field: 'steps' }))
+  } else if (data.steps.length === 0) {
+    problems.push(t('plan.noSteps'))
+  }
+
+  const steps = Array.isArray(data.steps) ? data.steps.map((step, index) => parseStep(step, index, problems)) : []
+
+  if (data.suggestions !== undefined && !Array.isArray(data.suggestions)) {
+    problems.push(t('plan.fieldArray', { field: 'suggestions' }))
+  }
+
+  if (problems.length > 0) throw new PlanError(problems.join('; '))
+
+  return { steps: steps as PlanStep[], suggestions: stringList(data.suggestions) }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+/**
+ * Ambil object JSON dari jawaban meski model menambahkan ```json fence atau teks di sekitarnya
+ */
+export function extractJson(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*\n([\S\s]*?)```/)
+  const body = (fenced ? fenced[1] : text).trim()
+  const start = body.indexOf('{')
+  const end = body.lastIndexOf('}')
+
+  return start !== -1 && end > start ? body.slice(start, end + 1) : body
+}
+
+function parseStep(step: unknown, index: number, problems: string[]): null | PlanStep {
+  const at = `steps[${index}]`
+  if (!isRecord(step)) {
+    problems.push(t('plan.stepNotObject', { at }))
+    return null
+  }
+
+  const { command, cwd, description, risk } = step
+  if (typeof command !== 'string' || !command.trim()) problems.push(t('plan.fieldString', { field: `${at}.command` }))
+  if (typeof description !== 'string') problems.push(t('plan.fieldString', { field: `${at}.description` }))
+  if (cwd !== undefined && typeof cwd !== 'string') problems.push(t('plan.fieldString', { field: `${at}.cwd` }))
+  if (!RISK_LEVELS.includes(risk as RiskLevel)) {
+    problems.push(t('plan.invalidRisk', { field: `${at}.risk`, options: RISK_LEVELS.join(', ') }))
+  }
+
+  return {
+    command: String(command ?? '').trim(),
+    ...(typeof cwd === 'string' && cwd.trim() && cwd.trim() !== '.' && { cwd: cwd.trim() }),
+    description: String(description ?? '').trim(),
+    risk: risk as RiskLevel,
+  }
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim()) : []
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,148 @@
+// src/utills/plans.ts
+
+import chalk from 'chalk'
+import { randomUUID } from 'node:crypto'
+import * as fs from 'node:fs'
+// eslint-disable-next-line unicorn/import-style
+import * as path from 'node:path'
+
+import { getConfigDir } from './config.js'
+import { t } from './i18n.js'
+import logger from './loggers.js'
+import { PlanStep } from './plan.js'
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+export const STEP_STATUSES = ['pending', 'success', 'failed', 'skipped'] as const
+export type StepStatus = (typeof STEP_STATUSES)[number]
+
+export interface SavedStep extends PlanStep {
+  status: StepStatus
+}
+
+/** Plan multi-step gen beserta status per step, supaya bisa dilanjutkan dengan --resume */
+export interface SavedPlan {
+  createdAt: string
+  /** Folder tempat plan dijalankan; cwd step relatif terhadap folder ini */
+  cwd: string
+  id: string
+  prompt: string
+  shell: string
+  steps: SavedStep[]
+  updatedAt: string
+}
+
+export type NewPlan = Pick<SavedPlan, 'cwd' | 'prompt' | 'shell'> & { steps: PlanStep[] }
+
+/** Plan lama dibuang supaya folder plans tidak tumbuh tanpa batas */
+const MAX_SAVED_PLANS = 50
+
+export function getPlansDir(): string {
+  return path.join(getConfigDir(), 'plans')
+}
+
+// ============================================
+// PLAN STORE
+// ============================================
+/**
+ * Satu file JSON per plan di ~/.gen-cli/plans, ditulis ulang setiap kali status step berubah
+ */
+export class PlanStore {
+  private dir = getPlansDir()
+
+  create(plan: NewPlan): SavedPlan {
+    const now = new Date().toISOString()
+    const saved: SavedPlan = {
+      ...plan,
+      createdAt: now,
+      id: randomUUID().slice(0, 8),
+      steps: plan.steps.map(step => ({ ...step, status: 'pending' })),
+      updatedAt: now,
+    }
+
+    this.save(saved)
+    this.prune()
+    return saved
+  }
+
+  /** Plan terbaru lebih dulu */
+  list(): SavedPlan[] {
+    if (!fs.existsSync(this.dir)) return []
+
+    const plans: SavedPlan[] = []
+    for (const file of fs.readdirSync(this.dir)) {
+      if (!file.endsWith('.json')) continue
+
+      // File rusak dilewati, bukan menggagalkan semua plan
+      try {
+        plans.push(JSON.parse(fs.readFileSync(path.join(this.dir, file), 'utf8')) as SavedPlan)
+      } catch {
+        continue
+      }
+    }
+
+    return plans.sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt))
+  }
+
+  /**
+   * Cari plan berdasarkan id (cukup awalannya). Tanpa id: plan terbaru yang belum selesai.
+   */
+  lookup(id?: string): SavedPlan | undefined {
+    const plans = this.list()
+    return id ? plans.find(plan => plan.id.startsWith(id)) : plans.find(plan => !isFinished(plan))
+  }
+
+  save(plan: SavedPlan): void {
+    plan.updatedAt = new Date().toISOString()
+
+    try {
+      fs.mkdirSync(this.dir, { recursive: true })
+      fs.writeFileSync(path.join(this.dir, `${plan.id}.json`), JSON.stringify(plan, null, 2))
+    } catch {
+      logger.warn(t('plans.saveFailed'))
+    }
+  }
+
+  private prune(): void {
+    for (const plan of this.list().slice(MAX_SAVED_PLANS)) {
+      fs.rmSync(path.join(this.dir, `${plan.id}.json`), { force: true })
+    }
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+/** Semua step berhasil atau sengaja dilewati */
+export function isFinished(plan: SavedPlan): boolean {
+  return plan.steps.every(step => step.status === 'success' || step.status === 'skipped')
+}
+
+/** Index step pertama yang belum berhasil/dilewati, tempat plan dilanjutkan */
+export function resumeIndex(plan: SavedPlan): number {
+  return plan.steps.findIndex(step => step.status === 'failed' || step.status === 'pending')
+}
+
+// ============================================
+// DISPLAY
+// ============================================
+export function stepStatusIcon(status: StepStatus): string {
+  switch (status) {
+    case 'failed': {
+      return chalk.red('✗')
+    }
+
+    case 'pending': {
+      return chalk.gray('○')
+    }
+
+    case 'skipped': {
+      return chalk.yellow('⤼')
+    }
+
+    case 'success': {
+      return chalk.green('✓')
+    }
+  }
+}
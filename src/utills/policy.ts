@@ -0,0 +1,941 @@
+// src/utills/policy.ts
+
+import * as os from 'node:os'
+// eslint-disable-next-line unicorn/import-style
+import * as path from 'node:path'
+
+import { AppConfig, ConfigError } from './config.js'
+import { MessageKey, t } from './i18n.js'
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+export type ShellDialect = 'bash' | 'cmd' | 'powershell'
+
+export const SEVERITIES = ['low', 'medium', 'high', 'critical'] as const
+export type Severity = (typeof SEVERITIES)[number]
+
+export interface Redirect {
+  /** Operator apa adanya, mis. >, >>, 2>, <<, &> */
+  op: string
+  target: string
+}
+
+/** Satu perintah sederhana hasil parsing: program + argumen + redirection */
+export interface SimpleCommand {
+  args: string[]
+  /** Wrapper yang menaikkan hak akses (sudo, doas, runas, ...) */
+  elevatedBy?: string
+  /** Program sebelumnya di pipeline yang sama (yang output-nya diterima perintah ini) */
+  pipedFrom: string[]
+  /** stdin berupa teks literal (echo/printf) yang sudah ikut di-parse sebagai script */
+  pipedScript?: boolean
+  /** Nama program ter-normalisasi: basename, huruf kecil, tanpa .exe */
+  program: string
+  redirects: Redirect[]
+  text: string
+}
+
+export interface PolicyViolation {
+  command: string
+  message: string
+  rule: string
+  severity: Severity
+}
+
+export interface PolicyVerdict {
+  /** Ada rule critical: perintah tidak boleh dijalankan sama sekali */
+  blocked: boolean
+  /** Ada rule high: butuh konfirmasi destructive (--allow-destructive untuk --yes) */
+  destructive: boolean
+  violations: PolicyViolation[]
+}
+
+interface RuleContext {
+  cwd: string
+  dialect: ShellDialect
+  home: string
+  paths: typeof path.posix
+}
+
+interface PolicyRule {
+  /** Return pesan penjelasan jika rule kena, null jika tidak */
+  check(command: SimpleCommand, context: RuleContext): null | string
+  id: string
+  severity: Severity
+}
+
+interface Segment {
+  /** Operator sebelum segment ini (|, &&, ||, ;, &, baris baru) */
+  connector?: string
+  redirects: Redirect[]
+  /** Isi heredoc yang diberikan ke stdin */
+  stdin?: string
+  text: string
+  words: string[]
+}
+
+// ============================================
+// TOKENIZER
+// ============================================
+/**
+ * Pecah input menjadi segment (perintah sederhana) mengikuti aturan quoting dan operator
+ * dialek shell. Isi $(...), backtick dan script block PowerShell dikumpulkan di
+ * `nested` supaya ikut dianalisis.
+ */
+class Tokenizer {
+  readonly nested: string[] = []
+  readonly segments: Segment[] = []
+  private connector?: string
+  private readonly escape: string
+  private heredocs: string[] = []
+  private i = 0
+  private pendingRedirect: null | string = null
+  private redirects: Redirect[] = []
+  private start = 0
+  private word: null | string = null
+  private words: string[] = []
+
+  constructor(private input: string, private dialect: ShellDialect) {
+    this.escape = dialect === 'bash' ? '\\' : dialect === 'powershell' ? '`' : '^'
+  }
+
+  run(): this {
+    for (this.i = 0; this.i < this.input.length; this.i++) {
+      this.step(this.input[this.i], this.input[this.i + 1])
+    }
+
+    this.endSegment(this.input.length)
+    return this
+  }
+
+  private append(text: string): void {
+    this.word = (this.word ?? '') + text
+  }
+
+  private endLine(): void {
+    const { input } = this
+    this.endSegment(this.i, '\n', 1)
+
+    // Badan heredoc adalah data, bukan perintah; simpan sebagai stdin segment terakhir
+    for (const delimiter of this.heredocs.splice(0)) {
+      const bodyStart = this.i + 1
+      let lineStart = bodyStart
+      while (lineStart < input.length) {
+        const newline = input.indexOf('\n', lineStart)
+        const lineEnd = newline === -1 ? input.length : newline
+        this.i = lineEnd
+        if (input.slice(lineStart, lineEnd).trim() === delimiter) {
+          const last = this.segments.at(-1)
+          if (last) last.stdin = input.slice(bodyStart, lineStart)
+          break
+        }
+
+        lineStart = lineEnd + 1
+      }
+    }
+
+    this.start = this.i + 1
+  }
+
+  private endSegment(end: number, next?: string, skip = 0): void {
+    this.endWord()
+    if (this.words.length > 0 || this.redirects.length > 0) {
+      this.segments.push({ connector: this.connector, redirects: this.redirects, text: this.input.slice(this.start, end).trim(), words: this.words })
+    }
+
+    this.words = []
+    this.redirects = []
+    this.pendingRedirect = null
+    this.connector = next
+    this.start = end + skip
+  }
+
+  private endWord(): void {
+    if (this.word === null) return
+
+    if (this.pendingRedirect) {
+      this.redirects.push({ op: this.pendingRedirect, target: this.word })
+      if (this.pendingRedirect.startsWith('<<') && this.pendingRedirect !== '<<<') this.heredocs.push(this.word)
+      this.pendingRedirect = null
+    } else {
+      this.words.push(this.word)
+    }
+
+    this.word = null
+  }
+
+  /** Operator antar perintah: &&, ||, |, ;, & dan tanda kurung subshell */
+  private readOperator(ch: string, next: string | undefined): boolean {
+    const { dialect, input } = this
+
+    if (ch === '&' && next === '>' && dialect === 'bash') {
+      // &> adalah redirection, bukan operator
+      this.append('&')
+      return true
+    }
+
+    const operator = ['&&', '||', '|', ';', '&'].find(op => input.startsWith(op, this.i))
+    if (operator === '&' && dialect === 'powershell') {
+      // Call operator PowerShell: & "C:\tool.exe" arg
+      this.endWord()
+      return true
+    }
+
+    if (operator) {
+      this.endSegment(this.i, operator, operator.length)
+      this.i += operator.length - 1
+      return true
+    }
+
+    if (dialect !== 'powershell' && ((ch === '(' && this.word === null) || ch === ')')) {
+      this.endSegment(this.i, ';', 1)
+      return true
+    }
+
+    return false
+  }
+
+  /** Kutip tunggal (literal) dan ganda (escape + substitution tetap berlaku) */
+  private readQuoted(ch: string): boolean {
+    const { dialect, input } = this
+
+    if (ch === "'" && dialect !== 'cmd') {
+      const close = input.indexOf("'", this.i + 1)
+      const end = close === -1 ? input.length : close
+      this.append(input.slice(this.i + 1, end))
+      this.i = end
+      return true
+    }
+
+    if (ch !== '"') return false
+
+    let j = this.i + 1
+    let value = ''
+    while (j < input.length && input[j] !== '"') {
+      if (input[j] === this.escape && dialect !== 'cmd' && j + 1 < input.length) {
+        value += input[j + 1]
+        j += 2
+      } else if (input.startsWith('$(', j) && dialect !== 'cmd') {
+        const close = matchClosing(input, j + 1)
+        this.nested.push(input.slice(j + 2, close))
+        value += input.slice(j, close + 1)
+        j = close + 1
+      } else {
+        value += input[j]
+        j++
+      }
+    }
+
+    this.append(value)
+    this.i = j
+    return true
+  }
+
+  /** Redirection: >, >>, 2>, &>, *>, <, <<, <<-, <<<, 2>&1 */
+  private readRedirect(ch: string): void {
+    const { input } = this
+    let op = ''
+    if (this.word !== null && /^(\d|&|\*)$/.test(this.word)) {
+      op = this.word
+      this.word = null
+    } else {
+      this.endWord()
+    }
+
+    const arrows = input.slice(this.i).match(ch === '>' ? /^>{1,2}/ : /^<{1,3}-?/)![0]
+    op += arrows
+    let j = this.i + arrows.length
+
+    if (input[j] === '&' && /\d/.test(input[j + 1] ?? '')) {
+      this.redirects.push({ op, target: `&${input[j + 1]}` })
+      this.i = j + 1
+      return
+    }
+
+    if (input[j] === '|') j++
+    this.pendingRedirect = op
+    this.i = j - 1
+  }
+
+  /** Command/process substitution $(...), <(...), `...` dan script block PowerShell */
+  private readSubstitution(ch: string, next: string | undefined): boolean {
+    const { dialect, input } = this
+    let open = -1
+    let close = -1
+
+    if ((ch === '$' || (ch === '<' && dialect === 'bash')) && next === '(' && dialect !== 'cmd') {
+      open = this.i + 2
+      close = matchClosing(input, this.i + 1)
+    } else if (ch === '`' && dialect === 'bash') {
+      open = this.i + 1
+      close = input.indexOf('`', open)
+      if (close === -1) close = input.length
+    } else if (ch === '{' && dialect === 'powershell') {
+      // { Remove-Item $_ } dijalankan oleh ForEach-Object dkk
+      open = this.i + 1
+      close = matchClosing(input, this.i)
+    } else {
+      return false
+    }
+
+    this.nested.push(input.slice(open, close))
+    this.append(input.slice(this.i, close + 1))
+    this.i = close
+    return true
+  }
+
+  private step(ch: string, next: string | undefined): void {
+    if (ch === this.escape && next !== undefined) {
+      // Line continuation tidak menghasilkan karakter
+      if (next !== '\n') this.append(next)
+      this.i++
+      return
+    }
+
+    if (this.readQuoted(ch) || this.readSubstitution(ch, next)) return
+
+    if (ch === '#' && this.word === null && this.dialect !== 'cmd') {
+      const newline = this.input.indexOf('\n', this.i)
+      this.i = (newline === -1 ? this.input.length : newline) - 1
+      return
+    }
+
+    switch (ch) {
+      case ' ':
+      case '\t':
+      case '\r': {
+        this.endWord()
+        break
+      }
+
+      case '\n': {
+        this.endLine()
+        break
+      }
+
+      case '<':
+      case '>': {
+        this.readRedirect(ch)
+        break
+      }
+
+      default: {
+        if (!this.readOperator(ch, next)) this.append(ch)
+      }
+    }
+  }
+}
+
+/** Index penutup untuk ( atau { di posisi `open`, memperhitungkan nesting dan quote */
+function matchClosing(input: string, open: number): number {
+  const opening = input[open]
+  const closing = opening === '{' ? '}' : ')'
+  let depth = 0
+  let quote: null | string = null
+
+  for (let i = open; i < input.length; i++) {
+    const ch = input[i]
+    if (quote) {
+      if (ch === quote) quote = null
+      continue
+    }
+
+    switch (ch) {
+      case '"':
+      case "'": {
+        quote = ch
+        break
+      }
+
+      case closing: {
+        depth--
+        if (depth === 0) return i
+        break
+      }
+
+      case opening: {
+        depth++
+        break
+      }
+    }
+  }
+
+  return input.length - 1
+}
+
+// ============================================
+// PARSER
+// ============================================
+const RESERVED_WORDS = new Set(['!', '(', ')', 'do', 'elif', 'else', 'fi', 'if', 'then', 'until', 'while', '{', '}'])
+const ELEVATORS = new Set(['doas', 'gsudo', 'pkexec', 'runas', 'sudo'])
+const WRAPPERS = new Set(['builtin', 'command', 'env', 'exec', 'ionice', 'nice', 'nohup', 'stdbuf', 'time', 'timeout', 'watch', 'xargs'])
+const SHELLS: Record<string, ShellDialect> = {
+  ash: 'bash',
+  bash: 'bash',
+  cmd: 'cmd',
+  dash: 'bash',
+  fish: 'bash',
+  ksh: 'bash',
+  powershell: 'powershell',
+  pwsh: 'powershell',
+  sh: 'bash',
+  zsh: 'bash',
+}
+/** Perintah yang menjalankan argumennya sebagai script: argumen digabung lalu di-parse ulang */
+const EVALUATORS: Record<string, ShellDialect> = {
+  eval: 'bash',
+  iex: 'powershell',
+  'invoke-expression': 'powershell',
+}
+/** Opsi wrapper yang memakai nilai di argumen berikutnya (xargs -I {} rm {}, exec -a nama) */
+const WRAPPER_VALUE_OPTIONS: Record<string, string[]> = {
+  exec: ['-a'],
+  xargs: ['-E', '-I', '-L', '-P', '-a', '-d', '-s', '--arg-file', '--delimiter', '--max-args', '--max-procs'],
+}
+const MAX_DEPTH = 5
+
+/**
+ * Parse input menjadi daftar SimpleCommand, termasuk perintah di dalam substitution,
+ * `sh -c "..."`, `eval "..."`, `find -exec ...` dan heredoc yang diberikan ke shell.
+ */
+export function parseCommand(input: string, dialect: ShellDialect, depth = 0): SimpleCommand[] {
+  if (depth > MAX_DEPTH) return []
+
+  const { nested, segments } = new Tokenizer(input, dialect).run()
+  const commands: SimpleCommand[] = []
+  let pipeline: string[] = []
+  let previous: SimpleCommand | undefined
+
+  for (const segment of segments) {
+    if (segment.connector !== '|') {
+      pipeline = []
+      previous = undefined
+    }
+
+    const command = toSimpleCommand(segment, pipeline)
+    if (!command) continue
+
+    // echo "rm -rf /" | sh: teks literal di kiri pipe adalah script untuk shell di kanan
+    const echoed = previous && SHELLS[command.program] && !segment.stdin && readsScriptFromStdin(command.args) ? echoedScript(previous) : undefined
+    if (echoed !== undefined) command.pipedScript = true
+
+    commands.push(command, ...nestedCommands(command, { ...segment, stdin: segment.stdin ?? echoed }, dialect, depth))
+    pipeline = [...pipeline, command.program]
+    previous = command
+  }
+
+  for (const inner of nested) {
+    commands.push(...parseCommand(inner, dialect, depth + 1))
+  }
+
+  return commands
+}
+
+function toSimpleCommand(segment: Segment, pipeline: string[]): null | SimpleCommand {
+  const words = [...segment.words]
+  let elevatedBy: string | undefined
+
+  for (;;) {
+    while (words.length > 0 && (RESERVED_WORDS.has(words[0]) || /^[A-Za-z_]\w*=/.test(words[0]))) words.shift()
+    if (words.length === 0) break
+
+    const name = normalizeProgram(words[0])
+    if (!ELEVATORS.has(name) && !WRAPPERS.has(name)) break
+
+    if (ELEVATORS.has(name)) elevatedBy ??= name
+    words.shift()
+    skipWrapperOptions(name, words)
+
+    // runas /user:admin "cmd /c ..." memberi seluruh perintah sebagai satu argumen
+    if (elevatedBy && words.length === 1 && /\s/.test(words[0])) words.splice(0, 1, ...words[0].trim().split(/\s+/))
+  }
+
+  if (words.length === 0 && segment.redirects.length === 0) return null
+  if (words.length > 0 && normalizeProgram(words[0]) === 'su') elevatedBy ??= 'su'
+
+  return {
+    args: words.slice(1),
+    elevatedBy,
+    pipedFrom: pipeline,
+    program: words.length > 0 ? normalizeProgram(words[0]) : '',
+    redirects: segment.redirects,
+    text: segment.text,
+  }
+}
+
+function nestedCommands(command: SimpleCommand, segment: Segment, dialect: ShellDialect, depth: number): SimpleCommand[] {
+  const { args, program } = command
+  const inherit = (inner: SimpleCommand[]) => inner.map(item => ({ ...item, elevatedBy: item.elevatedBy ?? command.elevatedBy }))
+  const shell = SHELLS[program] ?? (program === 'su' ? dialect : undefined)
+
+  // eval "rm -rf /" menggabungkan argumennya dengan spasi lalu menjalankannya seperti shell
+  if (EVALUATORS[program] === dialect) return inherit(parseCommand(args.join(' '), dialect, depth + 1))
+
+  if (shell) {
+    const encodedIndex = args.findIndex(arg => /^-(e|ec|encodedcommand)$/i.test(arg))
+    if (shell === 'powershell' && encodedIndex !== -1 && args[encodedIndex + 1]) {
+      return inherit(parseCommand(Buffer.from(args[encodedIndex + 1], 'base64').toString('utf16le'), 'powershell', depth + 1))
+    }
+
+    // bash -c, bash -lc, pwsh -Command, cmd /c
+    const flagIndex = args.findIndex(arg => /^(-\w*c|-command|\/c|\/k)$/i.test(arg))
+    if (flagIndex !== -1) {
+      const script = shell === 'cmd' ? args.slice(flagIndex + 1).join(' ') : args[flagIndex + 1] ?? ''
+      return inherit(parseCommand(script, shell, depth + 1))
+    }
+
+    if (segment.stdin) return inherit(parseCommand(segment.stdin, shell, depth + 1))
+  }
+
+  // find ... -exec rm -rf {} \;
+  if (program === 'find') {
+    const inner: SimpleCommand[] = []
+    for (const [index, arg] of args.entries()) {
+      if (!['-exec', '-execdir', '-ok', '-okdir'].includes(arg)) continue
+      const end = args.findIndex((value, at) => at > index && (value === ';' || value === '+'))
+      const words = args.slice(index + 1, end === -1 ? undefined : end)
+      inner.push(...parseCommand(words.map(value => quote(value, dialect)).join(' '), dialect, depth + 1))
+    }
+
+    return inherit(inner)
+  }
+
+  return []
+}
+
+/** Script yang ditulis echo/printf ke stdout; undefined jika argumennya memakai variabel atau substitution */
+function echoedScript({ args, program }: SimpleCommand): string | undefined {
+  if (!['echo', 'printf', 'write-output'].includes(program) || args.some(arg => /[$`]/.test(arg))) return undefined
+
+  // Opsi echo (-n, -e) bukan bagian dari teks
+  const start = program === 'echo' ? args.findIndex(arg => !/^-[neE]+$/.test(arg)) : 0
+  return (start === -1 ? [] : args.slice(start)).join(' ').replaceAll(String.raw`\n`, '\n')
+}
+
+/** Lewati opsi wrapper dan nilainya (sudo -u root, nice -n 10, timeout 5s, runas /user:x) */
+function skipWrapperOptions(wrapper: string, words: string[]): void {
+  const valueOptions = new Set(['--group', '--user', '-g', '-n', '-u', ...(WRAPPER_VALUE_OPTIONS[wrapper] ?? [])])
+  while (words.length > 0 && /^(-|\/\w+:|\d+[smhd]?$)/.test(words[0])) {
+    const option = words.shift()!
+    if (valueOptions.has(option)) words.shift()
+  }
+}
+
+function normalizeProgram(word: string): string {
+  const base = word.split(/[/\\]/).pop() ?? word
+  return base.toLowerCase().replace(/\.(bat|cmd|com|exe|ps1)$/, '')
+}
+
+function quote(value: string, dialect: ShellDialect): string {
+  if (!/[\s"'`]/.test(value)) return value
+  return dialect === 'cmd' ? `"${value}"` : `'${value.replaceAll("'", '')}'`
+}
+
+// ============================================
+// PATH HELPERS
+// ============================================
+const POSIX_SYSTEM_DIRS = [
+  '/Applications', '/Library', '/System', '/Users', '/bin', '/boot', '/dev', '/etc', '/home', '/lib',
+  '/lib64', '/opt', '/proc', '/root', '/sbin', '/sys', '/usr', '/var',
+]
+const WINDOWS_SYSTEM_DIRS = [String.raw`c:\program files`, String.raw`c:\program files (x86)`, String.raw`c:\programdata`, String.raw`c:\users`, String.raw`c:\windows`]
+const SAFE_DEVICES = new Set(['/dev/null', '/dev/stderr', '/dev/stdout', '/dev/tty', '/dev/zero'])
+
+/**
+ * Resolve target path relatif terhadap cwd. `*` atau `*.*` di akhir berarti seluruh isi
+ * folder induknya. Return null jika path memakai variabel yang tidak bisa di-resolve.
+ */
+function resolveTarget(target: string, context: RuleContext): null | string {
+  const { paths } = context
+  const value = target
+    .replace(/^~(?=$|[/\\])/, context.home)
+    .replace(/^(\$HOME|\$\{HOME\}|\$env:(HOME|USERPROFILE)|%USERPROFILE%)(?=$|[/\\])/i, context.home)
+
+  if (/\$|%\w+%/.test(value)) return null
+
+  const base = paths.basename(value)
+  const whole = ['*', '*.*', '.*'].includes(base) ? paths.dirname(value) : value
+  return paths.resolve(context.cwd, whole)
+}
+
+function samePath(a: string, b: string, context: RuleContext): boolean {
+  return context.dialect === 'bash' ? a === b : a.toLowerCase() === b.toLowerCase()
+}
+
+function isSystemPath(resolved: string, context: RuleContext): boolean {
+  const { paths } = context
+  if (paths.parse(resolved).root === resolved || samePath(resolved, context.home, context)) return true
+  if (context.dialect === 'bash') return POSIX_SYSTEM_DIRS.includes(resolved)
+  return WINDOWS_SYSTEM_DIRS.includes(resolved.toLowerCase())
+}
+
+function isUnderSystemPath(resolved: string, context: RuleContext): boolean {
+  // Folder kerja, home dan temp boleh saja berada di bawah /root atau /var
+  const allowed = [context.cwd, context.home, os.tmpdir()]
+  if (allowed.some(dir => samePath(resolved, dir, context) || !context.paths.relative(dir, resolved).startsWith('..'))) return false
+
+  const dirs = context.dialect === 'bash' ? POSIX_SYSTEM_DIRS.filter(dir => !['/home', '/Users'].includes(dir)) : WINDOWS_SYSTEM_DIRS.filter(dir => dir !== String.raw`c:\users`)
+  const value = context.dialect === 'bash' ? resolved : resolved.toLowerCase()
+  return dirs.some(dir => value === dir || value.startsWith(dir + context.paths.sep))
+}
+
+function isInsideCwd(resolved: string, context: RuleContext): boolean {
+  const relative = context.paths.relative(context.cwd, resolved)
+  return relative !== '' && !relative.startsWith('..') && !context.paths.isAbsolute(relative)
+}
+
+// ============================================
+// COMMAND HELPERS
+// ============================================
+interface Deletion {
+  recursive: boolean
+  targets: string[]
+}
+
+const DELETE_PROGRAMS: Record<ShellDialect, string[]> = {
+  bash: ['rm', 'rmdir', 'shred', 'unlink'],
+  cmd: ['del', 'erase', 'rd', 'rmdir'],
+  powershell: ['del', 'erase', 'rd', 'remove-item', 'ri', 'rm', 'rmdir'],
+}
+
+/** Perintah hapus dan target-nya, sesuai gaya flag dialeknya */
+function deletion({ args, program }: SimpleCommand, dialect: ShellDialect): Deletion | null {
+  if (!DELETE_PROGRAMS[dialect].includes(program)) return null
+
+  if (dialect === 'cmd') {
+    return { recursive: args.some(arg => arg.toLowerCase() === '/s'), targets: args.filter(arg => !arg.startsWith('/')) }
+  }
+
+  if (dialect === 'powershell') {
+    const valueParams = new Set(['-credential', '-exclude', '-filter', '-include', '-stream'])
+    const targets = args.filter((arg, index) => !arg.startsWith('-') && !valueParams.has(args[index - 1]?.toLowerCase()))
+    return { recursive: args.some(arg => /^-r(e(c(u(r(se?)?)?)?)?)?$/i.test(arg) || /^-rf?$/i.test(arg)), targets }
+  }
+
+  const end = args.indexOf('--')
+  const options = end === -1 ? args.filter(arg => arg.startsWith('-')) : args.slice(0, end).filter(arg => arg.startsWith('-'))
+  const targets = end === -1 ? args.filter(arg => !arg.startsWith('-') || arg === '-') : [...args.slice(0, end).filter(arg => !arg.startsWith('-')), ...args.slice(end + 1)]
+  const recursive = options.some(option => option === '--recursive' || (/^-[^-]/.test(option) && /[Rr]/.test(option)))
+
+  return { recursive, targets }
+}
+
+/** Shell membaca script dari stdin jika tidak diberi -c atau file script (kecuali dengan -s) */
+function readsScriptFromStdin(args: string[]): boolean {
+  const first = args.findIndex(arg => !arg.startsWith('-'))
+  return first === -1 || args.slice(0, first).includes('-s')
+}
+
+function hasRecursiveFlag({ args }: SimpleCommand): boolean {
+  return args.some(arg => arg === '--recursive' || (/^-[^-]/.test(arg) && arg.includes('R')))
+}
+
+/** Target tulis: redirection keluar dan argumen tee */
+function writeTargets(command: SimpleCommand): string[] {
+  const redirected = command.redirects.filter(({ op, target }) => op.includes('>') && !target.startsWith('&')).map(({ target }) => target)
+  const teed = command.program === 'tee' ? command.args.filter(arg => !arg.startsWith('-')) : []
+  return [...redirected, ...teed]
+}
+
+const DOWNLOADERS = new Set(['curl', 'invoke-restmethod', 'invoke-webrequest', 'irm', 'iwr', 'wget'])
+const INTERPRETERS = new Set(['.', 'eval', 'iex', 'invoke-expression', 'node', 'perl', 'python', 'python3', 'ruby', 'source', ...Object.keys(SHELLS)])
+const DOWNLOADER_PATTERN = /\b(curl|wget|iwr|irm|invoke-webrequest|invoke-restmethod|downloadstring)\b/i
+
+// ============================================
+// BUILT-IN RULES
+// ============================================
+const BUILTIN_RULES: PolicyRule[] = [
+  {
+    check(command, context) {
+      const target = deletion(command, context.dialect)?.targets.find(value => {
+        const resolved = resolveTarget(value, context)
+        return resolved !== null && isSystemPath(resolved, context)
+      })
+      return target === undefined ? null : t('policy.deleteSystemPath', { target })
+    },
+    id: 'delete-system-path',
+    severity: 'critical',
+  },
+  {
+    check(command, context) {
+      const found = deletion(command, context.dialect)
+      const target = found?.recursive && found.targets.find(value => resolveTarget(value, context) === context.cwd)
+      return target ? t('policy.deleteCwd', { target }) : null
+    },
+    id: 'delete-cwd',
+    severity: 'critical',
+  },
+  {
+    check(command, context) {
+      if (!['chgrp', 'chmod', 'chown'].includes(command.program) || !hasRecursiveFlag(command)) return null
+      const target = command.args.find(value => {
+        const resolved = value.startsWith('-') ? null : resolveTarget(value, context)
+        return resolved !== null && isSystemPath(resolved, context)
+      })
+      return target === undefined ? null : t('policy.permissionsSystemPath', { program: command.program, target })
+    },
+    id: 'permissions-system-path',
+    severity: 'critical',
+  },
+  {
+    check(command, context) {
+      const target = [...writeTargets(command), ...command.args.filter(arg => arg.startsWith('of=')).map(arg => arg.slice(3))]
+        .map(value => resolveTarget(value, context) ?? value)
+        .find(value => context.dialect === 'bash' && value.startsWith('/dev/') && !SAFE_DEVICES.has(value) && !value.startsWith('/dev/fd/'))
+      return target ? t('policy.writeDevice', { target }) : null
+    },
+    id: 'write-device',
+    severity: 'critical',
+  },
+  {
+    check({ args, program }, context) {
+      const disk = program.startsWith('mkfs') || ['clear-disk', 'diskpart', 'fdisk', 'format-volume', 'initialize-disk', 'parted', 'sfdisk', 'wipefs'].includes(program)
+      // `format` di Linux bukan tool disk; di Windows butuh huruf drive
+      const format = program === 'format' && (context.dialect !== 'bash' || args.some(arg => /^[a-z]:$/i.test(arg)))
+      return disk || format ? t('policy.formatDisk', { program }) : null
+    },
+    id: 'format-disk',
+    severity: 'critical',
+  },
+  {
+    check(command, context) {
+      const found = deletion(command, context.dialect)
+      if (!found) return null
+      const target = found.targets.find(value => {
+        const resolved = resolveTarget(value, context)
+        return resolved === null || (!isInsideCwd(resolved, context) && resolved !== context.cwd && !isSystemPath(resolved, context))
+      })
+      if (target === undefined) return null
+      // Path dari variabel tidak bisa dibuktikan ada di dalam folder kerja
+      return t(resolveTarget(target, context) === null ? 'policy.deleteUnknownPath' : 'policy.deleteOutsideCwd', { target })
+    },
+    id: 'delete-outside-cwd',
+    severity: 'high',
+  },
+  {
+    check(command, context) {
+      const found = deletion(command, context.dialect)
+      return found?.recursive ? t('policy.recursiveDelete', { targets: found.targets.join(' ') }) : null
+    },
+    id: 'recursive-delete',
+    severity: 'high',
+  },
+  {
+    check: ({ args, program }) => (program === 'find' && args.includes('-delete') ? t('policy.findDelete') : null),
+    id: 'find-delete',
+    severity: 'high',
+  },
+  {
+    check({ args, elevatedBy, program }) {
+      if (elevatedBy) return t('policy.privilege', { program: elevatedBy })
+      const runAs = program === 'start-process' && args.some((arg, index) => /^-verb$/i.test(args[index - 1] ?? '') && /^runas$/i.test(arg))
+      return runAs ? t('policy.privilege', { program: 'Start-Process -Verb RunAs' }) : null
+    },
+    id: 'privilege-escalation',
+    severity: 'high',
+  },
+  {
+    check({ args, pipedFrom, pipedScript, program }) {
+      if (!INTERPRETERS.has(program)) return null
+      // Hanya argumen yang dieksekusi (substitution atau iex), bukan nama file biasa
+      const script = args.join(' ')
+      const executed = Object.hasOwn(EVALUATORS, program) || /\$\(|<\(|`/.test(script)
+      // Output lain yang menjadi script shell tidak bisa diperiksa; echo/printf literal sudah di-parse
+      const piped = SHELLS[program] && !pipedScript && readsScriptFromStdin(args) ? pipedFrom.at(-1) : undefined
+      const source = pipedFrom.find(from => DOWNLOADERS.has(from)) ?? (executed ? script.match(DOWNLOADER_PATTERN)?.[1] : undefined) ?? piped
+      return source ? t('policy.pipeToShell', { shell: program, source }) : null
+    },
+    id: 'pipe-to-shell',
+    severity: 'high',
+  },
+  {
+    check: ({ program }) => (program === 'dd' ? t('policy.diskWrite') : null),
+    id: 'raw-disk-write',
+    severity: 'high',
+  },
+  {
+    check(command, context) {
+      const target = writeTargets(command).find(value => {
+        const resolved = resolveTarget(value, context)
+        return resolved !== null && !resolved.startsWith('/dev/') && isUnderSystemPath(resolved, context)
+      })
+      return target ? t('policy.writeSystemPath', { target }) : null
+    },
+    id: 'write-system-path',
+    severity: 'high',
+  },
+  {
+    check(command) {
+      const { args, program } = command
+      const recursive = (['chgrp', 'chmod', 'chown'].includes(program) && hasRecursiveFlag(command))
+        || (program === 'icacls' && args.some(arg => arg.toLowerCase() === '/t'))
+        || (program === 'takeown' && args.some(arg => arg.toLowerCase() === '/r'))
+      return recursive ? t('policy.recursivePermissions', { program }) : null
+    },
+    id: 'recursive-permissions',
+    severity: 'high',
+  },
+  {
+    check({ args, program }) {
+      const power = ['halt', 'poweroff', 'reboot', 'restart-computer', 'shutdown', 'stop-computer'].includes(program)
+        || (program === 'systemctl' && ['halt', 'poweroff', 'reboot'].includes(args[0]))
+        || (program === 'init' && ['0', '6'].includes(args[0]))
+      return power ? t('policy.powerState', { program }) : null
+    },
+    id: 'power-state',
+    severity: 'high',
+  },
+  {
+    check({ args, program }) {
+      if (program !== 'git') return null
+      if (args[0] === 'reset' && args.includes('--hard')) return t('policy.gitDiscard', { command: 'git reset --hard' })
+      if (args[0] === 'clean' && args.some(arg => arg === '--force' || /^-[^-]*f/.test(arg))) {
+        return t('policy.gitDiscard', { command: 'git clean -f' })
+      }
+
+      return null
+    },
+    id: 'git-discard',
+    severity: 'high',
+  },
+  {
+    check: ({ args, program }) =>
+      program === 'git' && args[0] === 'push' && args.some(arg => /^(--force|--force-with-lease|-f)$/.test(arg) || arg.startsWith('+'))
+        ? t('policy.gitForcePush')
+        : null,
+    id: 'git-force-push',
+    severity: 'medium',
+  },
+  {
+    check(command, context) {
+      const found = deletion(command, context.dialect)
+      return found && !found.recursive ? t('policy.deleteFiles', { targets: found.targets.join(' ') }) : null
+    },
+    id: 'delete-files',
+    severity: 'medium',
+  },
+  {
+    check: ({ args, program }) => (program === 'chmod' && args.some(arg => /^(0?777|0?666|a\+w|o\+w)$/.test(arg)) ? t('policy.worldWritable') : null),
+    id: 'world-writable',
+    severity: 'medium',
+  },
+  {
+    check(command, context) {
+      const target = writeTargets(command).find(value => {
+        const resolved = resolveTarget(value, context)
+        return resolved !== null && !resolved.startsWith('/dev/') && !isInsideCwd(resolved, context) && !isUnderSystemPath(resolved, context)
+      })
+      return target ? t('policy.writeOutsideCwd', { target }) : null
+    },
+    id: 'write-outside-cwd',
+    severity: 'medium',
+  },
+]
+
+// Fork bomb tidak punya program yang jelas, jadi dicek pada input mentah
+const FORK_BOMB = /(\S+)\s*\(\)\s*\{[^}]*\1\s*\|\s*\1\s*&[^}]*\}\s*;?\s*\1/
+
+// ============================================
+// POLICY ENGINE
+// ============================================
+/**
+ * Evaluasi perintah shell terhadap rule bawaan + policyDeny, dengan pengecualian policyAllow.
+ * Rule critical tidak bisa dikecualikan.
+ */
+export class PolicyEngine {
+  private context: RuleContext
+
+  constructor(
+    private rules: PolicyRule[],
+    private allow: RegExp[],
+    dialect: ShellDialect,
+    cwd = process.cwd(),
+  ) {
+    const paths = dialect === 'bash' ? path.posix : path.win32
+    // Home di-resolve dengan gaya path dialeknya supaya `~` dan $HOME cocok dengan path target
+    this.context = { cwd: paths.resolve(cwd), dialect, home: paths.resolve(os.homedir()), paths }
+  }
+
+  evaluate(input: string): PolicyVerdict {
+    const violations: PolicyViolation[] = []
+
+    if (FORK_BOMB.test(input)) {
+      violations.push({ command: input.trim(), message: t('policy.forkBomb'), rule: 'fork-bomb', severity: 'critical' })
+    }
+
+    for (const command of parseCommand(input, this.context.dialect)) {
+      const allowed = this.allow.some(pattern => pattern.test(commandLine(command)))
+
+      for (const rule of this.rules) {
+        if (allowed && rule.severity !== 'critical') continue
+        const message = rule.check(command, this.context)
+        if (message) violations.push({ command: command.text, message, rule: rule.id, severity: rule.severity })
+      }
+    }
+
+    violations.sort((a, b) => SEVERITIES.indexOf(b.severity) - SEVERITIES.indexOf(a.severity))
+
+    return {
+      blocked: violations.some(violation => violation.severity === 'critical'),
+      destructive: violations.some(violation => violation.severity === 'high' || violation.severity === 'critical'),
+      violations,
+    }
+  }
+}
+
+/**
+ * Policy dari config: policyDeny berisi "severity:pola" (mis. "high:terraform destroy*"),
+ * policyAllow berisi pola perintah yang dikecualikan dari rule non-critical.
+ */
+export function createPolicy(config: Pick<AppConfig, 'policyAllow' | 'policyDeny'>, shell: string, cwd?: string): PolicyEngine {
+  const dialect: ShellDialect = shell === 'powershell' || shell === 'cmd' ? shell : 'bash'
+
+  const denied = (config.policyDeny ?? []).map((entry): PolicyRule => {
+    const match = entry.match(/^(\w+)\s*:\s*(.+)$/)
+    const severity = match?.[1].toLowerCase() as Severity
+    if (!match || !SEVERITIES.includes(severity)) {
+      throw new ConfigError(t('policy.invalidRule', { entry, severities: SEVERITIES.join(', ') }))
+    }
+
+    const pattern = globPattern(match[2])
+    return {
+      check: command => (pattern.test(commandLine(command)) ? t('policy.denyRule', { pattern: match[2].trim() }) : null),
+      id: `deny:${match[2].trim()}`,
+      severity,
+    }
+  })
+
+  const allowed = (config.policyAllow ?? []).map(entry => globPattern(entry))
+
+  return new PolicyEngine([...BUILTIN_RULES, ...denied], allowed, dialect, cwd)
+}
+
+// ============================================
+// DISPLAY
+// ============================================
+const SEVERITY_LABELS: Record<Severity, MessageKey> = {
+  critical: 'policy.severityCritical',
+  high: 'policy.severityHigh',
+  low: 'policy.severityLow',
+  medium: 'policy.severityMedium',
+}
+
+export function formatViolation({ command, message, rule, severity }: PolicyViolation): string {
+  return t('policy.violation', { command, message, rule, severity: t(SEVERITY_LABELS[severity]) })
+}
+
+// ============================================
+// HELPERS
+// ============================================
+/** Perintah dalam bentuk "program arg1 arg2" untuk dicocokkan dengan pola config */
+function commandLine({ args, program }: SimpleCommand): string {
+  return [program, ...args].join(' ')
+}
+
+/** Pola glob sederhana: `*` = apa saja; nama program tidak case-sensitive */
+function globPattern(pattern: string): RegExp {
+  const [program, ...rest] = pattern.trim().split(/\s+/)
+  const source = [normalizeProgram(program), ...rest].join(' ')
+  return new RegExp(`^${source.replaceAll(/[$()+.?[\\\]^{|}]/g, String.raw`\$&`).replaceAll('*', '.*')}$`)
+}
@@ -0,0 +1,515 @@
+// src/utills/preview.ts
+
+import chalk from 'chalk'
+import { spawn, spawnSync } from 'node:child_process'
+import { createHash } from 'node:crypto'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+// eslint-disable-next-line unicorn/import-style
+import * as path from 'node:path'
+
+import { t } from './i18n.js'
+import { PolicyVerdict } from './policy.js'
+import { SessionError, ShellSession } from './session.js'
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+export type ChangeKind = 'created' | 'deleted' | 'modified'
+
+export interface FileChange {
+  binary?: boolean
+  /** Unified diff (tanpa header file) untuk file teks */
+  diff?: string[]
+  kind: ChangeKind
+  path: string
+}
+
+export interface PreviewStepResult {
+  command: string
+  /** null jika step tidak dijalankan (step sebelumnya gagal) atau melewati batas waktu */
+  exitCode: null | number
+  timedOut?: boolean
+}
+
+export interface PreviewResult {
+  changes: FileChange[]
+  /** Folder yang tidak ikut disalin ke sandbox */
+  excluded: string[]
+  /** namespace: jaringan benar-benar mati; proxy: hanya lewat env proxy yang tidak valid */
+  network: 'namespace' | 'proxy'
+  steps: PreviewStepResult[]
+}
+
+export interface PreviewOptions {
+  cwd?: string
+  shell: string
+  /** Batas waktu per step dalam detik */
+  timeout: number
+}
+
+export interface PreviewStep {
+  command: string
+  cwd?: string
+}
+
+export class PreviewError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PreviewError'
+  }
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+/** Folder besar yang bisa dibuat ulang; tidak disalin supaya preview tetap cepat */
+const EXCLUDED_DIRS = new Set(['.git', 'node_modules'])
+const MAX_COPY_BYTES = 200 * 1024 * 1024
+const MAX_DIFF_BYTES = 256 * 1024
+const MAX_DIFF_LINES = 40
+const DIFF_CONTEXT = 2
+
+/**
+ * Rule policy untuk perintah yang menyentuh sesuatu di luar folder kerja (sistem, device,
+ * hak akses, remote). Sandbox hanya menyalin folder kerja, jadi step seperti ini tidak
+ * boleh dijalankan saat preview.
+ */
+const UNSAFE_RULES = new Set([
+  'delete-outside-cwd',
+  'delete-system-path',
+  'format-disk',
+  'git-force-push',
+  'permissions-system-path',
+  'pipe-to-shell',
+  'power-state',
+  'privilege-escalation',
+  'raw-disk-write',
+  'write-device',
+  'write-outside-cwd',
+  'write-system-path',
+])
+
+// Port 9 (discard) di loopback: request HTTP lewat proxy langsung gagal
+const DEAD_PROXY = 'http://127.0.0.1:9'
+
+// ============================================
+// GUARD
+// ============================================
+/** Alasan step tidak aman dijalankan di sandbox: rule policy, atau cwd di luar folder kerja */
+export function previewBlockers(step: PreviewStep, verdict: PolicyVerdict): string[] {
+  const blockers = verdict.violations.filter(violation => UNSAFE_RULES.has(violation.rule)).map(violation => violation.rule)
+  if (step.cwd && (path.isAbsolute(step.cwd) || path.normalize(step.cwd).startsWith('..'))) blockers.push('cwd-outside')
+
+  return blockers
+}
+
+// ============================================
+// RUN PREVIEW
+// ============================================
+/**
+ * Jalankan step di salinan sementara folder kerja (jaringan dimatikan jika bisa), lalu
+ * bandingkan isi sandbox sebelum dan sesudahnya. Folder asli tidak disentuh.
+ */
+export async function runPreview(steps: PreviewStep[], options: PreviewOptions): Promise<PreviewResult> {
+  const source = path.resolve(options.cwd ?? process.cwd())
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'aicli-preview-'))
+  const work = path.join(root, path.basename(source))
+  const home = path.join(root, '.home')
+
+  try {
+    copyTree(source, work)
+    // Baseline dari salinan, supaya symlink yang disalin isinya tidak terhitung sebagai perubahan
+    const before = snapshot(work)
+    fs.mkdirSync(home)
+
+    const network = canIsolateNetwork() ? 'namespace' : 'proxy'
+    const env = sandboxEnv(home)
+    const results = await runSteps(steps, work, {
+      env,
+      shell: options.shell,
+      timeout: options.timeout * 1000,
+      wrapper: network === 'namespace' ? ['unshare', '-rn'] : [],
+    })
+
+    const excluded = fs.readdirSync(source).filter(name => EXCLUDED_DIRS.has(name))
+    return { changes: compare(before, snapshot(work), source, work), excluded, network, steps: results }
+  } finally {
+    fs.rmSync(root, { force: true, recursive: true })
+  }
+}
+
+interface RunOptions {
+  env: NodeJS.ProcessEnv
+  shell: string
+  timeout: number
+  wrapper: string[]
+}
+
+async function runSteps(steps: PreviewStep[], work: string, options: RunOptions): Promise<PreviewStepResult[]> {
+  const results: PreviewStepResult[] = steps.map(step => ({ command: step.command, exitCode: null }))
+  const session = ShellSession.start(options.shell, work, { env: options.env, quiet: true, wrapper: options.wrapper })
+
+  try {
+    for (const [i, step] of steps.entries()) {
+      const cwd = step.cwd ? path.resolve(work, step.cwd) : undefined
+
+      // eslint-disable-next-line no-await-in-loop
+      const outcome = await (session
+        ? runInSession(session, { command: step.command, cwd }, options.timeout)
+        : runProcess(step.command, cwd ?? work, options))
+
+      results[i] = { command: step.command, ...outcome }
+      // Sama seperti eksekusi asli: berhenti di step pertama yang gagal
+      if (outcome.exitCode !== 0) break
+    }
+  } finally {
+    session?.kill()
+  }
+
+  return results
+}
+
+async function runInSession(
+  session: ShellSession,
+  step: PreviewStep,
+  timeout: number,
+): Promise<Omit<PreviewStepResult, 'command'>> {
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    session.kill()
+  }, timeout)
+
+  try {
+    return { exitCode: (await session.run(step)).code }
+  } catch (error: unknown) {
+    if (!(error instanceof SessionError)) throw error
+    return timedOut ? { exitCode: null, timedOut } : { exitCode: 1 }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/** Fallback untuk shell tanpa session (cmd): satu proses per step */
+async function runProcess(command: string, cwd: string, options: RunOptions): Promise<Omit<PreviewStepResult, 'command'>> {
+  return new Promise(resolve => {
+    const child = spawn(command, [], { cwd, env: options.env, shell: true, stdio: 'ignore', timeout: options.timeout })
+    child.on('error', () => resolve({ exitCode: 1 }))
+    child.on('close', (code, signal) => resolve(signal ? { exitCode: null, timedOut: true } : { exitCode: code ?? 1 }))
+  })
+}
+
+// ============================================
+// SANDBOX ENVIRONMENT
+// ============================================
+/** unshare tanpa root (user namespace) tersedia di sebagian besar Linux modern */
+function canIsolateNetwork(): boolean {
+  if (os.platform() !== 'linux') return false
+  return spawnSync('unshare', ['-rn', 'true'], { stdio: 'ignore', timeout: 5000 }).status === 0
+}
+
+/** HOME diarahkan ke sandbox supaya ~ tidak menunjuk ke home asli; semua proxy mati */
+function sandboxEnv(home: string): NodeJS.ProcessEnv {
+  return {
+    ...process.env,
+    ALL_PROXY: DEAD_PROXY,
+    'all_proxy': DEAD_PROXY,
+    HOME: home,
+    HTTP_PROXY: DEAD_PROXY,
+    'http_proxy': DEAD_PROXY,
+    HTTPS_PROXY: DEAD_PROXY,
+    'https_proxy': DEAD_PROXY,
+    NO_PROXY: '',
+    'no_proxy': '',
+    'npm_config_offline': 'true',
+    USERPROFILE: home,
+  }
+}
+
+// ============================================
+// SNAPSHOT & DIFF
+// ============================================
+interface DiffOp {
+  line: string
+  type: ' ' | '+' | '-'
+}
+
+interface FileState {
+  hash: string
+}
+
+/** Hash semua file di sandbox */
+function snapshot(root: string): Map<string, FileState> {
+  const files = new Map<string, FileState>()
+
+  const walk = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (EXCLUDED_DIRS.has(entry.name)) continue
+      const full = path.join(dir, entry.name)
+      const relative = path.relative(root, full).split(path.sep).join('/')
+
+      if (entry.isDirectory()) {
+        walk(full)
+      } else if (entry.isSymbolicLink()) {
+        const target = fs.readlinkSync(full)
+        files.set(relative, { hash: `link:${target}` })
+      } else if (entry.isFile()) {
+        const content = fs.readFileSync(full)
+        files.set(relative, { hash: createHash('sha1').update(content).digest('hex') })
+      }
+    }
+  }
+
+  walk(root)
+  return files
+}
+
+/**
+ * Salin folder kerja tanpa EXCLUDED_DIRS. Symlink ke luar folder kerja membuat preview
+ * ditolak, karena step bisa mengubah file asli lewat link tersebut; symlink di dalamnya
+ * disalin isinya. Berhenti dengan PreviewError jika totalnya melewati MAX_COPY_BYTES.
+ */
+function copyTree(source: string, target: string): void {
+  const root = fs.realpathSync(source)
+  let total = 0
+
+  const copy = (from: string, to: string) => {
+    fs.mkdirSync(to, { recursive: true })
+
+    for (const entry of fs.readdirSync(from, { withFileTypes: true })) {
+      if (EXCLUDED_DIRS.has(entry.name)) continue
+      const child = path.join(from, entry.name)
+      const dest = path.join(to, entry.name)
+      const real = entry.isSymbolicLink() ? linkTarget(child, root) : child
+      const stat = fs.statSync(real, { throwIfNoEntry: false })
+
+      if (!stat || (stat.isDirectory() && isInside(from, real))) {
+        // Link putus atau link ke folder induknya sendiri: tetap link, tapi ke lokasi yang sama di sandbox
+        fs.symlinkSync(path.relative(to, path.join(target, path.relative(root, real))), dest)
+      } else if (stat.isDirectory()) {
+        copy(real, dest)
+      } else if (stat.isFile()) {
+        total += stat.size
+        if (total > MAX_COPY_BYTES) throw new PreviewError(t('preview.tooLarge', { limit: MAX_COPY_BYTES / 1024 / 1024 }))
+        fs.copyFileSync(real, dest)
+      }
+    }
+  }
+
+  copy(root, target)
+}
+
+/** Path asli yang ditunjuk symlink; PreviewError jika berada di luar folder kerja (root) */
+function linkTarget(link: string, root: string): string {
+  let real: string
+  try {
+    real = fs.realpathSync(link)
+  } catch {
+    // Link putus tetap berbahaya: menulis ke link itu membuat file di target-nya
+    real = path.resolve(path.dirname(link), fs.readlinkSync(link))
+  }
+
+  if (!isInside(real, root)) {
+    throw new PreviewError(t('preview.linkOutside', { link: path.relative(root, link), target: real }))
+  }
+
+  return real
+}
+
+/** True jika file sama dengan dir atau berada di dalamnya */
+function isInside(file: string, dir: string): boolean {
+  const relative = path.relative(dir, file)
+  return !relative.startsWith('..') && !path.isAbsolute(relative)
+}
+
+function compare(before: Map<string, FileState>, after: Map<string, FileState>, source: string, work: string): FileChange[] {
+  const changes: FileChange[] = []
+
+  for (const [file, state] of after) {
+    const previous = before.get(file)
+    if (!previous) {
+      changes.push(withDiff({ kind: 'created', path: file }, null, path.join(work, file)))
+    } else if (previous.hash !== state.hash) {
+      // Isi lama dibaca lewat path asli, karena file dari symlink sudah disalin isinya ke sandbox
+      changes.push(withDiff({ kind: 'modified', path: file }, fs.realpathSync(path.join(source, file)), path.join(work, file)))
+    }
+  }
+
+  for (const file of before.keys()) {
+    if (!after.has(file)) changes.push({ kind: 'deleted', path: file })
+  }
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path))
+}
+
+function withDiff(change: FileChange, oldPath: null | string, newPath: string): FileChange {
+  const oldContent = oldPath ? readText(oldPath) : ''
+  const newContent = readText(newPath)
+  if (oldContent === null || newContent === null) return { ...change, binary: true }
+
+  return { ...change, diff: diffLines(oldContent, newContent) }
+}
+
+/** Isi file sebagai teks; null untuk file biner, symlink atau file yang terlalu besar */
+function readText(file: string): null | string {
+  const stat = fs.lstatSync(file)
+  if (!stat.isFile() || stat.size > MAX_DIFF_BYTES) return null
+
+  const content = fs.readFileSync(file)
+  return content.subarray(0, 8000).includes(0) ? null : content.toString('utf8')
+}
+
+/**
+ * Unified diff sederhana berbasis LCS per baris, dengan konteks DIFF_CONTEXT baris
+ * di sekitar setiap perubahan.
+ */
+function diffLines(oldText: string, newText: string): string[] {
+  const a = splitLines(oldText)
+  const b = splitLines(newText)
+
+  // Baris yang sama di awal/akhir tidak perlu masuk tabel LCS
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let end = 0
+  while (end < a.length - start && end < b.length - start && a.at(-1 - end) === b.at(-1 - end)) end++
+
+  const middleA = a.slice(start, a.length - end)
+  const middleB = b.slice(start, b.length - end)
+  const ops: DiffOp[] = [
+    ...a.slice(0, start).map(line => ({ line, type: ' ' as const })),
+    ...lcsOps(middleA, middleB),
+    ...a.slice(a.length - end).map(line => ({ line, type: ' ' as const })),
+  ]
+
+  return toHunks(ops)
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return []
+  const lines = text.split(/\r?\n/)
+  if (lines.at(-1) === '') lines.pop()
+  return lines
+}
+
+function lcsOps(a: string[], b: string[]): DiffOp[] {
+  // Tabel terlalu besar: tampilkan sebagai hapus semua lalu tambah semua
+  if (a.length * b.length > 4_000_000) {
+    return [...a.map(line => ({ line, type: '-' as const })), ...b.map(line => ({ line, type: '+' as const }))]
+  }
+
+  const table = Array.from({ length: a.length + 1 }, () => Array.from({ length: b.length + 1 }, () => 0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1])
+    }
+  }
+
+  const ops: DiffOp[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ line: a[i++], type: ' ' })
+      j++
+    } else if (i < a.length && (j === b.length || table[i + 1][j] >= table[i][j + 1])) {
+      // Baris yang dihapus ditulis lebih dulu, seperti diff pada umumnya
+      ops.push({ line: a[i++], type: '-' })
+    } else {
+      ops.push({ line: b[j++], type: '+' })
+    }
+  }
+
+  return ops
+}
+
+function toHunks(ops: DiffOp[]): string[] {
+  const lines: string[] = []
+  let oldLine = 1
+  let newLine = 1
+  let index = 0
+
+  while (index < ops.length) {
+    // Cari perubahan berikutnya
+    const change = ops.findIndex((op, i) => i >= index && op.type !== ' ')
+    if (change === -1) break
+
+    const hunkStart = Math.max(index, change - DIFF_CONTEXT)
+    oldLine += hunkStart - index
+    newLine += hunkStart - index
+
+    // Perluas hunk selama jarak antar perubahan masih dalam 2x konteks
+    let hunkEnd = change
+    for (let i = change; i < ops.length; i++) {
+      if (ops[i].type !== ' ') hunkEnd = i
+      else if (i - hunkEnd > DIFF_CONTEXT * 2) break
+    }
+
+    hunkEnd = Math.min(ops.length - 1, hunkEnd + DIFF_CONTEXT)
+    const hunk = ops.slice(hunkStart, hunkEnd + 1)
+    const oldCount = hunk.filter(op => op.type !== '+').length
+    const newCount = hunk.filter(op => op.type !== '-').length
+
+    // Hunk kosong menunjuk ke baris sebelum posisinya (format unified diff)
+    const oldStart = oldCount === 0 ? oldLine - 1 : oldLine
+    const newStart = newCount === 0 ? newLine - 1 : newLine
+    lines.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`, ...hunk.map(op => `${op.type}${op.line}`))
+    oldLine += oldCount
+    newLine += newCount
+    index = hunkEnd + 1
+  }
+
+  return lines
+}
+
+// ============================================
+// DISPLAY
+// ============================================
+const CHANGE_STYLES: Record<ChangeKind, { color: (text: string) => string; symbol: string }> = {
+  created: { color: chalk.green, symbol: '+' },
+  deleted: { color: chalk.red, symbol: '-' },
+  modified: { color: chalk.yellow, symbol: '~' },
+}
+
+/** Render hasil preview sebagai baris-baris teks untuk terminal */
+export function formatPreview({ changes, excluded, network, steps }: PreviewResult): string[] {
+  const lines = [chalk.cyan(t(network === 'namespace' ? 'preview.titleIsolated' : 'preview.titleProxy'))]
+
+  for (const [i, step] of steps.entries()) {
+    const label = t('preview.step', { command: step.command, current: i + 1, total: steps.length })
+    if (step.timedOut) lines.push(chalk.red(`${label} — ${t('preview.timedOut')}`))
+    else if (step.exitCode === null) lines.push(chalk.gray(`${label} — ${t('preview.notRun')}`))
+    else if (step.exitCode === 0) lines.push(chalk.green(`${label} — ${t('preview.exitOk')}`))
+    else lines.push(chalk.red(`${label} — ${t('preview.exitFailed', { code: step.exitCode })}`))
+  }
+
+  if (changes.length === 0) {
+    lines.push(chalk.gray(t('preview.noChanges')))
+  } else {
+    lines.push(chalk.cyan(t('preview.changes', { count: changes.length })))
+    for (const change of changes) lines.push(...formatChange(change))
+  }
+
+  if (excluded.length > 0) lines.push(chalk.gray(t('preview.excluded', { dirs: excluded.join(', ') })))
+
+  return lines
+}
+
+function formatChange({ binary, diff, kind, path: file }: FileChange): string[] {
+  const { color, symbol } = CHANGE_STYLES[kind]
+  const width = Math.max(...Object.keys(CHANGE_STYLES).map(key => t(`preview.${key as ChangeKind}`).length))
+  const lines = [color(`   ${symbol} ${t(`preview.${kind}`).padEnd(width)} ${file}`)]
+  if (binary) lines.push(chalk.gray(`       ${t('preview.binary')}`))
+  if (!diff) return lines
+
+  for (const line of diff.slice(0, MAX_DIFF_LINES)) {
+    const style = line.startsWith('@@') ? chalk.cyan : line.startsWith('+') ? chalk.green : line.startsWith('-') ? chalk.red : chalk.gray
+    lines.push(`       ${style(line)}`)
+  }
+
+  if (diff.length > MAX_DIFF_LINES) {
+    lines.push(chalk.gray(`       ${t('preview.moreLines', { count: diff.length - MAX_DIFF_LINES })}`))
+  }
+
+  return lines
+}
@@ -0,0 +1,225 @@
+// src/utills/prompter.ts
+
+import { confirm, editor, input, password, select } from '@inquirer/prompts'
+import { Flags } from '@oclif/core'
+import { stripVTControlCharacters } from 'node:util'
+
+import { t } from './i18n.js'
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+export interface PromptFlags {
+  'allow-destructive'?: boolean
+  input?: boolean
+  no?: boolean
+  yes?: boolean
+}
+
+export interface ConfirmOptions {
+  default: boolean
+  /** Ditandai policy: --yes saja tidak cukup, butuh --allow-destructive */
+  destructive?: boolean
+  /** Tambahkan pilihan "jelaskan dulu"; dipanggil sekali lalu user ditanya lagi */
+  explain?: () => Promise<void>
+  message: string
+}
+
+/** Pilihan tambahan di menu konfirmasi, hanya bisa dipilih user (bukan lewat --yes/--no) */
+export interface ChoiceOption<T extends string> {
+  name: string
+  value: T
+}
+
+export interface EditOptions {
+  default: string
+  message: string
+}
+
+export interface InputOptions {
+  default?: string
+  message: string
+  validate?: (value: string) => boolean | string
+}
+
+export interface SelectOptions<T extends string> {
+  choices: Array<{ name: string; value: T }>
+  default?: T
+  message: string
+}
+
+export class PromptError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PromptError'
+  }
+}
+
+// ============================================
+// PROMPTS
+// ============================================
+/**
+ * Prompt @inquirer yang dipanggil Prompter. Lewat objek, bukan import langsung, supaya test
+ * bisa menggantinya dengan jawaban tetap.
+ */
+export const prompts: { confirm: typeof confirm; editor: typeof editor; input: typeof input; password: typeof password; select: typeof select } = {
+  confirm,
+  editor,
+  input,
+  password,
+  select,
+}
+
+// ============================================
+// FLAGS
+// ============================================
+export const promptFlags = {
+  'allow-destructive': Flags.boolean({
+    description: 'Izinkan --yes menjalankan aksi yang ditandai berpotensi merusak',
+  }),
+  input: Flags.boolean({
+    allowNo: true,
+    description: 'Izinkan prompt interaktif; --no-input untuk script/CI (otomatis jika stdin bukan TTY)',
+  }),
+  no: Flags.boolean({
+    description: 'Jawab "tidak" untuk semua konfirmasi',
+    exclusive: ['yes'],
+  }),
+  yes: Flags.boolean({
+    char: 'y',
+    description: 'Jawab "ya" untuk semua konfirmasi',
+    exclusive: ['no'],
+  }),
+}
+
+// ============================================
+// PROMPTER
+// ============================================
+/**
+ * Pengganti confirm/input dari @inquirer/prompts yang aman dipakai tanpa TTY:
+ * jawaban diambil dari --yes/--no, dan jika tidak ada jawaban maka gagal dengan jelas
+ * (bukan hang menunggu stdin).
+ */
+export class Prompter {
+  constructor(
+    private flags: PromptFlags,
+    private isTTY = Boolean(process.stdin.isTTY),
+  ) {}
+
+  /** Konfirmasi bisa dijawab "ya", oleh user atau lewat --yes */
+  get canConfirm(): boolean {
+    return !this.flags.no && (Boolean(this.flags.yes) || this.interactive)
+  }
+
+  /** Boleh menampilkan prompt ke user */
+  get interactive(): boolean {
+    return this.flags.input !== false && this.isTTY
+  }
+
+  /**
+   * Konfirmasi dengan pilihan tambahan (mis. edit, salin). --yes/--no menjawab "yes"/"no";
+   * pilihan tambahan hanya muncul di terminal interaktif.
+   */
+  async choose<T extends string>(options: ConfirmOptions, choices: ChoiceOption<T>[]): Promise<'no' | 'yes' | T> {
+    if (this.flags.no) return 'no'
+
+    if (this.flags.yes) {
+      if (options.destructive && !this.flags['allow-destructive']) {
+        throw new PromptError(t('prompter.destructive'))
+      }
+
+      return 'yes'
+    }
+
+    if (!this.interactive) {
+      throw new PromptError(t('prompter.needsConfirm', { message: plain(options.message) }))
+    }
+
+    if (options.explain || choices.length > 0) {
+      return this.selectChoice(options, choices, options.explain)
+    }
+
+    return (await prompts.confirm({ default: options.default, message: options.message })) ? 'yes' : 'no'
+  }
+
+  async confirm(options: ConfirmOptions): Promise<boolean> {
+    return (await this.choose(options, [])) === 'yes'
+  }
+
+  /**
+   * Edit teks: lewat $VISUAL/$EDITOR jika di-set, selain itu inline (Tab mengisi teks awal)
+   */
+  async edit(options: EditOptions): Promise<string> {
+    if (!this.interactive) {
+      throw new PromptError(t('prompter.needsInput', { message: plain(options.message) }))
+    }
+
+    if (process.env.VISUAL || process.env.EDITOR) {
+      const text = await prompts.editor({ default: options.default, message: options.message, postfix: '.sh', waitForUseInput: false })
+      return text.trim()
+    }
+
+    const text = await prompts.input({ default: options.default, message: `${options.message} ${t('prompter.editHint')}` })
+    return text.trim()
+  }
+
+  async input(options: InputOptions): Promise<string> {
+    if (!this.interactive) {
+      throw new PromptError(t('prompter.needsInput', { message: plain(options.message) }))
+    }
+
+    return prompts.input(options)
+  }
+
+  /** Input rahasia (API key): ketikan ditampilkan sebagai `*` */
+  async password(options: { message: string }): Promise<string> {
+    if (!this.interactive) {
+      throw new PromptError(t('prompter.needsInput', { message: plain(options.message) }))
+    }
+
+    return prompts.password({ mask: '*', message: options.message })
+  }
+
+  async select<T extends string>(options: SelectOptions<T>): Promise<T> {
+    if (!this.interactive) {
+      throw new PromptError(t('prompter.needsInput', { message: plain(options.message) }))
+    }
+
+    return prompts.select(options)
+  }
+
+  private async selectChoice<T extends string>(
+    options: ConfirmOptions,
+    choices: ChoiceOption<T>[],
+    explain?: () => Promise<void>,
+  ): Promise<'no' | 'yes' | T> {
+    const answer = await prompts.select<'explain' | 'no' | 'yes' | T>({
+      choices: [
+        { name: t('prompter.choiceYes'), value: 'yes' },
+        ...choices,
+        ...(explain ? [{ name: t('prompter.choiceExplain'), value: 'explain' as const }] : []),
+        { name: t('prompter.choiceNo'), value: 'no' },
+      ],
+      default: options.default ? 'yes' : 'no',
+      message: options.message,
+    })
+
+    if (answer === 'explain') {
+      await explain?.()
+      return this.selectChoice(options, choices)
+    }
+
+    return answer
+  }
+}
+
+/**
+ * Buat prompter dari flags. Mode --json tidak pernah bertanya: tanpa --yes semua konfirmasi dijawab "tidak".
+ */
+export function createPrompter(flags: PromptFlags, json = false): Prompter {
+  return json ? new Prompter({ ...flags, input: false, no: !flags.yes }) : new Prompter(flags)
+}
+
+function plain(message: string): string {
+  return stripVTControlCharacters(message).trim()
+}
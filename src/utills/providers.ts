@@ -0,0 +1,552 @@
+// src/utills/providers.ts
+
+import { GoogleGenerativeAI, HarmBlockThreshold, HarmCategory, ResponseSchema } from '@google/generative-ai'
+import { Flags } from '@oclif/core'
+import { createHash } from 'node:crypto'
+import * as fs from 'node:fs'
+// eslint-disable-next-line unicorn/import-style
+import * as path from 'node:path'
+
+import { t } from './i18n.js'
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+export interface GenerateOptions {
+  maxOutputTokens?: number
+  /** Jika diisi, response di-stream dan setiap potongan teks dikirim ke callback ini */
+  onText?: (chunk: string) => void
+  /** Minta response berupa JSON sesuai schema ini (structured output) */
+  responseSchema?: JsonSchema
+  /** Membatalkan request (mis. saat Ctrl+C) */
+  signal?: AbortSignal
+  temperature?: number
+  topK?: number
+  topP?: number
+}
+
+/**
+ * Subset JSON Schema yang didukung structured output Gemini, OpenAI, dan Ollama
+ */
+export interface JsonSchema {
+  description?: string
+  enum?: string[]
+  items?: JsonSchema
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  type: 'array' | 'boolean' | 'integer' | 'number' | 'object' | 'string'
+}
+
+export interface GenerateResult {
+  /** true jika response berasal dari cache (lihat CachedProvider) */
+  cached?: boolean
+  text: string
+  /** Jumlah token yang dilaporkan provider (tidak semua backend melaporkannya) */
+  usage?: TokenUsage
+}
+
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+/**
+ * Kontrak bersama untuk semua backend LLM (Gemini, OpenAI-compatible, Ollama, dll)
+ */
+export interface LLMProvider {
+  generate(prompt: string, options?: GenerateOptions): Promise<GenerateResult>
+  readonly model: string
+  readonly name: string
+}
+
+/**
+ * Subset config yang dibutuhkan untuk membangun provider (lihat AppConfig)
+ */
+export interface ProviderSelection {
+  geminiApiKey?: string
+  llamacppHost?: string
+  model?: string
+  models?: string[]
+  ollamaHost?: string
+  openaiApiKey?: string
+  openaiBaseUrl?: string
+  provider?: string
+}
+
+export class ProviderError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProviderError'
+  }
+}
+
+export const PROVIDER_NAMES = ['gemini', 'openai', 'ollama', 'llamacpp', 'replay', 'record'] as const
+export type ProviderName = (typeof PROVIDER_NAMES)[number]
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  gemini: 'gemini-2.0-flash-exp',
+  llamacpp: 'local',
+  ollama: 'llama3.1',
+  openai: 'gpt-4o-mini',
+  record: '',
+  replay: 'replay',
+}
+
+/**
+ * Flag bersama untuk memilih provider & model di setiap command
+ */
+export const providerFlags = {
+  model: Flags.string({
+    description: 'Nama model yang digunakan (default: MODEL_NAME atau default provider)',
+  }),
+  provider: Flags.string({
+    description: 'Backend LLM yang digunakan (default: AI_PROVIDER atau gemini)',
+    options: [...PROVIDER_NAMES],
+  }),
+}
+
+// ============================================
+// GEMINI
+// ============================================
+const GEMINI_SAFETY_SETTINGS = [
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+]
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini'
+  private client: GoogleGenerativeAI
+
+  constructor(apiKey: string, readonly model: string) {
+    this.client = new GoogleGenerativeAI(apiKey)
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<GenerateResult> {
+    const { onText, responseSchema, signal, ...generationConfig } = options
+    const model = this.client.getGenerativeModel({ model: this.model })
+    const request = {
+      contents: [{ parts: [{ text: prompt }], role: 'user' }],
+      generationConfig: {
+        ...generationConfig,
+        // Bentuk schema sama dengan SDK; tipe enum SchemaType berisi string yang sama
+        ...(responseSchema && { responseMimeType: 'application/json', responseSchema: responseSchema as unknown as ResponseSchema }),
+      },
+      safetySettings: GEMINI_SAFETY_SETTINGS,
+    }
+
+    if (!onText) {
+      const result = await model.generateContent(request, { signal })
+      return { text: result.response.text(), usage: geminiUsage(result.response.usageMetadata) }
+    }
+
+    const result = await model.generateContentStream(request, { signal })
+    let text = ''
+    for await (const chunk of result.stream) {
+      const piece = chunk.text()
+      text += piece
+      onText(piece)
+    }
+
+    return { text, usage: geminiUsage((await result.response).usageMetadata) }
+  }
+}
+
+function geminiUsage(metadata?: { candidatesTokenCount?: number; promptTokenCount: number }): TokenUsage | undefined {
+  return metadata && { inputTokens: metadata.promptTokenCount, outputTokens: metadata.candidatesTokenCount ?? 0 }
+}
+
+// ============================================
+// OPENAI-COMPATIBLE (OpenAI, llama.cpp server, vLLM, LM Studio, dll)
+// ============================================
+interface OpenAIChunk {
+  choices?: { delta?: { content?: string }; message?: { content?: string } }[]
+  usage?: null | { completion_tokens: number; prompt_tokens: number }
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  constructor(
+    readonly name: string,
+    readonly model: string,
+    private baseUrl: string,
+    private apiKey?: string,
+  ) {}
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<GenerateResult> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`
+    }
+
+    const response = await post(this.name, `${trimSlash(this.baseUrl)}/chat/completions`, {
+      // eslint-disable-next-line camelcase
+      max_tokens: options.maxOutputTokens,
+      messages: [{ content: prompt, role: 'user' }],
+      model: this.model,
+      // eslint-disable-next-line camelcase
+      response_format: options.responseSchema && { json_schema: { name: 'response', schema: options.responseSchema }, type: 'json_schema' },
+      stream: Boolean(options.onText),
+      // Minta chunk terakhir berisi jumlah token
+      // eslint-disable-next-line camelcase
+      stream_options: options.onText ? { include_usage: true } : undefined,
+      temperature: options.temperature,
+      // eslint-disable-next-line camelcase
+      top_p: options.topP,
+    }, { headers, signal: options.signal })
+
+    if (!options.onText) {
+      const data = (await response.json()) as OpenAIChunk
+      return { text: data.choices?.[0]?.message?.content ?? '', usage: openaiUsage(data) }
+    }
+
+    // Server-Sent Events: "data: {...}" per baris, diakhiri "data: [DONE]"
+    let text = ''
+    let usage: TokenUsage | undefined
+    await readLines(response, line => {
+      const payload = line.replace(/^data:\s*/, '')
+      if (!line.startsWith('data:') || payload === '[DONE]') return
+
+      const chunk = JSON.parse(payload) as OpenAIChunk
+      const piece = chunk.choices?.[0]?.delta?.content ?? ''
+      usage = openaiUsage(chunk) ?? usage
+      if (piece) {
+        text += piece
+        options.onText?.(piece)
+      }
+    })
+
+    return { text, usage }
+  }
+}
+
+function openaiUsage(chunk: OpenAIChunk): TokenUsage | undefined {
+  return chunk.usage ? { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens } : undefined
+}
+
+// ============================================
+// OLLAMA (local)
+// ============================================
+interface OllamaChunk {
+  eval_count?: number
+  message?: { content?: string }
+  prompt_eval_count?: number
+}
+
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama'
+
+  constructor(readonly model: string, private host: string) {}
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<GenerateResult> {
+    const response = await post(this.name, `${trimSlash(this.host)}/api/chat`, {
+      // Ollama menerima JSON schema langsung di `format`
+      format: options.responseSchema,
+      messages: [{ content: prompt, role: 'user' }],
+      model: this.model,
+      options: {
+        // eslint-disable-next-line camelcase
+        num_predict: options.maxOutputTokens,
+        temperature: options.temperature,
+        // eslint-disable-next-line camelcase
+        top_k: options.topK,
+        // eslint-disable-next-line camelcase
+        top_p: options.topP,
+      },
+      stream: Boolean(options.onText),
+    }, { headers: { 'Content-Type': 'application/json' }, signal: options.signal })
+
+    if (!options.onText) {
+      const data = (await response.json()) as OllamaChunk
+      return { text: data.message?.content ?? '', usage: ollamaUsage(data) }
+    }
+
+    // Ollama men-stream NDJSON: satu object per baris; jumlah token ada di object terakhir
+    let text = ''
+    let usage: TokenUsage | undefined
+    await readLines(response, line => {
+      const chunk = JSON.parse(line) as OllamaChunk
+      const piece = chunk.message?.content ?? ''
+      usage = ollamaUsage(chunk) ?? usage
+      if (piece) {
+        text += piece
+        options.onText?.(piece)
+      }
+    })
+
+    return { text, usage }
+  }
+}
+
+function ollamaUsage(chunk: OllamaChunk): TokenUsage | undefined {
+  if (chunk.prompt_eval_count === undefined && chunk.eval_count === undefined) return undefined
+  return { inputTokens: chunk.prompt_eval_count ?? 0, outputTokens: chunk.eval_count ?? 0 }
+}
+
+// ============================================
+// REPLAY / RECORD (offline & deterministic)
+// ============================================
+interface Fixture {
+  key?: string
+  match?: string
+  model?: string
+  prompt?: string
+  provider?: string
+  recordedAt?: string
+  response: string
+}
+
+/**
+ * Hash prompt yang dipakai sebagai nama file fixture (<key>.json)
+ */
+export function promptKey(prompt: string): string {
+  return createHash('sha256').update(prompt).digest('hex')
+}
+
+/**
+ * Menyajikan response yang sudah direkam dari folder fixtures tanpa akses network.
+ * Lookup: <key>.json (hash prompt), lalu fixture tulisan tangan dengan field `match`
+ * (substring yang harus ada di prompt).
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly name = 'replay'
+
+  constructor(readonly model: string, private fixturesDir: string) {}
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<GenerateResult> {
+    const text = this.lookup(prompt)
+
+    // Simulasikan streaming per baris supaya alur streaming ikut teruji
+    if (options.onText) {
+      for (const line of text.split(/(?<=\n)/)) {
+        options.onText(line)
+      }
+    }
+
+    return { text }
+  }
+
+  private lookup(prompt: string): string {
+    const key = promptKey(prompt)
+    const exact = path.join(this.fixturesDir, `${key}.json`)
+
+    if (fs.existsSync(exact)) {
+      return readFixture(exact).response
+    }
+
+    if (fs.existsSync(this.fixturesDir)) {
+      const files = fs.readdirSync(this.fixturesDir).filter(file => file.endsWith('.json')).sort()
+      for (const file of files) {
+        const fixture = readFixture(path.join(this.fixturesDir, file))
+        if (fixture.match && prompt.includes(fixture.match)) {
+          return fixture.response
+        }
+      }
+    }
+
+    throw new ProviderError(t('provider.noRecording', { dir: this.fixturesDir, key: key.slice(0, 12) }))
+  }
+}
+
+/**
+ * Membungkus provider live dan menyimpan setiap response sebagai fixture untuk replay
+ */
+export class RecordingProvider implements LLMProvider {
+  readonly name = 'record'
+
+  constructor(private inner: LLMProvider, private fixturesDir: string) {}
+
+  get model(): string {
+    return this.inner.model
+  }
+
+  async generate(prompt: string, options?: GenerateOptions): Promise<GenerateResult> {
+    const result = await this.inner.generate(prompt, options)
+    const key = promptKey(prompt)
+    const fixture: Fixture = {
+      key,
+      model: this.inner.model,
+      prompt,
+      provider: this.inner.name,
+      recordedAt: new Date().toISOString(),
+      response: result.text,
+    }
+
+    fs.mkdirSync(this.fixturesDir, { recursive: true })
+    fs.writeFileSync(path.join(this.fixturesDir, `${key}.json`), JSON.stringify(fixture, null, 2))
+
+    return result
+  }
+}
+
+function readFixture(file: string): Fixture {
+  try {
+    const fixture = JSON.parse(fs.readFileSync(file, 'utf8')) as Fixture
+    if (typeof fixture.response !== 'string') {
+      throw new TypeError(t('provider.fixtureResponse'))
+    }
+
+    return fixture
+  } catch (error: unknown) {
+    throw new ProviderError(t('provider.invalidFixture', { file, message: (error as Error).message }))
+  }
+}
+
+// ============================================
+// FACTORY
+// ============================================
+/**
+ * Membuat provider dari hasil config (lihat loadConfig)
+ */
+export function createProvider(selection: ProviderSelection = {}): LLMProvider {
+  const name = (selection.provider || 'gemini').toLowerCase()
+
+  if (!isProviderName(name)) {
+    throw new ProviderError(t('provider.unknown', { name, options: PROVIDER_NAMES.join(', ') }))
+  }
+
+  const model = selection.model || scopedModel(selection.models, name) || DEFAULT_MODELS[name]
+
+  switch (name) {
+    case 'gemini': {
+      if (!selection.geminiApiKey) {
+        throw new ProviderError(t('provider.missingGeminiKey'))
+      }
+
+      return new GeminiProvider(selection.geminiApiKey, model)
+    }
+
+    case 'llamacpp': {
+      return new OpenAICompatibleProvider(
+        name,
+        model,
+        `${trimSlash(selection.llamacppHost || 'http://localhost:8080')}/v1`,
+      )
+    }
+
+    case 'ollama': {
+      return new OllamaProvider(model, selection.ollamaHost || 'http://localhost:11434')
+    }
+
+    case 'openai': {
+      // Endpoint self-hosted boleh tanpa key, tapi api.openai.com wajib
+      if (!selection.openaiApiKey && !selection.openaiBaseUrl) {
+        throw new ProviderError(t('provider.missingOpenaiKey'))
+      }
+
+      return new OpenAICompatibleProvider(
+        name,
+        model,
+        selection.openaiBaseUrl || 'https://api.openai.com/v1',
+        selection.openaiApiKey,
+      )
+    }
+
+    case 'record': {
+      return createRecordingProvider(selection)
+    }
+
+    case 'replay': {
+      return new ReplayProvider(model, fixturesDir())
+    }
+  }
+}
+
+/**
+ * Provider live yang direkam, mis. AI_PROVIDER=record AI_RECORD_PROVIDER=ollama
+ */
+function createRecordingProvider(selection: ProviderSelection): LLMProvider {
+  const inner = createProvider({
+    ...selection,
+    provider: process.env.AI_RECORD_PROVIDER || 'gemini',
+  })
+
+  if (inner.name === 'record' || inner.name === 'replay') {
+    throw new ProviderError(t('provider.recordNeedsLive'))
+  }
+
+  return new RecordingProvider(inner, fixturesDir())
+}
+
+// ============================================
+// HELPERS
+// ============================================
+function isProviderName(name: string): name is ProviderName {
+  return (PROVIDER_NAMES as readonly string[]).includes(name)
+}
+
+/** Model untuk provider ini dari config `models`: ["ollama=qwen2.5-coder", ...] */
+function scopedModel(entries: string[] = [], provider: ProviderName): string | undefined {
+  for (const entry of entries) {
+    const match = entry.match(/^([\w-]+)\s*=\s*(\S.*)$/)
+    if (!match) {
+      throw new ProviderError(t('provider.invalidModels', { entry }))
+    }
+
+    if (match[1].toLowerCase() === provider) return match[2].trim()
+  }
+
+  return undefined
+}
+
+function fixturesDir(): string {
+  return path.resolve(process.env.AI_FIXTURES_DIR || '.aicli-fixtures')
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '')
+}
+
+// Tipe Response diambil dari fetch supaya tidak menyentuh global yang masih experimental di Node 18
+// eslint-disable-next-line n/no-unsupported-features/node-builtins
+type FetchResponse = Awaited<ReturnType<typeof fetch>>
+
+interface PostInit {
+  headers: Record<string, string>
+  signal?: AbortSignal
+}
+
+async function post(provider: string, url: string, body: unknown, { headers, signal }: PostInit): Promise<FetchResponse> {
+  // fetch global sudah tersedia sejak Node 18
+  // eslint-disable-next-line n/no-unsupported-features/node-builtins
+  const response = await fetch(url, {
+    body: JSON.stringify(body),
+    headers,
+    method: 'POST',
+    signal,
+  })
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '')
+    throw new ProviderError(`${provider} HTTP ${response.status}: ${detail.slice(0, 500)}`)
+  }
+
+  return response
+}
+
+/**
+ * Baca body response per baris (untuk SSE / NDJSON streaming)
+ */
+async function readLines(response: FetchResponse, onLine: (line: string) => void): Promise<void> {
+  if (!response.body) return
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  for (;;) {
+    // eslint-disable-next-line no-await-in-loop
+    const { done, value } = await reader.read()
+    buffer += decoder.decode(value, { stream: !done })
+
+    const lines = buffer.split('\n')
+    buffer = lines.pop() ?? ''
+    for (const line of lines) {
+      if (line.trim()) onLine(line.trim())
+    }
+
+    if (done) break
+  }
+
+  if (buffer.trim()) onLine(buffer.trim())
+}
@@ -0,0 +1,45 @@
+// src/utills/retry.ts
+
+import { t } from './i18n.js'
+import logger from './loggers.js'
+import { BudgetError } from './usage.js'
+
+export interface RetryOptions {
+  attempts: number
+  baseDelay: number
+  /** Request yang dibatalkan user tidak di-retry */
+  signal?: AbortSignal
+}
+
+// ============================================
+// RETRY HELPER
+// ============================================
+export async function retryWithBackoff<T>(
+  fn: () => Promise<T>,
+  { attempts, baseDelay, signal }: RetryOptions,
+): Promise<T> {
+  let lastError: Error | undefined
+
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    try {
+      // eslint-disable-next-line no-await-in-loop
+      return await fn()
+    } catch (error) {
+      lastError = error as Error
+
+      // Request yang dibatalkan atau diblokir budget tidak akan berhasil jika diulang
+      if (signal?.aborted || lastError instanceof BudgetError) throw lastError
+
+      if (attempt < attempts - 1) {
+        const delay = baseDelay * (2 ** attempt) // Exponential backoff
+        logger.warn(t('retry.attemptFailed', { attempt: attempt + 1, delay }))
+        // eslint-disable-next-line no-await-in-loop
+        await new Promise<void>(resolve => {
+          setTimeout(() => resolve(), delay)
+        })
+      }
+    }
+  }
+
+  throw lastError
+}
@@ -0,0 +1,130 @@
+// src/utills/runlog.ts
+
+import { randomUUID } from 'node:crypto'
+import * as fs from 'node:fs'
+// eslint-disable-next-line unicorn/import-style
+import * as path from 'node:path'
+
+import { getConfigDir } from './config.js'
+import { formatDuration } from './history.js'
+import { PlanStep } from './plan.js'
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+/** Log lama dibuang supaya folder logs tidak tumbuh tanpa batas */
+const MAX_RUN_LOGS = 100
+
+/**
+ * Bagian output step yang dibaca ulang untuk --summarize: awal (warning install biasanya
+ * muncul di sini) dan akhir (hasil atau error terakhir)
+ */
+const EXCERPT_CHARS = 4000
+
+export function getLogsDir(): string {
+  return path.join(getConfigDir(), 'logs')
+}
+
+// ============================================
+// RUN LOG
+// ============================================
+/**
+ * Satu file log per run gen di ~/.gen-cli/logs: setiap step dicatat dengan perintah, folder,
+ * output lengkap (tanpa kode warna), exit code dan durasi. Gagal membuat atau menulis log
+ * tidak menghentikan perintah; log hanya dimatikan (file undefined).
+ */
+export class RunLog {
+  private position = 0
+  private stepEnd = 0
+  private stepStart = 0
+
+  private constructor(
+    readonly file: string | undefined,
+    private fd: number | undefined,
+  ) {}
+
+  static open(): RunLog {
+    const dir = getLogsDir()
+    // Nama file urut waktu, sehingga log terbaru mudah dicari dengan ls
+    const name = `${new Date().toISOString().replaceAll(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}.log`
+
+    try {
+      fs.mkdirSync(dir, { recursive: true })
+      const file = path.join(dir, name)
+      const log = new RunLog(file, fs.openSync(file, 'a+'))
+      prune(dir)
+      return log
+    } catch {
+      return new RunLog(undefined, undefined)
+    }
+  }
+
+  /** Header step; output setelahnya dianggap milik step ini sampai end() */
+  begin(step: PlanStep): void {
+    this.append(`$ ${step.command}\n${step.cwd ? `# cwd: ${step.cwd}\n` : ''}`)
+    this.stepStart = this.position
+    this.stepEnd = this.position
+  }
+
+  close(): void {
+    if (this.fd === undefined) return
+
+    try {
+      fs.closeSync(this.fd)
+    } catch {
+      // Ignore
+    }
+
+    this.fd = undefined
+  }
+
+  end(code: null | number, durationMs: number): void {
+    this.stepEnd = this.position
+    this.append(`# exit ${code ?? '-'} · ${formatDuration(durationMs)}\n\n`)
+  }
+
+  /** Output step terakhir; output panjang dipotong di tengah */
+  stepOutput(): string {
+    if (this.fd === undefined) return ''
+
+    const length = this.stepEnd - this.stepStart
+    if (length <= EXCERPT_CHARS * 2) return this.read(this.stepStart, length)
+
+    return `${this.read(this.stepStart, EXCERPT_CHARS)}\n[...]\n${this.read(this.stepEnd - EXCERPT_CHARS, EXCERPT_CHARS)}`
+  }
+
+  write(chunk: Buffer | string): void {
+    // eslint-disable-next-line no-control-regex
+    this.append(chunk.toString().replaceAll(/\u001B\[[\d;?]*[A-Za-z]/g, ''))
+  }
+
+  private append(text: string): void {
+    if (this.fd === undefined) return
+
+    try {
+      this.position += fs.writeSync(this.fd, text)
+    } catch {
+      this.close()
+    }
+  }
+
+  private read(start: number, length: number): string {
+    const buffer = Buffer.alloc(length)
+    try {
+      const bytes = fs.readSync(this.fd!, buffer, 0, length, start)
+      return buffer.subarray(0, bytes).toString('utf8')
+    } catch {
+      return ''
+    }
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+function prune(dir: string): void {
+  const logs = fs.readdirSync(dir).filter(file => file.endsWith('.log')).sort()
+  for (const file of logs.slice(0, -MAX_RUN_LOGS)) {
+    fs.rmSync(path.join(dir, file), { force: true })
+  }
+}
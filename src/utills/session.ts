@@ -0,0 +1,286 @@
+// src/utills/session.ts
+
+import { ChildProcess, spawn } from 'node:child_process'
+import * as os from 'node:os'
+import { createInterface } from 'node:readline'
+import { Readable, Writable } from 'node:stream'
+
+import { t } from './i18n.js'
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+export interface SessionStep {
+  command: string
+  /** Folder kerja absolut khusus step ini; setelah step selesai session kembali ke folder sebelumnya */
+  cwd?: string
+}
+
+/** Tujuan salinan output perintah selain terminal, mis. log run */
+export interface OutputSink {
+  write(chunk: Buffer | string): void
+}
+
+export interface SessionOptions {
+  env?: NodeJS.ProcessEnv
+  /**
+   * Buang output perintah (stdin juga ditutup), mis. untuk preview di sandbox. Shell
+   * dijalankan di process group sendiri supaya kill() ikut menghentikan child-nya.
+   */
+  quiet?: boolean
+  /** Salinan output setiap step (selain bagian akhir yang disimpan untuk perbaikan) */
+  sink?: OutputSink
+  /** Program pembungkus shell, mis. ['unshare', '-rn'] untuk mematikan jaringan */
+  wrapper?: string[]
+}
+
+/** Hasil satu step: exit code dan bagian akhir output-nya (stdout + stderr) */
+export interface StepResult {
+  code: number
+  output: string
+}
+
+export class SessionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SessionError'
+  }
+}
+
+// ============================================
+// SHELL SCRIPTS
+// ============================================
+/*
+ * Loop di dalam shell: baca pasangan (cwd, perintah) yang diakhiri NUL dari fd 3, jalankan
+ * dengan eval di shell yang sama (cd dan export terbawa ke step berikutnya), lalu tulis
+ * exit code ke fd 4. stdin/stdout/stderr tetap milik terminal user.
+ */
+const POSIX_LOOP = `while IFS= read -r -d '' __aicli_cwd <&3 && IFS= read -r -d '' __aicli_cmd <&3; do
+  if [ -n "$__aicli_cwd" ]; then
+    __aicli_prev=$PWD
+    cd -- "$__aicli_cwd" && eval "$__aicli_cmd" 3<&- 4>&-
+    __aicli_status=$?
+    cd -- "$__aicli_prev"
+  else
+    eval "$__aicli_cmd" 3<&- 4>&-
+    __aicli_status=$?
+  fi
+  printf '%s\\n' "$__aicli_status" >&4
+done`
+
+const FISH_LOOP = `while read -z __aicli_cwd <&3; and read -z __aicli_cmd <&3
+  if test -n "$__aicli_cwd"
+    set __aicli_prev $PWD
+    cd $__aicli_cwd; and eval $__aicli_cmd
+    set __aicli_status $status
+    cd $__aicli_prev
+  else
+    eval $__aicli_cmd
+    set __aicli_status $status
+  end
+  echo $__aicli_status >&4
+end`
+
+/** Bagian akhir output yang disimpan per step, cukup untuk pesan error tanpa membebani prompt */
+const OUTPUT_TAIL_CHARS = 4000
+
+// PowerShell tidak bisa membaca fd tambahan: perintah dikirim lewat stdin dan exit code
+// dicetak sebagai baris penanda di stdout (baris lain diteruskan ke terminal)
+const STATUS_MARKER = '__AICLI_STATUS__'
+
+// ============================================
+// SHELL SESSION
+// ============================================
+/**
+ * Satu proses shell yang hidup selama plan multi-step berjalan, sehingga `cd`, `export`
+ * dan `$env:` dari satu step berlaku di step berikutnya. Exit code tetap dilaporkan per step.
+ */
+export class ShellSession {
+  private exitReason?: string
+  private output: OutputTail
+  private pending: Array<{ reject: (error: Error) => void; resolve: (result: StepResult) => void }> = []
+
+  private constructor(
+    private child: ChildProcess,
+    private input: Writable,
+    statuses: Readable,
+    private mode: { dialect: 'posix' | 'powershell'; quiet: boolean; sink?: OutputSink },
+  ) {
+    this.output = new OutputTail(undefined, mode.sink)
+
+    // Menulis ke shell yang sudah berhenti (EPIPE) ditangani lewat event 'exit'
+    input.on('error', () => {})
+
+    // Output diteruskan ke terminal sambil disimpan bagian akhirnya (stdout PowerShell lewat onLine)
+    if (mode.dialect === 'posix') this.output.tee(child.stdout, process.stdout)
+    this.output.tee(child.stderr, process.stderr)
+
+    const lines = createInterface({ input: statuses })
+    lines.on('line', line => this.onLine(line))
+
+    child.on('error', error => this.fail(t('session.startFailed', { message: error.message })))
+    child.on('exit', (code, signal) => this.fail(t('session.ended', { reason: signal ?? String(code) })))
+  }
+
+  /**
+   * Mulai session untuk shell hasil deteksi. Return null untuk shell yang tidak didukung (cmd).
+   * Tanpa quiet, stdout/stderr perintah lewat pipe supaya output step gagal bisa dibaca lagi.
+   */
+  static start(shell: string, cwd = process.cwd(), options: SessionOptions = {}): null | ShellSession {
+    const { env, quiet = false, sink, wrapper = [] } = options
+    const launch = (executable: string, args: string[]) =>
+      wrapper.length > 0 ? { args: [...wrapper.slice(1), executable, ...args], executable: wrapper[0] } : { args, executable }
+
+    if (shell === 'powershell') {
+      const { args, executable } = launch(os.platform() === 'win32' ? 'powershell.exe' : 'pwsh', ['-NoLogo', '-NoProfile', '-NonInteractive', '-Command', '-'])
+      const child = spawn(executable, args, {
+        cwd,
+        detached: quiet,
+        env,
+        stdio: ['pipe', 'pipe', quiet ? 'ignore' : 'pipe'],
+      })
+      return new ShellSession(child, child.stdin!, child.stdout!, { dialect: 'powershell', quiet, sink })
+    }
+
+    if (!['bash', 'fish', 'zsh'].includes(shell)) return null
+
+    const { args, executable } = launch(shell, ['-c', shell === 'fish' ? FISH_LOOP : POSIX_LOOP])
+    const child = spawn(executable, args, {
+      cwd,
+      detached: quiet,
+      env,
+      stdio: quiet ? ['ignore', 'ignore', 'ignore', 'pipe', 'pipe'] : ['inherit', 'pipe', 'pipe', 'pipe', 'pipe'],
+    })
+    return new ShellSession(child, child.stdio[3] as Writable, child.stdio[4] as Readable, { dialect: 'posix', quiet, sink })
+  }
+
+  /** Shell masih berjalan (belum keluar lewat `exit`, sinyal, atau close()) */
+  get alive(): boolean {
+    return this.exitReason === undefined
+  }
+
+  /**
+   * Tutup session: input diakhiri sehingga loop shell selesai sendiri
+   */
+  async close(): Promise<void> {
+    if (this.exitReason !== undefined) return
+
+    const exited = new Promise<void>(resolve => {
+      this.child.once('exit', () => resolve())
+    })
+    this.input.end()
+    await exited
+  }
+
+  /**
+   * Hentikan shell secara paksa (mis. step melewati batas waktu). Step yang sedang
+   * berjalan ditolak dengan SessionError.
+   */
+  kill(): void {
+    if (this.exitReason !== undefined) return
+
+    // pid negatif = seluruh process group (hanya ada untuk session quiet di luar Windows)
+    if (this.mode.quiet && os.platform() !== 'win32' && this.child.pid) {
+      try {
+        process.kill(-this.child.pid, 'SIGKILL')
+        return
+      } catch {
+        // Group sudah tidak ada; hentikan shell-nya saja
+      }
+    }
+
+    this.child.kill('SIGKILL')
+  }
+
+  /**
+   * Jalankan satu step dan tunggu exit code-nya. Melempar SessionError jika shell sudah
+   * berhenti (mis. step menjalankan `exit` atau Ctrl+C).
+   */
+  async run(step: SessionStep): Promise<StepResult> {
+    if (this.exitReason !== undefined) throw new SessionError(this.exitReason)
+
+    this.output.clear()
+    const done = new Promise<StepResult>((resolve, reject) => {
+      this.pending.push({ reject, resolve })
+    })
+    this.input.write(this.mode.dialect === 'posix' ? `${step.cwd ?? ''}\0${step.command}\0` : powershellStep(step))
+
+    return done
+  }
+
+  private fail(reason: string): void {
+    this.exitReason ??= reason
+    for (const { reject } of this.pending.splice(0)) reject(new SessionError(this.exitReason))
+  }
+
+  private onLine(line: string): void {
+    if (this.mode.dialect === 'powershell' && !line.startsWith(STATUS_MARKER)) {
+      if (!this.mode.quiet) process.stdout.write(`${line}\n`)
+      this.output.push(`${line}\n`)
+      return
+    }
+
+    const parsed = Number.parseInt(line.replace(STATUS_MARKER, '').trim(), 10)
+    const code = Number.isNaN(parsed) ? 1 : parsed
+    const pending = this.pending.shift()
+
+    // Status dan output datang dari pipe berbeda: beri kesempatan sisa output terbaca dulu
+    setImmediate(() => pending?.resolve({ code, output: this.output.text() }))
+  }
+}
+
+// ============================================
+// OUTPUT TAIL
+// ============================================
+/**
+ * Simpan bagian akhir output (tanpa kode warna ANSI) sambil tetap menampilkannya di terminal;
+ * output lengkap diteruskan ke sink jika ada
+ */
+export class OutputTail {
+  private buffer = ''
+
+  constructor(private limit = OUTPUT_TAIL_CHARS, private sink?: OutputSink) {}
+
+  clear(): void {
+    this.buffer = ''
+  }
+
+  push(chunk: Buffer | string): void {
+    this.buffer = (this.buffer + chunk.toString()).slice(-this.limit * 2)
+    this.sink?.write(chunk)
+  }
+
+  /** Teruskan stream ke terminal dan simpan isinya */
+  tee(source: null | Readable, target: NodeJS.WriteStream): void {
+    source?.on('data', (chunk: Buffer) => {
+      target.write(chunk)
+      this.push(chunk)
+    })
+  }
+
+  text(): string {
+    // eslint-disable-next-line no-control-regex
+    return this.buffer.replaceAll(/\u001B\[[\d;?]*[A-Za-z]/g, '').slice(-this.limit)
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+/**
+ * Satu baris PowerShell: script di-encode base64 supaya perintah multi-baris aman, lalu
+ * di-dot-source supaya Set-Location dan $env: bertahan di session
+ */
+function powershellStep({ command, cwd }: SessionStep): string {
+  const encoded = Buffer.from(command, 'utf8').toString('base64')
+  const script = `. ([ScriptBlock]::Create([Text.Encoding]::UTF8.GetString([Convert]::FromBase64String('${encoded}'))))`
+  const location = cwd ? `Push-Location -LiteralPath '${cwd.replaceAll("'", "''")}'; ` : ''
+  const restore = cwd ? ' Pop-Location' : ''
+
+  return [
+    `$global:LASTEXITCODE = 0; $__aicli_ok = $true;`,
+    `try { ${location}${script}; $__aicli_ok = $? } catch { Write-Error $_; $__aicli_ok = $false } finally {${restore} };`,
+    `$__aicli_code = if ($LASTEXITCODE) { $LASTEXITCODE } elseif ($__aicli_ok) { 0 } else { 1 };`,
+    `[Console]::Out.WriteLine("${STATUS_MARKER} $__aicli_code")`,
+  ].join(' ') + '\n'
+}
@@ -0,0 +1,132 @@
+// src/utills/shellinit.ts
+
+// eslint-disable-next-line unicorn/import-style
+import * as path from 'node:path'
+
+import { t } from './i18n.js'
+import { PlanStep } from './plan.js'
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+/** Shell yang punya integrasi prompt buffer (cmd tidak punya API untuk mengganti isi baris) */
+export const INIT_SHELLS = ['bash', 'zsh', 'fish', 'powershell'] as const
+export type InitShell = (typeof INIT_SHELLS)[number]
+
+const RC_FILES: Record<InitShell, string> = {
+  bash: '~/.bashrc',
+  fish: '~/.config/fish/config.fish',
+  powershell: '$PROFILE',
+  zsh: '~/.zshrc',
+}
+
+// ============================================
+// INIT SCRIPTS
+// ============================================
+/**
+ * Fungsi + keybinding Ctrl+G: isi baris yang sedang diketik dikirim ke `gen --print`, lalu
+ * baris diganti dengan perintah hasilnya. Jika gen gagal, baris dibiarkan apa adanya.
+ */
+export function shellInitScript(shell: InitShell, bin: string): string {
+  const header = `# ${t('shellInit.header', { command: shell === 'powershell' ? `${bin} shell-init powershell | Out-String | Invoke-Expression` : `eval "$(${bin} shell-init ${shell})"`, rc: RC_FILES[shell] })}`
+  const gen = `${bin} gen --print --shell ${shell} --`
+
+  switch (shell) {
+    case 'bash': {
+      return `${header}
+_aicli_gen() {
+  [ -z "$READLINE_LINE" ] && return
+  local cmd
+  cmd="$(${gen} "$READLINE_LINE")" || return
+  [ -z "$cmd" ] && return
+  READLINE_LINE="$cmd"
+  READLINE_POINT=\${#READLINE_LINE}
+}
+bind -x '"\\C-g": _aicli_gen'
+`
+    }
+
+    case 'fish': {
+      return `${header}
+function _aicli_gen
+    set -l line (commandline | string collect)
+    if test -n "$line"
+        set -l cmd (${gen} "$line" | string collect)
+        and test -n "$cmd"
+        and commandline -r -- $cmd
+    end
+    commandline -f repaint
+end
+bind \\cg _aicli_gen
+`
+    }
+
+    case 'powershell': {
+      return `${header}
+Set-PSReadLineKeyHandler -Chord 'Ctrl+g' -BriefDescription 'aiCli gen' -ScriptBlock {
+    $line = $null
+    $cursor = $null
+    [Microsoft.PowerShell.PSConsoleReadLine]::GetBufferState([ref]$line, [ref]$cursor)
+    if ([string]::IsNullOrWhiteSpace($line)) { return }
+
+    $cmd = (${gen} $line) -join "\`n"
+    if ($LASTEXITCODE -eq 0 -and $cmd) {
+        [Microsoft.PowerShell.PSConsoleReadLine]::Replace(0, $line.Length, $cmd)
+    }
+}
+`
+    }
+
+    case 'zsh': {
+      return `${header}
+_aicli_gen() {
+  [[ -z "$BUFFER" ]] && return
+  local cmd
+  zle -I
+  if cmd="$(${gen} "$BUFFER")" && [[ -n "$cmd" ]]; then
+    BUFFER="$cmd"
+    CURSOR=\${#BUFFER}
+  fi
+  zle reset-prompt
+}
+zle -N _aicli_gen
+bindkey '^G' _aicli_gen
+`
+    }
+  }
+}
+
+// ============================================
+// PROMPT BUFFER
+// ============================================
+/**
+ * Gabungkan step menjadi isi satu baris prompt. cwd step (relatif terhadap folder awal)
+ * menjadi `cd`, sehingga shell user ikut pindah folder seperti saat mengetiknya sendiri.
+ * Perintah multi-baris dan PowerShell (5.1 belum punya &&) dipisah baris baru.
+ */
+export function bufferText(steps: PlanStep[], shell: string): string {
+  const parts: string[] = []
+  let current = '.'
+
+  for (const step of steps) {
+    const target = path.posix.normalize((step.cwd ?? '.').replaceAll('\\', '/'))
+    if (target !== current) {
+      parts.push(`cd ${shellQuote(path.posix.relative(current, target) || '.', shell)}`)
+      current = target
+    }
+
+    parts.push(step.command)
+  }
+
+  const multiline = shell === 'powershell' || parts.some(part => part.includes('\n'))
+  return parts.join(multiline ? '\n' : ' && ')
+}
+
+/** Quote satu argumen untuk shell tujuan; nilai tanpa karakter khusus dibiarkan apa adanya */
+export function shellQuote(value: string, shell: string): string {
+  if (/^[\w./-]+$/.test(value)) return value
+  if (shell === 'powershell') return `'${value.replaceAll("'", "''")}'`
+  if (shell === 'cmd') return `"${value.replaceAll('"', '""')}"`
+  if (shell === 'fish') return `'${value.replaceAll('\\', '\\\\').replaceAll("'", String.raw`\'`)}'`
+  return `'${value.replaceAll("'", String.raw`'\''`)}'`
+}
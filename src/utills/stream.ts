@@ -0,0 +1,193 @@
+// src/utills/stream.ts
+
+import { ux } from '@oclif/core'
+import chalk from 'chalk'
+
+import { t } from './i18n.js'
+import logger from './loggers.js'
+import { GenerateOptions, LLMProvider } from './providers.js'
+import { RetryOptions, retryWithBackoff } from './retry.js'
+
+export class CancelledError extends Error {
+  constructor() {
+    super(t('stream.cancelled'))
+    this.name = 'CancelledError'
+  }
+}
+
+// ============================================
+// STREAM PRINTER
+// ============================================
+interface PrinterHooks {
+  /** Dipanggil saat sebuah code block selesai diterima */
+  onCode?: (code: string) => void
+  /** Dipanggil saat potongan pertama tiba (mis. untuk menghentikan spinner) */
+  onStart?: () => void
+}
+
+/**
+ * Menampilkan response AI secara live: teks analisis langsung dicetak,
+ * sedangkan isi code block (```) ditahan sampai lengkap.
+ */
+export class StreamPrinter {
+  private code: string[] = []
+  private inCode = false
+  private line = ''
+  private printed = 0
+  private started = false
+  /** Ada teks sejak restart terakhir */
+  private written = false
+
+  constructor(private hooks: PrinterHooks = {}) {}
+
+  end(): void {
+    if (this.line && !this.inCode) {
+      logger.stream(this.line.slice(this.printed) + '\n')
+    }
+
+    this.line = ''
+    this.printed = 0
+  }
+
+  /**
+   * Mulai response baru (retry) dengan printer yang sama: header tidak dicetak ulang, dan jika
+   * percobaan sebelumnya sudah mencetak sebagian analisis, user diberi tahu bahwa analisis diulang
+   */
+  restart(): void {
+    if (!this.written) return
+
+    this.end()
+    this.code = []
+    this.inCode = false
+    this.written = false
+    logger.warn(t('stream.restarted'))
+  }
+
+  write(chunk: string): void {
+    this.written = true
+    if (!this.started) {
+      this.started = true
+      this.hooks.onStart?.()
+    }
+
+    this.line += chunk
+
+    let newline = this.line.indexOf('\n')
+    while (newline !== -1) {
+      this.handleLine(this.line.slice(0, newline))
+      this.line = this.line.slice(newline + 1)
+      this.printed = 0
+      newline = this.line.indexOf('\n')
+    }
+
+    // Cetak sebagian baris selama tidak mungkin menjadi pembuka/penutup code block
+    const trimmed = this.line.trimStart()
+    if (!this.inCode && trimmed && !trimmed.startsWith('`')) {
+      logger.stream(this.line.slice(this.printed))
+      this.printed = this.line.length
+    }
+  }
+
+  private handleLine(line: string): void {
+    if (line.trimStart().startsWith('```')) {
+      this.inCode = !this.inCode
+
+      if (this.inCode) {
+        this.code = []
+        logger.loading(t('stream.receivingCode'))
+      } else {
+        this.hooks.onCode?.(this.code.join('\n').trim())
+      }
+
+      return
+    }
+
+    if (this.inCode) {
+      this.code.push(line)
+    } else {
+      logger.stream(line.slice(this.printed) + '\n')
+    }
+  }
+}
+
+// ============================================
+// CTRL+C HANDLING
+// ============================================
+export interface AbortHandle {
+  dispose(): void
+  signal: AbortSignal
+}
+
+/**
+ * Batalkan request AI saat user menekan Ctrl+C (bukan langsung mematikan proses)
+ */
+export function abortOnSigint(): AbortHandle {
+  const controller = new AbortController()
+  const onSigint = () => controller.abort()
+
+  process.once('SIGINT', onSigint)
+
+  return {
+    dispose: () => process.removeListener('SIGINT', onSigint),
+    signal: controller.signal,
+  }
+}
+
+// ============================================
+// ASK AI (spinner + streaming + retry + Ctrl+C)
+// ============================================
+export interface AskOptions {
+  done: string
+  generation: GenerateOptions
+  /** Judul yang dicetak sebelum teks streaming pertama */
+  header: string
+  retry: RetryOptions
+  /** Tampilkan code block dalam box begitu selesai (untuk jawaban tanpa file) */
+  showCode?: boolean
+  spinner: string
+  stream: boolean
+}
+
+export interface AskResult {
+  streamed: boolean
+  text: string
+}
+
+/**
+ * Kirim prompt ke provider. Jika streaming aktif, analisis tampil live; Ctrl+C membatalkan
+ * request dan melempar CancelledError.
+ */
+export async function askAI(provider: LLMProvider, prompt: string, options: AskOptions): Promise<AskResult> {
+  const abort = abortOnSigint()
+  ux.action.start(options.spinner)
+
+  try {
+    // Satu printer untuk semua percobaan supaya retry tidak mencetak analisis dua kali tanpa keterangan
+    const printer = options.stream
+      ? new StreamPrinter({
+        onCode: options.showCode ? code => logger.box(code) : undefined,
+        onStart() {
+          ux.action.stop(options.done)
+          logger.info(chalk.cyan(`\n${options.header}\n`))
+        },
+      })
+      : undefined
+
+    const result = await retryWithBackoff(() => {
+      printer?.restart()
+      return provider
+        .generate(prompt, { ...options.generation, onText: printer && ((chunk) => printer.write(chunk)), signal: abort.signal })
+        .finally(() => printer?.end())
+    }, { ...options.retry, signal: abort.signal })
+
+    ux.action.stop(options.done)
+    if (result.cached) logger.info(chalk.gray(t('cache.hit')))
+    return { streamed: options.stream, text: result.text }
+  } catch (error: unknown) {
+    ux.action.stop(t(abort.signal.aborted ? 'common.cancelledSpinner' : 'common.failedSpinner'))
+    if (abort.signal.aborted) throw new CancelledError()
+    throw error
+  } finally {
+    abort.dispose()
+  }
+}
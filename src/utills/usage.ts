@@ -0,0 +1,304 @@
+// src/utills/usage.ts
+
+import * as fs from 'node:fs'
+// eslint-disable-next-line unicorn/import-style
+import * as path from 'node:path'
+
+import { AppConfig, ConfigError, getConfigDir } from './config.js'
+import { HistoryCommand } from './history.js'
+import { t } from './i18n.js'
+import logger from './loggers.js'
+import { GenerateOptions, GenerateResult, LLMProvider } from './providers.js'
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+export interface UsageRecord {
+  command: HistoryCommand
+  /** Biaya dalam USD menurut pricing saat request dilakukan */
+  cost: number
+  /** Provider tidak melaporkan token; jumlahnya diperkirakan dari panjang teks */
+  estimated?: boolean
+  inputTokens: number
+  model: string
+  outputTokens: number
+  project: string
+  provider: string
+  timestamp: string
+  /** Harga model tidak diketahui saat request dilakukan; cost 0 bukan biaya sebenarnya */
+  unpriced?: boolean
+}
+
+export interface UsageFilter {
+  command?: HistoryCommand
+  project?: string
+  since?: Date
+  until?: Date
+}
+
+export interface UsageSummary {
+  cost: number
+  inputTokens: number
+  key: string
+  outputTokens: number
+  requests: number
+  /** Jumlah request yang biayanya tidak diketahui (tidak ikut dijumlahkan di cost) */
+  unpriced: number
+}
+
+/** Harga dalam USD per 1 juta token */
+export interface ModelPrice {
+  input: number
+  output: number
+}
+
+export class BudgetError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BudgetError'
+  }
+}
+
+type UsageConfig = Pick<AppConfig, 'budgetAction' | 'monthlyBudget' | 'pricing'>
+
+// Harga default; model lain bisa ditambahkan/ditimpa lewat config `pricing`
+const DEFAULT_PRICING: Record<string, ModelPrice> = {
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash-exp': { input: 0, output: 0 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+}
+
+// Backend lokal/offline gratis kecuali harga modelnya diset
+const FREE_PROVIDERS = new Set(['llamacpp', 'ollama', 'replay'])
+
+export function getUsageFile(): string {
+  return path.join(getConfigDir(), 'usage.jsonl')
+}
+
+/**
+ * Parse config `pricing`: ["gpt-4o=2.5/10", ...] (USD per 1 juta token input/output)
+ */
+export function parsePricing(entries: string[] = []): Record<string, ModelPrice> {
+  const pricing: Record<string, ModelPrice> = {}
+
+  for (const entry of entries) {
+    const match = entry.match(/^(.+?)\s*=\s*(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)$/)
+    if (!match) {
+      throw new ConfigError(t('usage.invalidPricing', { entry }))
+    }
+
+    pricing[match[1]] = { input: Number(match[2]), output: Number(match[3]) }
+  }
+
+  return pricing
+}
+
+/**
+ * Nama project dari folder terdekat yang berisi .git atau package.json (fallback: nama cwd)
+ */
+export function detectProject(startDir = process.cwd()): string {
+  let dir = path.resolve(startDir)
+
+  for (;;) {
+    if (fs.existsSync(path.join(dir, '.git')) || fs.existsSync(path.join(dir, 'package.json'))) {
+      return path.basename(dir)
+    }
+
+    const parent = path.dirname(dir)
+    if (parent === dir) return path.basename(path.resolve(startDir)) || dir
+    dir = parent
+  }
+}
+
+export function monthStart(date = new Date()): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1)
+}
+
+// ============================================
+// USAGE STORE
+// ============================================
+/**
+ * Pemakaian token per request dalam satu file JSON Lines (append-only)
+ */
+export class UsageStore {
+  private file = getUsageFile()
+
+  append(record: UsageRecord): void {
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true })
+      fs.appendFileSync(this.file, JSON.stringify(record) + '\n')
+    } catch {
+      logger.warn(t('usage.saveFailed'))
+    }
+  }
+
+  list(filter: UsageFilter = {}): UsageRecord[] {
+    if (!fs.existsSync(this.file)) return []
+
+    const records: UsageRecord[] = []
+    for (const line of fs.readFileSync(this.file, 'utf8').split('\n')) {
+      if (!line.trim()) continue
+
+      try {
+        const record = JSON.parse(line) as UsageRecord
+        if (matchesFilter(record, filter)) records.push(record)
+      } catch {
+        continue
+      }
+    }
+
+    return records
+  }
+}
+
+// ============================================
+// TRACKER (pricing + budget)
+// ============================================
+export class UsageTracker {
+  private pricing: Record<string, ModelPrice>
+  private warned = false
+  private warnedPrice = false
+
+  constructor(
+    private config: UsageConfig,
+    private command: HistoryCommand,
+    private store = new UsageStore(),
+  ) {
+    this.pricing = { ...DEFAULT_PRICING, ...parsePricing(config.pricing) }
+  }
+
+  /**
+   * Dipanggil sebelum request: budget terlampaui → warning, atau BudgetError jika AI_BUDGET_ACTION=block
+   */
+  checkBudget(): void {
+    const budget = this.config.monthlyBudget
+    if (budget <= 0) return
+
+    const spent = totalCost(this.store.list({ since: monthStart() }))
+    if (spent < budget) return
+
+    const message = t('usage.budgetExceeded', { budget: `$${budget.toFixed(2)}`, spent: `$${spent.toFixed(2)}` })
+    if (this.config.budgetAction === 'block') {
+      throw new BudgetError(t('usage.budgetBlocked', { message }))
+    }
+
+    if (!this.warned) {
+      this.warned = true
+      logger.warn(`⚠️  ${message}`)
+    }
+  }
+
+  /** Biaya dalam USD; null jika harga model belum diketahui (bukan gratis) */
+  costOf(model: string, provider: string, inputTokens: number, outputTokens: number): null | number {
+    const price = this.pricing[model] ?? (FREE_PROVIDERS.has(provider) ? { input: 0, output: 0 } : undefined)
+    if (!price) return null
+
+    return (inputTokens * price.input + outputTokens * price.output) / 1_000_000
+  }
+
+  record(provider: LLMProvider, prompt: string, result: GenerateResult): UsageRecord {
+    // Provider yang tidak melaporkan token: perkiraan kasar ~4 karakter per token
+    const inputTokens = result.usage?.inputTokens ?? Math.ceil(prompt.length / 4)
+    const outputTokens = result.usage?.outputTokens ?? Math.ceil(result.text.length / 4)
+    const cost = this.costOf(provider.model, provider.name, inputTokens, outputTokens)
+    if (cost === null && !this.warnedPrice) {
+      this.warnedPrice = true
+      logger.warn(t('usage.unknownPrice', { model: provider.model }))
+    }
+
+    const record: UsageRecord = {
+      command: this.command,
+      cost: cost ?? 0,
+      ...(result.usage ? {} : { estimated: true }),
+      inputTokens,
+      model: provider.model,
+      outputTokens,
+      project: detectProject(),
+      provider: provider.name,
+      timestamp: new Date().toISOString(),
+      ...(cost === null ? { unpriced: true } : {}),
+    }
+
+    this.store.append(record)
+    return record
+  }
+}
+
+// ============================================
+// PROVIDER DECORATOR
+// ============================================
+/**
+ * Mencatat token & biaya setiap request ke model dan menegakkan budget bulanan
+ */
+export class MeteredProvider implements LLMProvider {
+  constructor(
+    private inner: LLMProvider,
+    private tracker: UsageTracker,
+  ) {}
+
+  get model(): string {
+    return this.inner.model
+  }
+
+  get name(): string {
+    return this.inner.name
+  }
+
+  async generate(prompt: string, options?: GenerateOptions): Promise<GenerateResult> {
+    this.tracker.checkBudget()
+    const result = await this.inner.generate(prompt, options)
+    this.tracker.record(this.inner, prompt, result)
+    return result
+  }
+}
+
+/**
+ * Pasang pencatatan pemakaian. Dipasang paling dalam supaya response dari cache tidak dihitung.
+ */
+export function withUsage(provider: LLMProvider, config: UsageConfig, command: HistoryCommand): LLMProvider {
+  return new MeteredProvider(provider, new UsageTracker(config, command))
+}
+
+// ============================================
+// REPORT
+// ============================================
+/**
+ * Kelompokkan record (mis. per hari/command/project); hasil diurutkan sesuai key
+ */
+export function summarize(records: UsageRecord[], keyOf: (record: UsageRecord) => string): UsageSummary[] {
+  const groups = new Map<string, UsageSummary>()
+
+  for (const record of records) {
+    const key = keyOf(record)
+    const group = groups.get(key) ?? { cost: 0, inputTokens: 0, key, outputTokens: 0, requests: 0, unpriced: 0 }
+    group.cost += record.cost
+    group.inputTokens += record.inputTokens
+    group.outputTokens += record.outputTokens
+    group.requests++
+    if (record.unpriced) group.unpriced++
+    groups.set(key, group)
+  }
+
+  return [...groups.values()].sort((a, b) => a.key.localeCompare(b.key))
+}
+
+export function totalCost(records: UsageRecord[]): number {
+  return records.reduce((total, record) => total + record.cost, 0)
+}
+
+// ============================================
+// HELPERS
+// ============================================
+function matchesFilter(record: UsageRecord, filter: UsageFilter): boolean {
+  const time = Date.parse(record.timestamp)
+
+  if (filter.command && record.command !== filter.command) return false
+  if (filter.project && record.project !== filter.project) return false
+  if (filter.since && time < filter.since.getTime()) return false
+  if (filter.until && time > filter.until.getTime()) return false
+
+  return true
+}
@@ -0,0 +1,61 @@
+import {runCommand} from '@oclif/test'
+import {expect} from 'chai'
+import {mkdirSync, mkdtempSync, rmSync, writeFileSync} from 'node:fs'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+
+describe('cache', () => {
+  const originalEnv = {...process.env}
+  let sandbox: string
+
+  const record = (response: string) =>
+    writeFileSync(join(sandbox, 'fixtures', 'eaddrinuse.json'), JSON.stringify({match: 'EADDRINUSE', response}))
+
+  beforeEach(() => {
+    sandbox = mkdtempSync(join(tmpdir(), 'aicli-cache-'))
+    process.env.HOME = sandbox
+    process.env.USERPROFILE = sandbox
+    process.env.AI_FIXTURES_DIR = join(sandbox, 'fixtures')
+    process.env.RETRY_BASE_DELAY = '0'
+    mkdirSync(process.env.AI_FIXTURES_DIR)
+  })
+
+  afterEach(() => {
+    for (const key of Object.keys(process.env)) {
+      if (!(key in originalEnv)) delete process.env[key]
+    }
+
+    Object.assign(process.env, originalEnv)
+    rmSync(sandbox, {force: true, recursive: true})
+  })
+
+  it('serves repeated prompts from the cache unless --no-cache is given', async () => {
+    record('Port 3000 dipakai proses lain.')
+    const first = await runCommand(['fix', '--provider', 'replay', 'EADDRINUSE'])
+    expect(first.stdout).to.match(/Port 3000 dipakai/)
+    expect(first.stdout).to.not.match(/dari cache/)
+
+    record('Jawaban baru dari model.')
+    const second = await runCommand(['fix', '--provider', 'replay', 'EADDRINUSE'])
+    expect(second.stdout).to.match(/Port 3000 dipakai/)
+    expect(second.stdout).to.match(/Response dari cache/)
+
+    const fresh = await runCommand(['fix', '--provider', 'replay', '--no-cache', 'EADDRINUSE'])
+    expect(fresh.stdout).to.match(/Jawaban baru dari model/)
+
+    const {stdout} = await runCommand(['cache', 'stats', '--json'])
+    expect(JSON.parse(stdout)).to.include({entries: 1, expired: 0, hits: 1, misses: 1})
+  })
+
+  it('clears cached responses', async () => {
+    record('Port 3000 dipakai proses lain.')
+    await runCommand(['fix', '--provider', 'replay', 'EADDRINUSE'])
+
+    const cleared = await runCommand(['cache', 'clear', '--json'])
+    expect(JSON.parse(cleared.stdout)).to.deep.equal({removed: 1})
+
+    record('Jawaban baru dari model.')
+    const {stdout} = await runCommand(['fix', '--provider', 'replay', 'EADDRINUSE'])
+    expect(stdout).to.match(/Jawaban baru dari model/)
+  })
+})
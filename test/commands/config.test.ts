@@ -0,0 +1,125 @@
+import {runCommand} from '@oclif/test'
+import {expect} from 'chai'
+import dotenv from 'dotenv'
+import {existsSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync} from 'node:fs'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+
+import {scriptPrompts} from '../helpers/prompts.js'
+
+describe('config', () => {
+  const originalEnv = {...process.env}
+  let sandbox: string
+
+  beforeEach(() => {
+    sandbox = mkdtempSync(join(tmpdir(), 'aicli-config-'))
+    process.env.HOME = sandbox
+    process.env.USERPROFILE = sandbox
+    delete process.env.AI_PROVIDER
+    delete process.env.GEMINI_API_KEY
+    delete process.env.MODEL_NAME
+  })
+
+  afterEach(() => {
+    // process.env harus dimutasi, bukan diganti, supaya os.homedir() ikut berubah
+    for (const key of Object.keys(process.env)) {
+      if (!(key in originalEnv)) delete process.env[key]
+    }
+
+    Object.assign(process.env, originalEnv)
+    rmSync(sandbox, {force: true, recursive: true})
+  })
+
+  it('sets and gets a value in the default profile', async () => {
+    await runCommand(['config', 'set', 'provider', 'ollama'])
+    const {stdout} = await runCommand(['config', 'get', 'provider'])
+    expect(stdout.trim()).to.equal('ollama')
+
+    const stored = JSON.parse(readFileSync(join(sandbox, '.gen-cli', 'config.json'), 'utf8'))
+    expect(stored).to.deep.equal({provider: 'ollama'})
+  })
+
+  it('rejects values that fail schema validation', async () => {
+    const {error, stdout} = await runCommand(['config', 'set', 'retryAttempts', 'many'])
+    expect(error?.message).to.match(/EEXIT: 1/)
+    expect(stdout).to.match(/retryAttempts/)
+    expect(existsSync(join(sandbox, '.gen-cli', 'config.json'))).to.equal(false)
+  })
+
+  it('keeps API keys in a permission-restricted credentials file per profile', async () => {
+    await runCommand(['config', 'set', 'geminiApiKey', 'AIzaWorkKey1234', '--profile', 'work'])
+
+    const file = join(sandbox, '.gen-cli', 'credentials.json')
+    expect(JSON.parse(readFileSync(file, 'utf8'))).to.deep.equal({work: {geminiApiKey: 'AIzaWorkKey1234'}})
+    if (process.platform !== 'win32') {
+      expect((statSync(file).mode % 0o1000).toString(8)).to.equal('600')
+    }
+
+    const masked = await runCommand(['config', 'get', 'geminiApiKey', '--profile', 'work'])
+    expect(masked.stdout.trim()).to.equal('****1234')
+
+    const {stdout} = await runCommand(['config', 'list', '--profiles'])
+    expect(stdout.split('\n')).to.include('work')
+  })
+
+  it('asks for a missing API key through the masked prompt and fails clearly without one', async () => {
+    const script = scriptPrompts(['AIzaPromptKey5678'])
+    try {
+      await runCommand(['config', 'set', 'geminiApiKey'])
+    } finally {
+      script.restore()
+    }
+
+    expect(script.asked).to.deep.equal([{choices: [], message: 'geminiApiKey:', type: 'password'}])
+    expect(JSON.parse(readFileSync(join(sandbox, '.gen-cli', 'credentials.json'), 'utf8'))).to.deep.equal({default: {geminiApiKey: 'AIzaPromptKey5678'}})
+
+    const {error, stdout} = await runCommand(['config', 'set', 'openaiApiKey', '--no-input'])
+    expect(error?.message).to.match(/EEXIT: 1/)
+    expect(stdout).to.match(/Butuh input: "openaiApiKey:"/)
+  })
+
+  it('reports set and unset as JSON with --json', async () => {
+    const set = await runCommand(['config', 'set', 'model', 'gemini-1.5-pro', '--json'])
+    expect(JSON.parse(set.stdout)).to.deep.equal({file: join(sandbox, '.gen-cli', 'config.json'), key: 'model', profile: 'default'})
+
+    const unset = await runCommand(['config', 'unset', 'model', '--json'])
+    expect(JSON.parse(unset.stdout)).to.deep.equal({key: 'model', profile: 'default', removed: true})
+
+    const missing = await runCommand(['config', 'set', 'geminiApiKey', '--json'])
+    expect(JSON.parse(missing.stdout).error.message).to.match(/Butuh input: "geminiApiKey:"/)
+  })
+
+  it('unsets a value so the default applies again', async () => {
+    await runCommand(['config', 'set', 'maxFileSizeMB', '5'])
+    await runCommand(['config', 'unset', 'maxFileSizeMB'])
+
+    const {stdout} = await runCommand(['config', 'get', 'maxFileSizeMB'])
+    expect(stdout.trim()).to.equal('1')
+  })
+
+  it('exits with 1 and only a warning for a key that is not set', async () => {
+    const {error, stderr, stdout} = await runCommand(['config', 'get', 'model'])
+    expect(error?.message).to.match(/EEXIT: 1/)
+    expect(stdout).to.match(/model belum diset/)
+    expect(stdout + stderr).not.to.match(/EEXIT/)
+  })
+
+  it('lets a named profile override values from the environment and .env', async () => {
+    await runCommand(['config', 'set', 'model', 'gemini-1.5-pro', '--profile', 'work'])
+    writeFileSync(join(sandbox, '.env'), 'MODEL_NAME=gemini-2.0-flash\n')
+    // Sama seperti yang dilakukan gen saat start: .env dimuat ke process.env
+    dotenv.config({path: join(sandbox, '.env')})
+
+    const work = await runCommand(['config', 'get', 'model', '--profile', 'work'])
+    expect(work.stdout.trim()).to.equal('gemini-1.5-pro')
+
+    const ambient = await runCommand(['config', 'get', 'model'])
+    expect(ambient.stdout.trim()).to.equal('gemini-2.0-flash')
+  })
+
+  it('fails clearly for an unknown profile', async () => {
+    const {error, stdout} = await runCommand(['config', 'list', '--profile', 'nope'])
+    expect(error?.message).to.match(/EEXIT: 1/)
+    expect(stdout).to.match(/Profile "nope" tidak ditemukan/)
+  })
+})
@@ -1,8 +1,11 @@
 import {runCommand} from '@oclif/test'
 import {expect} from 'chai'
-import {existsSync, unlinkSync, writeFileSync} from 'node:fs'
+import {existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, unlinkSync, writeFileSync} from 'node:fs'
+import {tmpdir} from 'node:os'
 import {join} from 'node:path'
 
+import {flakyServer, stallingServer} from '../helpers/servers.js'
+
 describe('fix', () => {
   // Cleanup test files
   afterEach(() => {
@@ -54,4 +57,208 @@ describe('fix', () => {
     const {stdout} = await runCommand('fix --help')
     expect(stdout).to.match(/--history/)
   })
+
+  describe('with the replay provider', () => {
+    const originalEnv = {...process.env}
+    let sandbox: string
+
+    beforeEach(() => {
+      sandbox = mkdtempSync(join(tmpdir(), 'aicli-fix-'))
+      process.env.HOME = sandbox
+      process.env.USERPROFILE = sandbox
+      process.env.AI_FIXTURES_DIR = join(sandbox, 'fixtures')
+      process.env.RETRY_BASE_DELAY = '0'
+      mkdirSync(process.env.AI_FIXTURES_DIR)
+      writeFileSync(
+        join(process.env.AI_FIXTURES_DIR, 'eaddrinuse.json'),
+        JSON.stringify({
+          match: 'EADDRINUSE',
+          response: '1. **Analisis Error:** port 3000 sudah dipakai proses lain.',
+        }),
+      )
+    })
+
+    afterEach(() => {
+      // process.env harus dimutasi, bukan diganti, supaya os.homedir() ikut berubah
+      for (const key of Object.keys(process.env)) {
+        if (!(key in originalEnv)) delete process.env[key]
+      }
+
+      Object.assign(process.env, originalEnv)
+      rmSync(sandbox, {force: true, recursive: true})
+    })
+
+    it('shows the recorded analysis and saves it to history', async () => {
+      const {stdout} = await runCommand(['fix', '--provider', 'replay', 'EADDRINUSE: port 3000 already in use'])
+      expect(stdout).to.match(/port 3000 sudah dipakai/)
+
+      const lines = readFileSync(join(sandbox, '.gen-cli', 'history.jsonl'), 'utf8').trim().split('\n')
+      expect(lines).to.have.length(1)
+      expect(JSON.parse(lines[0])).to.include({
+        command: 'fix',
+        errorMessage: 'EADDRINUSE: port 3000 already in use',
+        status: 'success',
+      })
+    })
+
+    it('streams the analysis live and falls back to a box with --no-stream', async () => {
+      const streamed = await runCommand(['fix', '--provider', 'replay', 'EADDRINUSE'])
+      expect(streamed.stdout).to.match(/port 3000 sudah dipakai/)
+      expect(streamed.stdout).to.not.include('╭')
+
+      const buffered = await runCommand(['fix', '--provider', 'replay', '--no-stream', 'EADDRINUSE'])
+      expect(buffered.stdout).to.match(/port 3000 sudah dipakai/)
+      expect(buffered.stdout).to.include('╭')
+    })
+
+    it('aborts a streaming request on Ctrl+C without applying a partial fix', async () => {
+      const file = join(sandbox, 'app.js')
+      writeFileSync(file, 'consol.log("hi")')
+
+      const {aborted, server, url} = await stallingServer('Typo pada consol.\n```js\nconsole.log(')
+      process.env.OPENAI_BASE_URL = url
+
+      try {
+        const {error, stdout} = await runCommand(['fix', '--provider', 'openai', '--yes', file, 'ReferenceError: consol is not defined'])
+        expect(error?.message).to.match(/EEXIT: 130/)
+        expect(stdout).to.match(/Typo pada consol/)
+        expect(stdout).to.match(/Request dibatalkan \(Ctrl\+C\)/)
+        expect(stdout).not.to.include('console.log(')
+        expect(readFileSync(file, 'utf8')).to.equal('consol.log("hi")')
+        expect(existsSync(`${file}.backup`)).to.equal(false)
+
+        const lines = readFileSync(join(sandbox, '.gen-cli', 'history.jsonl'), 'utf8').trim().split('\n')
+        expect(lines).to.have.length(1)
+        expect(JSON.parse(lines[0])).to.include({command: 'fix', filePath: file, status: 'cancelled'})
+
+        await new Promise(resolve => {
+          setTimeout(resolve, 50)
+        })
+        expect(aborted()).to.equal(true)
+        expect(process.listenerCount('SIGINT')).to.equal(0)
+      } finally {
+        server.closeAllConnections()
+        server.close()
+      }
+    })
+
+    it('tells the user when a retry restarts the stream and shows restored secrets while streaming', async () => {
+      const secret = 'sk-proj-4fK9xQ2mZ7vT1bN8wR3yL6'
+      // Placeholder sengaja dipotong di antara dua chunk
+      const {requests, server, url} = await flakyServer('Analisis yang terputus', ['Key __RED', 'ACTED_1__ bocor di log.\n'])
+      process.env.OPENAI_BASE_URL = url
+
+      try {
+        const {stdout} = await runCommand(['fix', '--provider', 'openai', `Error: token ${secret} ditolak`])
+        expect(requests()).to.equal(2)
+        expect(stdout).to.include('Analisis yang terputus')
+        expect(stdout).to.match(/Respons terputus; analisis di bawah diulang dari awal/)
+        expect(stdout.match(/Hasil Analisis/g)).to.have.length(1)
+        expect(stdout).to.include(`Key ${secret} bocor di log.`)
+        expect(stdout).not.to.include('__REDACTED_')
+      } finally {
+        server.closeAllConnections()
+        server.close()
+      }
+    })
+
+    it('prints the analysis as JSON with --json', async () => {
+      const {stdout} = await runCommand(['fix', '--provider', 'replay', '--json', 'EADDRINUSE'])
+      expect(JSON.parse(stdout)).to.deep.equal({
+        analysis: '1. **Analisis Error:** port 3000 sudah dipakai proses lain.',
+        applied: false,
+        error: 'EADDRINUSE',
+        filePath: null,
+        fixedCode: null,
+        fixType: 'manual',
+      })
+
+      const history = await runCommand(['fix', '--provider', 'replay', '--history', '--json'])
+      expect(JSON.parse(history.stdout).history).to.have.length(1)
+    })
+
+    it('asks for --yes instead of hanging when stdin is not a TTY', async () => {
+      const file = join(sandbox, 'app.js')
+      writeFileSync(file, 'consol.log("hi")')
+      writeFileSync(
+        join(process.env.AI_FIXTURES_DIR!, 'typo.json'),
+        JSON.stringify({match: 'consol is not defined', response: 'Typo.\n```js\nconsole.log("hi")\n```'}),
+      )
+
+      const declined = await runCommand(['fix', '--provider', 'replay', file, 'ReferenceError: consol is not defined'])
+      expect(declined.error?.message).to.match(/EEXIT: 1/)
+      expect(declined.stdout).to.match(/Butuh konfirmasi: .* Gunakan --yes atau --no/)
+      expect(readFileSync(file, 'utf8')).to.equal('consol.log("hi")')
+
+      await runCommand(['fix', '--provider', 'replay', '--yes', file, 'ReferenceError: consol is not defined'])
+      expect(readFileSync(file, 'utf8')).to.equal('console.log("hi")')
+      expect(readFileSync(`${file}.backup`, 'utf8')).to.equal('consol.log("hi")')
+    })
+
+    it('redacts secrets before sending and restores them in the fixed file', async () => {
+      const file = join(sandbox, 'config.js')
+      const secret = 'sk-proj-4fK9xQ2mZ7vT1bN8wR3yL6'
+      writeFileSync(file, `const apiKey = "${secret}"\nconsol.log(apiKey)`)
+      writeFileSync(
+        join(process.env.AI_FIXTURES_DIR!, 'secret.json'),
+        JSON.stringify({
+          match: 'consol is not defined',
+          response: 'Typo.\n```js\nconst apiKey = "__REDACTED_1__"\nconsole.log(apiKey)\n```',
+        }),
+      )
+
+      const {stdout} = await runCommand([
+        'fix',
+        '--provider',
+        'replay',
+        '--show-redactions',
+        '--yes',
+        file,
+        'ReferenceError: consol is not defined',
+      ])
+      expect(stdout).to.match(/1 nilai disamarkan/)
+      expect(stdout).to.match(/__REDACTED_1__\s+openai-key/)
+      expect(stdout).to.include('****3yL6')
+      expect(readFileSync(file, 'utf8')).to.equal(`const apiKey = "${secret}"\nconsole.log(apiKey)`)
+    })
+
+    it('prompts the model and prints messages in English with AI_LANGUAGE=en', async () => {
+      process.env.AI_LANGUAGE = 'en'
+      writeFileSync(
+        join(process.env.AI_FIXTURES_DIR!, 'english.json'),
+        // Hanya cocok dengan prompt versi English
+        JSON.stringify({match: 'Answer in English', response: 'The server at port 5432 refused the connection.'}),
+      )
+
+      const {stdout} = await runCommand(['fix', '--provider', 'replay', 'ECONNREFUSED 127.0.0.1:5432'])
+      expect(stdout).to.match(/📋 Analysis Result:/)
+      expect(stdout).to.match(/refused the connection/)
+
+      process.env.AI_LANGUAGE = 'id'
+      const indonesian = await runCommand(['fix', '--provider', 'replay', 'ECONNREFUSED 127.0.0.1:5432'])
+      expect(indonesian.stdout).to.match(/Tidak ada rekaman/)
+    })
+
+    it('rejects invalid configuration values with a clear error', async () => {
+      process.env.RETRY_ATTEMPTS = 'lots'
+      const {error, stdout} = await runCommand(['fix', '--provider', 'replay', 'EADDRINUSE'])
+      expect(error?.message).to.match(/EEXIT: 1/)
+      expect(stdout).to.match(/retryAttempts \(env\): "lots"/)
+    })
+
+    it('reads settings from a project .aiclirc', async () => {
+      const cwd = process.cwd()
+      writeFileSync(join(sandbox, '.aiclirc'), JSON.stringify({maxFileSizeMB: 0.001, provider: 'replay'}))
+      writeFileSync(join(sandbox, 'big.js'), 'x'.repeat(4096))
+      process.chdir(sandbox)
+
+      try {
+        const {error, stdout} = await runCommand(['fix', 'big.js', 'SyntaxError'])
+        expect(error?.message).to.match(/EEXIT: 1/)
+        expect(stdout).to.match(/File terlalu besar: .* \(max: 0.001 MB\)/)
+      } finally {
+        process.chdir(cwd)
+      }
+    })
+  })
 })
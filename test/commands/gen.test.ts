@@ -0,0 +1,783 @@
+import {runCommand} from '@oclif/test'
+import {expect} from 'chai'
+import {existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, symlinkSync, unlinkSync, writeFileSync} from 'node:fs'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+
+import {scriptPrompts} from '../helpers/prompts.js'
+
+describe('gen', () => {
+  const originalEnv = {...process.env}
+  let sandbox: string
+
+  beforeEach(() => {
+    // Isolasi ~/.gen-cli dan fixtures replay per test
+    sandbox = mkdtempSync(join(tmpdir(), 'aicli-gen-'))
+    process.env.HOME = sandbox
+    process.env.USERPROFILE = sandbox
+    process.env.AI_FIXTURES_DIR = join(sandbox, 'fixtures')
+    process.env.RETRY_BASE_DELAY = '0'
+    mkdirSync(process.env.AI_FIXTURES_DIR)
+  })
+
+  afterEach(() => {
+    // process.env harus dimutasi, bukan diganti, supaya os.homedir() ikut berubah
+    for (const key of Object.keys(process.env)) {
+      if (!(key in originalEnv)) delete process.env[key]
+    }
+
+    Object.assign(process.env, originalEnv)
+    rmSync(sandbox, {force: true, recursive: true})
+  })
+
+  it('shows help with --provider and --model flags', async () => {
+    const {stdout} = await runCommand('gen --help')
+    expect(stdout).to.match(/--provider/)
+    expect(stdout).to.match(/--model/)
+  })
+
+  it('reports a prompt the model refuses to convert', async () => {
+    writeFileSync(
+      join(process.env.AI_FIXTURES_DIR!, 'question.json'),
+      JSON.stringify({match: 'apa itu NextJS', response: '{"error":"Bukan perintah shell","steps":[],"suggestions":[]}'}),
+    )
+
+    const {error, stdout} = await runCommand(['gen', '--provider', 'replay', 'apa itu NextJS'])
+    expect(error?.message).to.match(/EEXIT: 1/)
+    expect(stdout).to.match(/Bukan perintah shell/)
+  })
+
+  it('prints generated commands as JSON without executing them', async () => {
+    writeFileSync(
+      join(process.env.AI_FIXTURES_DIR!, 'list.json'),
+      JSON.stringify({
+        match: 'list files',
+        response: JSON.stringify({
+          steps: [{command: 'ls -la', description: 'Tampilkan semua file', risk: 'low'}],
+          suggestions: ['ls', 'tree'],
+        }),
+      }),
+    )
+
+    const {stdout} = await runCommand(['gen', '--provider', 'replay', '--json', 'list files'])
+    expect(JSON.parse(stdout)).to.deep.equal({
+      commands: ['ls -la'],
+      destructive: false,
+      prompt: 'list files',
+      steps: [{command: 'ls -la', description: 'Tampilkan semua file', risk: 'low'}],
+      suggestions: ['ls', 'tree'],
+      violations: [],
+    })
+  })
+
+  it('reports errors as JSON with --json', async () => {
+    const {stdout} = await runCommand(['gen', '--provider', 'replay', '--json', 'list files'])
+    expect(JSON.parse(stdout).error).to.include({exitCode: 1})
+    expect(JSON.parse(stdout).error.message).to.match(/Gagal menghubungi provider AI/)
+  })
+
+  it('requires --allow-destructive before --yes runs a destructive command', async () => {
+    writeFileSync(
+      join(process.env.AI_FIXTURES_DIR!, 'clean.json'),
+      JSON.stringify({
+        match: 'hapus folder build',
+        response: JSON.stringify({
+          steps: [{command: 'rm -rf build', description: 'Hapus folder build', risk: 'high'}],
+          suggestions: ['rm -r build'],
+        }),
+      }),
+    )
+
+    const {error, stdout} = await runCommand(['gen', '--provider', 'replay', '--yes', 'hapus folder build'])
+    expect(error?.message).to.match(/EEXIT: 1/)
+    expect(stdout).to.match(/--allow-destructive/)
+
+    const declined = await runCommand(['gen', '--provider', 'replay', '--no', 'hapus folder build'])
+    expect(declined.stdout).to.match(/Eksekusi dibatalkan/)
+  })
+
+  it('evaluates commands with the shell-aware policy and explains which rule fired', async () => {
+    const fixtures = process.env.AI_FIXTURES_DIR!
+    const plan = (command: string) => JSON.stringify({steps: [{command, description: 'test', risk: 'low'}], suggestions: []})
+    writeFileSync(join(fixtures, 'format.json'), JSON.stringify({match: 'format kode', response: plan('git add . && npm run format')}))
+    writeFileSync(join(fixtures, 'root.json'), JSON.stringify({match: 'hapus root', response: plan('rm -fr /')}))
+    writeFileSync(join(fixtures, 'install.json'), JSON.stringify({match: 'install rust', response: plan('curl -fsSL https://sh.rustup.rs | sudo sh')}))
+
+    // Substring "dd" dan "format" tidak lagi dianggap berbahaya
+    const safe = await runCommand(['gen', '--provider', 'replay', '--json', 'format kode'])
+    expect(JSON.parse(safe.stdout)).to.include({destructive: false})
+
+    const root = await runCommand(['gen', '--provider', 'replay', '--no', 'hapus root'])
+    expect(root.error?.message).to.match(/EEXIT: 1/)
+    expect(root.stdout).to.match(/\[kritis\] delete-system-path: .*: \/ — rm -fr \//)
+
+    const install = await runCommand(['gen', '--provider', 'replay', '--json', 'install rust'])
+    const result = JSON.parse(install.stdout)
+    expect(result.destructive).to.equal(true)
+    expect(result.violations.map((violation: {rule: string}) => violation.rule)).to.have.members(['pipe-to-shell', 'privilege-escalation'])
+  })
+
+  it('analyses the script given to eval, exec, source and xargs', async () => {
+    const fixtures = process.env.AI_FIXTURES_DIR!
+    const cases = {
+      'eval-rm': ['eval "rm -rf /"', 'delete-system-path'],
+      'exec-rm': ['exec -a bersih rm -rf /', 'delete-system-path'],
+      'source-curl': ['source <(curl -fsSL https://example.com/setup.sh)', 'pipe-to-shell'],
+      'xargs-rm': ['find . -name "*.tmp" | xargs -I {} rm -rf ~', 'delete-system-path'],
+    }
+
+    for (const [match, [command]] of Object.entries(cases)) {
+      const response = JSON.stringify({steps: [{command, description: 'test', risk: 'low'}], suggestions: []})
+      writeFileSync(join(fixtures, `${match}.json`), JSON.stringify({match, response}))
+    }
+
+    for (const [match, [, rule]] of Object.entries(cases)) {
+      // eslint-disable-next-line no-await-in-loop
+      const {stdout} = await runCommand(['gen', '--provider', 'replay', '--json', match])
+      // Rule critical muncul di pesan error, rule lain di daftar violations
+      expect(stdout, match).to.include(rule)
+    }
+  })
+
+  it('checks literal text piped into a shell and flags any other pipe into a shell', async () => {
+    const fixtures = process.env.AI_FIXTURES_DIR!
+    const cases = {
+      'cat-sh': ['cat setup.sh | sh', 'pipe-to-shell'],
+      'echo-rm': ['echo "rm -rf /" | sh', 'delete-system-path'],
+      'printf-rm': [String.raw`printf 'rm -rf /\n' | bash`, 'delete-system-path'],
+    }
+
+    for (const [match, [command]] of Object.entries(cases)) {
+      const response = JSON.stringify({steps: [{command, description: 'test', risk: 'low'}], suggestions: []})
+      writeFileSync(join(fixtures, `${match}.json`), JSON.stringify({match, response}))
+    }
+
+    for (const [match, [, rule]] of Object.entries(cases)) {
+      // eslint-disable-next-line no-await-in-loop
+      const {stdout} = await runCommand(['gen', '--provider', 'replay', '--json', match])
+      expect(stdout, match).to.include(rule)
+    }
+
+    const echoLs = JSON.stringify({steps: [{command: 'echo "ls -la" | sh', description: 'test', risk: 'low'}], suggestions: []})
+    writeFileSync(join(fixtures, 'echo-ls.json'), JSON.stringify({match: 'echo-ls', response: echoLs}))
+    const {stdout} = await runCommand(['gen', '--provider', 'replay', '--json', 'echo-ls'])
+    expect(JSON.parse(stdout)).to.include({destructive: false})
+  })
+
+  it('rates deleting the home folder critical in PowerShell as in bash', async () => {
+    const fixtures = process.env.AI_FIXTURES_DIR!
+    const cases = {'home-bash': 'rm -rf ~', 'home-ps': 'Remove-Item -Recurse -Force ~', 'home-var': 'Remove-Item -Recurse -Force $HOME', 'root-ps': 'Remove-Item -Recurse -Force /'}
+    for (const [match, command] of Object.entries(cases)) {
+      const response = JSON.stringify({steps: [{command, description: 'test', risk: 'low'}], suggestions: []})
+      writeFileSync(join(fixtures, `${match}.json`), JSON.stringify({match, response}))
+    }
+
+    const bash = await runCommand(['gen', '--provider', 'replay', '--json', '--shell', 'bash', 'home-bash'])
+    expect(JSON.parse(bash.stdout).error.message).to.include('delete-system-path')
+
+    for (const match of ['home-ps', 'home-var', 'root-ps']) {
+      // eslint-disable-next-line no-await-in-loop
+      const {stdout} = await runCommand(['gen', '--provider', 'replay', '--json', '--shell', 'powershell', match])
+      expect(JSON.parse(stdout).error.message, match).to.include('delete-system-path')
+    }
+  })
+
+  it('applies policyDeny and policyAllow rules from the config', async () => {
+    const fixtures = process.env.AI_FIXTURES_DIR!
+    const plan = (command: string) => JSON.stringify({steps: [{command, description: 'test', risk: 'low'}], suggestions: []})
+    writeFileSync(join(fixtures, 'destroy.json'), JSON.stringify({match: 'hapus infra', response: plan('terraform destroy -auto-approve')}))
+    writeFileSync(join(fixtures, 'modules.json'), JSON.stringify({match: 'hapus modules', response: plan('rm -rf node_modules')}))
+    process.env.AI_POLICY_DENY = '["critical:terraform destroy*"]'
+    process.env.AI_POLICY_ALLOW = 'rm -rf node_modules'
+
+    const denied = await runCommand(['gen', '--provider', 'replay', '--json', 'hapus infra'])
+    expect(JSON.parse(denied.stdout).error.message).to.match(/Diblokir oleh policy: deny:terraform destroy\*/)
+
+    const allowed = await runCommand(['gen', '--provider', 'replay', '--json', 'hapus modules'])
+    expect(JSON.parse(allowed.stdout)).to.include({destructive: false})
+
+    process.env.AI_POLICY_DENY = 'terraform destroy'
+    const invalid = await runCommand(['gen', '--provider', 'replay', 'hapus infra'])
+    expect(invalid.stdout).to.match(/Rule policyDeny tidak valid: "terraform destroy"/)
+  })
+
+  it('asks the model once more when its answer does not match the schema', async () => {
+    const fixtures = process.env.AI_FIXTURES_DIR!
+    // Fixture dicek urut nama file: jawaban perbaikan harus dicek sebelum jawaban awal
+    writeFileSync(
+      join(fixtures, 'a-repair.json'),
+      JSON.stringify({
+        match: 'steps[0].risk harus salah satu dari',
+        response: '```json\n{"steps":[{"command":"cat <<EOF > notes.txt\\nhalo: dunia\\nEOF","description":"Tulis catatan","risk":"medium"}],"suggestions":[]}\n```',
+      }),
+    )
+    writeFileSync(
+      join(fixtures, 'b-first.json'),
+      JSON.stringify({
+        match: 'tulis catatan',
+        response: '{"steps":[{"command":"echo halo > notes.txt","description":"Tulis catatan","risk":"unknown"}],"suggestions":[]}',
+      }),
+    )
+
+    const {stdout} = await runCommand(['gen', '--provider', 'replay', '--json', 'tulis catatan'])
+    expect(JSON.parse(stdout).commands).to.deep.equal(['cat <<EOF > notes.txt\nhalo: dunia\nEOF'])
+
+    writeFileSync(join(fixtures, 'a-repair.json'), JSON.stringify({match: 'tidak valid', response: 'Maaf, saya tidak yakin.'}))
+    const invalid = await runCommand(['gen', '--provider', 'replay', 'tulis catatan baru'])
+    expect(invalid.error?.message).to.match(/EEXIT: 1/)
+    expect(invalid.stdout).to.match(/tidak sesuai format yang diminta: bukan JSON yang valid/)
+  })
+
+  it('explains each command part and its side effects with --explain', async () => {
+    const fixtures = process.env.AI_FIXTURES_DIR!
+    const command = 'find . -name "*.log" -mtime +7 -delete'
+    writeFileSync(
+      join(fixtures, 'cleanup.json'),
+      JSON.stringify({
+        match: 'hapus log lama',
+        response: JSON.stringify({steps: [{command, description: 'Hapus log lama', risk: 'medium'}], suggestions: []}),
+      }),
+    )
+    writeFileSync(
+      join(fixtures, 'explain.json'),
+      JSON.stringify({
+        match: 'SEBELUM perintah dijalankan',
+        response: JSON.stringify({
+          commands: [
+            {
+              command,
+              parts: [
+                {description: 'Cari file secara rekursif', kind: 'program', text: 'find'},
+                {description: 'Nama file berakhiran .log', kind: 'flag', text: '-name "*.log"'},
+                {description: 'Hapus setiap file yang cocok', kind: 'action', text: '-delete'},
+              ],
+              sideEffects: [{description: 'Menghapus file .log lama di folder ini', kind: 'files'}],
+              summary: 'Menghapus file log yang lebih tua dari 7 hari.',
+            },
+          ],
+        }),
+      }),
+    )
+
+    const {stdout} = await runCommand(['gen', '--provider', 'replay', '--json', '--explain', 'hapus log lama'])
+    const [explanation] = JSON.parse(stdout).explanations
+    expect(explanation.command).to.equal(command)
+    // kind yang tidak dikenal ditampilkan sebagai argumen
+    expect(explanation.parts.map((part: {kind: string}) => part.kind)).to.deep.equal(['program', 'flag', 'argument'])
+
+    const shown = await runCommand(['gen', '--provider', 'replay', '--explain', '--no', 'hapus log lama'])
+    expect(shown.stdout).to.match(/find\s+program\s+Cari file secara rekursif/)
+    expect(shown.stdout).to.match(/Efek samping:[\s\S]*📁 File: Menghapus file .log lama/)
+    expect(shown.stdout).to.match(/Eksekusi dibatalkan/)
+  })
+
+  it('keeps cwd and environment between steps of a multi-step plan', async () => {
+    writeFileSync(
+      join(process.env.AI_FIXTURES_DIR!, 'app.json'),
+      JSON.stringify({
+        match: 'buat folder my-app',
+        response: JSON.stringify({
+          steps: [
+            {command: 'mkdir my-app', description: 'Buat folder', risk: 'low'},
+            {command: 'cd my-app', description: 'Masuk ke folder', risk: 'low'},
+            {command: 'export GREETING=halo', description: 'Set variabel', risk: 'low'},
+            {command: 'echo "$GREETING" > hello.txt', description: 'Tulis file', risk: 'low'},
+          ],
+          suggestions: [],
+        }),
+      }),
+    )
+
+    const cwd = process.cwd()
+    process.env.SHELL = '/bin/bash'
+    process.chdir(sandbox)
+    try {
+      const {stdout} = await runCommand(['gen', '--provider', 'replay', '--yes', 'buat folder my-app'])
+      expect(stdout).to.match(/Step 4\/4/)
+      expect(readFileSync(join(sandbox, 'my-app', 'hello.txt'), 'utf8').trim()).to.equal('halo')
+    } finally {
+      process.chdir(cwd)
+    }
+  })
+
+  it('asks the model to fix a failed step using its output and resumes the plan', async () => {
+    const fixtures = process.env.AI_FIXTURES_DIR!
+    // Rekaman perbaikan dicek lebih dulu: prompt perbaikan juga memuat prompt asli
+    writeFileSync(
+      join(fixtures, 'a-fix.json'),
+      JSON.stringify({
+        match: 'modul config tidak ditemukan',
+        response: JSON.stringify({
+          steps: [
+            {command: 'echo port=3000 > config.txt', description: 'Buat config', risk: 'low'},
+            {command: 'cat config.txt', description: 'Baca config', risk: 'low'},
+          ],
+          suggestions: [],
+        }),
+      }),
+    )
+    writeFileSync(
+      join(fixtures, 'b-plan.json'),
+      JSON.stringify({
+        match: 'siapkan server',
+        response: JSON.stringify({
+          steps: [
+            {command: 'cat config.txt 2>/dev/null || { echo "modul config tidak ditemukan" >&2; false; }', description: 'Baca config', risk: 'low'},
+            {command: 'echo siap > done.txt', description: 'Tandai selesai', risk: 'low'},
+          ],
+          suggestions: [],
+        }),
+      }),
+    )
+
+    const cwd = process.cwd()
+    process.env.SHELL = '/bin/bash'
+    process.chdir(sandbox)
+    try {
+      const {stdout} = await runCommand(['gen', '--provider', 'replay', '--yes', 'siapkan server'])
+      expect(stdout).to.match(/Perbaikan untuk step 1/)
+      expect(stdout).to.match(/Step 3\/3: echo siap > done.txt/)
+      expect(readFileSync(join(sandbox, 'config.txt'), 'utf8').trim()).to.equal('port=3000')
+      expect(readFileSync(join(sandbox, 'done.txt'), 'utf8').trim()).to.equal('siap')
+
+      // --no-repair: langsung berhenti dengan tips seperti sebelumnya
+      rmSync(join(sandbox, 'config.txt'))
+      const {error} = await runCommand(['gen', '--provider', 'replay', '--yes', '--no-repair', 'siapkan server'])
+      expect(error?.message).to.match(/EEXIT: 1/)
+    } finally {
+      process.chdir(cwd)
+    }
+  })
+
+  it('saves multi-step plans and resumes them from the failed step with --resume', async () => {
+    writeFileSync(
+      join(process.env.AI_FIXTURES_DIR!, 'setup.json'),
+      JSON.stringify({
+        match: 'siapkan catatan',
+        response: JSON.stringify({
+          steps: [
+            {command: 'echo satu > a.txt', description: 'Step pertama', risk: 'low'},
+            {command: 'cat syarat.txt', description: 'Butuh file syarat', risk: 'low'},
+            {command: 'echo tiga > c.txt', description: 'Step terakhir', risk: 'low'},
+          ],
+          suggestions: [],
+        }),
+      }),
+    )
+
+    const cwd = process.cwd()
+    process.env.SHELL = '/bin/bash'
+    process.chdir(sandbox)
+    try {
+      const failed = await runCommand(['gen', '--provider', 'replay', '--yes', '--no-repair', 'siapkan catatan'])
+      expect(failed.error?.message).to.match(/EEXIT: 1/)
+      const [, id] = failed.stdout.match(/gen --resume (\w+)/)!
+
+      const saved = await runCommand(['gen', '--provider', 'replay', '--json', '--resume', id])
+      expect(JSON.parse(saved.stdout).plan.steps.map((step: {status: string}) => step.status)).to.deep.equal(['success', 'failed', 'pending'])
+
+      // Tanpa terminal interaktif step yang gagal dijalankan ulang apa adanya
+      writeFileSync(join(sandbox, 'syarat.txt'), 'ada\n')
+      const resumed = await runCommand(['gen', '--provider', 'replay', '--yes', '--resume'])
+      expect(resumed.stdout).to.match(/Step 2\/3: cat syarat.txt/)
+      expect(resumed.stdout).not.to.match(/Step 1\/3/)
+      expect(readFileSync(join(sandbox, 'c.txt'), 'utf8').trim()).to.equal('tiga')
+
+      const none = await runCommand(['gen', '--provider', 'replay', '--resume'])
+      expect(none.stdout).to.match(/Tidak ada plan yang belum selesai/)
+    } finally {
+      process.chdir(cwd)
+    }
+  })
+
+  it('previews file changes in a sandbox without touching the working folder', async () => {
+    const project = join(sandbox, 'project')
+    mkdirSync(project)
+    writeFileSync(join(project, 'data.txt'), 'a\nb\nc\n')
+    writeFileSync(join(project, 'old.txt'), 'lama\n')
+    writeFileSync(
+      join(process.env.AI_FIXTURES_DIR!, 'preview.json'),
+      JSON.stringify({
+        match: 'rapikan data',
+        response: JSON.stringify({
+          steps: [
+            {command: String.raw`printf 'a\nB\nc\n' > data.txt`, description: 'Ubah baris kedua', risk: 'low'},
+            {command: 'rm old.txt', description: 'Hapus file lama', risk: 'medium'},
+            {command: 'echo halo > new.txt', description: 'Buat file baru', risk: 'low'},
+          ],
+          suggestions: [],
+        }),
+      }),
+    )
+
+    const cwd = process.cwd()
+    process.env.SHELL = '/bin/bash'
+    process.chdir(project)
+    try {
+      const {stdout} = await runCommand(['gen', '--provider', 'replay', '--json', '--preview', 'rapikan data'])
+      const {preview} = JSON.parse(stdout)
+      expect(preview.steps.map((step: {exitCode: number}) => step.exitCode)).to.deep.equal([0, 0, 0])
+      expect(preview.changes).to.deep.equal([
+        {diff: ['@@ -1,3 +1,3 @@', ' a', '-b', '+B', ' c'], kind: 'modified', path: 'data.txt'},
+        {diff: ['@@ -0,0 +1,1 @@', '+halo'], kind: 'created', path: 'new.txt'},
+        {kind: 'deleted', path: 'old.txt'},
+      ])
+
+      const shown = await runCommand(['gen', '--provider', 'replay', '--preview', '--no', 'rapikan data'])
+      expect(shown.stdout).to.match(/~ diubah\s+data\.txt/)
+      expect(shown.stdout).to.match(/Eksekusi dibatalkan/)
+      expect(readFileSync(join(project, 'data.txt'), 'utf8')).to.equal('a\nb\nc\n')
+      expect(readFileSync(join(project, 'old.txt'), 'utf8')).to.equal('lama\n')
+    } finally {
+      process.chdir(cwd)
+    }
+  })
+
+  it('refuses to preview through a symlink that points outside the working folder', async () => {
+    const project = join(sandbox, 'project')
+    const outside = join(sandbox, 'outside')
+    mkdirSync(project)
+    mkdirSync(outside)
+    writeFileSync(join(outside, 'secret.txt'), 'asli\n')
+    writeFileSync(join(project, 'data.txt'), 'lama\n')
+    symlinkSync(join(project, 'data.txt'), join(project, 'alias.txt'))
+    symlinkSync(outside, join(project, 'shared'))
+    writeFileSync(
+      join(process.env.AI_FIXTURES_DIR!, 'link.json'),
+      JSON.stringify({
+        match: 'tulis lewat link',
+        response: JSON.stringify({
+          steps: [
+            {command: 'echo baru > alias.txt', description: 'Tulis lewat link di dalam folder', risk: 'low'},
+            {command: 'echo rusak > shared/secret.txt', description: 'Tulis lewat link ke luar', risk: 'low'},
+          ],
+          suggestions: [],
+        }),
+      }),
+    )
+
+    const cwd = process.cwd()
+    process.env.SHELL = '/bin/bash'
+    process.chdir(project)
+    try {
+      const refused = await runCommand(['gen', '--provider', 'replay', '--preview', '--no', 'tulis lewat link'])
+      expect(refused.stderr + refused.stdout).to.match(/Preview gagal: symlink shared menunjuk ke luar folder kerja/)
+      expect(readFileSync(join(outside, 'secret.txt'), 'utf8')).to.equal('asli\n')
+
+      // Tanpa link ke luar, link di dalam folder kerja disalin isinya
+      unlinkSync(join(project, 'shared'))
+      const {stdout} = await runCommand(['gen', '--provider', 'replay', '--json', '--preview', 'tulis lewat link'])
+      const {preview} = JSON.parse(stdout)
+      expect(preview.changes).to.deep.include({diff: ['@@ -1,1 +1,1 @@', '-lama', '+baru'], kind: 'modified', path: 'alias.txt'})
+      expect(readFileSync(join(project, 'data.txt'), 'utf8')).to.equal('lama\n')
+      expect(readFileSync(join(outside, 'secret.txt'), 'utf8')).to.equal('asli\n')
+    } finally {
+      process.chdir(cwd)
+    }
+  })
+
+  it('describes non-Node project stacks, Makefile targets and tools on PATH in the prompt', async () => {
+    const project = join(sandbox, 'project')
+    const bin = join(sandbox, 'bin')
+    mkdirSync(project)
+    mkdirSync(bin)
+    writeFileSync(join(project, 'pyproject.toml'), '[tool.poetry]\nname = "demo"\n')
+    writeFileSync(join(project, 'Makefile'), '.PHONY: test lint\ntest:\n\tpoetry run pytest\nlint:\n\tpoetry run ruff .\n')
+    for (const tool of ['poetry', 'make']) writeFileSync(join(bin, tool), '#!/bin/sh\n', {mode: 0o755})
+    writeFileSync(
+      join(process.env.AI_FIXTURES_DIR!, 'python.json'),
+      JSON.stringify({
+        match: '- Stack project: Python (pyproject.toml, tool: poetry); Make (Makefile, tool: make)\n- Target Makefile: test, lint\n- Tool di PATH: poetry, make\n- Tool TIDAK ada di PATH: git, python3, python',
+        response: JSON.stringify({steps: [{command: 'make test', description: 'Jalankan test', risk: 'low'}], suggestions: []}),
+      }),
+    )
+
+    const cwd = process.cwd()
+    process.env.PATH = bin
+    process.chdir(project)
+    try {
+      const {stdout} = await runCommand(['gen', '--provider', 'replay', '--json', 'jalankan test'])
+      expect(JSON.parse(stdout).commands).to.deep.equal(['make test'])
+    } finally {
+      process.chdir(cwd)
+    }
+  })
+
+  it('saves a successful command as a macro and runs it with placeholders', async () => {
+    writeFileSync(
+      join(process.env.AI_FIXTURES_DIR!, 'greet.json'),
+      JSON.stringify({
+        match: 'tulis salam',
+        response: JSON.stringify({steps: [{command: 'echo halo > salam.txt', description: 'Tulis salam', risk: 'low'}], suggestions: []}),
+      }),
+    )
+
+    const cwd = process.cwd()
+    process.env.SHELL = '/bin/bash'
+    process.chdir(sandbox)
+    try {
+      const saved = await runCommand([
+        'gen', '--provider', 'replay', '--yes', '--save', 'greet', '--placeholder', 'pesan=halo', '--placeholder', 'file=salam.txt', 'tulis salam',
+      ])
+      expect(saved.stdout).to.match(/Disimpan sebagai macro "greet"/)
+
+      const macro = JSON.parse(readFileSync(join(sandbox, '.gen-cli', 'macros', 'greet.json'), 'utf8'))
+      expect(macro).to.include({name: 'greet', prompt: 'tulis salam', shell: 'bash'})
+      expect(macro.steps[0].command).to.equal('echo {{pesan}} > {{file}}')
+
+      // Nilai di-quote sehingga karakter khusus seperti ; tetap bagian dari argumen
+      await runCommand(['macro', 'run', 'greet', '--set', 'pesan=hai;semua', '--set', 'file=out.txt', '--yes'])
+      expect(readFileSync(join(sandbox, 'out.txt'), 'utf8')).to.equal('hai;semua\n')
+
+      const printed = await runCommand(['macro', 'run', 'greet', '--set', 'pesan=hai', '--set', 'file=printed.txt', '--print'])
+      expect(printed.stdout).to.equal('echo hai > printed.txt\n')
+      expect(existsSync(join(sandbox, 'printed.txt'))).to.equal(false)
+
+      const unsupported = await runCommand(['macro', 'run', 'greet', '--save', 'other', '--yes'])
+      expect(unsupported.error?.message).to.match(/EEXIT: 2/)
+      expect(unsupported.stdout + unsupported.stderr).to.match(/--save tidak berlaku/)
+
+      const missing = await runCommand(['macro', 'run', 'greet', '--set', 'pesan=hai', '--yes'])
+      expect(missing.error?.message).to.match(/EEXIT: 1/)
+      expect(missing.stdout + missing.stderr).to.match(/--set file=/)
+
+      const {stdout} = await runCommand(['macro', 'list', '--json'])
+      expect(JSON.parse(stdout).macros.map((entry: {name: string}) => entry.name)).to.deep.equal(['greet'])
+
+      await runCommand(['macro', 'rm', 'greet'])
+      const gone = await runCommand(['macro', 'run', 'greet', '--yes'])
+      expect(gone.stdout + gone.stderr).to.match(/Macro "greet" tidak ditemukan/)
+    } finally {
+      process.chdir(cwd)
+    }
+  })
+
+  it('still treats prompts starting with run, list or rm as prompts', async () => {
+    writeFileSync(
+      join(process.env.AI_FIXTURES_DIR!, 'list-src.json'),
+      JSON.stringify({
+        match: 'User: list files in src',
+        response: JSON.stringify({steps: [{command: 'ls src', description: 'Tampilkan file', risk: 'low'}], suggestions: []}),
+      }),
+    )
+
+    const {error, stdout} = await runCommand(['gen', '--provider', 'replay', '--json', 'list', 'files', 'in', 'src'])
+    expect(error).to.equal(undefined)
+    expect(JSON.parse(stdout)).to.include({prompt: 'list files in src'})
+    expect(JSON.parse(stdout).commands).to.deep.equal(['ls src'])
+  })
+
+  it('prints only the command line for shell integration with --print', async () => {
+    writeFileSync(
+      join(process.env.AI_FIXTURES_DIR!, 'app.json'),
+      JSON.stringify({
+        match: 'buat app baru',
+        response: JSON.stringify({
+          steps: [
+            {command: 'npx create-vite my-app', description: 'Buat project', risk: 'medium'},
+            {command: 'npm install', cwd: 'my-app', description: 'Install', risk: 'medium'},
+            {command: 'npm run dev', cwd: 'my-app', description: 'Jalankan', risk: 'low'},
+          ],
+          suggestions: ['pakai pnpm'],
+        }),
+      }),
+    )
+
+    const {stdout} = await runCommand(['gen', '--provider', 'replay', '--print', '--shell', 'zsh', '--', 'buat app baru'])
+    expect(stdout).to.equal('npx create-vite my-app && cd my-app && npm install && npm run dev\n')
+
+    const powershell = await runCommand(['gen', '--provider', 'replay', '--print', '--shell', 'powershell', '--', 'buat app baru'])
+    expect(powershell.stdout).to.equal('npx create-vite my-app\ncd my-app\nnpm install\nnpm run dev\n')
+  })
+
+  it('logs the full output with exit code and duration, and summarises long output with --summarize', async () => {
+    const fixtures = process.env.AI_FIXTURES_DIR!
+    writeFileSync(
+      join(fixtures, 'count.json'),
+      JSON.stringify({
+        match: 'hitung sampai 30',
+        response: JSON.stringify({steps: [{command: 'seq 1 30', description: 'Cetak angka', risk: 'low'}], suggestions: []}),
+      }),
+    )
+    writeFileSync(
+      join(fixtures, 'summary.json'),
+      JSON.stringify({match: 'PERINTAH: seq 1 30', response: '- Berhasil mencetak angka 1 sampai 30'}),
+    )
+
+    const cwd = process.cwd()
+    process.env.SHELL = '/bin/bash'
+    process.chdir(sandbox)
+    try {
+      const {stdout} = await runCommand(['gen', '--provider', 'replay', '--yes', '--summarize', 'hitung sampai 30'])
+      expect(stdout).to.match(/Ringkasan output:\n.*- Berhasil mencetak angka 1 sampai 30/)
+
+      const [entry] = readFileSync(join(sandbox, '.gen-cli', 'history.jsonl'), 'utf8').trim().split('\n').map(line => JSON.parse(line))
+      expect(entry).to.include({exitCode: 0, shellCommand: 'seq 1 30', status: 'success'})
+      expect(entry.durationMs).to.be.a('number')
+      expect(entry.logFile).to.include(join(sandbox, '.gen-cli', 'logs'))
+      expect(stdout).to.include(entry.logFile)
+
+      const log = readFileSync(entry.logFile, 'utf8')
+      expect(log).to.match(/^\$ seq 1 30\n1\n2\n[\s\S]*\n30\n# exit 0 · /)
+    } finally {
+      process.chdir(cwd)
+    }
+  })
+
+  describe('confirmation menu', () => {
+    let cwd: string
+    let script: ReturnType<typeof scriptPrompts> | undefined
+    const stdoutTTY = process.stdout.isTTY
+
+    beforeEach(() => {
+      cwd = process.cwd()
+      process.env.SHELL = '/bin/bash'
+      delete process.env.EDITOR
+      delete process.env.VISUAL
+      delete process.env.WAYLAND_DISPLAY
+      process.chdir(sandbox)
+      writeFileSync(
+        join(process.env.AI_FIXTURES_DIR!, 'greet.json'),
+        JSON.stringify({
+          match: 'tulis salam',
+          response: JSON.stringify({steps: [{command: 'echo halo > salam.txt', description: 'Tulis salam', risk: 'low'}], suggestions: []}),
+        }),
+      )
+    })
+
+    afterEach(() => {
+      script?.restore()
+      script = undefined
+      process.stdout.isTTY = stdoutTTY
+      process.chdir(cwd)
+    })
+
+    it('runs the edited command and records both the AI and the edited command', async () => {
+      script = scriptPrompts(['edit', 'echo hai > salam.txt', 'yes'])
+      const {error} = await runCommand(['gen', '--provider', 'replay', 'tulis salam'])
+      expect(error).to.equal(undefined)
+
+      expect(script.asked.map(prompt => prompt.type)).to.deep.equal(['select', 'input', 'select'])
+      expect(script.asked[0].choices).to.include.members(['yes', 'edit', 'copy', 'no'])
+      expect(readFileSync(join(sandbox, 'salam.txt'), 'utf8')).to.equal('hai\n')
+
+      const [entry] = readFileSync(join(sandbox, '.gen-cli', 'history.jsonl'), 'utf8').trim().split('\n').map(line => JSON.parse(line))
+      expect(entry).to.include({aiCommand: 'echo halo > salam.txt', exitCode: 0, shellCommand: 'echo hai > salam.txt', status: 'success'})
+    })
+
+    it('explains once when asked from the menu and then asks again without the explain choice', async () => {
+      writeFileSync(
+        join(process.env.AI_FIXTURES_DIR!, 'explain.json'),
+        JSON.stringify({
+          match: 'SEBELUM perintah dijalankan',
+          response: JSON.stringify({
+            commands: [{command: 'echo halo > salam.txt', parts: [], sideEffects: [], summary: 'Menulis halo ke salam.txt.'}],
+          }),
+        }),
+      )
+
+      script = scriptPrompts(['explain', 'yes'])
+      const {error, stdout} = await runCommand(['gen', '--provider', 'replay', 'tulis salam'])
+      expect(error).to.equal(undefined)
+
+      expect(script.asked).to.have.length(2)
+      expect(script.asked[0].choices).to.include('explain')
+      expect(script.asked[1].choices).not.to.include('explain')
+      expect(stdout.match(/Menulis halo ke salam\.txt/g)).to.have.length(1)
+      expect(readFileSync(join(sandbox, 'salam.txt'), 'utf8')).to.equal('halo\n')
+    })
+
+    it('copies the command with a clipboard program', async () => {
+      const bin = join(sandbox, 'bin')
+      mkdirSync(bin)
+      writeFileSync(join(bin, 'xclip'), `#!/bin/sh\ncat > "${join(sandbox, 'clipboard.txt')}"\n`, {mode: 0o755})
+      process.env.PATH = `${bin}:${process.env.PATH}`
+
+      script = scriptPrompts(['copy', 'no'])
+      const {stdout} = await runCommand(['gen', '--provider', 'replay', 'tulis salam'])
+
+      expect(stdout).to.match(/Perintah disalin ke clipboard/)
+      expect(readFileSync(join(sandbox, 'clipboard.txt'), 'utf8')).to.equal('echo halo > salam.txt')
+      expect(existsSync(join(sandbox, 'salam.txt'))).to.equal(false)
+    })
+
+    it('falls back to an OSC 52 escape without a clipboard program', async () => {
+      // PATH tanpa xclip/xsel; shell dipanggil lewat path absolut
+      process.env.PATH = join(sandbox, 'empty')
+      process.stdout.isTTY = true
+
+      script = scriptPrompts(['copy', 'no'])
+      const {stdout} = await runCommand(['gen', '--provider', 'replay', 'tulis salam'])
+
+      expect(stdout).to.include(`\u001B]52;c;${Buffer.from('echo halo > salam.txt').toString('base64')}\u0007`)
+      expect(stdout).to.match(/Perintah disalin ke clipboard/)
+    })
+  })
+
+  describe('refinement', () => {
+    let cwd: string
+    let script: ReturnType<typeof scriptPrompts> | undefined
+
+    beforeEach(() => {
+      cwd = process.cwd()
+      process.env.SHELL = '/bin/bash'
+      process.chdir(sandbox)
+      const plan = (command: string, suggestions: string[]) =>
+        JSON.stringify({steps: [{command, description: 'Catat package manager', risk: 'low'}], suggestions})
+      // Fixture diurutkan per nama file: giliran kedua hanya cocok jika prompt membawa usulan sebelumnya
+      writeFileSync(
+        join(process.env.AI_FIXTURES_DIR!, 'a-refined.json'),
+        JSON.stringify({match: 'Anda (usulan):\n1. echo npm > pm.txt\nUser: pakai yarn', response: plan('echo yarn > pm.txt', [])}),
+      )
+      writeFileSync(join(process.env.AI_FIXTURES_DIR!, 'b-first.json'), JSON.stringify({match: 'pasang dependensi', response: plan('echo npm > pm.txt', ['pakai yarn'])}))
+    })
+
+    afterEach(() => {
+      script?.restore()
+      script = undefined
+      process.chdir(cwd)
+    })
+
+    it('sends the previous proposal with the follow-up and stops after running', async () => {
+      script = scriptPrompts(['refine', 'pakai yarn', 'yes'])
+      const {error} = await runCommand(['gen', '--provider', 'replay', 'pasang dependensi'])
+      expect(error).to.equal(undefined)
+
+      expect(script.asked[0].choices).to.include('refine')
+      expect(script.asked[1].choices).to.deep.equal(['pakai yarn', ''])
+      expect(script.asked).to.have.length(3)
+      expect(readFileSync(join(sandbox, 'pm.txt'), 'utf8')).to.equal('yarn\n')
+
+      const [entry] = readFileSync(join(sandbox, '.gen-cli', 'history.jsonl'), 'utf8').trim().split('\n').map(line => JSON.parse(line))
+      expect(entry).to.include({prompt: 'pasang dependensi → pakai yarn', shellCommand: 'echo yarn > pm.txt'})
+    })
+
+    it('stops when the refined proposal is cancelled', async () => {
+      script = scriptPrompts(['refine', '', 'pakai yarn', 'no'])
+      const {stdout} = await runCommand(['gen', '--provider', 'replay', 'pasang dependensi'])
+
+      expect(script.asked.map(prompt => prompt.type)).to.deep.equal(['select', 'select', 'input', 'select'])
+      expect(stdout).to.match(/echo yarn > pm\.txt/)
+      expect(stdout).to.match(/Eksekusi dibatalkan/)
+      expect(existsSync(join(sandbox, 'pm.txt'))).to.equal(false)
+    })
+
+    it('never asks for a follow-up with --json or --no-input', async () => {
+      script = scriptPrompts([])
+
+      const json = await runCommand(['gen', '--provider', 'replay', '--json', 'pasang dependensi'])
+      expect(JSON.parse(json.stdout).commands).to.deep.equal(['echo npm > pm.txt'])
+
+      const {error} = await runCommand(['gen', '--provider', 'replay', '--no-input', '--yes', 'pasang dependensi'])
+      expect(error).to.equal(undefined)
+      expect(readFileSync(join(sandbox, 'pm.txt'), 'utf8')).to.equal('npm\n')
+      expect(script.asked).to.deep.equal([])
+    })
+  })
+
+  it('fails clearly when no recording matches the prompt', async () => {
+    const {error, stdout} = await runCommand(['gen', '--provider', 'replay', 'list files'])
+    expect(error?.message).to.match(/EEXIT: 1/)
+    expect(stdout).to.match(/Tidak ada rekaman/)
+  })
+})
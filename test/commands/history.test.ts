@@ -0,0 +1,92 @@
+import {runCommand} from '@oclif/test'
+import {expect} from 'chai'
+import {existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync} from 'node:fs'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+
+import {HistoryStore} from '../../src/utills/history.js'
+
+async function ids(...args: string[]): Promise<string[]> {
+  const {stdout} = await runCommand(['history', '--json', ...args])
+  return (JSON.parse(stdout).history as {id: string}[]).map(entry => entry.id)
+}
+
+describe('history', () => {
+  const originalEnv = {...process.env}
+  let sandbox: string
+  let configDir: string
+
+  beforeEach(() => {
+    sandbox = mkdtempSync(join(tmpdir(), 'aicli-history-'))
+    configDir = join(sandbox, '.gen-cli')
+    process.env.HOME = sandbox
+    process.env.USERPROFILE = sandbox
+    mkdirSync(configDir)
+
+    const entries = [
+      {aiCommand: 'docker image ls', command: 'gen', id: 'a1', prompt: 'list docker images', shellCommand: 'docker images', status: 'success', timestamp: '2025-01-01T10:00:00.000Z'},
+      {command: 'fix', errorMessage: 'EADDRINUSE: port 3000', id: 'b2', status: 'failed', timestamp: '2025-02-01T10:00:00.000Z'},
+      {command: 'review', filePath: 'src/components/Navbar.jsx', id: 'c3', issuesFound: 3, status: 'success', timestamp: '2025-03-01T10:00:00.000Z'},
+    ]
+    writeFileSync(join(configDir, 'history.jsonl'), entries.map(entry => JSON.stringify(entry) + '\n').join(''))
+  })
+
+  afterEach(() => {
+    // process.env harus dimutasi, bukan diganti, supaya os.homedir() ikut berubah
+    for (const key of Object.keys(process.env)) {
+      if (!(key in originalEnv)) delete process.env[key]
+    }
+
+    Object.assign(process.env, originalEnv)
+    rmSync(sandbox, {force: true, recursive: true})
+  })
+
+  it('filters by command, status, date, path and full-text search', async () => {
+    expect(await ids()).to.deep.equal(['c3', 'b2', 'a1'])
+    expect(await ids('--command', 'fix')).to.deep.equal(['b2'])
+    expect(await ids('--status', 'success', '--since', '2025-02-15')).to.deep.equal(['c3'])
+    expect(await ids('--until', '2025-02-01')).to.deep.equal(['b2', 'a1'])
+    expect(await ids('--until', '2025-02-01T09:00:00Z')).to.deep.equal(['a1'])
+    expect(await ids('--path', 'components')).to.deep.equal(['c3'])
+    expect(await ids('--search', 'DOCKER')).to.deep.equal(['a1'])
+    expect(await ids('--search', 'ls')).to.deep.equal(['a1'])
+  })
+
+  it('exports to CSV', async () => {
+    const output = join(sandbox, 'history.csv')
+    await runCommand(['history', '--export', 'csv', '--output', output])
+
+    const [header, ...rows] = readFileSync(output, 'utf8').trim().split('\n')
+    expect(header).to.match(/^id,timestamp,command,status,/)
+    expect(rows).to.have.length(3)
+    expect(rows[2]).to.match(/^a1,.*,gen,success,,list docker images,docker images,/)
+    expect(rows[2]).to.match(/,docker image ls,,,$/)
+  })
+
+  it('migrates the legacy per-command history files once', async () => {
+    rmSync(join(configDir, 'history.jsonl'))
+    writeFileSync(
+      join(configDir, 'fix-history.json'),
+      JSON.stringify([{errorMessage: 'TypeError', filePath: 'app.js', fixType: 'manual', success: true, timestamp: '2024-12-01T00:00:00.000Z'}]),
+    )
+
+    const {stdout} = await runCommand(['history', '--json'])
+    expect(JSON.parse(stdout).history[0]).to.include({command: 'fix', errorMessage: 'TypeError', status: 'success'})
+    expect(existsSync(join(configDir, 'fix-history.json'))).to.equal(false)
+    expect(existsSync(join(configDir, 'fix-history.json.migrated'))).to.equal(true)
+  })
+
+  it('compacts the file once it grows past the retention limit', () => {
+    const store = new HistoryStore({historyMaxEntries: 2, historyRetentionDays: 0})
+    store.append({command: 'gen', prompt: 'satu', status: 'success'})
+
+    expect(readFileSync(join(configDir, 'history.jsonl'), 'utf8').trim().split('\n')).to.have.length(2)
+  })
+
+  it('prunes entries beyond the configured retention', async () => {
+    process.env.HISTORY_MAX_ENTRIES = '1'
+    const {stdout} = await runCommand(['history', '--prune', '--json'])
+    expect(JSON.parse(stdout)).to.deep.equal({pruned: 2})
+    expect(readFileSync(join(configDir, 'history.jsonl'), 'utf8').trim().split('\n')).to.have.length(1)
+  })
+})
@@ -0,0 +1,128 @@
+import {runCommand} from '@oclif/test'
+import {expect} from 'chai'
+import {existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync} from 'node:fs'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+
+import {stallingServer} from '../helpers/servers.js'
+
+const ORIGINAL = 'export const Navbar = () => <nav><button>x</button></nav>\n'
+const IMPROVED = 'export const Navbar = () => <nav><button aria-label="Tutup">x</button></nav>'
+const RESPONSE = [
+  '## 🔴 TOP 2 CRITICAL ISSUES',
+  '1. Tombol tanpa label aksesibel',
+  '2. Navigasi tanpa landmark yang jelas',
+  '',
+  '```jsx',
+  IMPROVED,
+  '```',
+].join('\n')
+
+describe('review', () => {
+  const originalEnv = {...process.env}
+  let sandbox: string
+  let file: string
+
+  beforeEach(() => {
+    sandbox = mkdtempSync(join(tmpdir(), 'aicli-review-'))
+    process.env.HOME = sandbox
+    process.env.USERPROFILE = sandbox
+    process.env.AI_FIXTURES_DIR = join(sandbox, 'fixtures')
+    process.env.RETRY_BASE_DELAY = '0'
+    mkdirSync(process.env.AI_FIXTURES_DIR)
+    writeFileSync(join(process.env.AI_FIXTURES_DIR, 'navbar.json'), JSON.stringify({match: '<button>x</button>', response: RESPONSE}))
+
+    file = join(sandbox, 'Navbar.jsx')
+    writeFileSync(file, ORIGINAL)
+  })
+
+  afterEach(() => {
+    // process.env harus dimutasi, bukan diganti, supaya os.homedir() ikut berubah
+    for (const key of Object.keys(process.env)) {
+      if (!(key in originalEnv)) delete process.env[key]
+    }
+
+    Object.assign(process.env, originalEnv)
+    rmSync(sandbox, {force: true, recursive: true})
+  })
+
+  function history(): Record<string, unknown>[] {
+    return readFileSync(join(sandbox, '.gen-cli', 'history.jsonl'), 'utf8').trim().split('\n').map(line => JSON.parse(line))
+  }
+
+  it('streams the review live, applies it with --yes and keeps a backup', async () => {
+    const {stdout} = await runCommand(['review', '--provider', 'replay', '--yes', file])
+    expect(stdout.match(/Tombol tanpa label aksesibel/g)).to.have.length(1)
+    expect(stdout).to.match(/Review Results/)
+    expect(readFileSync(file, 'utf8')).to.equal(IMPROVED)
+    expect(readFileSync(`${file}.backup`, 'utf8')).to.equal(ORIGINAL)
+    expect(history()[0]).to.include({command: 'review', fileType: 'React', issuesFound: 2, status: 'success'})
+  })
+
+  it('shows the analysis in a box with --no-stream and skips the backup with --no-backup', async () => {
+    const {stdout} = await runCommand(['review', '--provider', 'replay', '--no-stream', '--no-backup', '--yes', file])
+    expect(stdout.match(/Tombol tanpa label aksesibel/g)).to.have.length(1)
+    expect(stdout).to.match(/╭[\s\S]*Tombol tanpa label aksesibel/)
+    expect(readFileSync(file, 'utf8')).to.equal(IMPROVED)
+    expect(existsSync(`${file}.backup`)).to.equal(false)
+  })
+
+  it('prints the review as JSON with --json and leaves the file alone without --yes', async () => {
+    const {stdout} = await runCommand(['review', '--provider', 'replay', '--json', file])
+    expect(JSON.parse(stdout)).to.deep.equal({
+      analysis: '## 🔴 TOP 2 CRITICAL ISSUES\n1. Tombol tanpa label aksesibel\n2. Navigasi tanpa landmark yang jelas',
+      applied: false,
+      filePath: file,
+      fileType: 'React',
+      improvedCode: IMPROVED,
+      issues: ['Tombol tanpa label aksesibel', 'Navigasi tanpa landmark yang jelas'],
+    })
+    expect(readFileSync(file, 'utf8')).to.equal(ORIGINAL)
+  })
+
+  it('redacts secrets before sending and restores them in the reviewed file', async () => {
+    const secret = 'sk-proj-4fK9xQ2mZ7vT1bN8wR3yL6'
+    writeFileSync(file, `const apiKey = "${secret}"\nfetch(url, {headers: {key: apiKey}})\n`)
+    writeFileSync(
+      join(process.env.AI_FIXTURES_DIR!, 'secret.json'),
+      JSON.stringify({
+        match: 'headers: {key: apiKey}',
+        response: 'Key __REDACTED_1__ tertulis langsung di kode.\n```jsx\nconst apiKey = "__REDACTED_1__"\nfetch(url, {headers: {key: apiKey}, method: "GET"})\n```',
+      }),
+    )
+
+    const {stdout} = await runCommand(['review', '--provider', 'replay', '--yes', file])
+    expect(stdout).to.include(`Key ${secret} tertulis langsung di kode.`)
+    expect(stdout).not.to.include('__REDACTED_')
+    expect(readFileSync(file, 'utf8')).to.equal(`const apiKey = "${secret}"\nfetch(url, {headers: {key: apiKey}, method: "GET"})`)
+  })
+
+  it('cancels a streaming review on Ctrl+C without touching the file', async () => {
+    const {server, url} = await stallingServer('## 🔴 TOP 1 CRITICAL ISSUES\n1. Tombol')
+    process.env.OPENAI_BASE_URL = url
+
+    try {
+      const {error, stdout} = await runCommand(['review', '--provider', 'openai', '--yes', file])
+      expect(error?.message).to.match(/EEXIT: 130/)
+      expect(stdout).to.match(/Review dibatalkan \(Ctrl\+C\)/)
+      expect(readFileSync(file, 'utf8')).to.equal(ORIGINAL)
+      expect(existsSync(`${file}.backup`)).to.equal(false)
+      expect(history()[0]).to.include({command: 'review', filePath: file, status: 'cancelled'})
+    } finally {
+      server.closeAllConnections()
+      server.close()
+    }
+  })
+
+  it('exits non-zero when the provider fails, with and without --json', async () => {
+    rmSync(join(process.env.AI_FIXTURES_DIR!, 'navbar.json'))
+
+    const text = await runCommand(['review', '--provider', 'replay', file])
+    expect(text.error?.message).to.match(/EEXIT: 1/)
+    expect(text.stdout).to.match(/Tidak ada rekaman/)
+
+    const json = await runCommand(['review', '--provider', 'replay', '--json', file])
+    expect(JSON.parse(json.stdout).error.exitCode).to.equal(1)
+    expect(history().map(entry => entry.status)).to.deep.equal(['failed', 'failed'])
+  })
+})
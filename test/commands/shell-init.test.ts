@@ -0,0 +1,22 @@
+import {runCommand} from '@oclif/test'
+import {expect} from 'chai'
+import {spawnSync} from 'node:child_process'
+
+describe('shell-init', () => {
+  it('prints a bash function bound to Ctrl+G that replaces the readline buffer', async () => {
+    const {stdout} = await runCommand(['shell-init', 'bash'])
+    expect(stdout).to.match(/gen --print --shell bash -- "\$READLINE_LINE"/)
+    expect(stdout).to.match(/bind -x '"\\C-g": _aicli_gen'/)
+    expect(spawnSync('bash', ['-n'], {input: stdout}).status).to.equal(0)
+  })
+
+  it('prints a zle widget for zsh and a PSReadLine handler for PowerShell', async () => {
+    const zsh = await runCommand(['shell-init', 'zsh'])
+    expect(zsh.stdout).to.match(/zle -N _aicli_gen/)
+    expect(zsh.stdout).to.match(/bindkey '\^G' _aicli_gen/)
+
+    const powershell = await runCommand(['shell-init', 'powershell'])
+    expect(powershell.stdout).to.match(/Set-PSReadLineKeyHandler -Chord 'Ctrl\+g'/)
+    expect(powershell.stdout).to.match(/PSConsoleReadLine\]::Replace/)
+  })
+})
@@ -0,0 +1,115 @@
+import {runCommand} from '@oclif/test'
+import {expect} from 'chai'
+import {mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync} from 'node:fs'
+import {createServer} from 'node:http'
+import {AddressInfo} from 'node:net'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+
+describe('usage', () => {
+  const originalEnv = {...process.env}
+  let sandbox: string
+
+  beforeEach(() => {
+    sandbox = mkdtempSync(join(tmpdir(), 'aicli-usage-'))
+    process.env.HOME = sandbox
+    process.env.USERPROFILE = sandbox
+    process.env.AI_FIXTURES_DIR = join(sandbox, 'fixtures')
+    process.env.RETRY_BASE_DELAY = '0'
+    // 1 token ≈ 4 karakter untuk provider tanpa laporan token; $1000 per 1 juta token supaya biayanya terlihat
+    process.env.AI_PRICING = 'replay=1000/2000'
+    mkdirSync(process.env.AI_FIXTURES_DIR)
+    writeFileSync(
+      join(process.env.AI_FIXTURES_DIR, 'eaddrinuse.json'),
+      JSON.stringify({match: 'EADDRINUSE', response: 'Port 3000 dipakai.'}),
+    )
+  })
+
+  afterEach(() => {
+    for (const key of Object.keys(process.env)) {
+      if (!(key in originalEnv)) delete process.env[key]
+    }
+
+    Object.assign(process.env, originalEnv)
+    rmSync(sandbox, {force: true, recursive: true})
+  })
+
+  it('records every model call and summarises it by command, project and day', async () => {
+    await runCommand(['fix', '--provider', 'replay', 'EADDRINUSE'])
+    // Jawaban dari cache tidak memanggil model, jadi tidak dihitung
+    await runCommand(['fix', '--provider', 'replay', 'EADDRINUSE'])
+
+    const [record] = readFileSync(join(sandbox, '.gen-cli', 'usage.jsonl'), 'utf8').trim().split('\n').map(line => JSON.parse(line))
+    expect(record).to.include({command: 'fix', estimated: true, model: 'replay', outputTokens: 5, provider: 'replay'})
+    expect(record.cost).to.be.closeTo((record.inputTokens * 1000 + 5 * 2000) / 1_000_000, 1e-9)
+
+    const {stdout} = await runCommand(['usage', '--json'])
+    const report = JSON.parse(stdout)
+    expect(report.total).to.deep.include({outputTokens: 5, requests: 1})
+    expect(report.byCommand.map((row: {key: string}) => row.key)).to.deep.equal(['fix'])
+    expect(report.byProject).to.have.length(1)
+    expect(report.byDay).to.have.length(1)
+
+    const filtered = await runCommand(['usage', '--command', 'review', '--json'])
+    expect(JSON.parse(filtered.stdout).total.requests).to.equal(0)
+  })
+
+  it('does not send MODEL_NAME to a provider chosen by a higher config layer', async () => {
+    process.env.MODEL_NAME = 'gemini-1.5-pro'
+    await runCommand(['fix', '--provider', 'replay', 'EADDRINUSE'])
+
+    process.env.AI_MODELS = 'replay=replay-v2'
+    await runCommand(['fix', '--provider', 'replay', '--no-cache', 'EADDRINUSE'])
+
+    // Model eksplisit tetap menang
+    await runCommand(['fix', '--provider', 'replay', '--model', 'replay-v3', '--no-cache', 'EADDRINUSE'])
+
+    const records = readFileSync(join(sandbox, '.gen-cli', 'usage.jsonl'), 'utf8').trim().split('\n').map(line => JSON.parse(line))
+    expect(records.map(record => record.model)).to.deep.equal(['replay', 'replay-v2', 'replay-v3'])
+  })
+
+  it('shows n/a instead of $0 for a paid model without a price', async () => {
+    const server = createServer((_request, response) => {
+      response.writeHead(200, {'Content-Type': 'application/json'})
+      // eslint-disable-next-line camelcase
+      response.end(JSON.stringify({choices: [{message: {content: 'Port 3000 dipakai.'}}], usage: {completion_tokens: 5, prompt_tokens: 100}}))
+    })
+    await new Promise<void>(resolve => {
+      server.listen(0, '127.0.0.1', resolve)
+    })
+    process.env.OPENAI_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`
+
+    try {
+      const fixed = await runCommand(['fix', '--provider', 'openai', '--model', 'my-model', '--no-stream', 'EADDRINUSE'])
+      expect(fixed.stdout).to.match(/Harga model my-model belum diketahui/)
+      await runCommand(['fix', '--provider', 'replay', 'EADDRINUSE'])
+    } finally {
+      server.close()
+    }
+
+    const report = JSON.parse((await runCommand(['usage', '--json'])).stdout)
+    expect(report.total).to.include({requests: 2, unpriced: 1})
+    expect(report.byModel.find((row: {key: string}) => row.key === 'openai/my-model')).to.include({cost: 0, unpriced: 1})
+
+    const {stdout} = await runCommand(['usage'])
+    expect(stdout).to.match(/openai\/my-model .* n\/a\n/)
+    expect(stdout).to.match(/Total .* \$\d+\.\d{4} \+ n\/a/)
+    expect(stdout).to.match(/n\/a: harga model my-model belum diketahui/)
+  })
+
+  it('blocks requests once the monthly budget is spent', async () => {
+    process.env.AI_MONTHLY_BUDGET = '0.001'
+    process.env.AI_BUDGET_ACTION = 'block'
+
+    await runCommand(['fix', '--provider', 'replay', 'EADDRINUSE'])
+    const {error, stdout} = await runCommand(['fix', '--provider', 'replay', '--no-cache', 'EADDRINUSE: again'])
+
+    expect(stdout).to.match(/Budget bulanan \$0\.00 sudah terpakai/)
+    expect(stdout).to.not.match(/Attempt 1 failed/)
+    expect(error).to.equal(undefined)
+
+    const report = JSON.parse((await runCommand(['usage', '--json'])).stdout)
+    expect(report.total.requests).to.equal(1)
+    expect(report.budget).to.include({action: 'block', limit: 0.001})
+  })
+})
@@ -0,0 +1,2 @@
+// Pesan CLI di test selalu Bahasa Indonesia, apa pun LANG di mesin yang menjalankan test
+process.env.AI_LANGUAGE = 'id'
@@ -0,0 +1,44 @@
+import {prompts} from '../../src/utills/prompter.js'
+
+type PromptName = keyof typeof prompts
+
+export interface AskedPrompt {
+  choices: string[]
+  message: string
+  type: PromptName
+}
+
+/**
+ * Jawab prompt interaktif secara berurutan tanpa terminal: stdin dianggap TTY dan setiap
+ * confirm/editor/input/password/select mengambil jawaban berikutnya. Prompt yang tidak diharapkan
+ * membuat command gagal. Panggil restore() di akhir test.
+ */
+export function scriptPrompts(answers: unknown[]): {asked: AskedPrompt[]; restore(): void} {
+  const original = {...prompts}
+  const {isTTY} = process.stdin
+  const asked: AskedPrompt[] = []
+  const queue = [...answers]
+
+  const answer = (type: PromptName) => async (config: {choices?: Array<{value: string}>; message: string}) => {
+    asked.push({choices: (config.choices ?? []).map(choice => choice.value), message: config.message, type})
+    if (queue.length === 0) throw new Error(`Prompt tidak terduga: ${config.message}`)
+    return queue.shift()
+  }
+
+  Object.assign(prompts, {
+    confirm: answer('confirm'),
+    editor: answer('editor'),
+    input: answer('input'),
+    password: answer('password'),
+    select: answer('select'),
+  })
+  process.stdin.isTTY = true
+
+  return {
+    asked,
+    restore() {
+      Object.assign(prompts, original)
+      process.stdin.isTTY = isTTY
+    },
+  }
+}
@@ -0,0 +1,52 @@
+import {createServer, Server} from 'node:http'
+import {AddressInfo} from 'node:net'
+
+/**
+ * Server OpenAI-compatible yang mengirim satu chunk streaming lalu diam, dan menekan Ctrl+C
+ * (SIGINT) sesaat kemudian. aborted() true setelah client memutus koneksi.
+ */
+export async function stallingServer(content: string): Promise<{aborted(): boolean; server: Server; url: string}> {
+  let closed = false
+  const server = createServer((request, response) => {
+    response.writeHead(200, {'Content-Type': 'text/event-stream'})
+    response.write(`data: ${JSON.stringify({choices: [{delta: {content}}]})}\n\n`)
+    request.socket.on('close', () => {
+      closed = true
+    })
+    setTimeout(() => process.emit('SIGINT'), 100)
+  })
+
+  await new Promise<void>(resolve => {
+    server.listen(0, '127.0.0.1', resolve)
+  })
+
+  return {aborted: () => closed, server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`}
+}
+
+/**
+ * Server OpenAI-compatible yang memutus request pertama setelah satu chunk, lalu menjawab
+ * request berikutnya dengan `chunks` secara lengkap. requests() menghitung request yang masuk.
+ */
+export async function flakyServer(partial: string, chunks: string[]): Promise<{requests(): number; server: Server; url: string}> {
+  let count = 0
+  const server = createServer((_request, response) => {
+    count++
+    response.writeHead(200, {'Content-Type': 'text/event-stream'})
+    const send = (content: string) => response.write(`data: ${JSON.stringify({choices: [{delta: {content}}]})}\n\n`)
+
+    if (count === 1) {
+      send(partial)
+      setTimeout(() => response.destroy(), 50)
+      return
+    }
+
+    for (const content of chunks) send(content)
+    response.end('data: [DONE]\n\n')
+  })
+
+  await new Promise<void>(resolve => {
+    server.listen(0, '127.0.0.1', resolve)
+  })
+
+  return {requests: () => count, server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`}
+}